@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { LogIn, LogOut, User } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useI18n } from '@/hooks/useI18n';
+import LoginDialog from './LoginDialog';
+
+/**
+ * Header control: a sign-in button when signed out, the account menu when signed in
+ */
+const AccountMenu: React.FC = () => {
+  const { user, isLoading, logout } = useAuth();
+  const { toast } = useToast();
+  const { t } = useI18n();
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  if (isLoading) return null;
+
+  if (!user) {
+    return (
+      <>
+        <Button variant="outline" size="sm" onClick={() => setDialogOpen(true)}>
+          <LogIn className="h-4 w-4 me-2" /> {t('account.signIn')}
+        </Button>
+        <LoginDialog open={dialogOpen} onOpenChange={setDialogOpen} />
+      </>
+    );
+  }
+
+  const handleLogout = async () => {
+    try {
+      await logout();
+    } catch (error) {
+      console.error('Sign out error:', error);
+      toast({ title: t('account.signOutFailed'), description: t('common.retry'), variant: 'destructive' } as any);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <User className="h-4 w-4 me-2" /> {user.username}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>{t('account.signedInAs', { username: user.username })}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={handleLogout}>
+          <LogOut className="h-4 w-4 me-2" /> {t('account.signOut')}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default AccountMenu;
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useI18n } from '@/hooks/useI18n';
+
+type Mode = 'login' | 'register';
+
+interface LoginDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Starts on the register tab when set
+  initialMode?: Mode;
+}
+
+const LoginDialog: React.FC<LoginDialogProps> = ({ open, onOpenChange, initialMode = 'login' }) => {
+  const { login, register } = useAuth();
+  const { toast } = useToast();
+  const { t, language } = useI18n();
+  const [mode, setMode] = useState<Mode>(initialMode);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setPassword('');
+      setError(null);
+    }
+    onOpenChange(next);
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const user = mode === 'login'
+        ? await login({ username, password })
+        : await register({ username, password, language });
+      toast({ title: t(mode === 'login' ? 'auth.welcomeBack' : 'auth.created', { username: user.username }) } as any);
+      handleOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('auth.failed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{mode === 'login' ? t('auth.signIn') : t('auth.createAccountTitle')}</DialogTitle>
+          <DialogDescription>{t('auth.description')}</DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={mode} onValueChange={(v) => { setMode(v as Mode); setError(null); }}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="login">{t('auth.signIn')}</TabsTrigger>
+            <TabsTrigger value="register">{t('auth.register')}</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <form onSubmit={submit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="auth-username">{t('auth.username')}</Label>
+            <Input
+              id="auth-username"
+              autoComplete="username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="auth-password">{t('auth.password')}</Label>
+            <Input
+              id="auth-password"
+              type="password"
+              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+            />
+            {mode === 'register' && (
+              <p className="text-xs text-muted-foreground">{t('auth.passwordHint')}</p>
+            )}
+          </div>
+          {error && <div role="alert" className="text-sm text-red-600">{error}</div>}
+          <Button type="submit" className="w-full" disabled={submitting}>
+            {submitting ? t('auth.wait') : mode === 'login' ? t('auth.signIn') : t('auth.createAccount')}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LoginDialog;
@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { usePortfolio } from '@/hooks/usePortfolio';
+import { useToast } from '@/hooks/use-toast';
+import { useI18n } from '@/hooks/useI18n';
+
+interface AddHoldingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  propertyId: string;
+  buildingName: string;
+  // Prefilled from the details panel when a specific unit is open
+  label?: string;
+  sizeSqft?: number;
+  valueAED?: number;
+}
+
+const numberOrZero = (value: string) => (value.trim() === '' ? 0 : Number(value));
+
+const AddHoldingDialog: React.FC<AddHoldingDialogProps> = ({ open, onOpenChange, propertyId, buildingName, label, sizeSqft, valueAED }) => {
+  const { add, isSaving } = usePortfolio();
+  const { toast } = useToast();
+  const { t } = useI18n();
+  const [unitLabel, setUnitLabel] = useState('');
+  const [size, setSize] = useState('');
+  const [purchaseDate, setPurchaseDate] = useState('');
+  const [price, setPrice] = useState('');
+  const [loan, setLoan] = useState('');
+  const [rate, setRate] = useState('4.5');
+  const [term, setTerm] = useState('25');
+  const [rent, setRent] = useState('');
+  const [serviceCharges, setServiceCharges] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setUnitLabel(label ?? '');
+    setSize(sizeSqft ? String(sizeSqft) : '');
+    setPrice(valueAED ? String(valueAED) : '');
+    setError(null);
+  }, [open, label, sizeSqft, valueAED]);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await add({
+        propertyId,
+        label: unitLabel.trim() || null,
+        sizeSqft: Number(size),
+        purchaseDate,
+        purchasePriceAED: Number(price),
+        loanAmountAED: numberOrZero(loan),
+        interestRate: numberOrZero(rate),
+        loanTermYears: Number(term) || 25,
+        annualRentAED: numberOrZero(rent),
+        annualServiceChargesAED: numberOrZero(serviceCharges),
+      });
+      toast({ title: t('addHolding.added'), description: buildingName } as any);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('addHolding.failed'));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('addHolding.title')}</DialogTitle>
+          <DialogDescription>
+            {t('addHolding.description', { building: buildingName })}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={submit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="holding-label">{t('addHolding.unit')}</Label>
+              <Input id="holding-label" value={unitLabel} onChange={(e) => setUnitLabel(e.target.value)} placeholder={t('addHolding.unitPlaceholder')} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="holding-size">{t('addHolding.size')}</Label>
+              <Input id="holding-size" type="number" min={1} value={size} onChange={(e) => setSize(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="holding-date">{t('addHolding.purchaseDate')}</Label>
+              <Input id="holding-date" type="date" value={purchaseDate} onChange={(e) => setPurchaseDate(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="holding-price">{t('addHolding.purchasePrice')}</Label>
+              <Input id="holding-price" type="number" min={1} value={price} onChange={(e) => setPrice(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="holding-loan">{t('addHolding.mortgage')}</Label>
+              <Input id="holding-loan" type="number" min={0} value={loan} onChange={(e) => setLoan(e.target.value)} placeholder="0" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="holding-rate">{t('addHolding.rateTerm')}</Label>
+              <div className="flex gap-2">
+                <Input id="holding-rate" type="number" min={0} max={30} step="0.01" value={rate} onChange={(e) => setRate(e.target.value)} />
+                <Input aria-label={t('addHolding.loanTerm')} type="number" min={1} max={35} value={term} onChange={(e) => setTerm(e.target.value)} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="holding-rent">{t('addHolding.rent')}</Label>
+              <Input id="holding-rent" type="number" min={0} value={rent} onChange={(e) => setRent(e.target.value)} placeholder="0" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="holding-service">{t('addHolding.serviceCharges')}</Label>
+              <Input id="holding-service" type="number" min={0} value={serviceCharges} onChange={(e) => setServiceCharges(e.target.value)} placeholder="0" />
+            </div>
+          </div>
+          {error && <div role="alert" className="text-sm text-red-600">{error}</div>}
+          <Button type="submit" className="w-full" disabled={isSaving}>
+            {isSaving ? t('addHolding.saving') : t('addHolding.submit')}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AddHoldingDialog;
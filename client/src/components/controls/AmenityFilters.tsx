@@ -2,6 +2,7 @@ import React from "react";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
 import { Badge } from "@/components/ui/badge";
+import { useI18n } from "@/hooks/useI18n";
 
 export type AmenityCategory =
   | "food_drink"
@@ -13,7 +14,7 @@ export type AmenityCategory =
   | "shopping_mall"
   | "public_transport";
 
-const CATEGORY_LABEL: Record<AmenityCategory, string> = {
+export const CATEGORY_LABEL: Record<AmenityCategory, string> = {
   food_drink: "Food & Cafes",
   groceries: "Groceries",
   atm_bank: "ATMs & Banks",
@@ -37,6 +38,7 @@ type Props = {
 };
 
 const AmenityFilters: React.FC<Props> = ({ selected, onChange, radius, onRadius, alongRoute, onAlongRoute, inline }) => {
+  const { t } = useI18n();
   const toggle = (c: AmenityCategory) => {
     const set = new Set(selected);
     if (set.has(c)) set.delete(c); else set.add(c);
@@ -47,15 +49,15 @@ const AmenityFilters: React.FC<Props> = ({ selected, onChange, radius, onRadius,
 
   const containerClass = inline
     ? "rounded-lg border p-3 mb-4 animate-enter"
-    : "absolute left-4 top-4 z-30 w-[320px] max-w-[92vw] glass-panel rounded-lg p-3 animate-enter";
+    : "absolute start-4 top-4 z-30 w-[320px] max-w-[92vw] glass-panel rounded-lg p-3 animate-enter";
 
   return (
     <div className={containerClass}>
       <div className="flex items-center justify-between mb-2">
-        <div className="text-sm font-medium">Amenities</div>
+        <div className="text-sm font-medium">{t("amenities.title")}</div>
         <div className="flex gap-1">
-          <Button size="sm" variant="secondary" onClick={selectAll}>All</Button>
-          <Button size="sm" variant="ghost" onClick={clearAll}>Clear</Button>
+          <Button size="sm" variant="secondary" onClick={selectAll}>{t("amenities.all")}</Button>
+          <Button size="sm" variant="ghost" onClick={clearAll}>{t("common.clear")}</Button>
         </div>
       </div>
       <div className="grid grid-cols-2 gap-2">
@@ -63,25 +65,25 @@ const AmenityFilters: React.FC<Props> = ({ selected, onChange, radius, onRadius,
           <button
             key={c}
             onClick={() => toggle(c)}
-            className={`text-left rounded-md border px-2 py-1.5 text-xs hover-scale ${selected.includes(c) ? 'bg-primary text-primary-foreground' : 'bg-background'}`}
+            className={`text-start rounded-md border px-2 py-1.5 text-xs hover-scale ${selected.includes(c) ? 'bg-primary text-primary-foreground' : 'bg-background'}`}
             aria-pressed={selected.includes(c)}
           >
-            {CATEGORY_LABEL[c]}
+            {t(`amenities.categories.${c}`)}
           </button>
         ))}
       </div>
       <div className="mt-3">
         <div className="flex items-center justify-between mb-1 text-xs text-muted-foreground">
-          <span>Radius</span>
-          <span><Badge variant="secondary">{Math.round(radius)} m</Badge></span>
+          <span>{t("amenities.radius")}</span>
+          <span><Badge variant="secondary">{t("amenities.meters", { value: Math.round(radius) })}</Badge></span>
         </div>
         <Slider value={[radius]} onValueChange={(v) => onRadius(v[0])} min={200} max={5000} step={100} />
       </div>
       {typeof alongRoute === 'boolean' && onAlongRoute && (
         <div className="mt-3 flex items-center justify-between">
-          <div className="text-xs text-muted-foreground">Search along route</div>
+          <div className="text-xs text-muted-foreground">{t("amenities.alongRoute")}</div>
           <Button size="sm" variant={alongRoute ? 'default' : 'secondary'} onClick={() => onAlongRoute(!alongRoute)}>
-            {alongRoute ? 'On' : 'Off'}
+            {alongRoute ? t('amenities.on') : t('amenities.off')}
           </Button>
         </div>
       )}
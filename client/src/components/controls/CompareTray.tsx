@@ -0,0 +1,52 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { GitCompare, X } from 'lucide-react';
+import { compareUrl, type CompareItem } from '@/hooks/useCompareSelection';
+import { MAX_COMPARE } from '@/services/comparisonService';
+import { useI18n } from '@/hooks/useI18n';
+
+interface CompareTrayProps {
+  items: CompareItem[];
+  onRemove: (ref: string) => void;
+  onClear: () => void;
+}
+
+/**
+ * Properties queued for comparison, with a link to the comparison page
+ */
+const CompareTray: React.FC<CompareTrayProps> = ({ items, onRemove, onClear }) => {
+  const { t } = useI18n();
+  if (!items.length) return null;
+
+  return (
+    <Card>
+      <CardContent className="p-3 space-y-2">
+        <div className="flex items-center justify-between">
+          <div className="text-sm font-medium flex items-center gap-2">
+            <GitCompare className="w-4 h-4" />
+            {t('compareTray.title', { count: items.length, max: MAX_COMPARE })}
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClear} className="h-7 text-xs text-muted-foreground">{t('common.clear')}</Button>
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {items.map((item) => (
+            <Badge key={item.ref} variant="secondary" className="gap-1 pe-1">
+              {item.name}
+              <button type="button" onClick={() => onRemove(item.ref)} title={t('common.remove')} className="rounded-sm hover:bg-muted">
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+        <Button size="sm" className="w-full" disabled={items.length < 2} asChild={items.length >= 2}>
+          {items.length >= 2 ? <Link to={compareUrl(items.map((i) => i.ref))}>{t('compareTray.open')}</Link> : <span>{t('compareTray.pickTwo')}</span>}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CompareTray;
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Download } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useI18n } from '@/hooks/useI18n';
+import type { BBox } from '@shared/geo';
+import { EXPORT_FORMATS, type ExportFormat } from '@/lib/exportFormats';
+import { EXPORT_DATASETS, exportDataset, type ExportDataset, type ExportSources } from '@/services/exportService';
+
+type Props = {
+  // Read when an export is chosen, so the bounds and isochrones are whatever the map shows then
+  getSources: () => ExportSources;
+  getBounds: () => BBox | null;
+};
+
+const FORMATS = Object.keys(EXPORT_FORMATS) as ExportFormat[];
+const DATASETS = Object.keys(EXPORT_DATASETS) as ExportDataset[];
+
+/**
+ * Header control for downloading map layers as CSV, GeoJSON or KML
+ */
+const ExportMenu: React.FC<Props> = ({ getSources, getBounds }) => {
+  const { toast } = useToast();
+  const { t } = useI18n();
+  const [visibleOnly, setVisibleOnly] = useState(true);
+
+  const handleExport = (dataset: ExportDataset, format: ExportFormat) => {
+    const sources = getSources();
+    const count = exportDataset(dataset, format, sources, {
+      bounds: visibleOnly ? getBounds() : null,
+      area: sources.searchArea?.geometry ?? null,
+    });
+    if (!count) {
+      toast({ title: t('exportMenu.nothing'), description: t('exportMenu.nothingDetail', { dataset: t(`exportMenu.datasets.${dataset}`).toLowerCase() }) } as any);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Download className="h-4 w-4 me-2" /> {t('exportMenu.button')}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>{t('exportMenu.title')}</DropdownMenuLabel>
+        <DropdownMenuCheckboxItem
+          checked={visibleOnly}
+          onCheckedChange={(checked) => setVisibleOnly(!!checked)}
+          onSelect={(e) => e.preventDefault()}
+        >
+          {t('exportMenu.visibleOnly')}
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuSeparator />
+        {DATASETS.map((dataset) => (
+          <DropdownMenuSub key={dataset}>
+            <DropdownMenuSubTrigger>{t(`exportMenu.datasets.${dataset}`)}</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {FORMATS.map((format) => (
+                <DropdownMenuItem key={format} onSelect={() => handleExport(dataset, format)}>
+                  {EXPORT_FORMATS[format].label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
@@ -1,29 +1,34 @@
 import React, { useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import type { IdentifierType } from "@shared/schema";
+import { useI18n } from "@/hooks/useI18n";
 
 export type IdentifierPayload = {
-  type: 'unit' | 'dewa' | 'oqoo' | 'title-deed';
+  type: IdentifierType;
   value: string;
 };
 
 type Props = {
   onSubmit: (payload: IdentifierPayload) => void;
+  checking?: boolean;
+  // Shown under the bar, e.g. when nothing matched the last lookup
+  notFound?: string | null;
 };
 
-const IdentifierBar: React.FC<Props> = ({ onSubmit }) => {
+const IdentifierBar: React.FC<Props> = ({ onSubmit, checking = false, notFound }) => {
   const [type, setType] = useState<IdentifierPayload['type']>('unit');
   const [value, setValue] = useState("");
+  const { t } = useI18n();
 
   const placeholder = useMemo(() => {
     switch (type) {
-      case 'unit': return 'Enter Unit No. (e.g., 1503, A-1701)';
-      case 'dewa': return 'Enter DEWA No.';
-      case 'oqoo': return 'Enter OQOO/OQOOD No.';
-      case 'title-deed': return 'Enter Title Deed No.';
-      default: return 'Enter identifier...';
+      case 'unit': return t('identifier.unitPlaceholder');
+      case 'dewa': return t('identifier.dewaPlaceholder');
+      case 'oqoo': return t('identifier.oqooPlaceholder');
+      case 'title-deed': return t('identifier.titleDeedPlaceholder');
     }
-  }, [type]);
+  }, [type, t]);
 
   const submit = (e?: React.FormEvent) => {
     e?.preventDefault();
@@ -38,18 +43,23 @@ const IdentifierBar: React.FC<Props> = ({ onSubmit }) => {
           value={type}
           onChange={(e) => setType(e.target.value as IdentifierPayload['type'])}
           className="px-3 py-2 text-sm rounded-md border bg-background"
-          aria-label="Identifier type"
+          aria-label={t("identifier.typeLabel")}
         >
-          <option value="unit">Unit No</option>
-          <option value="dewa">DEWA</option>
-          <option value="oqoo">OQOO</option>
-          <option value="title-deed">Title Deed</option>
+          <option value="unit">{t("identifier.unit")}</option>
+          <option value="dewa">{t("identifier.dewa")}</option>
+          <option value="oqoo">{t("identifier.oqoo")}</option>
+          <option value="title-deed">{t("identifier.titleDeed")}</option>
         </select>
         <div className="flex-1 min-w-[220px]">
           <Input value={value} onChange={(e) => setValue(e.target.value)} placeholder={placeholder} />
         </div>
-        <Button type="submit" variant="default">Check</Button>
+        <Button type="submit" variant="default" disabled={checking}>
+          {checking ? t('identifier.checking') : t('identifier.check')}
+        </Button>
       </div>
+      {notFound && (
+        <div role="status" className="mt-2 text-sm text-red-600">{notFound}</div>
+      )}
     </form>
   );
 };
@@ -0,0 +1,31 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Languages } from 'lucide-react';
+import { useI18n } from '@/hooks/useI18n';
+import { useToast } from '@/hooks/use-toast';
+
+/**
+ * Switch between English and Arabic; the button is labelled in the language it switches to
+ */
+const LanguageToggle: React.FC<{ className?: string }> = ({ className }) => {
+  const { language, setLanguage, t } = useI18n();
+  const { toast } = useToast();
+  const next = language === 'ar' ? 'en' : 'ar';
+
+  const handleClick = async () => {
+    try {
+      await setLanguage(next);
+    } catch (error) {
+      console.error('Language save error:', error);
+      toast({ title: t('language.saveFailed'), description: t('common.retry'), variant: 'destructive' } as any);
+    }
+  };
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleClick} className={className} title={t('language.label')} lang={next}>
+      <Languages className="h-4 w-4 me-2" /> {t('language.switchTo')}
+    </Button>
+  );
+};
+
+export default LanguageToggle;
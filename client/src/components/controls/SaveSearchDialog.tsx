@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import type { Polygon } from 'geojson';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useSavedSearches } from '@/hooks/useSavedSearches';
+import { useToast } from '@/hooks/use-toast';
+import { useI18n } from '@/hooks/useI18n';
+
+interface SaveSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // What is on screen right now; thresholds are entered in the dialog
+  query: string;
+  area: Polygon | null;
+  amenityCategories: string[];
+}
+
+const optionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+const SaveSearchDialog: React.FC<SaveSearchDialogProps> = ({ open, onOpenChange, query, area, amenityCategories }) => {
+  const { create, isSaving } = useSavedSearches();
+  const { toast } = useToast();
+  const { t } = useI18n();
+  const [name, setName] = useState('');
+  const [minPrice, setMinPrice] = useState('');
+  const [maxPrice, setMaxPrice] = useState('');
+  const [minYield, setMinYield] = useState('');
+  const [maxYield, setMaxYield] = useState('');
+  const [emailAlerts, setEmailAlerts] = useState(false);
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const summary = [
+    query.trim() && `"${query.trim()}"`,
+    area && t('savedSearches.drawnArea'),
+    amenityCategories.length > 0 && t('savedSearches.amenityTypes', { count: amenityCategories.length }),
+  ].filter(Boolean).join(' • ');
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await create({
+        name: name.trim() || query.trim() || t('saveSearch.defaultName'),
+        criteria: {
+          query: query.trim() || undefined,
+          area: area ?? undefined,
+          amenityCategories,
+          minPrice: optionalNumber(minPrice),
+          maxPrice: optionalNumber(maxPrice),
+          minYield: optionalNumber(minYield),
+          maxYield: optionalNumber(maxYield),
+        },
+        notifyEmail: emailAlerts && email.trim() ? email.trim() : null,
+      });
+      toast({ title: t('saveSearch.saved'), description: t('saveSearch.savedDetail') } as any);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('saveSearch.failed'));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('saveSearch.title')}</DialogTitle>
+          <DialogDescription>
+            {summary ? t('saveSearch.includes', { summary }) : t('saveSearch.everything')} {t('saveSearch.alertsNote')}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={submit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="saved-search-name">{t('saveSearch.name')}</Label>
+            <Input id="saved-search-name" value={name} onChange={(e) => setName(e.target.value)} placeholder={query.trim() || t('saveSearch.defaultName')} />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="saved-search-min-price">{t('saveSearch.minPrice')}</Label>
+              <Input id="saved-search-min-price" type="number" min={0} value={minPrice} onChange={(e) => setMinPrice(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="saved-search-max-price">{t('saveSearch.maxPrice')}</Label>
+              <Input id="saved-search-max-price" type="number" min={0} value={maxPrice} onChange={(e) => setMaxPrice(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="saved-search-min-yield">{t('saveSearch.minYield')}</Label>
+              <Input id="saved-search-min-yield" type="number" min={0} max={100} step="0.1" value={minYield} onChange={(e) => setMinYield(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="saved-search-max-yield">{t('saveSearch.maxYield')}</Label>
+              <Input id="saved-search-max-yield" type="number" min={0} max={100} step="0.1" value={maxYield} onChange={(e) => setMaxYield(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Checkbox id="saved-search-email" checked={emailAlerts} onCheckedChange={(v) => setEmailAlerts(v === true)} />
+              <Label htmlFor="saved-search-email" className="cursor-pointer">{t('saveSearch.emailMe')}</Label>
+            </div>
+            {emailAlerts && (
+              <Input type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="you@example.com" required />
+            )}
+          </div>
+          {error && <div role="alert" className="text-sm text-red-600">{error}</div>}
+          <Button type="submit" className="w-full" disabled={isSaving}>
+            {isSaving ? t('saveSearch.saving') : t('saveSearch.title')}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveSearchDialog;
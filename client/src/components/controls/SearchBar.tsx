@@ -3,39 +3,97 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Search } from "lucide-react";
 import type { PropertyPoint } from "@/data/mockProperties";
+import type { GeoPlace, SearchResponse, SearchResult } from "@shared/schema";
+import { geocodePlaces } from "@/services/geoService";
+import { searchIndex } from "@/services/searchService";
+import { useI18n } from "@/hooks/useI18n";
 
 type Props = {
   items: PropertyPoint[];
   onSelect: (p: PropertyPoint) => void;
-  token?: string;
   onPlaceSelect?: (p: { center: [number, number]; bbox?: [number, number, number, number]; name: string; timestamp?: number }) => void;
+  // Lets the parent read the typed text (e.g. to save the search) and replace it (e.g. to restore one)
+  query?: string;
+  onQueryChange?: (q: string) => void;
 };
 
-const SearchBar: React.FC<Props> = ({ items, onSelect, token, onPlaceSelect }) => {
-  const [q, setQ] = useState("");
+// One row of the dropdown, in the order the arrow keys move through them
+type Option =
+  | { kind: "result"; id: string; result: SearchResult }
+  | { kind: "place"; id: string; place: GeoPlace };
+
+const priceColour = (pricePerSqft: number) =>
+  pricePerSqft <= 1400 ? 'hsl(182,65%,45%)' : pricePerSqft <= 2400 ? 'hsl(152,53%,41%)' : 'hsl(43,95%,55%)';
+
+// Plain substring matches on the loaded properties, for when the search service can't be reached
+function localResults(q: string, items: PropertyPoint[]): SearchResponse {
+  const qq = q.toLowerCase();
+  const results = items
+    .filter((i) => i.name.toLowerCase().includes(qq) || i.community.toLowerCase().includes(qq))
+    .slice(0, 6)
+    .map((p): SearchResult => {
+      const at = p.name.toLowerCase().indexOf(qq);
+      return {
+        id: `building:${p.id}`, type: "building", name: p.name, subtitle: p.community, center: p.coords,
+        highlights: at >= 0 ? [[at, at + qq.length]] : [], score: 0, property: p,
+      };
+    });
+  return { query: q, groups: results.length ? [{ type: "building", results }] : [] };
+}
+
+const Highlighted: React.FC<{ text: string; ranges: [number, number][] }> = ({ text, ranges }) => {
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    if (start < at) continue;
+    if (start > at) parts.push(text.slice(at, start));
+    parts.push(<mark key={start} className="bg-transparent font-semibold text-primary">{text.slice(start, end)}</mark>);
+    at = end;
+  }
+  parts.push(text.slice(at));
+  return <>{parts}</>;
+};
+
+const SearchBar: React.FC<Props> = ({ items, onSelect, onPlaceSelect, query, onQueryChange }) => {
+  const { t, formatAED, formatPercent } = useI18n();
+  const [q, setQ] = useState(query ?? "");
   const [focused, setFocused] = useState(false);
-  const [places, setPlaces] = useState<any[]>([]);
+  const [groups, setGroups] = useState<SearchResponse["groups"]>([]);
+  const [places, setPlaces] = useState<GeoPlace[]>([]);
   const [loading, setLoading] = useState(false);
+  const [active, setActive] = useState(-1);
+
+  React.useEffect(() => {
+    if (query !== undefined) setQ(query);
+  }, [query]);
 
-  const results = useMemo(() => {
-    if (!q.trim()) return [] as PropertyPoint[];
-    const qq = q.toLowerCase();
-    return items.filter((i) =>
-      i.name.toLowerCase().includes(qq) || i.community.toLowerCase().includes(qq)
-    ).slice(0, 6);
+  React.useEffect(() => {
+    onQueryChange?.(q);
+  }, [q]);
+
+  React.useEffect(() => {
+    const qv = q.trim();
+    if (!qv) { setGroups([]); return; }
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        setGroups((await searchIndex(qv, { limit: 4 }, controller.signal)).groups);
+      } catch (e) {
+        if (controller.signal.aborted) return;
+        console.error('search failed', e);
+        setGroups(localResults(qv, items).groups);
+      }
+    }, 150);
+    return () => { clearTimeout(timer); controller.abort(); };
   }, [q, items]);
 
   React.useEffect(() => {
-    const t = setTimeout(async () => {
+    const timer = setTimeout(async () => {
       const qv = q.trim();
-      const tk = token || localStorage.getItem('MAPBOX_PUBLIC_TOKEN');
-      if (!qv || qv.length < 3 || !tk) { setPlaces([]); return; }
+      if (!qv || qv.length < 3) { setPlaces([]); return; }
       try {
         setLoading(true);
-        const url = `https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(qv)}.json?access_token=${tk}&autocomplete=true&limit=5&country=AE&types=place,locality,neighborhood,address,poi`;
-        const res = await fetch(url);
-        const data = await res.json();
-        setPlaces(Array.isArray(data?.features) ? data.features : []);
+        setPlaces(await geocodePlaces(qv, { limit: 5, types: 'place,locality,neighborhood,address,poi' }));
       } catch (e) {
         console.error('geocoding failed', e);
         setPlaces([]);
@@ -43,8 +101,26 @@ const SearchBar: React.FC<Props> = ({ items, onSelect, token, onPlaceSelect }) =
         setLoading(false);
       }
     }, 300);
-    return () => clearTimeout(t);
-  }, [q, token]);
+    return () => clearTimeout(timer);
+  }, [q]);
+
+  const options = useMemo(() => {
+    const fromIndex: Option[] = groups.flatMap((g) => g.results.map((result) => ({ kind: "result" as const, id: result.id, result })));
+    // The geocoder answers gazetteer names too; don't list a community twice
+    const listed = new Set(groups.flatMap((g) => g.results.map((r) => r.id.slice(r.id.indexOf(":") + 1))));
+    const fromGeocoder: Option[] = places
+      .filter((pl) => !(pl.id.startsWith("gazetteer.") && listed.has(pl.id.slice("gazetteer.".length))))
+      .map((place) => ({ kind: "place" as const, id: `place:${place.id}`, place }));
+    return [...fromIndex, ...fromGeocoder];
+  }, [groups, places]);
+
+  React.useEffect(() => {
+    setActive(-1);
+  }, [options]);
+
+  React.useEffect(() => {
+    if (active >= 0) document.getElementById(`search-option-${active}`)?.scrollIntoView({ block: "nearest" });
+  }, [active]);
 
   const select = (p: PropertyPoint) => {
     onSelect(p);
@@ -52,74 +128,126 @@ const SearchBar: React.FC<Props> = ({ items, onSelect, token, onPlaceSelect }) =
     setFocused(false);
   };
 
-  const selectPlace = (pl: any) => {
-    onPlaceSelect?.({ center: pl.center as [number, number], bbox: pl.bbox as any, name: pl.place_name as string, timestamp: Date.now() });
-    setQ(pl.place_name);
+  const selectPlace = (pl: GeoPlace) => {
+    onPlaceSelect?.({ center: pl.center, bbox: pl.bbox, name: pl.fullName, timestamp: Date.now() });
+    setQ(pl.fullName);
+    setFocused(false);
+  };
+
+  const choose = (option: Option) => {
+    if (option.kind === "place") return selectPlace(option.place);
+    const { result } = option;
+    if (result.type === "building" && result.property) {
+      // Prefer the loaded copy so the map and panels see the same object
+      return select(items.find((i) => i.id === result.property!.id) ?? result.property);
+    }
+    onPlaceSelect?.({ center: result.center, bbox: result.bbox, name: result.name, timestamp: Date.now() });
+    setQ(result.name);
     setFocused(false);
   };
 
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      if (!options.length) return;
+      e.preventDefault();
+      setFocused(true);
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActive((i) => (i < 0 ? (step > 0 ? 0 : options.length - 1) : (i + step + options.length) % options.length));
+    } else if (e.key === "Enter") {
+      const option = options[active] ?? options[0];
+      if (option) {
+        e.preventDefault();
+        choose(option);
+      }
+    } else if (e.key === "Escape") {
+      setFocused(false);
+      setActive(-1);
+    }
+  };
+
+  const optionProps = (option: Option) => {
+    const index = options.indexOf(option);
+    return {
+      id: `search-option-${index}`,
+      role: "option",
+      "aria-selected": index === active,
+      onMouseDown: (e: React.MouseEvent) => e.preventDefault(),
+      onMouseEnter: () => setActive(index),
+      onClick: () => choose(option),
+      className: `flex w-full items-start gap-3 rounded-md px-3 py-2 text-start hover-rise ${index === active ? "bg-accent text-accent-foreground" : ""}`,
+    };
+  };
+
+  const open = focused && options.length > 0;
+
   return (
     <div className="relative w-full max-w-xl">
       <div className="flex items-center gap-2">
         <div className="relative flex-1">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Search className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
             value={q}
-            onChange={(e) => setQ(e.target.value)}
+            onChange={(e) => { setQ(e.target.value); setFocused(true); }}
             onFocus={() => setFocused(true)}
             onBlur={() => setTimeout(() => setFocused(false), 150)}
-            placeholder="Search property or location (e.g., Marina, JVC, Downtown)..."
-            className="pl-9"
+            onKeyDown={onKeyDown}
+            placeholder={t('search.placeholder')}
+            className="ps-9"
+            role="combobox"
+            aria-expanded={open}
+            aria-controls="search-options"
+            aria-autocomplete="list"
+            aria-activedescendant={active >= 0 ? `search-option-${active}` : undefined}
           />
         </div>
         <Button variant="default" onClick={() => {
-          if (results[0]) {
-            select(results[0]);
-          } else if (places[0]) {
-            selectPlace(places[0]);
-          }
+          if (options[0]) choose(options[0]);
         }}>
-          Explore
+          {t('search.explore')}
         </Button>
       </div>
 
-      {focused && (results.length > 0 || places.length > 0) && (
-        <div className="absolute z-20 mt-2 w-full rounded-lg border bg-card p-2 shadow-xl animate-scale-in">
-          {results.length > 0 && (
-            <div>
-              <div className="px-3 py-1 text-xs uppercase text-muted-foreground">Properties</div>
-              {results.map((r) => (
-                <button
-                  key={r.id}
-                  onMouseDown={(e) => e.preventDefault()}
-                  onClick={() => select(r)}
-                  className="flex w-full items-start gap-3 rounded-md px-3 py-2 text-left hover:bg-accent hover:text-accent-foreground hover-rise"
-                >
-                  <div className="h-2.5 w-2.5 rounded-full" style={{ background: r.pricePerSqft <= 1400 ? 'hsl(182,65%,45%)' : r.pricePerSqft <= 2400 ? 'hsl(152,53%,41%)' : 'hsl(43,95%,55%)' }} />
-                  <div className="flex-1">
-                    <div className="font-medium">{r.name}</div>
-                    <div className="text-xs text-muted-foreground">{r.community} • AED {r.pricePerSqft}/sqft • {r.rentYield}% yield</div>
+      {open && (
+        <div id="search-options" role="listbox" className="absolute z-20 mt-2 max-h-[70vh] w-full overflow-y-auto rounded-lg border bg-card p-2 shadow-xl animate-scale-in">
+          {groups.map((g) => (
+            <div key={g.type} role="group" aria-label={t(`search.groups.${g.type}`)}>
+              <div className="px-3 py-1 text-xs uppercase text-muted-foreground">{t(`search.groups.${g.type}`)}</div>
+              {options.filter((o): o is Extract<Option, { kind: "result" }> => o.kind === "result" && o.result.type === g.type).map((o) => {
+                const r = o.result;
+                return (
+                  <div key={o.id} {...optionProps(o)}>
+                    <div className={`mt-1.5 h-2.5 w-2.5 rounded-full ${r.property ? "" : "bg-primary"}`} style={r.property ? { background: priceColour(r.property.pricePerSqft) } : undefined} />
+                    <div className="flex-1">
+                      <div className="flex items-baseline justify-between gap-2">
+                        <span className="font-medium"><Highlighted text={r.name} ranges={r.highlights} /></span>
+                        {r.nameAr && <span dir="rtl" className="text-xs text-muted-foreground">{r.nameAr}</span>}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {r.property
+                          ? `${r.property.community} • ${t('common.perSqft', { value: formatAED(r.property.pricePerSqft) })} • ${t('common.yield', { value: formatPercent(r.property.rentYield) })}`
+                          : r.subtitle}
+                        {r.matchedAlias && <span> • {t('search.matched', { alias: r.matchedAlias })}</span>}
+                      </div>
+                    </div>
                   </div>
-                </button>
-              ))}
+                );
+              })}
             </div>
-          )}
-          {places.length > 0 && (
-            <div className="mt-1">
-              <div className="px-3 py-1 text-xs uppercase text-muted-foreground">Places</div>
-              {places.map((pl) => (
-                <button
-                  key={pl.id}
-                  onMouseDown={(e) => e.preventDefault()}
-                  onClick={() => selectPlace(pl)}
-                  className="flex w-full items-start gap-3 rounded-md px-3 py-2 text-left hover:bg-accent hover:text-accent-foreground"
-                >
-                  <div className="h-2.5 w-2.5 rounded-full bg-primary" />
+          ))}
+          {options.some((o) => o.kind === "place") && (
+            <div className="mt-1" role="group" aria-label={t('search.places')}>
+              <div className="px-3 py-1 text-xs uppercase text-muted-foreground">{t('search.places')}{loading ? "…" : ""}</div>
+              {options.filter((o): o is Extract<Option, { kind: "place" }> => o.kind === "place").map((o) => (
+                <div key={o.id} {...optionProps(o)}>
+                  <div className="mt-1.5 h-2.5 w-2.5 rounded-full bg-muted-foreground" />
                   <div className="flex-1">
-                    <div className="font-medium">{pl.text}</div>
-                    <div className="text-xs text-muted-foreground">{pl.place_name}</div>
+                    <div className="flex items-baseline justify-between gap-2">
+                      <span className="font-medium">{o.place.name}</span>
+                      {o.place.nameAr && <span dir="rtl" className="text-xs text-muted-foreground">{o.place.nameAr}</span>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">{o.place.fullName}</div>
                   </div>
-                </button>
+                </div>
               ))}
             </div>
           )}
@@ -8,6 +8,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { geocodePlaces } from "@/services/geoService";
+import { useI18n } from "@/hooks/useI18n";
 
 export type ValuationFormValues = {
   building: string;
@@ -18,13 +20,14 @@ export type ValuationFormValues = {
 };
 
 type Props = {
-  token?: string;
   onPlaceSelect?: (p: { center: [number, number]; bbox?: [number, number, number, number]; name: string; timestamp?: number }) => void;
   onCalculate?: (values: ValuationFormValues) => void;
+  calculating?: boolean;
 };
 
 
-const ValuationForm: React.FC<Props> = ({ token, onPlaceSelect, onCalculate }) => {
+const ValuationForm: React.FC<Props> = ({ onPlaceSelect, onCalculate, calculating }) => {
+  const { t } = useI18n();
   const [building, setBuilding] = React.useState("");
   const [unitNumber, setUnitNumber] = React.useState<string>("");
   const [beds, setBeds] = React.useState<string | undefined>(undefined);
@@ -44,13 +47,12 @@ const ValuationForm: React.FC<Props> = ({ token, onPlaceSelect, onCalculate }) =
   
   React.useEffect(() => {
     const q = building.trim();
-    const tk = token || localStorage.getItem('MAPBOX_PUBLIC_TOKEN') || '';
-    if (!q || q.length < 4 || !tk) return; // Require at least 4 characters
+    if (!q || q.length < 4) return; // Require at least 4 characters
     
     // Don't re-geocode the same query
     if (q === lastGeocodedQuery.current) return;
     
-    const t = setTimeout(async () => {
+    const timer = setTimeout(async () => {
       // Double check if query still matches what user typed
       if (q !== building.trim()) return;
       
@@ -58,17 +60,14 @@ const ValuationForm: React.FC<Props> = ({ token, onPlaceSelect, onCalculate }) =
       console.log('ValuationForm geocoding:', q);
       
       try {
-        const url = `https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(q)}.json?access_token=${tk}&autocomplete=true&limit=1&country=AE&types=place,locality,neighborhood,address,poi`;
-        const res = await fetch(url);
-        const data = await res.json();
-        const f = Array.isArray(data?.features) && data.features[0];
+        const [f] = await geocodePlaces(q, { limit: 1, types: 'place,locality,neighborhood,address,poi' });
         if (f && onPlaceSelect) {
-          console.log('ValuationForm triggering flyTo for:', f.place_name);
+          console.log('ValuationForm triggering flyTo for:', f.fullName);
           // Add timestamp to prevent re-triggering
           onPlaceSelect({ 
-            center: f.center as [number, number], 
-            bbox: f.bbox as any, 
-            name: f.place_name as string,
+            center: f.center, 
+            bbox: f.bbox, 
+            name: f.fullName,
             timestamp: Date.now()
           });
         }
@@ -76,8 +75,8 @@ const ValuationForm: React.FC<Props> = ({ token, onPlaceSelect, onCalculate }) =
         console.warn('Geocoding failed', e);
       }
     }, 2000); // Even longer delay
-    return () => clearTimeout(t);
-  }, [building, token, onPlaceSelect]);
+    return () => clearTimeout(timer);
+  }, [building, onPlaceSelect]);
 
   const handleCalc = (e: React.FormEvent) => {
     e.preventDefault();
@@ -92,8 +91,8 @@ const ValuationForm: React.FC<Props> = ({ token, onPlaceSelect, onCalculate }) =
           <Input
             value={building}
             onChange={(e) => setBuilding(e.target.value)}
-            placeholder="Building or community name"
-            aria-label="Building or community name"
+            placeholder={t('valuation.building')}
+            aria-label={t('valuation.building')}
           />
         </div>
         {/* Unit/Villa Number */}
@@ -101,18 +100,18 @@ const ValuationForm: React.FC<Props> = ({ token, onPlaceSelect, onCalculate }) =
           <Input
             value={unitNumber}
             onChange={(e) => setUnitNumber(e.target.value)}
-            placeholder="Unit/Villa Number"
-            aria-label="Unit or Villa Number"
+            placeholder={t('valuation.unitNumber')}
+            aria-label={t('valuation.unitNumberLabel')}
           />
         </div>
         {/* Beds */}
         <div className="md:col-span-2">
           <Select value={beds} onValueChange={setBeds}>
-            <SelectTrigger aria-label="Bedrooms">
-              <SelectValue placeholder="Bedrooms" />
+            <SelectTrigger aria-label={t('valuation.bedrooms')}>
+              <SelectValue placeholder={t('valuation.bedrooms')} />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="studio">Studio</SelectItem>
+              <SelectItem value="studio">{t('common.studio')}</SelectItem>
               <SelectItem value="1">1</SelectItem>
               <SelectItem value="2">2</SelectItem>
               <SelectItem value="3">3</SelectItem>
@@ -128,22 +127,24 @@ const ValuationForm: React.FC<Props> = ({ token, onPlaceSelect, onCalculate }) =
             inputMode="decimal"
             value={size}
             onChange={(e) => setSize(e.target.value)}
-            placeholder="Size"
-            aria-label="Size"
+            placeholder={t('valuation.size')}
+            aria-label={t('valuation.size')}
           />
           <Select value={sizeUnit} onValueChange={(v) => setSizeUnit(v as any)}>
-            <SelectTrigger className="w-[110px]" aria-label="Size unit">
-              <SelectValue placeholder="Unit" />
+            <SelectTrigger className="w-[110px]" aria-label={t('valuation.sizeUnit')}>
+              <SelectValue placeholder={t('valuation.unit')} />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="sqft">sqft</SelectItem>
-              <SelectItem value="sqm">sqm</SelectItem>
+              <SelectItem value="sqft">{t('valuation.sqft')}</SelectItem>
+              <SelectItem value="sqm">{t('valuation.sqm')}</SelectItem>
             </SelectContent>
           </Select>
         </div>
         {/* Action */}
         <div className="md:col-span-12 md:flex md:justify-end">
-          <Button type="submit" size="lg" className="w-full md:w-auto">Calculate</Button>
+          <Button type="submit" size="lg" className="w-full md:w-auto" disabled={calculating}>
+            {calculating ? t('valuation.calculating') : t('valuation.calculate')}
+          </Button>
         </div>
       </form>
     </section>
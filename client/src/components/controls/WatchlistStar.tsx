@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Star } from 'lucide-react';
+import { useWatchlist } from '@/hooks/useWatchlist';
+import { useToast } from '@/hooks/use-toast';
+import { useI18n } from '@/hooks/useI18n';
+import LoginDialog from '@/components/auth/LoginDialog';
+
+interface WatchlistStarProps {
+  propertyId: string;
+  className?: string;
+}
+
+/**
+ * Star toggle for a catalogue property; asks the user to sign in first when needed
+ */
+const WatchlistStar: React.FC<WatchlistStarProps> = ({ propertyId, className }) => {
+  const { isWatched, toggle, isUpdating, signedIn } = useWatchlist();
+  const { toast } = useToast();
+  const { t } = useI18n();
+  const [loginOpen, setLoginOpen] = useState(false);
+  const watched = isWatched(propertyId);
+
+  const handleClick = async () => {
+    if (!signedIn) {
+      setLoginOpen(true);
+      return;
+    }
+    try {
+      await toggle(propertyId);
+    } catch (error) {
+      console.error('Watchlist toggle error:', error);
+      toast({
+        title: t('watchlist.notUpdated'),
+        description: error instanceof Error ? error.message : t('common.retry'),
+        variant: 'destructive'
+      } as any);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={handleClick}
+        disabled={isUpdating}
+        className={className}
+        title={watched ? t('watchlist.remove') : t('watchlist.add')}
+        aria-pressed={watched}
+      >
+        <Star className={watched ? 'w-4 h-4 fill-yellow-400 text-yellow-500' : 'w-4 h-4 text-gray-500'} />
+      </Button>
+      {!signedIn && <LoginDialog open={loginOpen} onOpenChange={setLoginOpen} />}
+    </>
+  );
+};
+
+export default WatchlistStar;
@@ -6,6 +6,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { ChevronLeft, ChevronRight, MapPin, Camera, Satellite, Building2, ExternalLink } from 'lucide-react';
 import { BuildingImageData } from '@/services/imageService';
+import { useI18n } from '@/hooks/useI18n';
 
 interface BuildingImageGalleryProps {
   images: BuildingImageData | null;
@@ -22,6 +23,7 @@ export function BuildingImageGallery({
   address,
   className = ''
 }: BuildingImageGalleryProps) {
+  const { t } = useI18n();
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
   const [imageDialogOpen, setImageDialogOpen] = useState(false);
 
@@ -43,7 +45,7 @@ export function BuildingImageGallery({
       <div className={`flex items-center justify-center h-48 bg-muted rounded-lg ${className}`}>
         <div className="text-center text-muted-foreground">
           <Camera className="h-8 w-8 mx-auto mb-2" />
-          <p className="text-sm">No images available</p>
+          <p className="text-sm">{t('gallery.noImages')}</p>
         </div>
       </div>
     );
@@ -65,7 +67,7 @@ export function BuildingImageGallery({
       url: streetViewUrl, 
       type: 'streetview', 
       icon: <Camera className="h-3 w-3" />, 
-      label: 'Street View' 
+      label: t('gallery.streetView')
     });
     console.log('Added Street View image:', streetViewUrl);
   }
@@ -101,7 +103,7 @@ export function BuildingImageGallery({
           <div className="relative group">
             <img
               src={currentImage.url}
-              alt={buildingName || 'Building'}
+              alt={buildingName || t('gallery.building')}
               className="w-full h-48 object-cover transition-transform duration-200 group-hover:scale-105"
               onLoad={() => {
                 console.log(`Successfully loaded ${currentImage.type} image: ${currentImage.url}`);
@@ -130,10 +132,10 @@ export function BuildingImageGallery({
             {/* Image Type Badge */}
             <Badge 
               variant="secondary" 
-              className="absolute top-2 left-2 text-xs"
+              className="absolute top-2 start-2 text-xs"
             >
               {currentImage.icon}
-              <span className="ml-1">{currentImage.label}</span>
+              <span className="ms-1">{currentImage.label}</span>
             </Badge>
 
             {/* Navigation Arrows */}
@@ -142,18 +144,20 @@ export function BuildingImageGallery({
                 <Button
                   size="sm"
                   variant="ghost"
-                  className="absolute left-2 top-1/2 transform -translate-y-1/2 bg-black/20 hover:bg-black/40 text-white"
+                  className="absolute start-2 top-1/2 transform -translate-y-1/2 bg-black/20 hover:bg-black/40 text-white"
                   onClick={prevImage}
+                  aria-label={t('gallery.previous')}
                 >
-                  <ChevronLeft className="h-4 w-4" />
+                  <ChevronLeft className="h-4 w-4 rtl:rotate-180" />
                 </Button>
                 <Button
                   size="sm"
                   variant="ghost"
-                  className="absolute right-2 top-1/2 transform -translate-y-1/2 bg-black/20 hover:bg-black/40 text-white"
+                  className="absolute end-2 top-1/2 transform -translate-y-1/2 bg-black/20 hover:bg-black/40 text-white"
                   onClick={nextImage}
+                  aria-label={t('gallery.next')}
                 >
-                  <ChevronRight className="h-4 w-4" />
+                  <ChevronRight className="h-4 w-4 rtl:rotate-180" />
                 </Button>
               </>
             )}
@@ -164,7 +168,8 @@ export function BuildingImageGallery({
                 <Button
                   size="sm"
                   variant="ghost"
-                  className="absolute top-2 right-2 bg-black/20 hover:bg-black/40 text-white"
+                  className="absolute top-2 end-2 bg-black/20 hover:bg-black/40 text-white"
+                  aria-label={t('gallery.expand')}
                 >
                   <ExternalLink className="h-4 w-4" />
                 </Button>
@@ -173,12 +178,12 @@ export function BuildingImageGallery({
                 <DialogHeader>
                   <DialogTitle className="flex items-center gap-2">
                     {currentImage.icon}
-                    {currentImage.label} - {buildingName || address || 'Property'}
+                    {currentImage.label} - {buildingName || address || t('gallery.property')}
                   </DialogTitle>
                 </DialogHeader>
                 <img
                   src={currentImage.url}
-                  alt={buildingName || 'Building'}
+                  alt={buildingName || t('gallery.building')}
                   className="w-full max-h-[70vh] object-contain rounded-lg"
                 />
               </DialogContent>
@@ -186,8 +191,8 @@ export function BuildingImageGallery({
 
             {/* Image Counter */}
             {allImages.length > 1 && (
-              <div className="absolute bottom-2 right-2 bg-black/50 text-white text-xs px-2 py-1 rounded">
-                {selectedImageIndex + 1} / {allImages.length}
+              <div className="absolute bottom-2 end-2 bg-black/50 text-white text-xs px-2 py-1 rounded">
+                {t('gallery.counter', { index: selectedImageIndex + 1, total: allImages.length })}
               </div>
             )}
           </div>
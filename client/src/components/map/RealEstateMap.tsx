@@ -4,9 +4,15 @@ import "mapbox-gl/dist/mapbox-gl.css";
 // Keep CSS only; Draw JS will be loaded dynamically to avoid global polyfill issues
 import "@mapbox/mapbox-gl-draw/dist/mapbox-gl-draw.css";
 import "@mapbox/mapbox-gl-directions/dist/mapbox-gl-directions.css";
-import { properties, toFeatureCollection, zones as zoneList, PropertyPoint } from "@/data/mockProperties";
+import { buildZonesFeatureCollection, toFeatureCollection, type PropertyPoint, type Zone } from "@/data/mockProperties";
 import type { AmenityResult } from "@/hooks/useSearchBoxAmenities";
 import type { POIDetails } from "@/components/panels/POIDetailsPanel";
+import type { MapCamera } from "@/lib/viewState";
+import type { BBox } from "@shared/geo";
+import { fetchIsochrone, fetchRoute, geocodePlaces } from "@/services/geoService";
+import { useI18n } from "@/hooks/useI18n";
+import { LOCALES } from "@/i18n/format";
+import type { Language } from "@shared/schema";
 export type IsochroneSettings = {
   enabled?: boolean;
   profile?: 'driving' | 'walking' | 'cycling';
@@ -15,6 +21,11 @@ export type IsochroneSettings = {
 
 export type RealEstateMapProps = {
   token?: string;
+  properties?: PropertyPoint[];
+  zones?: Zone[];
+  highlightedPropertyIds?: string[]; // e.g. valuation comparables
+  watchedPropertyIds?: string[];
+  showWatchlist?: boolean;
   selected?: PropertyPoint | null;
   onSelect?: (p: PropertyPoint) => void;
   showPriceHeat?: boolean;
@@ -27,24 +38,61 @@ export type RealEstateMapProps = {
   directionsEnabled?: boolean;
   amenities?: AmenityResult[];
   onPOISelect?: (coordinates: [number, number]) => void;
+  // Restored from a shared link: the camera to open at, and a selection that should not fly the camera away
+  initialCamera?: MapCamera;
+  initialSelectedId?: string;
+  onCameraChange?: (camera: MapCamera) => void;
 };
 
 const UAE_CENTER: [number, number] = [55.2744, 25.1972];
+const NO_PROPERTIES: PropertyPoint[] = [];
+const NO_ZONES: Zone[] = [];
+const NO_IDS: string[] = [];
 
-function buildZonesFeatureCollection() {
+function highlightFilter(ids: string[]): mapboxgl.Expression {
+  return ['in', ['get', 'id'], ['literal', ids]];
+}
+
+const RTL_TEXT_PLUGIN_URL = 'https://api.mapbox.com/mapbox-gl-js/plugins/mapbox-gl-rtl-text/v0.2.3/mapbox-gl-rtl-text.js';
+
+// Base-map place names (the Mapbox Streets "composite" source) in the interface language
+function localiseLabels(map: mapboxgl.Map, language: Language) {
+  for (const layer of map.getStyle()?.layers ?? []) {
+    if (layer.type !== 'symbol' || (layer as any).source !== 'composite') continue;
+    const field = map.getLayoutProperty(layer.id, 'text-field');
+    if (!field || !JSON.stringify(field).includes('["get","name')) continue;
+    map.setLayoutProperty(layer.id, 'text-field', ['coalesce', ['get', `name_${language}`], ['get', 'name']]);
+  }
+}
+
+function priceLabel(language: Language): mapboxgl.Expression {
+  return ['number-format', ['get', 'pricePerSqft'], { locale: LOCALES[language], currency: 'AED', 'max-fraction-digits': 0 }];
+}
+
+// Placeholder for a clicked building; metrics are filled in from /api/estimate by the parent
+export function clickedBuildingPoint(id: string, coords: [number, number]): PropertyPoint {
   return {
-    type: 'FeatureCollection' as const,
-    features: zoneList.map((z) => ({
-      type: 'Feature' as const,
-      properties: { id: z.id, name: z.name, undervalued: z.undervalued, avgPricePerSqft: z.avgPricePerSqft, avgYield: z.avgYield },
-      geometry: z.polygon.geometry,
-    })),
-  } satisfies GeoJSON.FeatureCollection<GeoJSON.Polygon>;
+    id,
+    coords,
+    name: 'Loading...',
+    community: 'Dubai',
+    estimatedValueAED: 0,
+    pricePerSqft: 0,
+    rentYield: 0,
+    priceTrend: [],
+  };
 }
 
-export type RealEstateMapHandle = { startDrawPolygon: () => void; clearDraw: () => void; routeTo: (dest: [number, number], profile?: 'driving'|'walking'|'cycling') => void; };
+export type RealEstateMapHandle = {
+  startDrawPolygon: () => void;
+  clearDraw: () => void;
+  routeTo: (dest: [number, number], profile?: 'driving'|'walking'|'cycling') => void;
+  // What is on screen, for exports
+  getBounds: () => BBox | null;
+  getIsochrones: () => GeoJSON.FeatureCollection<GeoJSON.Polygon> | null;
+};
 
-const RealEstateMap = React.forwardRef<RealEstateMapHandle, RealEstateMapProps>(({ token, selected, onSelect, showPriceHeat, showYieldHeat, searchArea, onAreaChange, mapStyle, flyTo, isochrone, directionsEnabled, amenities, onPOISelect }, ref) => {
+const RealEstateMap = React.forwardRef<RealEstateMapHandle, RealEstateMapProps>(({ token, properties = NO_PROPERTIES, zones = NO_ZONES, highlightedPropertyIds = NO_IDS, watchedPropertyIds = NO_IDS, showWatchlist = true, selected, onSelect, showPriceHeat, showYieldHeat, searchArea, onAreaChange, mapStyle, flyTo, isochrone, directionsEnabled, amenities, onPOISelect, initialCamera, initialSelectedId, onCameraChange }, ref) => {
   const container = useRef<HTMLDivElement | null>(null);
   const mapRef = useRef<mapboxgl.Map | null>(null);
   const hoveredBuildingId = useRef<number | string | null>(null);
@@ -56,6 +104,27 @@ const RealEstateMap = React.forwardRef<RealEstateMapHandle, RealEstateMapProps>(
   const routeClickHandlerRef = useRef<((e: mapboxgl.MapMouseEvent) => void) | null>(null);
   const routeActiveRef = useRef<boolean>(false);
   const amenityMarkersRef = useRef<mapboxgl.Marker[]>([]);
+  // Latest catalogue for click handlers registered once at map init
+  const propertiesRef = useRef<PropertyPoint[]>(properties);
+  propertiesRef.current = properties;
+  const zonesRef = useRef<Zone[]>(zones);
+  zonesRef.current = zones;
+  const highlightedIdsRef = useRef<string[]>(highlightedPropertyIds);
+  highlightedIdsRef.current = highlightedPropertyIds;
+  const watchedIdsRef = useRef<string[]>(watchedPropertyIds);
+  watchedIdsRef.current = watchedPropertyIds;
+  const showWatchlistRef = useRef(showWatchlist);
+  showWatchlistRef.current = showWatchlist;
+  const onCameraChangeRef = useRef(onCameraChange);
+  onCameraChangeRef.current = onCameraChange;
+  const skipSelectedFlyRef = useRef(initialSelectedId);
+  const isochroneDataRef = useRef<GeoJSON.FeatureCollection<GeoJSON.Polygon> | null>(null);
+  // Handlers registered once at map init read the current language through these
+  const { language, t } = useI18n();
+  const languageRef = useRef(language);
+  languageRef.current = language;
+  const tRef = useRef(t);
+  tRef.current = t;
 
   useImperativeHandle(ref, () => ({
     startDrawPolygon: () => {
@@ -67,6 +136,11 @@ const RealEstateMap = React.forwardRef<RealEstateMapHandle, RealEstateMapProps>(
       try { drawRef.current?.deleteAll?.(); } catch (e) { console.error('clearDraw failed', e); }
       onAreaChange?.(null);
     },
+    getBounds: () => {
+      const bounds = mapRef.current?.getBounds();
+      return bounds ? [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()] : null;
+    },
+    getIsochrones: () => isochroneDataRef.current,
     routeTo: (dest: [number, number], profile: 'driving'|'walking'|'cycling' = 'driving') => {
       const map = mapRef.current; if (!map) return;
       try {
@@ -82,7 +156,6 @@ const RealEstateMap = React.forwardRef<RealEstateMapHandle, RealEstateMapProps>(
         }
         // Fallback: draw a route line using Directions API
         if (!map.isStyleLoaded()) { map.once('style.load', () => { (ref as any)?.current?.routeTo?.(dest, profile); }); return; }
-        const accessToken = (token || localStorage.getItem('MAPBOX_PUBLIC_TOKEN') || '') as string;
         const ensureSource = () => {
           if (!map.getSource('route')) {
             map.addSource('route', { type: 'geojson', data: { type: 'FeatureCollection', features: [] } as any });
@@ -90,15 +163,11 @@ const RealEstateMap = React.forwardRef<RealEstateMapHandle, RealEstateMapProps>(
           }
         };
         const origin: [number,number] = selected?.coords ?? (map.getCenter().toArray() as [number,number]);
-        const prof = profile || 'driving';
-        const url = `https://api.mapbox.com/directions/v5/mapbox/${prof}/${origin[0]},${origin[1]};${dest[0]},${dest[1]}?geometries=geojson&overview=full&access_token=${accessToken}`;
-        fetch(url)
-          .then((r) => r.json())
-          .then((json) => {
-            const geom = json?.routes?.[0]?.geometry;
-            if (!geom) return;
+        fetchRoute(profile || 'driving', origin, dest)
+          .then((route) => {
+            if (!route) return;
             ensureSource();
-            (map.getSource('route') as mapboxgl.GeoJSONSource).setData({ type: 'Feature', geometry: geom, properties: {} } as any);
+            (map.getSource('route') as mapboxgl.GeoJSONSource).setData({ type: 'Feature', geometry: route.geometry, properties: {} });
             map.flyTo({ center: dest, zoom: Math.max(map.getZoom(), 14), speed: 1.1, curve: 1.2 });
             // Keep 3D buildings visible during routing - user preference
             if (map.getLayer('3d-buildings')) map.setLayoutProperty('3d-buildings', 'visibility', 'visible');
@@ -109,10 +178,10 @@ const RealEstateMap = React.forwardRef<RealEstateMapHandle, RealEstateMapProps>(
         console.error('routeTo failed', e);
       }
     },
-  }), [onAreaChange, selected, token]);
+  }), [onAreaChange, selected]);
 
-  const propertiesFC = useMemo(() => toFeatureCollection(properties), []);
-  const zonesFC = useMemo(() => buildZonesFeatureCollection(), []);
+  const propertiesFC = useMemo(() => toFeatureCollection(properties), [properties]);
+  const zonesFC = useMemo(() => buildZonesFeatureCollection(zones), [zones]);
 
 useEffect(() => {
     const accessToken = token || localStorage.getItem("MAPBOX_PUBLIC_TOKEN") || "";
@@ -121,14 +190,18 @@ useEffect(() => {
     let map: mapboxgl.Map | null = null;
     try {
       mapboxgl.accessToken = accessToken;
+      // Arabic labels need the RTL plugin to shape and order correctly; deferred until one is shown
+      if (mapboxgl.getRTLTextPluginStatus() === 'unavailable') {
+        mapboxgl.setRTLTextPlugin(RTL_TEXT_PLUGIN_URL, null, true);
+      }
 
       map = new mapboxgl.Map({
         container: container.current,
         style: mapStyle || "mapbox://styles/mapbox/streets-v12",
-        center: UAE_CENTER,
-        zoom: 15,
-        pitch: 55,
-        bearing: -20,
+        center: initialCamera?.center ?? UAE_CENTER,
+        zoom: initialCamera?.zoom ?? 15,
+        pitch: initialCamera?.pitch ?? 55,
+        bearing: initialCamera?.bearing ?? -20,
         projection: 'globe',
         antialias: false,
       });
@@ -145,14 +218,21 @@ useEffect(() => {
       map.touchZoomRotate.enable();
       map.keyboard.enable();
       map.boxZoom.enable();
-      // Force and ensure 3D perspective right after the map fully loads
+      map.on('moveend', () => {
+        if (!map) return;
+        const center = map.getCenter();
+        onCameraChangeRef.current?.({ center: [center.lng, center.lat], zoom: map.getZoom(), pitch: map.getPitch(), bearing: map.getBearing() });
+      });
+      // Force and ensure 3D perspective right after the map fully loads, unless a link set the camera
       map.on('load', () => {
         try {
           if (!map) return;
           const m = map as mapboxgl.Map;
-          if (m.getZoom() < 15) m.setZoom(15);
-          m.setPitch(60);
-          m.setBearing(45);
+          if (!initialCamera) {
+            if (m.getZoom() < 15) m.setZoom(15);
+            m.setPitch(60);
+            m.setBearing(45);
+          }
           // Add 3D buildings layer if it's not present yet
           if (!m.getLayer('3d-buildings')) {
             const layers = m.getStyle().layers || [];
@@ -224,6 +304,8 @@ useEffect(() => {
       })();
 
       map.on('style.load', () => {
+        localiseLabels(map!, languageRef.current);
+
         // Atmosphere
         map!.setFog({
           color: 'rgb(255,255,255)',
@@ -384,7 +466,47 @@ useEffect(() => {
         }
 
         // Properties point source & layers
-        map!.addSource('properties', { type: 'geojson', data: propertiesFC });
+        map!.addSource('properties', { type: 'geojson', data: toFeatureCollection(propertiesRef.current) });
+
+        // Ring under highlighted catalogue buildings
+        map!.addLayer({
+          id: 'property-highlight',
+          type: 'circle',
+          source: 'properties',
+          filter: highlightFilter(highlightedIdsRef.current),
+          paint: {
+            'circle-radius': [
+              'interpolate', ['linear'], ['zoom'],
+              6, 10,
+              12, 15,
+              15, 18
+            ],
+            'circle-color': 'hsl(262,83%,58%)',
+            'circle-opacity': 0.25,
+            'circle-stroke-width': 2.5,
+            'circle-stroke-color': 'hsl(262,83%,58%)',
+          }
+        });
+
+        // Gold ring around buildings on the user's watchlist
+        map!.addLayer({
+          id: 'watchlist-ring',
+          type: 'circle',
+          source: 'properties',
+          filter: highlightFilter(watchedIdsRef.current),
+          layout: { visibility: showWatchlistRef.current ? 'visible' : 'none' },
+          paint: {
+            'circle-radius': [
+              'interpolate', ['linear'], ['zoom'],
+              6, 8,
+              12, 12,
+              15, 14
+            ],
+            'circle-color': 'rgba(0,0,0,0)',
+            'circle-stroke-width': 3,
+            'circle-stroke-color': 'hsl(43,95%,50%)',
+          }
+        });
 
         map!.addLayer({
           id: 'property-points',
@@ -417,7 +539,7 @@ useEffect(() => {
             source: 'properties',
             minzoom: 14,
             layout: {
-              'text-field': ['format', 'AED ', {}, ['get', 'pricePerSqft'], {}],
+              'text-field': priceLabel(languageRef.current),
               'text-size': [
                 'interpolate', ['linear'], ['zoom'],
                 14, 10,
@@ -486,7 +608,7 @@ useEffect(() => {
         });
 
         // Zones
-        map!.addSource('zones', { type: 'geojson', data: zonesFC });
+        map!.addSource('zones', { type: 'geojson', data: buildZonesFeatureCollection(zonesRef.current) });
         map!.addLayer({
           id: 'zones-fill',
           type: 'fill',
@@ -515,6 +637,35 @@ useEffect(() => {
           }
         });
 
+        // Computed zone averages; zones with nothing inside just show their name
+        map!.addLayer({
+          id: 'zones-label',
+          type: 'symbol',
+          source: 'zones',
+          minzoom: 11,
+          maxzoom: 16,
+          layout: {
+            'text-field': [
+              'case', ['>', ['get', 'propertyCount'], 0],
+              ['format',
+                ['get', 'name'], { 'font-scale': 1 }, '\n', {},
+                'AED ', { 'font-scale': 0.8 }, ['to-string', ['get', 'avgPricePerSqft']], { 'font-scale': 0.8 },
+                '/sqft • ', { 'font-scale': 0.8 }, ['to-string', ['get', 'avgYield']], { 'font-scale': 0.8 }, '%', { 'font-scale': 0.8 }
+              ],
+              ['format', ['get', 'name'], {}]
+            ],
+            'text-size': 12,
+            'text-font': ['DIN Pro Medium', 'Arial Unicode MS Bold'],
+          },
+          paint: {
+            'text-color': [
+              'case', ['==', ['get', 'undervalued'], true], 'hsl(152, 60%, 28%)', 'hsl(210, 10%, 25%)'
+            ],
+            'text-halo-color': 'hsl(0, 0%, 100%)',
+            'text-halo-width': 1.2,
+          }
+        });
+
         // Neighborhoods feature removed
 
         // Interactions for landmarks
@@ -608,20 +759,7 @@ useEffect(() => {
                 
                 // Same property point creation and geocoding logic...
                 if (onSelect) {
-                  const tempPropertyPoint: PropertyPoint = {
-                    id: fid.toString(),
-                    coords: [centroid[0], centroid[1]],
-                    name: `Loading...`,
-                    community: "Dubai",
-                    estimatedValueAED: Math.floor(Math.random() * 2000000) + 800000,
-                    pricePerSqft: Math.floor(Math.random() * 800) + 600,
-                    rentYield: Math.round((Math.random() * 4 + 5) * 10) / 10,
-                    investmentScore: Math.floor(Math.random() * 30) + 70,
-                    priceTrend: Array.from({ length: 12 }).map((_, i) => ({
-                      month: new Date(2024, i, 1).toLocaleString('en', { month: 'short' }),
-                      value: Math.floor(Math.random() * 1000) + 1500
-                    }))
-                  };
+                  const tempPropertyPoint = clickedBuildingPoint(fid.toString(), [centroid[0], centroid[1]]);
                   
                   onSelect(tempPropertyPoint);
                   
@@ -777,20 +915,7 @@ useEffect(() => {
                 // Use Mapbox Geocoding API to get the actual building name
                 if (onSelect) {
                   // First, create a temporary property point with the building ID
-                  const tempPropertyPoint: PropertyPoint = {
-                    id: fid.toString(),
-                    coords: [centroid[0], centroid[1]],
-                    name: `Loading...`,
-                    community: "Dubai",
-                    estimatedValueAED: Math.floor(Math.random() * 2000000) + 800000,
-                    pricePerSqft: Math.floor(Math.random() * 800) + 600,
-                    rentYield: Math.round((Math.random() * 4 + 5) * 10) / 10,
-                    investmentScore: Math.floor(Math.random() * 30) + 70,
-                    priceTrend: Array.from({ length: 12 }).map((_, i) => ({
-                      month: new Date(2024, i, 1).toLocaleString('en', { month: 'short' }),
-                      value: Math.floor(Math.random() * 1000) + 1500
-                    }))
-                  };
+                  const tempPropertyPoint = clickedBuildingPoint(fid.toString(), [centroid[0], centroid[1]]);
                   
                   // Show loading state first
                   onSelect(tempPropertyPoint);
@@ -900,8 +1025,8 @@ useEffect(() => {
             return 2 * R * Math.asin(Math.sqrt(a));
           };
           const clickLng = e.lngLat.lng; const clickLat = e.lngLat.lat;
-          let nearest: typeof properties[number] | null = null; let min = Infinity;
-          for (const p of properties) {
+          let nearest: PropertyPoint | null = null; let min = Infinity;
+          for (const p of propertiesRef.current) {
             const d = distMeters(clickLat, clickLng, p.coords[1], p.coords[0]);
             if (d < min) { min = d; nearest = p; }
           }
@@ -917,7 +1042,7 @@ useEffect(() => {
           const feat = e.features?.[0] as mapboxgl.MapboxGeoJSONFeature | undefined;
           if (!feat) return;
           const id = feat.properties?.id as string;
-          const p = properties.find((pp) => pp.id === id);
+          const p = propertiesRef.current.find((pp) => pp.id === id);
           if (p && onSelect) onSelect(p);
 
           // Popup removed - using Google Places API and sidebar panel instead
@@ -934,7 +1059,32 @@ useEffect(() => {
     return () => {
       if (map) map.remove();
     };
-  }, [propertiesFC, zonesFC, token]);
+  }, [token]);
+
+  // Push catalogue updates into the existing source instead of rebuilding the map
+  useEffect(() => {
+    const map = mapRef.current; if (!map || !map.isStyleLoaded()) return;
+    const src = map.getSource('properties') as mapboxgl.GeoJSONSource | undefined;
+    src?.setData(propertiesFC);
+  }, [propertiesFC]);
+
+  useEffect(() => {
+    const map = mapRef.current; if (!map || !map.isStyleLoaded()) return;
+    const src = map.getSource('zones') as mapboxgl.GeoJSONSource | undefined;
+    src?.setData(zonesFC);
+  }, [zonesFC]);
+
+  useEffect(() => {
+    const map = mapRef.current; if (!map || !map.isStyleLoaded()) return;
+    if (map.getLayer('property-highlight')) map.setFilter('property-highlight', highlightFilter(highlightedPropertyIds));
+  }, [highlightedPropertyIds]);
+
+  useEffect(() => {
+    const map = mapRef.current; if (!map || !map.isStyleLoaded()) return;
+    if (!map.getLayer('watchlist-ring')) return;
+    map.setFilter('watchlist-ring', highlightFilter(watchedPropertyIds));
+    map.setLayoutProperty('watchlist-ring', 'visibility', showWatchlist ? 'visible' : 'none');
+  }, [watchedPropertyIds, showWatchlist]);
 
   // Update overlays visibility
   useEffect(() => {
@@ -967,6 +1117,7 @@ useEffect(() => {
         if (map.getLayer('isochrone-fill')) map.removeLayer('isochrone-fill');
         if (map.getLayer('isochrone-outline')) map.removeLayer('isochrone-outline');
         if (map.getSource('isochrones')) map.removeSource('isochrones');
+        isochroneDataRef.current = null;
       } catch (e) {
         console.warn('Failed to cleanup isochrones:', e);
       }
@@ -1014,24 +1165,9 @@ useEffect(() => {
       const mins = (cfg.minutes && cfg.minutes.length ? cfg.minutes : [10, 20, 30]);
       const contours = mins.join(',');
       const profile = cfg.profile || 'driving';
-      const accessToken = token || localStorage.getItem('MAPBOX_PUBLIC_TOKEN') || '';
+      console.log('Fetching isochrone for origin:', origin, 'Profile:', profile, 'Contours:', contours);
       
-      if (!accessToken) {
-        console.warn('No access token available for isochrone');
-        return;
-      }
-      
-      const url = `https://api.mapbox.com/isochrone/v1/mapbox/${profile}/${origin[0]},${origin[1]}?contours_minutes=${contours}&polygons=true&denoise=1&generalize=75&access_token=${accessToken}`;
-      
-      console.log('Fetching isochrone from:', url);
-      console.log('Origin coordinates:', origin);
-      console.log('Profile:', profile, 'Contours:', contours);
-      
-      fetch(url)
-        .then((r) => {
-          console.log('Isochrone response status:', r.status);
-          return r.json();
-        })
+      fetchIsochrone(profile, origin, mins)
         .then((geo) => {
           console.log('Isochrone data received:', geo);
           if (!geo || !geo.features) {
@@ -1048,6 +1184,7 @@ useEffect(() => {
           
           // Add new isochrone data
           map.addSource('isochrones', { type: 'geojson', data: geo });
+          isochroneDataRef.current = geo;
           
           map.addLayer({
             id: 'isochrone-fill',
@@ -1107,7 +1244,6 @@ useEffect(() => {
         })
         .catch((e) => {
           console.error('Isochrone fetch failed:', e);
-          console.error('URL that failed:', url);
         });
       
       // Function to fetch amenities within isochrone zones
@@ -1138,11 +1274,6 @@ useEffect(() => {
           const bbox = getBoundingBox(largestFeature.geometry);
           console.log('Calculated bbox:', bbox);
           
-          if (!accessToken) {
-            console.error('No access token available for amenity fetch');
-            return;
-          }
-          
           // Search for specific well-known places in Dubai using POI types
           const centerLng = (bbox[0] + bbox[2]) / 2;
           const centerLat = (bbox[1] + bbox[3]) / 2;
@@ -1151,13 +1282,12 @@ useEffect(() => {
           
           const amenityPromises = [
             // Search for POIs with different types
-            fetch(`https://api.mapbox.com/geocoding/v5/mapbox.places/poi.json?proximity=${centerLng},${centerLat}&bbox=${bbox.join(',')}&limit=20&types=poi&access_token=${accessToken}`)
-              .then(res => res.json())
-              .then(data => {
-                console.log('POI search results:', data.features?.length || 0);
-                return data.features?.map((feature: any) => {
+            geocodePlaces('poi', { proximity: [centerLng, centerLat], bbox, limit: 10, types: 'poi' })
+              .then(places => {
+                console.log('POI search results:', places.length);
+                return places.map((place) => {
                   // Determine category based on place name content
-                  const name = (feature.text || feature.place_name || '').toLowerCase();
+                  const name = place.fullName.toLowerCase();
                   let category = 'other';
                   
                   if (name.includes('restaurant') || name.includes('dining') || name.includes('food') || name.includes('kitchen') || name.includes('grill')) {
@@ -1175,15 +1305,15 @@ useEffect(() => {
                   }
                   
                   return {
-                    geometry: feature.geometry,
+                    geometry: { type: 'Point', coordinates: place.center },
                     properties: {
                       category,
-                      name: feature.text || feature.place_name,
-                      address: feature.place_name,
-                      mapbox_id: feature.id
+                      name: place.name,
+                      address: place.fullName,
+                      mapbox_id: place.id
                     }
                   };
-                }).filter((amenity: any) => amenity.properties.category !== 'other') || [];
+                }).filter((amenity) => amenity.properties.category !== 'other');
               })
               .catch(error => {
                 console.error('POI search failed:', error);
@@ -1191,18 +1321,17 @@ useEffect(() => {
               }),
               
             // Also try searching for addresses to find more results
-            fetch(`https://api.mapbox.com/geocoding/v5/mapbox.places/dubai.json?proximity=${centerLng},${centerLat}&bbox=${bbox.join(',')}&limit=15&types=address,poi,place&access_token=${accessToken}`)
-              .then(res => res.json())
-              .then(data => {
-                console.log('Dubai area search results:', data.features?.length || 0);
-                return data.features?.filter((feature: any) => {
-                  const name = (feature.text || feature.place_name || '').toLowerCase();
-                  return (feature.properties?.category || 
+            geocodePlaces('dubai', { proximity: [centerLng, centerLat], bbox, limit: 10, types: 'address,poi,place' })
+              .then(places => {
+                console.log('Dubai area search results:', places.length);
+                return places.filter((place) => {
+                  const name = place.fullName.toLowerCase();
+                  return (place.category || 
                           name.includes('restaurant') || name.includes('cafe') || 
                           name.includes('school') || name.includes('hospital') ||
                           name.includes('bank') || name.includes('mall'));
-                }).map((feature: any) => {
-                  const name = (feature.text || feature.place_name || '').toLowerCase();
+                }).map((place) => {
+                  const name = place.fullName.toLowerCase();
                   let category = 'restaurant'; // Default
                   
                   if (name.includes('coffee') || name.includes('cafe')) category = 'cafe';
@@ -1212,15 +1341,15 @@ useEffect(() => {
                   else if (name.includes('mall') || name.includes('shopping')) category = 'shopping_mall';
                   
                   return {
-                    geometry: feature.geometry,
+                    geometry: { type: 'Point', coordinates: place.center },
                     properties: {
                       category,
-                      name: feature.text || feature.place_name,
-                      address: feature.place_name,
-                      mapbox_id: feature.id
+                      name: place.name,
+                      address: place.fullName,
+                      mapbox_id: place.id
                     }
                   };
-                }) || [];
+                });
               })
               .catch(error => {
                 console.error('Dubai area search failed:', error);
@@ -1254,12 +1383,12 @@ useEffect(() => {
             // Show user-friendly notification
             const notification = document.createElement('div');
             notification.style.cssText = `
-              position: fixed; top: 80px; right: 20px; z-index: 1000;
-              background: #fef3c7; border-left: 4px solid #f59e0b; padding: 12px 16px;
+              position: fixed; top: 80px; inset-inline-end: 20px; z-index: 1000;
+              background: #fef3c7; border-inline-start: 4px solid #f59e0b; padding: 12px 16px;
               border-radius: 8px; box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1);
               max-width: 320px; font-size: 14px; color: #92400e; font-weight: 500;
             `;
-            notification.innerHTML = '⚠️ No amenities found in this specific travel zone. Try selecting a larger travel time or different location.';
+            notification.textContent = tRef.current('map.noAmenitiesInZone');
             document.body.appendChild(notification);
             setTimeout(() => notification.remove(), 5000);
           }
@@ -1270,7 +1399,7 @@ useEffect(() => {
       };
       
       // Helper to get bounding box from geometry
-      const getBoundingBox = (geometry: any) => {
+      const getBoundingBox = (geometry: any): BBox => {
         console.log('getBoundingBox input geometry:', geometry);
         
         if (!geometry?.coordinates?.length) {
@@ -1291,7 +1420,7 @@ useEffect(() => {
           maxLat = Math.max(maxLat, lat);
         });
         
-        const bbox = [minLng, minLat, maxLng, maxLat];
+        const bbox: BBox = [minLng, minLat, maxLng, maxLat];
         console.log('Calculated bbox:', bbox);
         return bbox;
       };
@@ -1452,7 +1581,7 @@ useEffect(() => {
     return () => {
       cleanupIsochrones();
     };
-  }, [isochrone?.enabled, isochrone?.profile, JSON.stringify(isochrone?.minutes), selected, token, directionsEnabled]);
+  }, [isochrone?.enabled, isochrone?.profile, JSON.stringify(isochrone?.minutes), selected, directionsEnabled]);
 
   // Directions control toggle with robust fallback
   useEffect(() => {
@@ -1489,26 +1618,22 @@ useEffect(() => {
           if (selected?.coords) ctl.setOrigin(selected.coords);
         } catch (e) {
           console.error('Directions control failed, using fallback routing', e);
-          const accessToken = token || localStorage.getItem('MAPBOX_PUBLIC_TOKEN') || '';
           const ensureSource = () => {
             if (!map.getSource('route')) {
               map.addSource('route', { type: 'geojson', data: { type: 'FeatureCollection', features: [] } as any });
               map.addLayer({ id: 'route-line', type: 'line', source: 'route', paint: { 'line-color': 'hsl(182,65%,45%)', 'line-width': 4, 'line-opacity': 0.85 } });
             }
           };
-          const fetchRoute = async (o: [number,number], d: [number,number]) => {
-            const url = `https://api.mapbox.com/directions/v5/mapbox/driving/${o[0]},${o[1]};${d[0]},${d[1]}?geometries=geojson&overview=full&access_token=${accessToken}`;
-            const res = await fetch(url);
-            const json = await res.json();
-            const geom = json?.routes?.[0]?.geometry;
-            if (!geom) return;
+          const drawRoute = async (o: [number,number], d: [number,number]) => {
+            const route = await fetchRoute('driving', o, d);
+            if (!route) return;
             ensureSource();
-            (map.getSource('route') as mapboxgl.GeoJSONSource).setData({ type: 'Feature', geometry: geom, properties: {} } as any);
+            (map.getSource('route') as mapboxgl.GeoJSONSource).setData({ type: 'Feature', geometry: route.geometry, properties: {} });
           };
           const handler = (e: any) => {
             const origin: [number,number] = selected?.coords ?? (map.getCenter().toArray() as [number,number]);
             const dest: [number,number] = [e.lngLat.lng, e.lngLat.lat];
-            fetchRoute(origin, dest);
+            drawRoute(origin, dest);
           };
           routeClickHandlerRef.current = handler;
           // @ts-ignore
@@ -1540,7 +1665,7 @@ useEffect(() => {
       }
       removeFallback();
     };
-  }, [directionsEnabled, selected, token, isochrone?.enabled]);
+  }, [directionsEnabled, selected, isochrone?.enabled]);
 
   // Keep directions origin in sync with selected property
   useEffect(() => {
@@ -1550,6 +1675,14 @@ useEffect(() => {
     }
   }, [selected]);
 
+  // Relabel the base map and price labels when the interface language changes
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !map.isStyleLoaded()) return;
+    localiseLabels(map, language);
+    if (map.getLayer('property-labels')) map.setLayoutProperty('property-labels', 'text-field', priceLabel(language));
+  }, [language]);
+
   // Update base style when mapStyle changes
   useEffect(() => {
     const map = mapRef.current; if (!map || !mapStyle) return;
@@ -1667,9 +1800,9 @@ useEffect(() => {
         const c = f.geometry.coordinates as [number, number];
         const p = f.properties || {};
         const rating = p.rating ? `★ ${Number(p.rating).toFixed(1)}` : '';
-        const dist = p.distance ? `${Math.round(Number(p.distance))} m` : '';
+        const dist = p.distance ? tRef.current('stats.meters', { value: Math.round(Number(p.distance)) }) : '';
         const gLink = p.gUrl || `https://www.google.com/maps/search/?api=1&query=${c[1]},${c[0]}`;
-        const website = p.website ? `<a class="text-primary story-link" href="${p.website}" target="_blank" rel="noreferrer">Website</a>` : '';
+        const website = p.website ? `<a class="text-primary story-link" href="${p.website}" target="_blank" rel="noreferrer">${tRef.current('map.website')}</a>` : '';
         new mapboxgl.Popup({ offset: 10, className: 'quick-popup' })
           .setLngLat(c)
           .setHTML(`
@@ -1786,6 +1919,11 @@ useEffect(() => {
   useEffect(() => {
     const map = mapRef.current; if (!map) return;
     if (!selected) return;
+    // A selection restored from a link keeps the link's camera
+    if (selected.id === skipSelectedFlyRef.current) {
+      skipSelectedFlyRef.current = undefined;
+      return;
+    }
     
     // Close any existing popups
     const popups = document.getElementsByClassName('mapboxgl-popup');
@@ -1812,8 +1950,8 @@ useEffect(() => {
       {!hasToken && (
         <div className="absolute inset-0 z-10 flex items-center justify-center">
           <div className="glass-panel rounded-lg p-6 shadow-xl max-w-md text-center animate-fade-in">
-            <h2 className="text-xl font-semibold mb-2">Mapbox token required</h2>
-            <p className="text-sm text-muted-foreground">Please provide a Mapbox public token to render the 3D UAE map.</p>
+            <h2 className="text-xl font-semibold mb-2">{t('map.tokenRequired')}</h2>
+            <p className="text-sm text-muted-foreground">{t('map.tokenRequiredDetail')}</p>
           </div>
         </div>
       )}
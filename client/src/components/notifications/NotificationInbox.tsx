@@ -0,0 +1,71 @@
+import React from 'react';
+import type { InboxNotification } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Bell } from 'lucide-react';
+import { useNotifications } from '@/hooks/useNotifications';
+import { useAuth } from '@/hooks/useAuth';
+import { useI18n } from '@/hooks/useI18n';
+
+interface NotificationInboxProps {
+  onOpenProperty?: (propertyId: string) => void;
+}
+
+/**
+ * Header bell with saved-search alerts; opening an alert marks it read
+ */
+const NotificationInbox: React.FC<NotificationInboxProps> = ({ onOpenProperty }) => {
+  const { user } = useAuth();
+  const { notifications, unreadCount, markRead } = useNotifications();
+  const { t, formatNumber, formatDate } = useI18n();
+  if (!user) return null;
+
+  const open = (notification: InboxNotification) => {
+    if (!notification.read) markRead([notification.id]).catch((e) => console.error('Mark read error:', e));
+    if (notification.propertyId) onOpenProperty?.(notification.propertyId);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="relative" aria-label={t('notifications.label', { count: unreadCount })}>
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1.5 -end-1.5 min-w-[18px] h-[18px] rounded-full bg-red-600 px-1 text-[10px] leading-[18px] text-white">
+              {unreadCount > 99 ? `${formatNumber(99)}+` : formatNumber(unreadCount)}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-3 py-2">
+          <div className="text-sm font-semibold">{t('notifications.title')}</div>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => markRead(undefined).catch((e) => console.error('Mark read error:', e))}>
+              {t('notifications.markAllRead')}
+            </Button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-y-auto divide-y">
+          {notifications.length === 0 && (
+            <div className="px-3 py-6 text-center text-xs text-muted-foreground">{t('notifications.empty')}</div>
+          )}
+          {notifications.map((n) => (
+            <button
+              key={n.id}
+              type="button"
+              onClick={() => open(n)}
+              className={`w-full px-3 py-2 text-start hover:bg-muted/50 ${n.read ? '' : 'bg-blue-50/60'}`}
+            >
+              <div className="text-sm font-medium">{n.title}</div>
+              <div className="text-xs text-muted-foreground">{n.body}</div>
+              <div className="text-[10px] text-muted-foreground mt-0.5">{formatDate(n.createdAt, { dateStyle: 'medium', timeStyle: 'short' })}</div>
+            </button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationInbox;
@@ -0,0 +1,222 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  DEFAULT_ACQUISITION_RULES,
+  acquisitionCosts,
+  maxLtvPct,
+  type AcquisitionRules,
+  type BuyerResidency,
+} from '@shared/finance';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { Calculator } from 'lucide-react';
+import { useI18n } from '@/hooks/useI18n';
+
+interface AcquisitionCalculatorProps {
+  priceAED: number;
+  yieldPct: number;
+  sizeSqft?: number;
+  rules?: AcquisitionRules;
+}
+
+// Typical Dubai apartment service charge when the building's own figure is unknown
+const DEFAULT_SERVICE_CHARGE_PER_SQFT = 15;
+
+const toNumber = (value: string) => (value.trim() === '' ? 0 : Number(value));
+
+const Row: React.FC<{ label: string; value: string; muted?: boolean; strong?: boolean }> = ({ label, value, muted, strong }) => (
+  <div className="flex justify-between">
+    <span className={`text-sm ${muted ? 'text-muted-foreground' : 'text-gray-600'}`}>{label}</span>
+    <span className={`text-sm ${strong ? 'font-bold' : 'font-medium'}`}>{value}</span>
+  </div>
+);
+
+/**
+ * Buying costs, mortgage schedule and cash-on-cash return for the property on screen
+ */
+const AcquisitionCalculator: React.FC<AcquisitionCalculatorProps> = ({
+  priceAED,
+  yieldPct,
+  sizeSqft,
+  rules: baseRules = DEFAULT_ACQUISITION_RULES,
+}) => {
+  const { t, formatAED, formatNumber, formatPercent } = useI18n();
+  const [price, setPrice] = useState(String(priceAED));
+  const [residency, setResidency] = useState<BuyerResidency>('resident');
+  const [firstProperty, setFirstProperty] = useState(true);
+  const [ltv, setLtv] = useState(80);
+  const [rate, setRate] = useState('4.5');
+  const [years, setYears] = useState(25);
+  const [rent, setRent] = useState('');
+  const [serviceCharges, setServiceCharges] = useState('');
+  const [commission, setCommission] = useState(String(baseRules.agencyCommissionPct));
+  const [deferDldFee, setDeferDldFee] = useState(baseRules.firstBuyerDeferDldFee);
+
+  // Start again from the listing's figures whenever another property is opened
+  useEffect(() => {
+    setPrice(String(priceAED));
+    setRent(String(Math.round((priceAED * yieldPct) / 100)));
+    setServiceCharges(sizeSqft ? String(sizeSqft * DEFAULT_SERVICE_CHARGE_PER_SQFT) : '');
+  }, [priceAED, yieldPct, sizeSqft]);
+
+  const rules = useMemo(
+    () => ({ ...baseRules, agencyCommissionPct: toNumber(commission), firstBuyerDeferDldFee: deferDldFee }),
+    [baseRules, commission, deferDldFee],
+  );
+  const priceValue = toNumber(price);
+  const cap = maxLtvPct(priceValue, residency, firstProperty, rules);
+
+  // Keep the slider inside the cap as residency, first-buyer status or price change
+  useEffect(() => {
+    setLtv((current) => Math.min(current, cap));
+  }, [cap]);
+
+  const costs = acquisitionCosts(
+    {
+      priceAED: priceValue,
+      residency,
+      firstProperty,
+      ltvPct: ltv,
+      annualRatePct: toNumber(rate),
+      years,
+      annualRentAED: toNumber(rent),
+      annualServiceChargesAED: toNumber(serviceCharges),
+    },
+    rules,
+  );
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <CardHeader className="p-0 pb-4">
+          <CardTitle className="text-base font-semibold flex items-center gap-2">
+            <Calculator className="w-4 h-4" />
+            {t('calculator.purchase')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0 space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="calc-price">{t('calculator.price')}</Label>
+            <Input id="calc-price" type="number" min={0} value={price} onChange={(e) => setPrice(e.target.value)} />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="calc-non-resident" className="cursor-pointer">{t('calculator.nonResident')}</Label>
+            <Switch
+              id="calc-non-resident"
+              checked={residency === 'non-resident'}
+              onCheckedChange={(v) => setResidency(v ? 'non-resident' : 'resident')}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="calc-first" className="cursor-pointer">{t('calculator.firstProperty')}</Label>
+            <Switch id="calc-first" checked={firstProperty} onCheckedChange={setFirstProperty} />
+          </div>
+          {firstProperty && (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="calc-defer" className="cursor-pointer">{t('calculator.deferDld')}</Label>
+              <Switch id="calc-defer" checked={deferDldFee} onCheckedChange={setDeferDldFee} />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="calc-commission">{t('calculator.commission')}</Label>
+            <Input id="calc-commission" type="number" min={0} max={10} step="0.1" value={commission} onChange={(e) => setCommission(e.target.value)} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="p-4">
+        <CardHeader className="p-0 pb-4">
+          <CardTitle className="text-base font-semibold">{t('calculator.mortgage')}</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0 space-y-3">
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>{t('calculator.ltv')}</span>
+              <span className="font-medium">{formatPercent(costs.ltvPct)} <span className="text-muted-foreground">{t('calculator.maxLtv', { value: formatPercent(cap) })}</span></span>
+            </div>
+            <Slider value={[Math.min(ltv, cap)]} onValueChange={(v) => setLtv(v[0])} min={0} max={cap} step={5} disabled={cap === 0} />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="calc-rate">{t('calculator.rate')}</Label>
+              <Input id="calc-rate" type="number" min={0} max={30} step="0.01" value={rate} onChange={(e) => setRate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="calc-years">{t('calculator.tenor')}</Label>
+              <Input id="calc-years" type="number" min={1} max={25} value={years} onChange={(e) => setYears(Math.max(1, Math.min(25, Number(e.target.value) || 1)))} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="calc-rent">{t('calculator.rent')}</Label>
+              <Input id="calc-rent" type="number" min={0} value={rent} onChange={(e) => setRent(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="calc-service">{t('calculator.serviceCharges')}</Label>
+              <Input id="calc-service" type="number" min={0} value={serviceCharges} onChange={(e) => setServiceCharges(e.target.value)} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="p-4">
+        <CardHeader className="p-0 pb-4">
+          <CardTitle className="text-base font-semibold">{t('calculator.costsAndReturns')}</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0 space-y-2">
+          <Row label={t('calculator.downPayment')} value={formatAED(costs.downPaymentAED)} />
+          <Row label={t('calculator.dldFee', { value: formatPercent(rules.dldTransferFeePct) })} value={costs.dldFeeDeferred ? t('calculator.deferred', { value: formatAED(costs.dldTransferFeeAED) }) : formatAED(costs.dldTransferFeeAED)} />
+          <Row label={t('calculator.trusteeFee')} value={formatAED(costs.trusteeFeeAED)} />
+          <Row label={t('calculator.agencyCommission')} value={formatAED(costs.agencyCommissionAED)} />
+          <Row label={t('calculator.mortgageRegistration')} value={formatAED(costs.mortgageRegistrationAED)} />
+          <Separator />
+          <Row label={t('calculator.cashRequired')} value={formatAED(costs.cashRequiredAED)} strong />
+          <Row label={t('calculator.loanAmount')} value={formatAED(costs.loanAED)} />
+          <Row label={t('calculator.monthlyPayment')} value={formatAED(costs.monthlyPaymentAED)} />
+          <Row label={t('calculator.totalInterest')} value={formatAED(costs.totalInterestAED)} muted />
+          <Separator />
+          <Row label={t('calculator.cashFlow')} value={formatAED(costs.annualCashFlowAED)} />
+          <div className="flex justify-between">
+            <span className="text-sm text-gray-600">{t('calculator.cashOnCash')}</span>
+            <span className={`text-sm font-bold ${costs.cashOnCashPct >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>{formatPercent(costs.cashOnCashPct)}</span>
+          </div>
+        </CardContent>
+      </Card>
+
+      {costs.schedule.length > 0 && (
+        <Card className="p-4">
+          <CardHeader className="p-0 pb-3">
+            <CardTitle className="text-base font-semibold">{t('calculator.amortisation')}</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <div className="max-h-56 overflow-y-auto">
+              <table className="w-full text-xs">
+                <thead className="text-muted-foreground sticky top-0 bg-white">
+                  <tr>
+                    <th className="text-start font-medium py-1">{t('calculator.year')}</th>
+                    <th className="text-end font-medium py-1">{t('calculator.interest')}</th>
+                    <th className="text-end font-medium py-1">{t('calculator.principal')}</th>
+                    <th className="text-end font-medium py-1">{t('calculator.balance')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {costs.schedule.map((row) => (
+                    <tr key={row.year} className="border-t">
+                      <td className="py-1">{formatNumber(row.year)}</td>
+                      <td className="text-end py-1">{formatNumber(Math.round(row.interest))}</td>
+                      <td className="text-end py-1">{formatNumber(Math.round(row.principal))}</td>
+                      <td className="text-end py-1">{formatNumber(Math.round(row.balance))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default AcquisitionCalculator;
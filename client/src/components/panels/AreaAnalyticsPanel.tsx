@@ -0,0 +1,128 @@
+import React from 'react';
+import type { AreaAnalytics } from '@shared/schema';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { Shapes, X } from 'lucide-react';
+import { ALL_AMENITY_CATEGORIES, type AmenityCategory } from '@/components/controls/AmenityFilters';
+import { useI18n } from '@/hooks/useI18n';
+
+interface AreaAnalyticsPanelProps {
+  analytics: AreaAnalytics | null;
+  isLoading?: boolean;
+  error?: unknown;
+  onClear: () => void;
+  onSelectBuilding?: (id: string) => void;
+}
+
+const AreaAnalyticsPanel: React.FC<AreaAnalyticsPanelProps> = ({ analytics, isLoading, error, onClear, onSelectBuilding }) => {
+  const { t, formatAED, formatNumber, formatPercent } = useI18n();
+  const amenityEntries = analytics ? Object.entries(analytics.amenityCounts).sort((a, b) => b[1] - a[1]) : [];
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between">
+          <CardTitle className="text-base font-semibold flex items-center gap-2">
+            <Shapes className="w-4 h-4" />
+            {t('area.title')}
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={onClear} className="text-gray-500 hover:text-gray-700" title={t('area.clear')}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+        {analytics && (
+          <div className="text-xs text-muted-foreground">{t('common.sqkm', { value: analytics.areaSqKm })}</div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {isLoading && <div className="text-muted-foreground">{t('area.analysing')}</div>}
+        {!!error && !isLoading && <div className="text-red-600">{t('area.error')}</div>}
+
+        {analytics && (
+          <>
+            <div className="grid grid-cols-3 gap-2">
+              <div className="p-2 bg-gray-50 rounded-lg">
+                <div className="text-xs text-gray-600">{t('area.properties')}</div>
+                <div className="font-bold">{formatNumber(analytics.propertyCount)}</div>
+              </div>
+              <div className="p-2 bg-gray-50 rounded-lg">
+                <div className="text-xs text-gray-600">{t('area.medianPerSqft')}</div>
+                <div className="font-bold">
+                  {analytics.medianPricePerSqft != null ? formatAED(analytics.medianPricePerSqft) : t('common.none')}
+                </div>
+              </div>
+              <div className="p-2 bg-green-50 rounded-lg">
+                <div className="text-xs text-gray-600">{t('area.avgYield')}</div>
+                <div className="font-bold text-green-600">
+                  {analytics.averageYield != null ? formatPercent(analytics.averageYield) : t('common.none')}
+                </div>
+              </div>
+            </div>
+
+            {analytics.propertyCount > 0 && (
+              <div>
+                <div className="text-xs font-medium text-gray-600 mb-1">{t('area.yieldDistribution')}</div>
+                <div className="h-28">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={analytics.yieldDistribution}>
+                      <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fontSize: 11, fill: '#666' }} />
+                      <YAxis hide allowDecimals={false} />
+                      <Tooltip formatter={(v: number) => [formatNumber(v), t('area.properties')]} />
+                      <Bar dataKey="count" fill="hsl(152,53%,41%)" radius={[4, 4, 0, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            )}
+
+            {analytics.topBuildings.length > 0 && (
+              <div>
+                <div className="text-xs font-medium text-gray-600 mb-1">{t('area.topBuildings')}</div>
+                <div className="divide-y rounded-md border">
+                  {analytics.topBuildings.map((b) => (
+                    <button
+                      key={b.id}
+                      type="button"
+                      onClick={() => onSelectBuilding?.(b.id)}
+                      className="w-full flex items-center justify-between gap-2 px-3 py-2 text-start hover:bg-muted/50"
+                    >
+                      <div>
+                        <div className="font-medium">{b.name}</div>
+                        <div className="text-xs text-muted-foreground">{b.community} • {formatPercent(b.rentYield)} • {t('common.perSqft', { value: formatAED(b.pricePerSqft) })}</div>
+                      </div>
+                      <Badge variant="secondary">{formatNumber(b.score)}</Badge>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <Separator />
+
+            <div>
+              <div className="text-xs font-medium text-gray-600 mb-1">{t('area.amenitiesInside')}</div>
+              {amenityEntries.length ? (
+                <div className="flex flex-wrap gap-2">
+                  {amenityEntries.map(([category, count]) => (
+                    <Badge key={category} variant="outline">
+                      {ALL_AMENITY_CATEGORIES.includes(category as AmenityCategory)
+                        ? t(`amenities.categories.${category as AmenityCategory}`)
+                        : category}: {formatNumber(count)}
+                    </Badge>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-xs text-muted-foreground">{t('area.noAmenities')}</div>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AreaAnalyticsPanel;
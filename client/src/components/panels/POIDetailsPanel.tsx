@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { MapPin, Star, Phone, Globe, Clock, Navigation } from 'lucide-react';
+import { useI18n } from '@/hooks/useI18n';
 
 export interface POIDetails {
   id: string;
@@ -40,6 +41,7 @@ interface POIDetailsPanelProps {
 }
 
 const POIDetailsPanel: React.FC<POIDetailsPanelProps> = ({ poi, onClose, onGetDirections }) => {
+  const { t, formatAED, formatPercent } = useI18n();
   if (!poi) return null;
 
   const renderPriceLevel = (level?: number) => {
@@ -62,7 +64,7 @@ const POIDetailsPanel: React.FC<POIDetailsPanelProps> = ({ poi, onClose, onGetDi
   };
 
   return (
-    <Card className="absolute top-4 right-4 w-80 max-h-[calc(100vh-2rem)] overflow-y-auto z-50 shadow-xl bg-white">
+    <Card className="absolute top-4 end-4 w-80 max-h-[calc(100vh-2rem)] overflow-y-auto z-50 shadow-xl bg-white">
       {/* Header with property image */}
       {poi.imageUrl && (
         <div className="relative h-48 overflow-hidden rounded-t-lg">
@@ -71,7 +73,7 @@ const POIDetailsPanel: React.FC<POIDetailsPanelProps> = ({ poi, onClose, onGetDi
             variant="ghost" 
             size="sm" 
             onClick={onClose} 
-            className="absolute top-2 right-2 bg-white/80 hover:bg-white text-black"
+            className="absolute top-2 end-2 bg-white/80 hover:bg-white text-black"
           >
             ×
           </Button>
@@ -102,26 +104,26 @@ const POIDetailsPanel: React.FC<POIDetailsPanelProps> = ({ poi, onClose, onGetDi
           <div className="grid grid-cols-2 gap-4 p-4 bg-gray-50 rounded-lg">
             {poi.value && (
               <div>
-                <div className="text-sm font-medium text-gray-600">Value</div>
-                <div className="text-lg font-bold">AED {poi.value.toLocaleString()}</div>
+                <div className="text-sm font-medium text-gray-600">{t('poi.value')}</div>
+                <div className="text-lg font-bold">{formatAED(poi.value)}</div>
               </div>
             )}
             {poi.pricePerSqFt && (
               <div>
-                <div className="text-sm font-medium text-gray-600">Per Sq.Ft</div>
-                <div className="text-lg font-bold">AED {poi.pricePerSqFt}</div>
+                <div className="text-sm font-medium text-gray-600">{t('poi.perSqft')}</div>
+                <div className="text-lg font-bold">{formatAED(poi.pricePerSqFt)}</div>
               </div>
             )}
             {poi.yield && (
               <div>
-                <div className="text-sm font-medium text-gray-600">Yield</div>
-                <div className="text-lg font-bold text-green-600">{poi.yield}%</div>
+                <div className="text-sm font-medium text-gray-600">{t('poi.yield')}</div>
+                <div className="text-lg font-bold text-green-600">{formatPercent(poi.yield)}</div>
               </div>
             )}
             {poi.score && (
               <div>
-                <div className="text-sm font-medium text-gray-600">Score</div>
-                <div className="text-lg font-bold text-orange-600">{poi.score}/100</div>
+                <div className="text-sm font-medium text-gray-600">{t('poi.score')}</div>
+                <div className="text-lg font-bold text-orange-600">{t('poi.outOf100', { value: poi.score })}</div>
               </div>
             )}
           </div>
@@ -149,7 +151,7 @@ const POIDetailsPanel: React.FC<POIDetailsPanelProps> = ({ poi, onClose, onGetDi
             <div className="flex items-center gap-2 text-sm">
               <Globe className="w-4 h-4 text-gray-500" />
               <a href={poi.website} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
-                Visit Website
+                {t('poi.website')}
               </a>
             </div>
           )}
@@ -164,8 +166,8 @@ const POIDetailsPanel: React.FC<POIDetailsPanelProps> = ({ poi, onClose, onGetDi
         <Separator />
 
         <Button onClick={handleDirections} className="w-full">
-          <Navigation className="w-4 h-4 mr-2" />
-          Get Directions
+          <Navigation className="w-4 h-4 me-2" />
+          {t('poi.directions')}
         </Button>
       </CardContent>
     </Card>
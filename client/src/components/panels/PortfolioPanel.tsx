@@ -0,0 +1,132 @@
+import React from 'react';
+import type { PropertyPoint } from '@shared/schema';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Area, AreaChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Briefcase, X } from 'lucide-react';
+import { usePortfolio } from '@/hooks/usePortfolio';
+import { useI18n } from '@/hooks/useI18n';
+
+interface PortfolioPanelProps {
+  onSelect: (property: PropertyPoint) => void;
+}
+
+/**
+ * Owned units with their current value, gain and realised yield, plus a value-over-time chart
+ */
+const PortfolioPanel: React.FC<PortfolioPanelProps> = ({ onSelect }) => {
+  const { portfolio, remove, signedIn, isLoading, error } = usePortfolio();
+  const { t, formatAED, formatNumber, formatPercent, formatMonth } = useI18n();
+  if (!signedIn) return null;
+
+  const signedPct = (n: number) => formatNumber(n / 100, { style: 'percent', signDisplay: 'exceptZero', maximumFractionDigits: 1 });
+  const signedAED = (n: number) => formatNumber(n, { style: 'currency', currency: 'AED', signDisplay: 'exceptZero', maximumFractionDigits: 0 });
+
+  const summary = portfolio?.summary;
+  const holdings = portfolio?.holdings ?? [];
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base font-semibold flex items-center gap-2">
+          <Briefcase className="w-4 h-4" />
+          {t('portfolio.title')}
+          {holdings.length > 0 && <span className="text-xs font-normal text-muted-foreground">({holdings.length})</span>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {isLoading && <div className="text-muted-foreground">{t('portfolio.loading')}</div>}
+        {!!error && !isLoading && <div className="text-red-600">{t('portfolio.error')}</div>}
+        {!isLoading && !error && !holdings.length && (
+          <div className="text-xs text-muted-foreground">{t('portfolio.empty')}</div>
+        )}
+
+        {summary && holdings.length > 0 && (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="p-2 bg-gray-50 rounded-lg">
+                <div className="text-xs text-gray-600">{t('portfolio.currentValue')}</div>
+                <div className="font-bold">{formatAED(summary.currentValueAED)}</div>
+              </div>
+              <div className={`p-2 rounded-lg ${summary.unrealisedGainAED >= 0 ? 'bg-green-50' : 'bg-red-50'}`}>
+                <div className="text-xs text-gray-600">{t('portfolio.unrealisedGain')}</div>
+                <div className={`font-bold ${summary.unrealisedGainAED >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {signedPct(summary.unrealisedGainPct)}
+                </div>
+              </div>
+              <div className="p-2 bg-gray-50 rounded-lg">
+                <div className="text-xs text-gray-600">{t('portfolio.equity')}</div>
+                <div className="font-bold">{formatAED(summary.equityAED)}</div>
+              </div>
+              <div className="p-2 bg-gray-50 rounded-lg">
+                <div className="text-xs text-gray-600">{t('portfolio.netYield')}</div>
+                <div className="font-bold">{formatPercent(summary.netYield)}</div>
+              </div>
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {t('portfolio.cashFlow', { value: signedAED(summary.annualCashFlowAED) })}
+            </div>
+
+            {portfolio.history.length > 1 && (
+              <div className="rounded-lg border p-3">
+                <div className="text-xs text-muted-foreground mb-2">{t('portfolio.valueVsCost')}</div>
+                <div className="h-40">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <AreaChart data={portfolio.history} margin={{ left: 0, right: 0, top: 5, bottom: 0 }}>
+                      <defs>
+                        <linearGradient id="portfolio-value" x1="0" y1="0" x2="0" y2="1">
+                          <stop offset="5%" stopColor="hsl(182,65%,45%)" stopOpacity={0.8}/>
+                          <stop offset="95%" stopColor="hsl(182,65%,45%)" stopOpacity={0.05}/>
+                        </linearGradient>
+                      </defs>
+                      <XAxis dataKey="month" tickLine={false} axisLine={false} fontSize={12} minTickGap={24} tickFormatter={formatMonth} />
+                      <YAxis hide domain={["dataMin", "dataMax"]} />
+                      <Tooltip
+                        contentStyle={{ background: 'hsl(var(--card))', border: '1px solid hsl(var(--border))' }}
+                        formatter={(v: number, name: string) => [formatAED(v), name]}
+                        labelFormatter={(label: string) => formatMonth(label)}
+                      />
+                      <Area type="monotone" dataKey="valueAED" name={t('portfolio.value')} stroke="hsl(182,65%,45%)" fill="url(#portfolio-value)" strokeWidth={2} />
+                      <Line type="stepAfter" dataKey="costAED" name={t('portfolio.cost')} stroke="hsl(0,0%,55%)" strokeDasharray="4 3" dot={false} strokeWidth={1.5} />
+                    </AreaChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            )}
+
+            <div className="divide-y rounded-md border">
+              {holdings.map((h) => (
+                <div key={h.holding.id} className="flex items-center gap-1 hover:bg-muted/50">
+                  <button type="button" onClick={() => onSelect(h.property)} className="flex-1 px-3 py-2 text-start">
+                    <div className="font-medium">
+                      {h.property.name}{h.holding.label && <span className="text-muted-foreground"> • {h.holding.label}</span>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatAED(h.currentValueAED)} •{' '}
+                      <span className={h.unrealisedGainAED >= 0 ? 'text-green-600' : 'text-red-600'}>{signedPct(h.unrealisedGainPct)}</span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {t('portfolio.yieldVsMap', { net: formatPercent(h.netYield), map: formatPercent(h.mapYield) })}
+                      {h.outstandingLoanAED > 0 && ` • ${t('portfolio.loan', { value: formatAED(h.outstandingLoanAED) })}`}
+                    </div>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => remove(h.holding.id).catch((e) => console.error('Portfolio remove error:', e))}
+                    className="text-gray-500 hover:text-gray-700"
+                    title={t('portfolio.remove')}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PortfolioPanel;
@@ -1,16 +1,30 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { X, MapPin, TrendingUp, BarChart3, Building2 } from 'lucide-react';
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
+import { X, MapPin, TrendingUp, BarChart3, Building2, Briefcase, FileText, Loader2 } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from 'recharts';
 import { BuildingImageGallery } from '@/components/images/BuildingImageGallery';
 import { useBuildingImages } from '@/hooks/useBuildingImages';
 import { useGooglePlaces } from '@/hooks/useGooglePlaces';
+import { useComparables } from '@/hooks/useComparables';
+import WatchlistStar from '@/components/controls/WatchlistStar';
+import AddHoldingDialog from '@/components/controls/AddHoldingDialog';
+import AcquisitionCalculator from '@/components/panels/AcquisitionCalculator';
+import LoginDialog from '@/components/auth/LoginDialog';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useScoreWeights } from '@/hooks/useInvestmentScore';
+import { useI18n } from '@/hooks/useI18n';
+import { generatePropertyReport, type ReportContext } from '@/services/reportService';
+import type { PropertyEstimate, UnitLookupResult } from '@shared/schema';
 
 export interface PropertyData {
   id: string;
+  // Catalogue id when this is (or belongs to) a building in /api/properties; enables the watchlist star
+  propertyId?: string;
   name: string;
   address: string;
   location: string;
@@ -22,8 +36,8 @@ export interface PropertyData {
   pricePerSqFt: number;
   yield: number;
   
-  // Performance metrics
-  score: number;
+  // Performance metrics; the score comes from /api/score and is missing until it answers
+  score?: number;
   marketTrend: string;
   
   // Property details
@@ -36,34 +50,36 @@ export interface PropertyData {
     month: string;
     value: number;
   }>;
+
+  // Inputs the estimation service used, when the figures came from /api/estimate
+  estimate?: PropertyEstimate;
+
+  // Set when the panel shows a single unit found by identifier lookup
+  unit?: {
+    unitNumber: string;
+    identifiers: UnitLookupResult['identifiers'];
+  };
 }
 
 interface PropertyDetailsPanelProps {
   property: PropertyData | null;
   onClose: () => void;
+  // Amenities and travel-time settings from the map, included in generated reports
+  reportContext?: ReportContext;
 }
 
-// Generate sample price trend data
-const generatePriceHistory = (currentValue: number) => {
-  const months = ['Feb', 'Mar', 'Apr', 'Jun', 'Jul', 'Sep', 'Oct', 'Dec'];
-  const baseValue = currentValue * 0.85; // Start 15% lower
-  
-  return months.map((month, index) => ({
-    month,
-    value: Math.round(baseValue + (currentValue - baseValue) * (index / (months.length - 1)))
-  }));
-};
-
-const PropertyDetailsPanel: React.FC<PropertyDetailsPanelProps> = ({ property, onClose }) => {
-  if (!property) return null;
-
-  const priceHistory = property.priceHistory || generatePriceHistory(property.value);
-  const currentPrice = priceHistory[priceHistory.length - 1]?.value || property.value;
-  const previousPrice = priceHistory[priceHistory.length - 2]?.value || property.value;
-  const priceChange = ((currentPrice - previousPrice) / previousPrice * 100).toFixed(1);
-  const isPositive = Number(priceChange) > 0;
+const PropertyDetailsPanel: React.FC<PropertyDetailsPanelProps> = ({ property, onClose, reportContext }) => {
+  // Hooks run before the early return so opening and closing the panel keeps the hook order stable
+  const coordinates: [number, number] | undefined = property ? [property.coordinates[0], property.coordinates[1]] : undefined;
 
-  const coordinates: [number, number] = [property.coordinates[0], property.coordinates[1]];
+  // Recorded sales of similar units nearby; fall back to the supplied trend when there are none
+  const { sales, history: salesHistory, isLoading: salesLoading } = useComparables({
+    coordinates,
+    size: property?.size,
+    bedrooms: property?.bedrooms,
+    bedroomTolerance: 1,
+    limit: 5
+  });
   
   // Get real building name from Google Places API
   const { nearestBuilding, isLoading: placesLoading } = useGooglePlaces({
@@ -72,19 +88,57 @@ const PropertyDetailsPanel: React.FC<PropertyDetailsPanelProps> = ({ property, o
   });
   
   // Use Google Places name if available, fallback to Mapbox name
-  const displayName = nearestBuilding?.name || property.name;
-  const displayAddress = nearestBuilding?.address || property.location;
+  const displayName = nearestBuilding?.name || property?.name || '';
+  const displayAddress = nearestBuilding?.address || property?.location || '';
   
   // Fetch building images using the new image service
   const { images, isLoading: imagesLoading } = useBuildingImages({
     coordinates,
     buildingName: displayName,
     address: displayAddress,
-    enabled: true
+    enabled: !!property
   });
 
+  const { user } = useAuth();
+  const [holdingOpen, setHoldingOpen] = useState(false);
+  const [loginOpen, setLoginOpen] = useState(false);
+
+  const { weights } = useScoreWeights();
+  const { toast } = useToast();
+  const { t, formatAED, formatNumber, formatPercent, formatDate, formatMonth } = useI18n();
+  const [generatingReport, setGeneratingReport] = useState(false);
+  const handleGenerateReport = async () => {
+    if (!property || !coordinates) return;
+    // Open the tab within the click so popup blockers let it through
+    const reportWindow = window.open('', '_blank');
+    setGeneratingReport(true);
+    try {
+      const html = await generatePropertyReport(
+        { coordinates, propertyId: property.propertyId, name: displayName, address: displayAddress },
+        { weights, ...reportContext }
+      );
+      const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+      if (reportWindow) reportWindow.location.href = url;
+      else window.open(url, '_blank');
+    } catch (error) {
+      reportWindow?.close();
+      toast({ title: t('details.reportFailed'), description: (error as Error).message, variant: 'destructive' } as any);
+    } finally {
+      setGeneratingReport(false);
+    }
+  };
+
+  if (!property) return null;
+
+  const fromSales = salesHistory.length >= 2;
+  const priceHistory = fromSales ? salesHistory : property.priceHistory || [];
+  const currentPrice = priceHistory[priceHistory.length - 1]?.value;
+  const previousPrice = priceHistory[priceHistory.length - 2]?.value;
+  const priceChange = currentPrice && previousPrice ? (currentPrice - previousPrice) / previousPrice * 100 : null;
+  const isPositive = (priceChange ?? 0) > 0;
+
   return (
-    <div className="fixed top-0 right-0 h-full w-96 bg-white shadow-2xl z-50 overflow-y-auto border-l border-gray-200">
+    <div className="fixed top-0 end-0 h-full w-96 bg-white shadow-2xl z-50 overflow-y-auto border-s border-gray-200">
       {/* Header */}
       <div className="p-4 border-b border-gray-200 bg-gray-50">
         <div className="flex items-start justify-between">
@@ -96,13 +150,37 @@ const PropertyDetailsPanel: React.FC<PropertyDetailsPanelProps> = ({ property, o
             </div>
             {nearestBuilding && (
               <div className="text-xs text-green-600 mt-1">
-                ✓ Google Places verified
+                {t('details.placesVerified')}
               </div>
             )}
           </div>
-          <Button variant="ghost" size="sm" onClick={onClose} className="text-gray-500 hover:text-gray-700">
-            <X className="w-4 h-4" />
-          </Button>
+          <div className="flex items-center">
+            {property.propertyId && <WatchlistStar propertyId={property.propertyId} />}
+            {property.propertyId && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => (user ? setHoldingOpen(true) : setLoginOpen(true))}
+                className="text-gray-500 hover:text-gray-700"
+                title={t('details.addToPortfolio')}
+              >
+                <Briefcase className="w-4 h-4" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleGenerateReport}
+              disabled={generatingReport}
+              className="text-gray-500 hover:text-gray-700"
+              title={t('details.generateReport')}
+            >
+              {generatingReport ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={onClose} className="text-gray-500 hover:text-gray-700">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -118,148 +196,235 @@ const PropertyDetailsPanel: React.FC<PropertyDetailsPanelProps> = ({ property, o
         </div>
       )}
 
-      <div className="p-4 space-y-6">
-        {/* Property Details Grid */}
-        <div className="grid grid-cols-2 gap-4">
-          <div className="space-y-1">
-            <div className="text-sm text-muted-foreground">Location</div>
-            <div className="text-sm font-medium">{property.location || 'Dubai'}</div>
-          </div>
-          <div className="space-y-1">
-            <div className="text-sm text-muted-foreground">Yield</div>
-            <div className="text-sm font-medium text-emerald-600">{property.yield}%</div>
-          </div>
-          <div className="space-y-1">
-            <div className="text-sm text-muted-foreground">Score</div>
-            <div className="text-sm font-medium text-amber-600">{property.score}/100</div>
-          </div>
-          <div className="space-y-1">
-            <div className="text-sm text-muted-foreground">Value</div>
-            <div className="text-sm font-medium text-primary">AED {property.value.toLocaleString()}</div>
-          </div>
-          <div className="space-y-1 col-span-2">
-            <div className="text-sm text-muted-foreground">Per Sq.Ft</div>
-            <div className="text-sm font-medium">AED {property.pricePerSqFt}</div>
-          </div>
-        </div>
-
-        {/* Price Trends Chart */}
-        <Card className="p-4">
-          <CardHeader className="p-0 pb-4">
-            <div className="flex items-center justify-between">
-              <CardTitle className="text-base font-semibold">Price Trends (12 months)</CardTitle>
-              <div className={`flex items-center gap-1 text-sm font-medium ${isPositive ? 'text-green-600' : 'text-red-600'}`}>
-                <TrendingUp className="w-4 h-4" />
-                {isPositive ? '+' : ''}{priceChange}%
-              </div>
+      <Tabs defaultValue="overview" className="p-4">
+        <TabsList className="grid grid-cols-2 w-full">
+          <TabsTrigger value="overview">{t('details.overview')}</TabsTrigger>
+          <TabsTrigger value="calculator">{t('details.costs')}</TabsTrigger>
+        </TabsList>
+        <TabsContent value="overview" className="mt-4 space-y-6">
+          {/* Property Details Grid */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <div className="text-sm text-muted-foreground">{t('details.location')}</div>
+              <div className="text-sm font-medium">{property.location || t('details.dubai')}</div>
             </div>
-          </CardHeader>
-          <CardContent className="p-0">
-            <div className="h-32">
-              <ResponsiveContainer width="100%" height="100%">
-                <LineChart data={priceHistory}>
-                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                  <XAxis 
-                    dataKey="month" 
-                    axisLine={false} 
-                    tickLine={false}
-                    tick={{ fontSize: 12, fill: '#666' }}
-                  />
-                  <YAxis hide />
-                  <Line 
-                    type="monotone" 
-                    dataKey="value" 
-                    stroke="#3b82f6" 
-                    strokeWidth={2}
-                    dot={false}
-                    activeDot={{ r: 4, fill: '#3b82f6' }}
-                  />
-                </LineChart>
-              </ResponsiveContainer>
+            <div className="space-y-1">
+              <div className="text-sm text-muted-foreground">{t('details.yield')}</div>
+              <div className="text-sm font-medium text-emerald-600">{formatPercent(property.yield)}</div>
             </div>
-          </CardContent>
-        </Card>
+            <div className="space-y-1">
+              <div className="text-sm text-muted-foreground">{t('details.score')}</div>
+              <div className="text-sm font-medium text-amber-600">{property.score != null ? t('poi.outOf100', { value: property.score }) : t('common.none')}</div>
+            </div>
+            <div className="space-y-1">
+              <div className="text-sm text-muted-foreground">{t('details.value')}</div>
+              <div className="text-sm font-medium text-primary">{formatAED(property.value)}</div>
+            </div>
+            <div className="space-y-1 col-span-2">
+              <div className="text-sm text-muted-foreground">{t('details.perSqft')}</div>
+              <div className="text-sm font-medium">{formatAED(property.pricePerSqFt)}</div>
+            </div>
+          </div>
 
-        {/* Investment Score Gauge */}
-        <Card className="p-4">
-          <CardHeader className="p-0 pb-4">
-            <CardTitle className="text-base font-semibold flex items-center gap-2">
-              <BarChart3 className="w-4 h-4" />
-              Investment Score
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="p-0">
-            <div className="relative w-32 h-32 mx-auto">
-              <svg className="w-full h-full transform -rotate-90" viewBox="0 0 100 100">
-                {/* Background circle */}
-                <circle
-                  cx="50"
-                  cy="50"
-                  r="45"
-                  fill="none"
-                  stroke="#e5e7eb"
-                  strokeWidth="8"
-                />
-                {/* Progress circle */}
-                <circle
-                  cx="50"
-                  cy="50"
-                  r="45"
-                  fill="none"
-                  stroke="#10b981"
-                  strokeWidth="8"
-                  strokeLinecap="round"
-                  strokeDasharray={`${(property.score / 100) * 283} 283`}
-                  className="transition-all duration-500"
-                />
-              </svg>
-              <div className="absolute inset-0 flex items-center justify-center">
-                <div className="text-center">
-                  <div className="text-2xl font-bold text-gray-900">{property.score}</div>
-                  <div className="text-xs text-gray-600">out of 100</div>
+          {/* Price Trends Chart */}
+          <Card className="p-4">
+            <CardHeader className="p-0 pb-4">
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-base font-semibold">
+                  {fromSales ? t('details.soldPerSqft') : t('details.priceTrends')}
+                </CardTitle>
+                {priceChange !== null && (
+                  <div className={`flex items-center gap-1 text-sm font-medium ${isPositive ? 'text-green-600' : 'text-red-600'}`}>
+                    <TrendingUp className="w-4 h-4" />
+                    {formatNumber(priceChange / 100, { style: 'percent', signDisplay: 'exceptZero', minimumFractionDigits: 1, maximumFractionDigits: 1 })}
+                  </div>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="p-0">
+              {priceHistory.length === 0 ? (
+                <div className="h-32 flex items-center justify-center text-sm text-muted-foreground">
+                  {salesLoading ? t('details.loadingSales') : t('details.noSales')}
                 </div>
+              ) : (
+              <div className="h-32">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={priceHistory}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                    <XAxis 
+                      dataKey="month" 
+                      axisLine={false} 
+                      tickLine={false}
+                      tick={{ fontSize: 12, fill: '#666' }}
+                      tickFormatter={formatMonth}
+                    />
+                    <YAxis hide />
+                    <Line 
+                      type="monotone" 
+                      dataKey="value" 
+                      stroke="#3b82f6" 
+                      strokeWidth={2}
+                      dot={false}
+                      activeDot={{ r: 4, fill: '#3b82f6' }}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
               </div>
-            </div>
-            <div className="text-center mt-2">
-              <Badge variant="secondary" className="bg-green-100 text-green-800">
-                {property.score >= 80 ? 'Excellent' : property.score >= 60 ? 'Good' : 'Fair'}
-              </Badge>
-            </div>
-          </CardContent>
-        </Card>
+              )}
+              {fromSales && (
+                <div className="text-xs text-muted-foreground mt-2">{t('details.salesNote')}</div>
+              )}
+            </CardContent>
+          </Card>
 
-        {/* Property Details */}
-        <Card className="p-4">
-          <CardHeader className="p-0 pb-4">
-            <CardTitle className="text-base font-semibold flex items-center gap-2">
-              <Building2 className="w-4 h-4" />
-              Property Details
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="p-0 space-y-2">
-            <div className="flex justify-between">
-              <span className="text-sm text-gray-600">Property Type</span>
-              <span className="text-sm font-medium">{property.propertyType || 'Apartment'}</span>
-            </div>
-            {property.bedrooms && (
+          {/* Recent comparable sales */}
+          {sales.length > 0 && (
+            <Card className="p-4">
+              <CardHeader className="p-0 pb-3">
+                <CardTitle className="text-base font-semibold">{t('details.recentSales')}</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0 space-y-2">
+                {sales.map((sale) => (
+                  <div key={sale.id} className="flex justify-between text-sm">
+                    <div>
+                      <div className="font-medium">{sale.building}</div>
+                      <div className="text-xs text-gray-600">
+                        {formatDate(sale.date)} • {sale.bedrooms === 0 ? t('common.studio') : sale.bedrooms != null ? t('common.bedrooms', { count: sale.bedrooms }) : sale.unitType} • {t('common.sqft', { value: sale.sizeSqft })}
+                      </div>
+                    </div>
+                    <div className="text-end">
+                      <div className="font-medium">{formatAED(sale.priceAED)}</div>
+                      <div className="text-xs text-gray-600">{t('common.perSqft', { value: formatAED(sale.pricePerSqft) })}</div>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Investment Score Gauge */}
+          {property.score != null && (
+            <Card className="p-4">
+              <CardHeader className="p-0 pb-4">
+                <CardTitle className="text-base font-semibold flex items-center gap-2">
+                  <BarChart3 className="w-4 h-4" />
+                  {t('details.investmentScore')}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <div className="relative w-32 h-32 mx-auto">
+                  <svg className="w-full h-full transform -rotate-90" viewBox="0 0 100 100">
+                    {/* Background circle */}
+                    <circle
+                      cx="50"
+                      cy="50"
+                      r="45"
+                      fill="none"
+                      stroke="#e5e7eb"
+                      strokeWidth="8"
+                    />
+                    {/* Progress circle */}
+                    <circle
+                      cx="50"
+                      cy="50"
+                      r="45"
+                      fill="none"
+                      stroke="#10b981"
+                      strokeWidth="8"
+                      strokeLinecap="round"
+                      strokeDasharray={`${(property.score / 100) * 283} 283`}
+                      className="transition-all duration-500"
+                    />
+                  </svg>
+                  <div className="absolute inset-0 flex items-center justify-center">
+                    <div className="text-center">
+                      <div className="text-2xl font-bold text-gray-900">{formatNumber(property.score)}</div>
+                      <div className="text-xs text-gray-600">{t('details.outOf100')}</div>
+                    </div>
+                  </div>
+                </div>
+                <div className="text-center mt-2">
+                  <Badge variant="secondary" className="bg-green-100 text-green-800">
+                    {property.score >= 80 ? t('details.excellent') : property.score >= 60 ? t('details.good') : t('details.fair')}
+                  </Badge>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Property Details */}
+          <Card className="p-4">
+            <CardHeader className="p-0 pb-4">
+              <CardTitle className="text-base font-semibold flex items-center gap-2">
+                <Building2 className="w-4 h-4" />
+                {t('details.propertyDetails')}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-0 space-y-2">
               <div className="flex justify-between">
-                <span className="text-sm text-gray-600">Bedrooms</span>
-                <span className="text-sm font-medium">{property.bedrooms}</span>
+                <span className="text-sm text-gray-600">{t('details.propertyType')}</span>
+                <span className="text-sm font-medium">{property.propertyType || t('details.apartment')}</span>
               </div>
-            )}
-            {property.size && (
+              {property.unit && (
+                <div className="flex justify-between">
+                  <span className="text-sm text-gray-600">{t('details.unitNo')}</span>
+                  <span className="text-sm font-medium">{property.unit.unitNumber}</span>
+                </div>
+              )}
+              {property.bedrooms != null && (
+                <div className="flex justify-between">
+                  <span className="text-sm text-gray-600">{t(property.estimate?.syntheticUnit ? 'details.typicalBedrooms' : 'details.bedrooms')}</span>
+                  <span className="text-sm font-medium">{property.bedrooms === 0 ? t('common.studio') : formatNumber(property.bedrooms)}</span>
+                </div>
+              )}
+              {property.size && (
+                <div className="flex justify-between">
+                  <span className="text-sm text-gray-600">{t(property.estimate?.syntheticUnit ? 'details.typicalSize' : 'details.size')}</span>
+                  <span className="text-sm font-medium">{t('common.sqft', { value: property.size })}</span>
+                </div>
+              )}
               <div className="flex justify-between">
-                <span className="text-sm text-gray-600">Size</span>
-                <span className="text-sm font-medium">{property.size} sq ft</span>
+                <span className="text-sm text-gray-600">{t('details.marketTrend')}</span>
+                <span className="text-sm font-medium">{property.marketTrend || t('details.stable')}</span>
               </div>
-            )}
-            <div className="flex justify-between">
-              <span className="text-sm text-gray-600">Market Trend</span>
-              <span className="text-sm font-medium">{property.marketTrend || 'Stable'}</span>
-            </div>
-          </CardContent>
-        </Card>
-      </div>
+              {property.unit?.identifiers.dewa && (
+                <div className="flex justify-between">
+                  <span className="text-sm text-gray-600">{t('details.dewa')}</span>
+                  <span className="text-sm font-medium">{property.unit.identifiers.dewa}</span>
+                </div>
+              )}
+              {property.unit?.identifiers.oqoo && (
+                <div className="flex justify-between">
+                  <span className="text-sm text-gray-600">{t('details.oqoo')}</span>
+                  <span className="text-sm font-medium">{property.unit.identifiers.oqoo}</span>
+                </div>
+              )}
+              {property.unit?.identifiers['title-deed'] && (
+                <div className="flex justify-between">
+                  <span className="text-sm text-gray-600">{t('details.titleDeed')}</span>
+                  <span className="text-sm font-medium">{property.unit.identifiers['title-deed']}</span>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+        <TabsContent value="calculator" className="mt-4">
+          <AcquisitionCalculator priceAED={property.value} yieldPct={property.yield} sizeSqft={property.size} />
+        </TabsContent>
+      </Tabs>
+
+      {property.propertyId && user && (
+        <AddHoldingDialog
+          open={holdingOpen}
+          onOpenChange={setHoldingOpen}
+          propertyId={property.propertyId}
+          buildingName={displayName}
+          label={property.unit?.unitNumber}
+          sizeSqft={property.size}
+          valueAED={property.value}
+        />
+      )}
+      {!user && <LoginDialog open={loginOpen} onOpenChange={setLoginOpen} />}
     </div>
   );
 };
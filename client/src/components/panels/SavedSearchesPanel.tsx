@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import type { SavedSearchSummary } from '@shared/schema';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { BookmarkPlus, Bookmark, Mail, X } from 'lucide-react';
+import { useSavedSearches } from '@/hooks/useSavedSearches';
+import { useAuth } from '@/hooks/useAuth';
+import { useI18n } from '@/hooks/useI18n';
+import { useToast } from '@/hooks/use-toast';
+
+interface SavedSearchesPanelProps {
+  onApply: (search: SavedSearchSummary) => void;
+  onSaveCurrent: () => void;
+}
+
+function describe({ criteria }: SavedSearchSummary, { t, formatAED, formatPercent }: ReturnType<typeof useI18n>) {
+  return [
+    criteria.query && `"${criteria.query}"`,
+    criteria.area && t('savedSearches.drawnArea'),
+    criteria.minPrice != null && `≥ ${formatAED(criteria.minPrice)}`,
+    criteria.maxPrice != null && `≤ ${formatAED(criteria.maxPrice)}`,
+    criteria.minYield != null && `≥ ${formatPercent(criteria.minYield)}`,
+    criteria.maxYield != null && `≤ ${formatPercent(criteria.maxYield)}`,
+    criteria.amenityCategories.length > 0 && t('savedSearches.amenityTypes', { count: criteria.amenityCategories.length }),
+  ].filter(Boolean).join(' • ') || t('savedSearches.all');
+}
+
+/**
+ * Code entry for an alert address that hasn't been confirmed yet
+ */
+const EmailConfirmation: React.FC<{ search: SavedSearchSummary }> = ({ search }) => {
+  const { confirmEmail, resendCode } = useSavedSearches();
+  const { t } = useI18n();
+  const { toast } = useToast();
+  const [code, setCode] = useState('');
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    confirmEmail({ id: search.id, code: code.trim() })
+      .then(() => setCode(''))
+      .catch(() => toast({ title: t('savedSearches.codeRejected'), variant: 'destructive' } as any));
+  };
+
+  return (
+    <form onSubmit={submit} className="px-3 pb-2 space-y-1">
+      <div className="text-xs text-muted-foreground">{t('savedSearches.emailPending', { email: search.notifyEmail ?? '' })}</div>
+      <div className="flex items-center gap-1">
+        <Input value={code} onChange={(e) => setCode(e.target.value)} placeholder={t('savedSearches.code')} aria-label={t('savedSearches.code')} className="h-7 text-xs" />
+        <Button type="submit" size="sm" className="h-7">{t('savedSearches.confirm')}</Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() => resendCode(search.id)
+            .then(() => toast({ title: t('savedSearches.codeSent') } as any))
+            .catch((e) => console.error('Resend confirmation code error:', e))}
+        >
+          {t('savedSearches.resend')}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+/**
+ * Sidebar list of saved searches; applying one restores its query, area and amenity filters
+ */
+const SavedSearchesPanel: React.FC<SavedSearchesPanelProps> = ({ onApply, onSaveCurrent }) => {
+  const { user } = useAuth();
+  const { searches, remove, isLoading, error } = useSavedSearches();
+  const i18n = useI18n();
+  const { t } = i18n;
+  if (!user) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between">
+          <CardTitle className="text-base font-semibold flex items-center gap-2">
+            <Bookmark className="w-4 h-4" />
+            {t('savedSearches.title')}
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={onSaveCurrent}>
+            <BookmarkPlus className="w-4 h-4 me-1" /> {t('savedSearches.saveCurrent')}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="text-sm">
+        {isLoading && <div className="text-muted-foreground">{t('savedSearches.loading')}</div>}
+        {!!error && !isLoading && <div className="text-red-600">{t('savedSearches.error')}</div>}
+        {!isLoading && !error && !searches.length && (
+          <div className="text-xs text-muted-foreground">{t('savedSearches.empty')}</div>
+        )}
+        {searches.length > 0 && (
+          <div className="divide-y rounded-md border">
+            {searches.map((search) => (
+              <div key={search.id}>
+                <div className="flex items-center gap-1 hover:bg-muted/50">
+                  <button type="button" onClick={() => onApply(search)} className="flex-1 px-3 py-2 text-start">
+                    <div className="font-medium flex items-center gap-1">
+                      {search.name}
+                      {search.notifyEmail && search.emailConfirmedAt && <Mail className="w-3 h-3 text-muted-foreground" aria-label={t('savedSearches.emailOn')} />}
+                    </div>
+                    <div className="text-xs text-muted-foreground">{describe(search, i18n)}</div>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => remove(search.id).catch((e) => console.error('Delete saved search error:', e))}
+                    className="text-gray-500 hover:text-gray-700"
+                    title={t('savedSearches.delete')}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+                {search.notifyEmail && !search.emailConfirmedAt && <EmailConfirmation search={search} />}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SavedSearchesPanel;
@@ -6,15 +6,29 @@ import { Area, AreaChart, ResponsiveContainer, Tooltip, XAxis, YAxis, RadialBarC
 import type { PropertyPoint } from "@/data/mockProperties";
 import { useAmenities, estimateDurationSec } from "@/hooks/useAmenities";
 import type { AmenityResult } from "@/hooks/useSearchBoxAmenities";
+import WatchlistStar from "@/components/controls/WatchlistStar";
+import { GitCompare } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { useInvestmentScore, useScoreWeights, type ScoreWeightsState } from "@/hooks/useInvestmentScore";
+import { scoreFactorKeys, type ScoreFactor, type ScoreWeights } from "@shared/schema";
+import { useI18n } from "@/hooks/useI18n";
 
 type Props = {
   selected: PropertyPoint | null;
   onRouteTo?: (dest: [number, number], profile?: 'driving'|'walking'|'cycling') => void;
   amenitiesOverride?: AmenityResult[];
   amenitiesLoadingOverride?: boolean;
+  // True when `selected` is a catalogue building that can be starred
+  watchable?: boolean;
+  comparing?: boolean;
+  onToggleCompare?: () => void;
+  // Weights shared with the rest of the page, so every score shown uses the same ones
+  scoreWeights?: ScoreWeightsState;
 };
 
 const ScoreGauge: React.FC<{ score: number }> = ({ score }) => {
+  const { t, formatNumber } = useI18n();
   const data = [
     { name: 'score', value: Math.max(0, Math.min(100, score)), fill: 'hsl(152,53%,41%)' },
   ];
@@ -24,30 +38,118 @@ const ScoreGauge: React.FC<{ score: number }> = ({ score }) => {
         <PolarAngleAxis type="number" domain={[0, 100]} tick={false} />
         <RadialBar background dataKey="value" cornerRadius={8} />
         <text x="50%" y="55%" textAnchor="middle" dominantBaseline="middle" className="text-3xl font-semibold fill-current">
-          {score}
+          {formatNumber(score)}
         </text>
         <text x="50%" y="75%" textAnchor="middle" dominantBaseline="middle" className="fill-current opacity-60">
-          Investment Score
+          {t('stats.investmentScore')}
         </text>
       </RadialBarChart>
     </ResponsiveContainer>
   );
 };
 
-const StatsPanel: React.FC<Props> = ({ selected, onRouteTo, amenitiesOverride, amenitiesLoadingOverride }) => {
+// Why the gauge shows what it shows; factors without data are listed but not counted
+const ScoreBreakdown: React.FC<{
+  factors: ScoreFactor[];
+  weights: ScoreWeights;
+  onWeightsChange: (weights: ScoreWeights) => void;
+  onReset: () => void;
+}> = ({ factors, weights, onWeightsChange, onReset }) => {
+  // Sliders move freely; the score is only refetched when one is released
+  const { t, formatNumber, formatPercent } = useI18n();
+  const [draft, setDraft] = React.useState(weights);
+  React.useEffect(() => setDraft(weights), [weights]);
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        {factors.map((f) => (
+          <div key={f.key} className={f.score == null ? 'opacity-50' : undefined}>
+            <div className="flex justify-between text-xs">
+              <span className="font-medium">{t(`stats.factors.${f.key}`)}</span>
+              <span className="text-muted-foreground">
+                {f.score == null
+                  ? t('stats.notAvailable')
+                  : t('stats.factorContribution', { score: f.score, weight: formatPercent(f.weight * 100, 0), contribution: f.contribution })}
+              </span>
+            </div>
+            <div className="h-1.5 rounded-full bg-muted mt-1 overflow-hidden">
+              <div className="h-full rounded-full" style={{ width: `${f.score ?? 0}%`, background: 'hsl(152,53%,41%)' }} />
+            </div>
+            <div className="text-[11px] text-muted-foreground mt-0.5">{f.detail}</div>
+          </div>
+        ))}
+      </div>
+      <Collapsible>
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="px-0 h-auto text-xs text-muted-foreground">{t('stats.adjustWeights')}</Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="space-y-3 pt-2">
+          {scoreFactorKeys.map((key) => (
+            <div key={key} className="space-y-1">
+              <div className="flex justify-between text-xs">
+                <span>{t(`stats.factors.${key}`)}</span>
+                <span className="text-muted-foreground">{formatNumber(draft[key])}</span>
+              </div>
+              <Slider
+                value={[draft[key]]}
+                onValueChange={(v) => setDraft({ ...draft, [key]: v[0] })}
+                onValueCommit={(v) => onWeightsChange({ ...draft, [key]: v[0] })}
+                min={0}
+                max={100}
+                step={5}
+              />
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={onReset}>{t('stats.resetWeights')}</Button>
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+};
+
+const StatsPanel: React.FC<Props> = ({ selected, onRouteTo, amenitiesOverride, amenitiesLoadingOverride, watchable, comparing, onToggleCompare, scoreWeights }) => {
   const center = selected ? (selected.coords as [number, number]) : null;
   const fallback = useAmenities(center);
   const amenitiesLoading = amenitiesLoadingOverride ?? fallback.loading;
   const amenitiesLegacy = fallback.data;
   const amenitiesList: AmenityResult[] | null = amenitiesOverride ?? null;
-  const fmtDist = (m: number) => (m < 1000 ? `${Math.round(m)} m` : `${(m/1000).toFixed(2)} km`);
-  const fmtMins = (sec: number) => `${Math.max(1, Math.round(sec/60))} min`;
+  const { t, formatAED, formatNumber, formatPercent, formatMonth } = useI18n();
+  const fmtDist = (m: number) =>
+    m < 1000
+      ? t('stats.meters', { value: Math.round(m) })
+      : t('stats.kilometers', { value: formatNumber(m / 1000, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) });
+  const fmtMins = (sec: number) => t('stats.minutes', { value: Math.max(1, Math.round(sec/60)) });
+  const travel = (meters: number) => t('stats.travel', {
+    distance: fmtDist(meters),
+    walk: fmtMins(estimateDurationSec(meters, 'walking')),
+    drive: fmtMins(estimateDurationSec(meters, 'driving')),
+  });
+  const ownWeights = useScoreWeights();
+  const { weights, setWeights, reset: resetWeights } = scoreWeights ?? ownWeights;
+  const { breakdown, isLoading: scoreLoading } = useInvestmentScore(center, watchable ? selected?.id : undefined, weights, amenitiesList ?? undefined);
 
   return (
     <div className="space-y-4">
       <Card className="hover-rise">
         <CardHeader>
-          <CardTitle className="text-lg">{selected ? selected.name : 'Select a property or zone'}</CardTitle>
+          <div className="flex items-start justify-between gap-2">
+            <CardTitle className="text-lg">{selected ? selected.name : t('stats.selectPrompt')}</CardTitle>
+            <div className="flex items-center">
+              {selected && onToggleCompare && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={onToggleCompare}
+                  title={comparing ? t('stats.removeFromComparison') : t('stats.addToComparison')}
+                  aria-pressed={comparing}
+                >
+                  <GitCompare className={comparing ? 'w-4 h-4 text-primary' : 'w-4 h-4 text-gray-500'} />
+                </Button>
+              )}
+              {selected && watchable && <WatchlistStar propertyId={selected.id} />}
+            </div>
+          </div>
         </CardHeader>
         <CardContent className="space-y-3">
           {selected ? (
@@ -58,11 +160,11 @@ const StatsPanel: React.FC<Props> = ({ selected, onRouteTo, amenitiesOverride, a
                   <div className="relative">
                     <img
                       src={selected.imageUrl}
-                      alt={`${selected.name} building photo in ${selected.community}`}
+                      alt={t('stats.photoAlt', { name: selected.name, community: selected.community })}
                       className="w-full h-40 object-cover"
                       loading="lazy"
                     />
-                    <div className="absolute bottom-2 left-2 text-xs px-2 py-1 rounded-md bg-background/70 backdrop-blur border">
+                    <div className="absolute bottom-2 start-2 text-xs px-2 py-1 rounded-md bg-background/70 backdrop-blur border">
                       {selected.community}
                     </div>
                   </div>
@@ -71,16 +173,16 @@ const StatsPanel: React.FC<Props> = ({ selected, onRouteTo, amenitiesOverride, a
 
               <div className="grid grid-cols-2 gap-3">
                 <div className="rounded-lg border p-3">
-                  <div className="text-xs text-muted-foreground">Estimated Market Value</div>
-                  <div className="text-xl font-semibold">AED {selected.estimatedValueAED.toLocaleString()}</div>
+                  <div className="text-xs text-muted-foreground">{t('stats.marketValue')}</div>
+                  <div className="text-xl font-semibold">{formatAED(selected.estimatedValueAED)}</div>
                 </div>
                 <div className="rounded-lg border p-3">
-                  <div className="text-xs text-muted-foreground">Rent Yield</div>
-                  <div className="text-xl font-semibold">{selected.rentYield}%</div>
+                  <div className="text-xs text-muted-foreground">{t('stats.rentYield')}</div>
+                  <div className="text-xl font-semibold">{formatPercent(selected.rentYield)}</div>
                 </div>
               </div>
               <div className="rounded-lg border p-3">
-                <div className="text-xs text-muted-foreground mb-2">Price Trends (12 months)</div>
+                <div className="text-xs text-muted-foreground mb-2">{t('stats.priceTrends')}</div>
                 <div className="h-40">
                   <ResponsiveContainer width="100%" height="100%">
                     <AreaChart data={selected.priceTrend} margin={{ left: 0, right: 0, top: 5, bottom: 0 }}>
@@ -90,53 +192,61 @@ const StatsPanel: React.FC<Props> = ({ selected, onRouteTo, amenitiesOverride, a
                           <stop offset="95%" stopColor="hsl(182,65%,45%)" stopOpacity={0.05}/>
                         </linearGradient>
                       </defs>
-                      <XAxis dataKey="month" tickLine={false} axisLine={false} fontSize={12} />
+                      <XAxis dataKey="month" tickLine={false} axisLine={false} fontSize={12} tickFormatter={formatMonth} />
                       <YAxis hide domain={["dataMin-100", "dataMax+100"]} />
-                      <Tooltip contentStyle={{ background: 'hsl(var(--card))', border: '1px solid hsl(var(--border))' }} />
+                      <Tooltip
+                        contentStyle={{ background: 'hsl(var(--card))', border: '1px solid hsl(var(--border))' }}
+                        formatter={(v: number) => [formatNumber(v), t('poi.perSqft')]}
+                        labelFormatter={(label: string) => formatMonth(label)}
+                      />
                       <Area type="monotone" dataKey="value" stroke="hsl(182,65%,45%)" fill="url(#trend)" strokeWidth={2} />
                     </AreaChart>
                   </ResponsiveContainer>
                 </div>
               </div>
               <div className="rounded-lg border p-3">
-                <ScoreGauge score={selected.investmentScore} />
+                {breakdown ? (
+                  <ScoreGauge score={breakdown.score} />
+                ) : (
+                  <div className="h-[180px] flex items-center justify-center text-sm text-muted-foreground">
+                    {scoreLoading ? t('common.loading') : t('common.none')}
+                  </div>
+                )}
+                {breakdown && (
+                  <ScoreBreakdown
+                    factors={breakdown.factors}
+                    weights={weights}
+                    onWeightsChange={setWeights}
+                    onReset={resetWeights}
+                  />
+                )}
               </div>
             </>
           ) : (
-            <div className="text-sm text-muted-foreground">Tip: Use the search above or click points on the map to see insights. Undervalued zones glow in emerald.</div>
+            <div className="text-sm text-muted-foreground">{t('stats.tip')}</div>
           )}
         </CardContent>
       </Card>
 
       <Card className="hover-rise">
         <CardHeader>
-          <CardTitle className="text-lg">Nearby Amenities</CardTitle>
+          <CardTitle className="text-lg">{t('stats.nearbyAmenities')}</CardTitle>
         </CardHeader>
         <CardContent>
           {!selected ? (
-            <div className="text-sm text-muted-foreground">Select a property to see nearby amenities.</div>
+            <div className="text-sm text-muted-foreground">{t('stats.selectForAmenities')}</div>
           ) : amenitiesLoading ? (
-            <div className="text-sm text-muted-foreground">Loading amenities...</div>
+            <div className="text-sm text-muted-foreground">{t('stats.loadingAmenities')}</div>
           ) : (
             <>
               {amenitiesList ? (
                 (() => {
-                  const label: Record<string, string> = {
-                    food_drink: 'Food & Cafes',
-                    groceries: 'Groceries',
-                    atm_bank: 'ATMs & Banks',
-                    pharmacy_hospital: 'Pharmacy & Hospital',
-                    school_university: 'Schools & Universities',
-                    gym_sports: 'Gyms & Sports',
-                    shopping_mall: 'Shopping Malls',
-                    public_transport: 'Public Transport',
-                  };
                   const cats = Array.from(new Set(amenitiesList.map(a => a.category)));
                   return (
                     <Tabs defaultValue={cats[0] as string} className="w-full">
                       <TabsList className="grid grid-cols-2 md:grid-cols-4">
                         {cats.map((c) => (
-                          <TabsTrigger key={c} value={c as string}>{label[c as string] || c}</TabsTrigger>
+                          <TabsTrigger key={c} value={c as string}>{t(`amenities.categories.${c}`)}</TabsTrigger>
                         ))}
                       </TabsList>
                       {cats.map((c) => (
@@ -149,19 +259,19 @@ const StatsPanel: React.FC<Props> = ({ selected, onRouteTo, amenitiesOverride, a
                                     <div className="text-sm font-medium">{a.name}</div>
                                     {typeof a.distanceMeters === 'number' && (
                                       <div className="text-xs text-muted-foreground">
-                                        {fmtDist(a.distanceMeters)} • {fmtMins(estimateDurationSec(a.distanceMeters, 'walking'))} walk • {fmtMins(estimateDurationSec(a.distanceMeters, 'driving'))} drive
+                                        {travel(a.distanceMeters)}
                                       </div>
                                     )}
                                   </div>
                                   <div className="flex gap-2">
-                                    <Button size="sm" variant="secondary" onClick={() => onRouteTo?.(a.center, 'walking')}>Walk</Button>
-                                    <Button size="sm" onClick={() => onRouteTo?.(a.center, 'driving')}>Drive</Button>
+                                    <Button size="sm" variant="secondary" onClick={() => onRouteTo?.(a.center, 'walking')}>{t('stats.walk')}</Button>
+                                    <Button size="sm" onClick={() => onRouteTo?.(a.center, 'driving')}>{t('stats.drive')}</Button>
                                   </div>
                                 </li>
                               ))}
                             </ul>
                           ) : (
-                            <div className="text-xs text-muted-foreground">No results found nearby.</div>
+                            <div className="text-xs text-muted-foreground">{t('stats.noneNearby')}</div>
                           )}
                         </TabsContent>
                       ))}
@@ -171,9 +281,9 @@ const StatsPanel: React.FC<Props> = ({ selected, onRouteTo, amenitiesOverride, a
               ) : (
                 <Tabs defaultValue="supermarket" className="w-full">
                   <TabsList className="grid grid-cols-3">
-                    <TabsTrigger value="supermarket">Supermarkets</TabsTrigger>
-                    <TabsTrigger value="school">Schools</TabsTrigger>
-                    <TabsTrigger value="metro">Metro</TabsTrigger>
+                    <TabsTrigger value="supermarket">{t('stats.supermarkets')}</TabsTrigger>
+                    <TabsTrigger value="school">{t('stats.schools')}</TabsTrigger>
+                    <TabsTrigger value="metro">{t('stats.metro')}</TabsTrigger>
                   </TabsList>
                   {(["supermarket","school","metro"] as const).map((cat) => (
                     <TabsContent key={cat} value={cat} className="mt-3">
@@ -184,18 +294,18 @@ const StatsPanel: React.FC<Props> = ({ selected, onRouteTo, amenitiesOverride, a
                               <div>
                                 <div className="text-sm font-medium">{a.name}</div>
                                 <div className="text-xs text-muted-foreground">
-                                  {fmtDist(a.distanceMeters)} • {fmtMins(estimateDurationSec(a.distanceMeters, 'walking'))} walk • {fmtMins(estimateDurationSec(a.distanceMeters, 'driving'))} drive
+                                  {travel(a.distanceMeters)}
                                 </div>
                               </div>
                               <div className="flex gap-2">
-                                <Button size="sm" variant="secondary" onClick={() => onRouteTo?.(a.center, 'walking')}>Walk</Button>
-                                <Button size="sm" onClick={() => onRouteTo?.(a.center, 'driving')}>Drive</Button>
+                                <Button size="sm" variant="secondary" onClick={() => onRouteTo?.(a.center, 'walking')}>{t('stats.walk')}</Button>
+                                <Button size="sm" onClick={() => onRouteTo?.(a.center, 'driving')}>{t('stats.drive')}</Button>
                               </div>
                             </li>
                           ))}
                         </ul>
                       ) : (
-                        <div className="text-xs text-muted-foreground">No results found nearby.</div>
+                        <div className="text-xs text-muted-foreground">{t('stats.noneNearby')}</div>
                       )}
                     </TabsContent>
                   ))}
@@ -208,10 +318,10 @@ const StatsPanel: React.FC<Props> = ({ selected, onRouteTo, amenitiesOverride, a
 
       <Card className="hover-rise">
         <CardHeader>
-          <CardTitle className="text-lg">Transaction History</CardTitle>
+          <CardTitle className="text-lg">{t('stats.transactions')}</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="text-sm text-muted-foreground">Sample recent transactions will appear here.</div>
+          <div className="text-sm text-muted-foreground">{t('stats.transactionsPlaceholder')}</div>
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,105 @@
+import React from 'react';
+import type { Valuation, ValuationComparable } from '@shared/schema';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { MapPin, X } from 'lucide-react';
+import { useI18n } from '@/hooks/useI18n';
+
+interface ValuationResultCardProps {
+  valuation: Valuation;
+  onClose: () => void;
+  onComparableClick?: (comparable: ValuationComparable) => void;
+}
+
+const ValuationResultCard: React.FC<ValuationResultCardProps> = ({ valuation, onClose, onComparableClick }) => {
+  const { t, formatAED, formatNumber } = useI18n();
+  const bedroomLabel = (bedrooms: number) =>
+    bedrooms === 0 ? t('common.studio') : bedrooms >= 5 ? t('valuation.bedroomsPlus', { count: 5 }) : t('common.bedrooms', { count: bedrooms });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between">
+          <div className="flex-1">
+            <CardTitle className="text-lg font-bold mb-1">{t('valuation.title')}</CardTitle>
+            <div className="flex items-center gap-1 text-sm text-muted-foreground">
+              <MapPin className="w-4 h-4" />
+              <span>{valuation.building.name}, {valuation.building.community}</span>
+            </div>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <div className="text-xs font-medium text-gray-600">{t('valuation.pointEstimate')}</div>
+            <div className="text-lg font-bold">{formatAED(valuation.value)}</div>
+          </div>
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <div className="text-xs font-medium text-gray-600">{t('valuation.range')}</div>
+            <div className="text-sm font-semibold">
+              {formatAED(valuation.low)} – {formatAED(valuation.high)}
+            </div>
+          </div>
+          <div className="p-3 bg-green-50 rounded-lg">
+            <div className="text-xs font-medium text-gray-600">{t('valuation.perSqft')}</div>
+            <div className="text-sm font-bold text-green-600">{formatAED(valuation.pricePerSqft)}</div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="secondary">{bedroomLabel(valuation.bedrooms)}</Badge>
+          <Badge variant="secondary">{t('common.sqft', { value: valuation.sizeSqft })}</Badge>
+          <Badge variant="secondary">{t('valuation.comparablesCount', { count: valuation.comparables.length })}</Badge>
+        </div>
+
+        <Separator />
+
+        <div>
+          <div className="text-xs font-medium text-gray-600 mb-2">{t('valuation.comparables')}</div>
+          <div className="divide-y rounded-md border text-sm">
+            {valuation.comparables.map((c) => (
+              <button
+                key={c.unitId}
+                type="button"
+                onClick={() => onComparableClick?.(c)}
+                className="w-full flex items-center justify-between gap-3 px-3 py-2 text-start hover:bg-muted/50"
+              >
+                <div>
+                  <div className="font-medium">{c.building} #{c.unitNumber}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {bedroomLabel(c.bedrooms)} • {t('common.sqft', { value: c.sizeSqft })}
+                  </div>
+                </div>
+                <div className="text-end">
+                  <div className="font-semibold">{formatAED(c.valueAED)}</div>
+                  <div className="text-xs text-muted-foreground">{t('common.perSqft', { value: formatAED(c.pricePerSqft) })}</div>
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {valuation.notes.length > 0 && (
+          <ul className="list-disc ps-4 space-y-1 text-xs text-muted-foreground">
+            {valuation.notes.map((note) => (
+              <li key={note}>{note}</li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ValuationResultCard;
@@ -0,0 +1,69 @@
+import React from 'react';
+import type { PropertyPoint } from '@shared/schema';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Star, X } from 'lucide-react';
+import { useWatchlist } from '@/hooks/useWatchlist';
+import { useI18n } from '@/hooks/useI18n';
+
+interface WatchlistPanelProps {
+  onSelect: (property: PropertyPoint) => void;
+}
+
+/**
+ * Sidebar list of watched buildings; clicking one flies the map there
+ */
+const WatchlistPanel: React.FC<WatchlistPanelProps> = ({ onSelect }) => {
+  const { items, remove, signedIn, isLoading, error } = useWatchlist();
+  const { t, formatAED, formatNumber, formatPercent } = useI18n();
+  if (!signedIn) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base font-semibold flex items-center gap-2">
+          <Star className="w-4 h-4" />
+          {t('watchlistPanel.title')}
+          {items.length > 0 && <span className="text-xs font-normal text-muted-foreground">({formatNumber(items.length)})</span>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="text-sm">
+        {isLoading && <div className="text-muted-foreground">{t('watchlistPanel.loading')}</div>}
+        {!!error && !isLoading && <div className="text-red-600">{t('watchlistPanel.error')}</div>}
+        {!isLoading && !error && !items.length && (
+          <div className="text-xs text-muted-foreground">{t('watchlistPanel.empty')}</div>
+        )}
+        {items.length > 0 && (
+          <div className="divide-y rounded-md border">
+            {items.map((item) => (
+              <div key={item.id} className="flex items-center gap-1 hover:bg-muted/50">
+                <button
+                  type="button"
+                  onClick={() => onSelect(item.property)}
+                  className="flex-1 px-3 py-2 text-start"
+                >
+                  <div className="font-medium">{item.property.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {item.property.community} • {t('common.perSqft', { value: formatAED(item.property.pricePerSqft) })} • {formatPercent(item.property.rentYield)}
+                  </div>
+                  {item.note && <div className="text-xs italic text-muted-foreground mt-0.5">{item.note}</div>}
+                </button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => remove(item.propertyId).catch((e) => console.error('Watchlist remove error:', e))}
+                  className="text-gray-500 hover:text-gray-700"
+                  title={t('watchlist.remove')}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WatchlistPanel;
@@ -7,9 +7,11 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Badge } from '@/components/ui/badge';
 import { Settings, Key, Camera, ExternalLink, CheckCircle, XCircle } from 'lucide-react';
 import { useImageApiKeys } from '@/hooks/useBuildingImages';
+import { useI18n } from '@/hooks/useI18n';
 
 export function ApiKeySettings() {
   const { googleApiKey, hasGoogleApiKey, updateGoogleApiKey, clearGoogleApiKey } = useImageApiKeys();
+  const { t } = useI18n();
   const [isOpen, setIsOpen] = useState(false);
   const [tempKey, setTempKey] = useState('');
 
@@ -31,8 +33,8 @@ export function ApiKeySettings() {
       <DialogTrigger asChild>
         <Button variant="outline" size="sm" className="gap-2">
           <Settings className="h-4 w-4" />
-          Image APIs
-          {hasGoogleApiKey && <Badge variant="secondary" className="ml-2">Configured</Badge>}
+          {t('apiKeys.button')}
+          {hasGoogleApiKey && <Badge variant="secondary" className="ms-2">{t('apiKeys.configured')}</Badge>}
         </Button>
       </DialogTrigger>
       
@@ -40,7 +42,7 @@ export function ApiKeySettings() {
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Camera className="h-5 w-5" />
-            Building Image APIs Configuration
+            {t('apiKeys.title')}
           </DialogTitle>
         </DialogHeader>
         
@@ -48,35 +50,35 @@ export function ApiKeySettings() {
           {/* Current Status */}
           <Card>
             <CardHeader className="pb-3">
-              <CardTitle className="text-sm font-medium">Current Configuration</CardTitle>
+              <CardTitle className="text-sm font-medium">{t('apiKeys.current')}</CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-2">
                   <Key className="h-4 w-4 text-muted-foreground" />
-                  <span className="text-sm">Google Maps API</span>
+                  <span className="text-sm">{t('apiKeys.googleMaps')}</span>
                 </div>
                 {hasGoogleApiKey ? (
                   <div className="flex items-center gap-2">
                     <Badge variant="default" className="gap-1">
                       <CheckCircle className="h-3 w-3" />
-                      Configured
+                      {t('apiKeys.configured')}
                     </Badge>
                     <Button variant="outline" size="sm" onClick={handleClear}>
-                      Clear
+                      {t('common.clear')}
                     </Button>
                   </div>
                 ) : (
                   <Badge variant="secondary" className="gap-1">
                     <XCircle className="h-3 w-3" />
-                    Not configured
+                    {t('apiKeys.notConfigured')}
                   </Badge>
                 )}
               </div>
               
               {hasGoogleApiKey && (
                 <div className="text-xs text-muted-foreground bg-muted p-2 rounded">
-                  Key: ••••••••{googleApiKey?.slice(-4)}
+                  {t('apiKeys.key', { value: `••••••••${googleApiKey?.slice(-4)}` })}
                 </div>
               )}
             </CardContent>
@@ -85,29 +87,29 @@ export function ApiKeySettings() {
           {/* Google Maps API Configuration */}
           <Card>
             <CardHeader className="pb-3">
-              <CardTitle className="text-sm font-medium">Google Maps API Key</CardTitle>
+              <CardTitle className="text-sm font-medium">{t('apiKeys.googleKey')}</CardTitle>
               <p className="text-xs text-muted-foreground">
-                Enables Street View, satellite images, and places photos for buildings
+                {t('apiKeys.googleKeyDetail')}
               </p>
             </CardHeader>
             <CardContent className="space-y-3">
               <div className="space-y-2">
-                <Label htmlFor="google-api-key">API Key</Label>
+                <Label htmlFor="google-api-key">{t('apiKeys.apiKey')}</Label>
                 <Input
                   id="google-api-key"
                   type="password"
-                  placeholder="Enter your Google Maps API key"
+                  placeholder={t('apiKeys.placeholder')}
                   value={tempKey}
                   onChange={(e) => setTempKey(e.target.value)}
                 />
                 <div className="text-xs text-muted-foreground">
-                  Required APIs: Maps Static API, Places API, Street View Static API
+                  {t('apiKeys.required')}
                 </div>
               </div>
               
               <div className="flex gap-2">
                 <Button onClick={handleSave} disabled={!tempKey.trim()}>
-                  Save Key
+                  {t('apiKeys.save')}
                 </Button>
                 <Button 
                   variant="outline" 
@@ -115,7 +117,7 @@ export function ApiKeySettings() {
                   className="gap-1"
                 >
                   <ExternalLink className="h-3 w-3" />
-                  Get API Key
+                  {t('apiKeys.get')}
                 </Button>
               </div>
             </CardContent>
@@ -124,35 +126,35 @@ export function ApiKeySettings() {
           {/* Features Overview */}
           <Card>
             <CardHeader className="pb-3">
-              <CardTitle className="text-sm font-medium">Available Image Sources</CardTitle>
+              <CardTitle className="text-sm font-medium">{t('apiKeys.sources')}</CardTitle>
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
                 <div className="flex items-center gap-2">
                   <Camera className="h-4 w-4 text-green-600" />
-                  <span>Google Street View</span>
+                  <span>{t('apiKeys.streetView')}</span>
                   <Badge variant={hasGoogleApiKey ? "default" : "secondary"} className="text-xs">
-                    {hasGoogleApiKey ? "Active" : "Needs key"}
+                    {hasGoogleApiKey ? t('apiKeys.active') : t('apiKeys.needsKey')}
                   </Badge>
                 </div>
                 <div className="flex items-center gap-2">
                   <Camera className="h-4 w-4 text-blue-600" />
-                  <span>Satellite Images</span>
+                  <span>{t('apiKeys.satellite')}</span>
                   <Badge variant={hasGoogleApiKey ? "default" : "secondary"} className="text-xs">
-                    {hasGoogleApiKey ? "Active" : "Needs key"}
+                    {hasGoogleApiKey ? t('apiKeys.active') : t('apiKeys.needsKey')}
                   </Badge>
                 </div>
                 <div className="flex items-center gap-2">
                   <Camera className="h-4 w-4 text-purple-600" />
-                  <span>Places Photos</span>
+                  <span>{t('apiKeys.places')}</span>
                   <Badge variant={hasGoogleApiKey ? "default" : "secondary"} className="text-xs">
-                    {hasGoogleApiKey ? "Active" : "Needs key"}
+                    {hasGoogleApiKey ? t('apiKeys.active') : t('apiKeys.needsKey')}
                   </Badge>
                 </div>
                 <div className="flex items-center gap-2">
                   <Camera className="h-4 w-4 text-orange-600" />
-                  <span>Stock Photos</span>
-                  <Badge variant="default" className="text-xs">Always Active</Badge>
+                  <span>{t('apiKeys.stock')}</span>
+                  <Badge variant="default" className="text-xs">{t('apiKeys.alwaysActive')}</Badge>
                 </div>
               </div>
             </CardContent>
@@ -160,12 +162,12 @@ export function ApiKeySettings() {
 
           {/* Instructions */}
           <div className="text-xs text-muted-foreground space-y-1">
-            <p><strong>Instructions:</strong></p>
-            <ol className="list-decimal list-inside space-y-1 ml-2">
-              <li>Go to Google Cloud Console and create a new project</li>
-              <li>Enable: Maps Static API, Places API, Street View Static API</li>
-              <li>Create credentials (API key) and copy it here</li>
-              <li>Click buildings on the map to see real photos!</li>
+            <p><strong>{t('apiKeys.instructions')}</strong></p>
+            <ol className="list-decimal list-inside space-y-1 ms-2">
+              <li>{t('apiKeys.step1')}</li>
+              <li>{t('apiKeys.step2')}</li>
+              <li>{t('apiKeys.step3')}</li>
+              <li>{t('apiKeys.step4')}</li>
             </ol>
           </div>
         </div>
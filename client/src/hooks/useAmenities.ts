@@ -1,4 +1,5 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useState } from "react";
+import { geocodePlaces } from "@/services/geoService";
 
 export type AmenityCategory = "supermarket" | "school" | "metro";
 export type TravelMode = "walking" | "driving";
@@ -27,15 +28,13 @@ const CATEGORY_QUERIES: Record<AmenityCategory, string> = {
   metro: "metro station",
 };
 
-export function useAmenities(center: [number, number] | null, token?: string, limitPerCategory = 5) {
+export function useAmenities(center: [number, number] | null, limitPerCategory = 5) {
   const [data, setData] = useState<Record<AmenityCategory, Amenity[]>>({ supermarket: [], school: [], metro: [] });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const accessToken = useMemo(() => token || localStorage.getItem("MAPBOX_PUBLIC_TOKEN") || "", [token]);
-
   useEffect(() => {
-    if (!center || !accessToken) return;
+    if (!center) return;
     let aborted = false;
     const abortCtl = new AbortController();
     (async () => {
@@ -44,28 +43,15 @@ export function useAmenities(center: [number, number] | null, token?: string, li
         setError(null);
         const entries = (Object.keys(CATEGORY_QUERIES) as AmenityCategory[]).map(async (cat) => {
           const q = CATEGORY_QUERIES[cat];
-          const url = new URL(`https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(q)}.json`);
-          url.searchParams.set("access_token", accessToken);
-          url.searchParams.set("types", "poi");
-          url.searchParams.set("proximity", `${center[0]},${center[1]}`);
-          url.searchParams.set("limit", String(limitPerCategory));
-          url.searchParams.set("country", "AE");
-          const res = await fetch(url.toString(), { signal: abortCtl.signal });
-          const json = await res.json();
-          const feats = (json?.features || []) as Array<any>;
-          const items: Amenity[] = feats.map((f: any) => {
-            const p = f?.properties || {};
-            const coords = (f?.center || f?.geometry?.coordinates) as [number, number];
-            const dist = haversineMeters(center, coords);
-            return {
-              id: f.id,
-              name: f.text || f.place_name || p?.name || "Unknown",
-              center: coords,
-              address: f.place_name,
-              category: cat,
-              distanceMeters: dist,
-            } as Amenity;
-          });
+          const places = await geocodePlaces(q, { types: "poi", proximity: center, limit: limitPerCategory }, abortCtl.signal);
+          const items: Amenity[] = places.map((place) => ({
+            id: place.id,
+            name: place.name,
+            center: place.center,
+            address: place.fullName,
+            category: cat,
+            distanceMeters: haversineMeters(center, place.center),
+          }));
           // sort by distance
           items.sort((a, b) => a.distanceMeters - b.distanceMeters);
           return [cat, items] as const;
@@ -84,7 +70,7 @@ export function useAmenities(center: [number, number] | null, token?: string, li
       }
     })();
     return () => { aborted = true; abortCtl.abort(); };
-  }, [center?.[0], center?.[1], accessToken, limitPerCategory]);
+  }, [center?.[0], center?.[1], limitPerCategory]);
 
   return { data, loading, error } as const;
 }
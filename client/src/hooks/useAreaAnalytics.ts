@@ -0,0 +1,48 @@
+import { useQuery } from '@tanstack/react-query';
+import type { AreaAnalytics } from '@shared/schema';
+import type { AmenityResult } from '@/hooks/useSearchBoxAmenities';
+
+const NO_AMENITIES: AmenityResult[] = [];
+
+/**
+ * Hook for server-side statistics of a drawn search area
+ */
+export function useAreaAnalytics(
+  area: GeoJSON.Feature<GeoJSON.Polygon> | null,
+  amenities: AmenityResult[] = NO_AMENITIES
+) {
+  const polygon = area?.geometry;
+  const points = amenities.map((a) => ({ category: a.category, center: a.center }));
+
+  const {
+    data,
+    isLoading,
+    error
+  } = useQuery({
+    queryKey: ['area-analytics', JSON.stringify(polygon?.coordinates), amenities.map((a) => a.id).join(',')],
+    queryFn: async (): Promise<AreaAnalytics> => {
+      const response = await fetch('/api/analytics/area', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ polygon, amenities: points })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Area analytics failed: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+    enabled: !!polygon,
+    staleTime: 1000 * 60, // Cache for 1 minute
+    retry: 1
+  });
+
+  return {
+    analytics: data ?? null,
+    isLoading,
+    error
+  };
+}
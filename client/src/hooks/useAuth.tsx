@@ -0,0 +1,105 @@
+import React, { createContext, useContext } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Credentials, PublicUser, Registration } from '@shared/schema';
+
+type AuthContextValue = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  login: (credentials: Credentials) => Promise<PublicUser>;
+  register: (registration: Registration) => Promise<PublicUser>;
+  logout: () => Promise<void>;
+};
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export const AUTH_QUERY_KEY = ['auth', 'me'] as const;
+
+// Rejects with the server's message so forms can show it as-is
+async function postCredentials(url: string, credentials: Credentials | Registration): Promise<PublicUser> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(credentials)
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || `Request failed: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Session state from /api/auth/me plus sign-in, registration and sign-out
+ */
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: AUTH_QUERY_KEY,
+    queryFn: async (): Promise<PublicUser | null> => {
+      const response = await fetch('/api/auth/me');
+
+      // Signed out is a normal state, not an error
+      if (response.status === 401) return null;
+      if (!response.ok) {
+        throw new Error(`Session check failed: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+    staleTime: Infinity,
+    retry: 1
+  });
+
+  // Per-user data cached under the previous session is refetched for the new one
+  const sessionChanged = (user: PublicUser | null) => {
+    queryClient.setQueryData(AUTH_QUERY_KEY, user);
+    queryClient.invalidateQueries({ predicate: (query) => query.queryKey[0] !== AUTH_QUERY_KEY[0] });
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: (credentials: Credentials) => postCredentials('/api/auth/login', credentials),
+    onSuccess: sessionChanged
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: (registration: Registration) => postCredentials('/api/auth/register', registration),
+    onSuccess: sessionChanged
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/auth/logout', { method: 'POST' });
+      if (!response.ok) {
+        throw new Error(`Sign out failed: ${response.statusText}`);
+      }
+    },
+    onSuccess: () => sessionChanged(null)
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: data ?? null,
+        isLoading,
+        login: loginMutation.mutateAsync,
+        register: registerMutation.mutateAsync,
+        logout: logoutMutation.mutateAsync
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
@@ -0,0 +1,70 @@
+import { useQuery } from '@tanstack/react-query';
+import type { ComparablesResult } from '@shared/schema';
+
+export interface UseComparablesProps {
+  coordinates?: [number, number];
+  radius?: number; // meters
+  size?: number; // sqft
+  bedrooms?: number;
+  bedroomTolerance?: number;
+  since?: string; // YYYY-MM-DD
+  limit?: number;
+  enabled?: boolean;
+}
+
+/**
+ * Hook for recorded sales near a location, for price history charts and sales lists
+ */
+export function useComparables({
+  coordinates,
+  radius,
+  size,
+  bedrooms,
+  bedroomTolerance,
+  since,
+  limit = 20,
+  enabled = true
+}: UseComparablesProps) {
+  const params = new URLSearchParams();
+  if (coordinates) {
+    params.set('lng', String(coordinates[0]));
+    params.set('lat', String(coordinates[1]));
+  }
+  if (radius != null) params.set('radius', String(radius));
+  if (size != null) params.set('size', String(size));
+  if (bedrooms != null) params.set('bedrooms', String(bedrooms));
+  if (bedroomTolerance != null) params.set('bedroomTolerance', String(bedroomTolerance));
+  if (since) params.set('since', since);
+  params.set('limit', String(limit));
+  const qs = params.toString();
+
+  const {
+    data,
+    isLoading,
+    error,
+    refetch
+  } = useQuery({
+    queryKey: ['comparables', qs],
+    queryFn: async (): Promise<ComparablesResult> => {
+      const response = await fetch(`/api/comparables?${qs}`);
+
+      if (!response.ok) {
+        throw new Error(`Comparable sales failed: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+    enabled: enabled && !!coordinates,
+    staleTime: 1000 * 60 * 5, // Cache for 5 minutes
+    retry: 2
+  });
+
+  return {
+    sales: data?.sales || [],
+    history: data?.history || [],
+    medianPricePerSqft: data?.medianPricePerSqft ?? null,
+    isLoading,
+    error,
+    refetch
+  };
+}
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from 'react';
+import { MAX_COMPARE, type CompareRef } from '@/services/comparisonService';
+
+export type CompareItem = { ref: CompareRef; name: string };
+
+const STORAGE_KEY = 'COMPARE_SELECTION';
+
+function load(): CompareItem[] {
+  try {
+    const items = JSON.parse(sessionStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(items) ? items.slice(0, MAX_COMPARE) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Properties picked for side-by-side comparison; kept for the browser session so the
+ * selection survives a trip to the comparison page and back
+ */
+export function useCompareSelection() {
+  const [items, setItems] = useState<CompareItem[]>(load);
+
+  useEffect(() => {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  }, [items]);
+
+  const has = useCallback((ref: CompareRef) => items.some((item) => item.ref === ref), [items]);
+
+  // Returns false when the selection is already full
+  const toggle = (item: CompareItem) => {
+    if (has(item.ref)) {
+      setItems((prev) => prev.filter((i) => i.ref !== item.ref));
+      return true;
+    }
+    if (items.length >= MAX_COMPARE) return false;
+    setItems((prev) => [...prev, item]);
+    return true;
+  };
+
+  return {
+    items,
+    has,
+    toggle,
+    remove: (ref: CompareRef) => setItems((prev) => prev.filter((i) => i.ref !== ref)),
+    clear: () => setItems([]),
+    isFull: items.length >= MAX_COMPARE
+  };
+}
+
+export function compareUrl(refs: CompareRef[]) {
+  const params = new URLSearchParams();
+  refs.forEach((ref) => params.append('p', ref));
+  return `/compare?${params.toString()}`;
+}
@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query';
+
+export type GeoConfig = {
+  // Public token for rendering map tiles, when the server has one to share
+  mapToken: string | null;
+  // Whether geocoding, routing and isochrones are available through the server
+  proxyEnabled: boolean;
+};
+
+/**
+ * Map settings the server provides, so users don't have to paste a Mapbox token
+ */
+export function useGeoConfig() {
+  const { data, isLoading } = useQuery({
+    queryKey: ['geo-config'],
+    queryFn: async (): Promise<GeoConfig> => {
+      const response = await fetch('/api/geo/config');
+
+      if (!response.ok) {
+        throw new Error(`Geo config failed: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+    staleTime: Infinity,
+    retry: 2
+  });
+
+  return { config: data, isLoading };
+}
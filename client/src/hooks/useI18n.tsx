@@ -0,0 +1,112 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { languages, type Language, type PublicUser } from '@shared/schema';
+import { en, type MessageKey, type Messages } from '@/i18n/en';
+import { ar } from '@/i18n/ar';
+import { formatAED, formatDate, formatMonth, formatNumber, formatPercent } from '@/i18n/format';
+import { AUTH_QUERY_KEY, useAuth } from '@/hooks/useAuth';
+
+const CATALOGUES: Record<Language, Messages> = { en, ar };
+const STORAGE_KEY = 'language';
+
+type Vars = Record<string, string | number>;
+
+type I18nContextValue = {
+  language: Language;
+  dir: 'ltr' | 'rtl';
+  setLanguage: (language: Language) => Promise<void>;
+  t: (key: MessageKey, vars?: Vars) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatAED: (value: number, options?: { compact?: boolean }) => string;
+  formatPercent: (value: number, maximumFractionDigits?: number) => string;
+  formatDate: (date: string | number | Date, options?: Intl.DateTimeFormatOptions) => string;
+  formatMonth: (label: string) => string;
+};
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+function storedLanguage(): Language {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return (languages as readonly string[]).includes(stored ?? '') ? (stored as Language) : 'en';
+}
+
+function lookup(messages: Messages, key: string): string | undefined {
+  const value = key.split('.').reduce<unknown>((node, part) => (node as Record<string, unknown> | undefined)?.[part], messages);
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Interface language, translations and number/currency/date formatting. Signed-in users keep
+ * their choice on the server; everyone else keeps it in this browser.
+ */
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [language, setLanguageState] = useState<Language>(storedLanguage);
+
+  // A signed-in account's saved language wins over whatever this browser last used
+  useEffect(() => {
+    if (user && user.language !== language) {
+      setLanguageState(user.language);
+      localStorage.setItem(STORAGE_KEY, user.language);
+    }
+  }, [user?.id, user?.language]);
+
+  const dir = language === 'ar' ? 'rtl' : 'ltr';
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+    document.documentElement.dir = dir;
+  }, [language, dir]);
+
+  const setLanguage = useCallback(async (next: Language) => {
+    setLanguageState(next);
+    localStorage.setItem(STORAGE_KEY, next);
+    if (!user) return;
+
+    const response = await fetch('/api/auth/me', {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ language: next })
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to save language: ${response.statusText}`);
+    }
+    queryClient.setQueryData<PublicUser | null>(AUTH_QUERY_KEY, await response.json());
+  }, [user, queryClient]);
+
+  const value = useMemo<I18nContextValue>(() => {
+    const number = (n: number, options?: Intl.NumberFormatOptions) => formatNumber(language, n, options);
+    return {
+      language,
+      dir,
+      setLanguage,
+      // Falls back to English, then to the key itself, so a gap shows up without breaking the page
+      t: (key, vars) => {
+        const template = lookup(CATALOGUES[language], key) ?? lookup(en, key) ?? key;
+        if (!vars) return template;
+        return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+          const v = vars[name];
+          return v === undefined ? match : typeof v === 'number' ? number(v) : v;
+        });
+      },
+      formatNumber: number,
+      formatAED: (n, options) => formatAED(language, n, options),
+      formatPercent: (n, digits) => formatPercent(language, n, digits),
+      formatDate: (date, options) => formatDate(language, date, options),
+      formatMonth: (label) => formatMonth(language, label),
+    };
+  }, [language, dir, setLanguage]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n() {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error('useI18n must be used within an I18nProvider');
+  }
+  return context;
+}
@@ -0,0 +1,80 @@
+import { useCallback, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { DEFAULT_SCORE_WEIGHTS, type InvestmentScore, type ScoreWeights } from '@shared/schema';
+import type { AmenityResult } from '@/hooks/useSearchBoxAmenities';
+
+const NO_AMENITIES: AmenityResult[] = [];
+const WEIGHTS_KEY = 'SCORE_WEIGHTS';
+
+function loadWeights(): ScoreWeights {
+  try {
+    return { ...DEFAULT_SCORE_WEIGHTS, ...JSON.parse(localStorage.getItem(WEIGHTS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_SCORE_WEIGHTS;
+  }
+}
+
+/**
+ * Factor weights for the investment score, remembered in this browser
+ */
+export function useScoreWeights() {
+  const [weights, setWeights] = useState<ScoreWeights>(loadWeights);
+
+  const update = useCallback((next: ScoreWeights) => {
+    setWeights(next);
+    localStorage.setItem(WEIGHTS_KEY, JSON.stringify(next));
+  }, []);
+
+  const reset = useCallback(() => {
+    setWeights(DEFAULT_SCORE_WEIGHTS);
+    localStorage.removeItem(WEIGHTS_KEY);
+  }, []);
+
+  return { weights, setWeights: update, reset };
+}
+
+export type ScoreWeightsState = ReturnType<typeof useScoreWeights>;
+
+/**
+ * Hook for the server's investment score and factor breakdown of a building or coordinate
+ */
+export function useInvestmentScore(
+  coordinates: [number, number] | null,
+  propertyId: string | undefined,
+  weights: ScoreWeights,
+  amenities: AmenityResult[] = NO_AMENITIES
+) {
+  const points = amenities.map((a) => ({ category: a.category, center: a.center }));
+
+  const {
+    data,
+    isLoading,
+    error
+  } = useQuery({
+    queryKey: ['investment-score', coordinates?.join(','), propertyId, JSON.stringify(weights), amenities.map((a) => a.id).join(',')],
+    queryFn: async (): Promise<InvestmentScore> => {
+      const response = await fetch('/api/score', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ coordinates, propertyId, weights, amenities: points })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Investment score failed: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+    enabled: !!coordinates,
+    staleTime: 1000 * 60, // Cache for 1 minute
+    retry: 1
+  });
+
+  return {
+    breakdown: data ?? null,
+    isLoading,
+    error
+  };
+}
@@ -0,0 +1,55 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { InboxNotification } from '@shared/schema';
+import { useAuth } from '@/hooks/useAuth';
+
+const NO_NOTIFICATIONS: InboxNotification[] = [];
+
+/**
+ * Hook for the saved-search alert inbox; polls so alerts from imports show up without a reload
+ */
+export function useNotifications() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['notifications', user?.id];
+
+  const { data, isLoading, error } = useQuery({
+    queryKey,
+    queryFn: async (): Promise<{ items: InboxNotification[]; unreadCount: number }> => {
+      const response = await fetch('/api/notifications');
+
+      if (!response.ok) {
+        throw new Error(`Notifications failed: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+    enabled: !!user,
+    refetchInterval: 1000 * 60, // Check for new alerts every minute
+    retry: 1
+  });
+
+  const markRead = useMutation({
+    mutationFn: async (ids?: number[]) => {
+      const response = await fetch('/api/notifications/read', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(ids ? { ids } : {})
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to update notifications: ${response.statusText}`);
+      }
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey })
+  });
+
+  return {
+    notifications: (user && data?.items) || NO_NOTIFICATIONS,
+    unreadCount: (user && data?.unreadCount) || 0,
+    markRead: markRead.mutateAsync,
+    isLoading,
+    error
+  };
+}
@@ -0,0 +1,68 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { InsertHolding, Portfolio, PortfolioHolding } from '@shared/schema';
+import { useAuth } from '@/hooks/useAuth';
+
+/**
+ * Hook for the signed-in user's portfolio of owned units
+ */
+export function usePortfolio() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['portfolio', user?.id];
+
+  const { data, isLoading, error } = useQuery({
+    queryKey,
+    queryFn: async (): Promise<Portfolio> => {
+      const response = await fetch('/api/portfolio');
+
+      if (!response.ok) {
+        throw new Error(`Portfolio failed: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+    enabled: !!user,
+    staleTime: 1000 * 60 * 5, // Cache for 5 minutes
+    retry: 1
+  });
+
+  const add = useMutation({
+    mutationFn: async (holding: InsertHolding): Promise<PortfolioHolding> => {
+      const response = await fetch('/api/portfolio/holdings', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(holding)
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `Failed to add holding: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey })
+  });
+
+  const remove = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await fetch(`/api/portfolio/holdings/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(`Failed to remove holding: ${response.statusText}`);
+      }
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey })
+  });
+
+  return {
+    portfolio: user ? data : undefined,
+    add: add.mutateAsync,
+    remove: remove.mutateAsync,
+    isSaving: add.isPending,
+    signedIn: !!user,
+    isLoading,
+    error
+  };
+}
@@ -0,0 +1,71 @@
+import { useQuery } from '@tanstack/react-query';
+import type { Page, PropertyPoint } from '@shared/schema';
+
+export interface UsePropertiesProps {
+  bbox?: [number, number, number, number];
+  community?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  minYield?: number;
+  maxYield?: number;
+  limit?: number;
+  offset?: number;
+  enabled?: boolean;
+}
+
+const NO_PROPERTIES: PropertyPoint[] = [];
+
+/**
+ * Hook for loading the property catalogue from the server
+ */
+export function useProperties({
+  bbox,
+  community,
+  minPrice,
+  maxPrice,
+  minYield,
+  maxYield,
+  limit = 1000,
+  offset = 0,
+  enabled = true
+}: UsePropertiesProps = {}) {
+  const params = new URLSearchParams();
+  if (bbox) params.set('bbox', bbox.join(','));
+  if (community) params.set('community', community);
+  if (minPrice != null) params.set('minPrice', String(minPrice));
+  if (maxPrice != null) params.set('maxPrice', String(maxPrice));
+  if (minYield != null) params.set('minYield', String(minYield));
+  if (maxYield != null) params.set('maxYield', String(maxYield));
+  params.set('limit', String(limit));
+  params.set('offset', String(offset));
+  const qs = params.toString();
+
+  const {
+    data,
+    isLoading,
+    error,
+    refetch
+  } = useQuery({
+    queryKey: ['properties', qs],
+    queryFn: async (): Promise<Page<PropertyPoint>> => {
+      const response = await fetch(`/api/properties?${qs}`);
+
+      if (!response.ok) {
+        throw new Error(`Property catalogue failed: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+    enabled,
+    staleTime: 1000 * 60, // Cache for 1 minute
+    retry: 2
+  });
+
+  return {
+    properties: data?.items ?? NO_PROPERTIES,
+    total: data?.total || 0,
+    isLoading,
+    error,
+    refetch
+  };
+}
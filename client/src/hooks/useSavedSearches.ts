@@ -0,0 +1,100 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { InsertSavedSearch, SavedSearchSummary } from '@shared/schema';
+import { useAuth } from '@/hooks/useAuth';
+
+const NO_SEARCHES: SavedSearchSummary[] = [];
+
+/**
+ * Hook for the signed-in user's saved searches
+ */
+export function useSavedSearches() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['saved-searches', user?.id];
+
+  const { data, isLoading, error } = useQuery({
+    queryKey,
+    queryFn: async (): Promise<{ items: SavedSearchSummary[] }> => {
+      const response = await fetch('/api/saved-searches');
+
+      if (!response.ok) {
+        throw new Error(`Saved searches failed: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+    enabled: !!user,
+    staleTime: 1000 * 60 * 5, // Cache for 5 minutes
+    retry: 1
+  });
+
+  const create = useMutation({
+    mutationFn: async (search: InsertSavedSearch): Promise<SavedSearchSummary> => {
+      const response = await fetch('/api/saved-searches', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(search)
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `Failed to save search: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey })
+  });
+
+  const remove = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await fetch(`/api/saved-searches/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(`Failed to delete saved search: ${response.statusText}`);
+      }
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey })
+  });
+
+  const confirmEmail = useMutation({
+    mutationFn: async ({ id, code }: { id: number; code: string }): Promise<SavedSearchSummary> => {
+      const response = await fetch(`/api/saved-searches/${id}/confirm-email`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ code })
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `Failed to confirm email: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey })
+  });
+
+  const resendCode = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await fetch(`/api/saved-searches/${id}/email-code`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error(`Failed to resend code: ${response.statusText}`);
+      }
+    }
+  });
+
+  return {
+    searches: (user && data?.items) || NO_SEARCHES,
+    create: create.mutateAsync,
+    remove: remove.mutateAsync,
+    confirmEmail: confirmEmail.mutateAsync,
+    resendCode: resendCode.mutateAsync,
+    isSaving: create.isPending,
+    isLoading,
+    error
+  };
+}
@@ -1,4 +1,5 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { searchPlaces } from "@/services/geoService";
 
 export type AmenityCategory =
   | "food_drink"
@@ -23,7 +24,6 @@ export type AmenityResult = {
 };
 
 export type UseAmenitiesOptions = {
-  token?: string;
   center?: [number, number] | null;
   route?: GeoJSON.LineString | null;
   categories: AmenityCategory[];
@@ -31,7 +31,7 @@ export type UseAmenitiesOptions = {
   limitPerCategory?: number; // default 12
 };
 
-const CATEGORY_QUERY: Record<AmenityCategory, string> = {
+export const CATEGORY_QUERY: Record<AmenityCategory, string> = {
   food_drink: "restaurant,cafe,coffee shop,food court",
   groceries: "supermarket,grocery store,hypermarket",
   atm_bank: "atm,bank",
@@ -71,46 +71,16 @@ function sampleLine(line: GeoJSON.LineString, stepMeters = 1000): [number, numbe
   return pts;
 }
 
-async function trySearchBox(token: string): Promise<boolean> {
-  try {
-    const url = new URL("https://api.mapbox.com/search/searchbox/v1/forward");
-    url.searchParams.set("q", "coffee");
-    url.searchParams.set("proximity", "55.27,25.20");
-    url.searchParams.set("limit", "1");
-    url.searchParams.set("access_token", token);
-    const res = await fetch(url.toString());
-    return res.ok;
-  } catch {
-    return false;
-  }
-}
-
 type FetchCtx = { abort: AbortController };
 
-export function useSearchBoxSupport(token?: string) {
-  const [supported, setSupported] = useState<boolean | null>(null);
-  useEffect(() => {
-    const t = token || localStorage.getItem("MAPBOX_PUBLIC_TOKEN") || "";
-    if (!t) { setSupported(null); return; }
-    let mounted = true;
-    trySearchBox(t).then((ok) => { if (mounted) setSupported(ok); });
-    return () => { mounted = false; };
-  }, [token]);
-  return supported; // null = unknown, true/false known
-}
-
 export function useSearchBoxAmenities(opts: UseAmenitiesOptions) {
-  const { token, center, route, categories, radiusMeters = 1000, limitPerCategory = 12 } = opts;
+  const { center, route, categories, radiusMeters = 1000, limitPerCategory = 12 } = opts;
   const [results, setResults] = useState<AmenityResult[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const support = useSearchBoxSupport(token);
   const ctxRef = useRef<FetchCtx | null>(null);
 
-  const accessToken = useMemo(() => token || localStorage.getItem("MAPBOX_PUBLIC_TOKEN") || "", [token]);
-
   useEffect(() => {
-    if (!accessToken) return;
     const abort = new AbortController();
     ctxRef.current?.abort.abort();
     ctxRef.current = { abort };
@@ -123,54 +93,19 @@ export function useSearchBoxAmenities(opts: UseAmenitiesOptions) {
         const centers: [number, number][] = route ? sampleLine(route, Math.max(400, Math.min(1500, radiusMeters))) : (center ? [center] : []);
         if (!centers.length) { setResults([]); setLoading(false); return; }
 
+        // The server uses Search Box when its token allows, and POI geocoding otherwise
         const doFetch = async (q: string, cat: AmenityCategory, c: [number, number]) => {
-          if (support === true) {
-            const url = new URL("https://api.mapbox.com/search/searchbox/v1/forward");
-            url.searchParams.set("q", q);
-            url.searchParams.set("proximity", `${c[0]},${c[1]}`);
-            url.searchParams.set("types", "poi");
-            url.searchParams.set("limit", String(Math.max(3, Math.floor(limitPerCategory / centers.length))));
-            url.searchParams.set("access_token", accessToken);
-            const res = await fetch(url.toString(), { signal: abort.signal });
-            const json = await res.json();
-            const feats = (json?.features || []) as any[];
-            return feats.map((f) => {
-              const coords = (f?.geometry?.coordinates || f?.center) as [number, number];
-              return {
-                id: f.id || f.mapbox_id || `${coords.join(',')}-${cat}`,
-                name: f?.name || f?.properties?.name || f?.properties?.place_name || f?.place_name || "Unknown",
-                center: coords,
-                address: f?.place_formatted || f?.properties?.full_address || f?.properties?.address,
-                category: cat,
-                distanceMeters: center ? haversine(center, coords) : undefined,
-                rating: f?.properties?.rating || f?.properties?.score || undefined,
-                website: f?.properties?.website || undefined,
-                googleUrl: f?.properties?.poi?.website || undefined,
-              } as AmenityResult;
-            });
-          } else {
-            // Fallback to geocoding v5
-            const url = new URL(`https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(q)}.json`);
-            url.searchParams.set("access_token", accessToken);
-            url.searchParams.set("types", "poi");
-            url.searchParams.set("proximity", `${c[0]},${c[1]}`);
-            url.searchParams.set("limit", String(Math.max(3, Math.floor(limitPerCategory / centers.length))));
-            url.searchParams.set("country", "AE");
-            const res = await fetch(url.toString(), { signal: abort.signal });
-            const json = await res.json();
-            const feats = (json?.features || []) as any[];
-            return feats.map((f) => {
-              const coords = (f?.center || f?.geometry?.coordinates) as [number, number];
-              return {
-                id: f.id,
-                name: f.text || f.place_name || f?.properties?.name || "Unknown",
-                center: coords,
-                address: f.place_name,
-                category: cat,
-                distanceMeters: center ? haversine(center, coords) : undefined,
-              } as AmenityResult;
-            });
-          }
+          const places = await searchPlaces(q, { proximity: c, limit: Math.max(3, Math.floor(limitPerCategory / centers.length)) }, abort.signal);
+          return places.map((place): AmenityResult => ({
+            id: place.id,
+            name: place.name,
+            center: place.center,
+            address: place.fullName || undefined,
+            category: cat,
+            distanceMeters: center ? haversine(center, place.center) : undefined,
+            rating: place.rating,
+            website: place.website,
+          }));
         };
 
         const proms: Promise<AmenityResult[]>[] = [];
@@ -204,7 +139,7 @@ export function useSearchBoxAmenities(opts: UseAmenitiesOptions) {
 
     run();
     return () => abort.abort();
-  }, [accessToken, JSON.stringify(center), JSON.stringify(route), JSON.stringify(categories), radiusMeters, support]);
+  }, [JSON.stringify(center), JSON.stringify(route), JSON.stringify(categories), radiusMeters]);
 
-  return { results, loading, error, searchBoxSupported: support } as const;
+  return { results, loading, error } as const;
 }
@@ -0,0 +1,69 @@
+import { useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { WatchlistEntry } from '@shared/schema';
+import { useAuth } from '@/hooks/useAuth';
+
+const NO_ITEMS: WatchlistEntry[] = [];
+
+async function changeWatchlist(method: 'POST' | 'DELETE', propertyId: string) {
+  const response = await fetch(method === 'POST' ? '/api/watchlist' : `/api/watchlist/${encodeURIComponent(propertyId)}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: method === 'POST' ? JSON.stringify({ propertyId }) : undefined
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || `Watchlist update failed: ${response.statusText}`);
+  }
+}
+
+/**
+ * Hook for the signed-in user's watchlist; empty and read-only when signed out
+ */
+export function useWatchlist() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['watchlist', user?.id];
+
+  const { data, isLoading, error } = useQuery({
+    queryKey,
+    queryFn: async (): Promise<{ items: WatchlistEntry[] }> => {
+      const response = await fetch('/api/watchlist');
+
+      if (!response.ok) {
+        throw new Error(`Watchlist failed: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+    enabled: !!user,
+    staleTime: 1000 * 60, // Cache for 1 minute
+    retry: 1
+  });
+
+  const items = (user && data?.items) || NO_ITEMS;
+  const watchedIds = useMemo(() => items.map((item) => item.propertyId), [items]);
+
+  const mutation = useMutation({
+    mutationFn: ({ watch, propertyId }: { watch: boolean; propertyId: string }) =>
+      changeWatchlist(watch ? 'POST' : 'DELETE', propertyId),
+    onSettled: () => queryClient.invalidateQueries({ queryKey })
+  });
+
+  const isWatched = (propertyId: string) => watchedIds.includes(propertyId);
+
+  return {
+    items,
+    watchedIds,
+    isWatched,
+    toggle: (propertyId: string) => mutation.mutateAsync({ watch: !isWatched(propertyId), propertyId }),
+    remove: (propertyId: string) => mutation.mutateAsync({ watch: false, propertyId }),
+    isUpdating: mutation.isPending,
+    signedIn: !!user,
+    isLoading,
+    error
+  };
+}
@@ -0,0 +1,37 @@
+import { useQuery } from '@tanstack/react-query';
+import type { Zone } from '@shared/schema';
+
+const NO_ZONES: Zone[] = [];
+
+/**
+ * Hook for loading community zones and their averages from the server
+ */
+export function useZones({ enabled = true }: { enabled?: boolean } = {}) {
+  const {
+    data,
+    isLoading,
+    error,
+    refetch
+  } = useQuery({
+    queryKey: ['zones'],
+    queryFn: async (): Promise<{ zones: Zone[] }> => {
+      const response = await fetch('/api/zones');
+
+      if (!response.ok) {
+        throw new Error(`Zones failed: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+    enabled,
+    staleTime: 1000 * 60 * 5, // Cache for 5 minutes
+    retry: 2
+  });
+
+  return {
+    zones: data?.zones ?? NO_ZONES,
+    isLoading,
+    error,
+    refetch
+  };
+}
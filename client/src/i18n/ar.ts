@@ -0,0 +1,477 @@
+import type { Messages } from './en';
+
+// Arabic messages, key for key with en.ts
+export const ar: Messages = {
+  common: {
+    cancel: 'إلغاء',
+    clear: 'مسح',
+    close: 'إغلاق',
+    remove: 'إزالة',
+    save: 'حفظ',
+    retry: 'يرجى المحاولة مرة أخرى.',
+    loading: 'جارٍ التحميل…',
+    none: '—',
+    studio: 'استوديو',
+    bedrooms: '{count} غرف',
+    sqft: '{value} قدم²',
+    perSqft: '{value} للقدم²',
+    sqkm: '{value} كم²',
+    yield: 'عائد {value}',
+  },
+  language: {
+    label: 'اللغة',
+    switchTo: 'English',
+    saveFailed: 'لم يتم حفظ اللغة في حسابك',
+  },
+  notFound: {
+    message: 'عذراً! الصفحة غير موجودة',
+    home: 'العودة إلى الرئيسية',
+  },
+  compareTray: {
+    title: 'مقارنة ({count}/{max})',
+    open: 'فتح المقارنة',
+    pickTwo: 'اختر عقارين على الأقل',
+  },
+  watchlist: {
+    add: 'إضافة إلى قائمة المتابعة',
+    remove: 'إزالة من قائمة المتابعة',
+    notUpdated: 'لم يتم تحديث قائمة المتابعة',
+  },
+  account: {
+    signIn: 'تسجيل الدخول',
+    signOut: 'تسجيل الخروج',
+    signedInAs: 'مسجل الدخول باسم {username}',
+    signOutFailed: 'فشل تسجيل الخروج',
+  },
+  identifier: {
+    typeLabel: 'نوع المعرّف',
+    unit: 'رقم الوحدة',
+    dewa: 'ديوا',
+    oqoo: 'عقود',
+    titleDeed: 'سند الملكية',
+    unitPlaceholder: 'أدخل رقم الوحدة (مثل 1503 أو A-1701)',
+    dewaPlaceholder: 'أدخل رقم ديوا',
+    oqooPlaceholder: 'أدخل رقم عقود',
+    titleDeedPlaceholder: 'أدخل رقم سند الملكية',
+    check: 'تحقق',
+    checking: 'جارٍ التحقق...',
+  },
+  watchlistPanel: {
+    title: 'قائمة المتابعة',
+    loading: 'جارٍ تحميل قائمة المتابعة...',
+    error: 'تعذر تحميل قائمة المتابعة.',
+    empty: 'ضع نجمة على مبنى لحفظه هنا.',
+  },
+  notifications: {
+    label: 'الإشعارات ({count} غير مقروءة)',
+    title: 'التنبيهات',
+    markAllRead: 'تعليم الكل كمقروء',
+    empty: 'لا توجد تنبيهات بعد. احفظ بحثاً لتصلك إشعارات بالنتائج الجديدة.',
+  },
+  savedSearches: {
+    title: 'عمليات البحث المحفوظة',
+    saveCurrent: 'حفظ الحالي',
+    loading: 'جارٍ تحميل عمليات البحث المحفوظة...',
+    error: 'تعذر تحميل عمليات البحث المحفوظة.',
+    empty: 'ابحث أو ارسم منطقة أو اختر المرافق، ثم احفظ البحث لتصلك التنبيهات.',
+    emailOn: 'تنبيهات البريد مفعّلة',
+    emailPending: 'أدخل الرمز المرسل إلى {email} لتفعيل التنبيهات بالبريد',
+    code: 'الرمز',
+    confirm: 'تأكيد',
+    resend: 'إعادة إرسال الرمز',
+    codeSent: 'تم إرسال رمز جديد',
+    codeRejected: 'الرمز غير صحيح',
+    delete: 'حذف البحث المحفوظ',
+    drawnArea: 'منطقة مرسومة',
+    amenityTypes: '{count} أنواع مرافق',
+    all: 'جميع العقارات',
+  },
+  exportMenu: {
+    button: 'تصدير',
+    title: 'تصدير بيانات الخريطة',
+    visibleOnly: 'المنطقة الظاهرة فقط',
+    nothing: 'لا شيء للتصدير',
+    nothingDetail: 'لا توجد {dataset} مطابقة للعرض والفلاتر الحالية.',
+    datasets: {
+      properties: 'عقارات',
+      zones: 'مناطق',
+      searchArea: 'المنطقة المرسومة',
+      isochrones: 'مناطق زمن التنقل',
+      amenities: 'مرافق',
+    },
+  },
+  amenities: {
+    title: 'المرافق',
+    all: 'الكل',
+    radius: 'نصف القطر',
+    meters: '{value} م',
+    alongRoute: 'البحث على طول المسار',
+    on: 'تشغيل',
+    off: 'إيقاف',
+    categories: {
+      food_drink: 'مطاعم ومقاهٍ',
+      groceries: 'بقالة',
+      atm_bank: 'صرافات وبنوك',
+      pharmacy_hospital: 'صيدليات ومستشفيات',
+      school_university: 'مدارس وجامعات',
+      gym_sports: 'نوادٍ رياضية',
+      shopping_mall: 'مراكز تسوق',
+      public_transport: 'مواصلات عامة',
+    },
+  },
+  auth: {
+    signIn: 'تسجيل الدخول',
+    createAccountTitle: 'إنشاء حساب',
+    description: 'احتفظ بقوائم المتابعة وعمليات البحث المحفوظة والمحافظ في حسابك الخاص.',
+    register: 'تسجيل',
+    username: 'اسم المستخدم',
+    password: 'كلمة المرور',
+    passwordHint: '8 أحرف على الأقل.',
+    wait: 'يرجى الانتظار...',
+    createAccount: 'إنشاء الحساب',
+    welcomeBack: 'مرحباً بعودتك، {username}',
+    created: 'تم إنشاء حساب {username}',
+    failed: 'حدث خطأ ما. يرجى المحاولة مرة أخرى.',
+  },
+  saveSearch: {
+    title: 'حفظ البحث',
+    includes: 'يشمل {summary}.',
+    everything: 'يغطي جميع العقارات في الكتالوج.',
+    alertsNote: 'تصلك التنبيهات عند ظهور عقارات أو مبيعات جديدة مطابقة.',
+    name: 'الاسم',
+    defaultName: 'بحثي',
+    minPrice: 'أدنى سعر (درهم)',
+    maxPrice: 'أعلى سعر (درهم)',
+    minYield: 'أدنى عائد (٪)',
+    maxYield: 'أعلى عائد (٪)',
+    emailMe: 'أرسل لي بريداً إلكترونياً أيضاً',
+    saving: 'جارٍ الحفظ...',
+    saved: 'تم حفظ البحث',
+    savedDetail: 'سيتم إشعارك عند ظهور نتائج جديدة مطابقة.',
+    failed: 'تعذر حفظ هذا البحث.',
+  },
+  portfolio: {
+    title: 'المحفظة',
+    loading: 'جارٍ تحميل المحفظة...',
+    error: 'تعذر تحميل محفظتك.',
+    empty: 'افتح مبنى واختر "إضافة إلى المحفظة" لتتبع وحدة تملكها.',
+    currentValue: 'القيمة الحالية',
+    unrealisedGain: 'الربح غير المحقق',
+    equity: 'حقوق الملكية',
+    netYield: 'صافي العائد',
+    cashFlow: 'التدفق النقدي بعد الرهن: {value} سنوياً',
+    valueVsCost: 'القيمة مقابل التكلفة',
+    value: 'القيمة',
+    cost: 'التكلفة',
+    yieldVsMap: 'صافي العائد {net} مقابل {map} على الخريطة',
+    loan: 'القرض {value}',
+    remove: 'إزالة من المحفظة',
+  },
+  addHolding: {
+    title: 'إضافة إلى المحفظة',
+    description: 'سجّل وحدة تملكها في {building}. تُقيَّم بسعر القدم المربع الحالي للمبنى بالدرهم.',
+    unit: 'الوحدة',
+    unitPlaceholder: 'مثل 1503',
+    size: 'المساحة (قدم²)',
+    purchaseDate: 'تاريخ الشراء',
+    purchasePrice: 'سعر الشراء (درهم)',
+    mortgage: 'الرهن العقاري (درهم)',
+    rateTerm: 'الفائدة (٪) / المدة (سنوات)',
+    loanTerm: 'مدة القرض بالسنوات',
+    rent: 'الإيجار المحصّل / سنوياً',
+    serviceCharges: 'رسوم الخدمات / سنوياً',
+    saving: 'جارٍ الحفظ...',
+    submit: 'إضافة الوحدة',
+    added: 'تمت الإضافة إلى المحفظة',
+    failed: 'تعذر إضافة هذه الوحدة.',
+  },
+  valuation: {
+    title: 'القيمة التقديرية',
+    pointEstimate: 'التقدير',
+    range: 'النطاق',
+    perSqft: 'للقدم المربع',
+    bedroomsPlus: '{count}+ غرف',
+    comparablesCount: '{count} عقارات مماثلة',
+    comparables: 'العقارات المماثلة (مظللة على الخريطة)',
+    building: 'اسم المبنى أو المجتمع',
+    unitNumber: 'رقم الوحدة/الفيلا',
+    unitNumberLabel: 'رقم الوحدة أو الفيلا',
+    bedrooms: 'غرف النوم',
+    size: 'المساحة',
+    sizeUnit: 'وحدة المساحة',
+    unit: 'الوحدة',
+    sqft: 'قدم²',
+    sqm: 'م²',
+    calculate: 'احسب',
+    calculating: 'جارٍ الحساب...',
+  },
+  area: {
+    title: 'المنطقة المحددة',
+    clear: 'مسح المنطقة',
+    analysing: 'جارٍ تحليل المنطقة...',
+    error: 'تعذر تحليل هذه المنطقة. حاول رسمها من جديد.',
+    properties: 'العقارات',
+    medianPerSqft: 'الوسيط للقدم²',
+    avgYield: 'متوسط العائد',
+    yieldDistribution: 'توزيع العائد',
+    topBuildings: 'المباني الأعلى تقييماً',
+    amenitiesInside: 'المرافق داخل المنطقة',
+    noAmenities: 'لا توجد مرافق محمّلة داخل هذه المنطقة.',
+  },
+  poi: {
+    value: 'القيمة',
+    perSqft: 'للقدم المربع',
+    yield: 'العائد',
+    score: 'التقييم',
+    outOf100: '{value}/100',
+    website: 'زيارة الموقع',
+    directions: 'الاتجاهات',
+  },
+  apiKeys: {
+    button: 'واجهات الصور',
+    configured: 'مُعدّ',
+    notConfigured: 'غير مُعدّ',
+    title: 'إعداد واجهات صور المباني',
+    current: 'الإعداد الحالي',
+    googleMaps: 'واجهة خرائط Google',
+    key: 'المفتاح: {value}',
+    googleKey: 'مفتاح واجهة خرائط Google',
+    googleKeyDetail: 'يتيح التجوّل الافتراضي وصور الأقمار الصناعية وصور الأماكن للمباني',
+    apiKey: 'مفتاح الواجهة',
+    placeholder: 'أدخل مفتاح واجهة خرائط Google',
+    required: 'الواجهات المطلوبة: Maps Static API وPlaces API وStreet View Static API',
+    save: 'حفظ المفتاح',
+    get: 'الحصول على مفتاح',
+    sources: 'مصادر الصور المتاحة',
+    streetView: 'التجوّل الافتراضي من Google',
+    satellite: 'صور الأقمار الصناعية',
+    places: 'صور الأماكن',
+    stock: 'صور أرشيفية',
+    active: 'مفعّل',
+    needsKey: 'يتطلب مفتاحاً',
+    alwaysActive: 'مفعّل دائماً',
+    instructions: 'التعليمات:',
+    step1: 'انتقل إلى Google Cloud Console وأنشئ مشروعاً جديداً',
+    step2: 'فعّل: Maps Static API وPlaces API وStreet View Static API',
+    step3: 'أنشئ بيانات الاعتماد (مفتاح API) وانسخه هنا',
+    step4: 'انقر على المباني في الخريطة لمشاهدة صور حقيقية!',
+  },
+  calculator: {
+    purchase: 'الشراء',
+    price: 'السعر (درهم)',
+    nonResident: 'مشترٍ غير مقيم',
+    firstProperty: 'العقار الأول',
+    deferDld: 'تأجيل رسوم دائرة الأراضي (برنامج المشتري الأول)',
+    commission: 'عمولة الوساطة (٪)',
+    mortgage: 'الرهن العقاري',
+    ltv: 'نسبة التمويل إلى القيمة',
+    maxLtv: '(الحد الأقصى {value})',
+    rate: 'الفائدة (٪)',
+    tenor: 'المدة (سنوات)',
+    rent: 'الإيجار / سنوياً (درهم)',
+    serviceCharges: 'رسوم الخدمات / سنوياً',
+    costsAndReturns: 'التكاليف والعوائد',
+    downPayment: 'الدفعة المقدمة',
+    dldFee: 'رسوم نقل دائرة الأراضي ({value})',
+    deferred: '{value} مؤجلة',
+    trusteeFee: 'رسوم أمين التسجيل (شاملة الضريبة)',
+    agencyCommission: 'عمولة الوساطة (شاملة الضريبة)',
+    mortgageRegistration: 'تسجيل الرهن',
+    cashRequired: 'النقد المطلوب',
+    loanAmount: 'مبلغ القرض',
+    monthlyPayment: 'القسط الشهري',
+    totalInterest: 'إجمالي الفائدة',
+    cashFlow: 'التدفق النقدي / سنوياً',
+    cashOnCash: 'العائد النقدي على النقد',
+    amortisation: 'جدول السداد',
+    year: 'السنة',
+    interest: 'الفائدة',
+    principal: 'أصل القرض',
+    balance: 'الرصيد',
+  },
+  gallery: {
+    noImages: 'لا توجد صور متاحة',
+    streetView: 'التجوّل الافتراضي',
+    previous: 'الصورة السابقة',
+    next: 'الصورة التالية',
+    expand: 'عرض أكبر',
+    building: 'مبنى',
+    property: 'عقار',
+    counter: '{index} / {total}',
+  },
+  stats: {
+    investmentScore: 'مؤشر الاستثمار',
+    notAvailable: 'غير متاح',
+    factorContribution: '{score}/100 × {weight} = +{contribution}',
+    adjustWeights: 'تعديل الأوزان',
+    resetWeights: 'إعادة الضبط الافتراضي',
+    factors: {
+      yield: 'العائد مقارنة بالمنطقة',
+      price: 'السعر مقارنة بالمنطقة',
+      momentum: 'زخم الأسعار',
+      amenities: 'كثافة المرافق',
+      transit: 'سهولة المواصلات',
+    },
+    selectPrompt: 'اختر عقاراً أو منطقة',
+    addToComparison: 'إضافة إلى المقارنة',
+    removeFromComparison: 'إزالة من المقارنة',
+    photoAlt: 'صورة مبنى {name} في {community}',
+    marketValue: 'القيمة السوقية التقديرية',
+    rentYield: 'عائد الإيجار',
+    priceTrends: 'اتجاهات الأسعار (12 شهراً)',
+    tip: 'نصيحة: استخدم البحث أعلاه أو انقر على النقاط في الخريطة لعرض التحليلات. تتوهج المناطق المقيّمة بأقل من قيمتها باللون الزمردي.',
+    nearbyAmenities: 'المرافق القريبة',
+    selectForAmenities: 'اختر عقاراً لعرض المرافق القريبة.',
+    loadingAmenities: 'جارٍ تحميل المرافق...',
+    meters: '{value} م',
+    kilometers: '{value} كم',
+    minutes: '{value} د',
+    travel: '{distance} • {walk} سيراً • {drive} بالسيارة',
+    walk: 'سيراً',
+    drive: 'بالسيارة',
+    noneNearby: 'لا توجد نتائج قريبة.',
+    supermarkets: 'متاجر كبرى',
+    schools: 'مدارس',
+    metro: 'مترو',
+    transactions: 'سجل المعاملات',
+    transactionsPlaceholder: 'ستظهر هنا نماذج من المعاملات الأخيرة.',
+  },
+  details: {
+    placesVerified: '✓ تم التحقق عبر Google Places',
+    addToPortfolio: 'إضافة إلى المحفظة',
+    generateReport: 'إنشاء تقرير',
+    reportFailed: 'فشل إنشاء التقرير',
+    overview: 'نظرة عامة',
+    costs: 'التكاليف والرهن',
+    location: 'الموقع',
+    dubai: 'دبي',
+    yield: 'العائد',
+    score: 'التقييم',
+    value: 'القيمة',
+    perSqft: 'للقدم المربع',
+    soldPerSqft: 'سعر البيع للقدم المربع',
+    priceTrends: 'اتجاهات الأسعار (12 شهراً)',
+    loadingSales: 'جارٍ تحميل سجل المبيعات...',
+    noSales: 'لا توجد مبيعات مسجلة قريبة بعد',
+    salesNote: 'الوسيط الشهري للمبيعات المسجلة لوحدات مماثلة قريبة',
+    recentSales: 'المبيعات الأخيرة',
+    investmentScore: 'مؤشر الاستثمار',
+    outOf100: 'من 100',
+    excellent: 'ممتاز',
+    good: 'جيد',
+    fair: 'مقبول',
+    propertyDetails: 'تفاصيل العقار',
+    propertyType: 'نوع العقار',
+    apartment: 'شقة',
+    unitNo: 'رقم الوحدة',
+    bedrooms: 'غرف النوم',
+    size: 'المساحة',
+    typicalBedrooms: 'غرف النوم (تقديرية)',
+    typicalSize: 'المساحة (تقديرية)',
+    marketTrend: 'اتجاه السوق',
+    stable: 'مستقر',
+    dewa: 'رقم منشأة ديوا',
+    oqoo: 'رقم عقود',
+    titleDeed: 'رقم سند الملكية',
+  },
+  search: {
+    placeholder: 'ابحث عن عقار أو موقع (مثل المارينا، قرية جميرا الدائرية، وسط المدينة)...',
+    explore: 'استكشاف',
+    places: 'أماكن',
+    matched: 'مطابق لـ «{alias}»',
+    groups: {
+      building: 'عقارات',
+      community: 'مجتمعات',
+      project: 'مشاريع',
+      developer: 'مطورون',
+    },
+  },
+  compare: {
+    map: 'الخريطة',
+    title: 'مقارنة العقارات',
+    copyLink: 'نسخ الرابط',
+    linkCopied: 'تم نسخ الرابط',
+    linkCopiedDetail: 'يمكن لأي شخص لديه الرابط رؤية هذه المقارنة.',
+    copyFailed: 'تعذر نسخ الرابط',
+    empty: 'لا يوجد ما تتم مقارنته بعد. اختر حتى {max} عقارات على الخريطة باستخدام زر المقارنة، ثم افتح المقارنة.',
+    unavailable: 'غير متاح',
+    buildingAt: 'مبنى عند {lat}، {lng}',
+    loading: 'جارٍ التحميل...',
+    remove: 'إزالة من المقارنة',
+    needsToken: 'تتطلب مسافات المرافق ونطاق القيادة ضبط MAPBOX_ACCESS_TOKEN على الخادم.',
+    priceTrends: 'اتجاهات الأسعار',
+    metrics: {
+      value: 'القيمة التقديرية',
+      pricePerSqft: 'السعر للقدم المربع',
+      yield: 'العائد الإيجاري',
+      score: 'مؤشر الاستثمار',
+      size: 'المساحة المعتادة للوحدة',
+      nearest: 'أقرب {category}',
+      reach: 'النطاق خلال {minutes} دقيقة بالسيارة',
+    },
+  },
+  index: {
+    title: 'محلل تقييم العقارات',
+    metaDescription: 'محلل تقييم العقارات: أدخل التفاصيل وانتقل فوراً على الخريطة إلى مبناك أو مجتمعك.',
+    brand: 'UAE Property Intel',
+    tagline: 'خريطة ثلاثية الأبعاد ذكية للأسعار والعوائد والفرص',
+    token: 'الرمز',
+    copyLinkTitle: 'نسخ رابط لهذا العرض',
+    copyLink: 'نسخ الرابط',
+    linkCopied: 'تم نسخ الرابط',
+    linkCopiedDetail: 'كل من يفتحه يرى هذا العرض نفسه.',
+    copyFailed: 'تعذر نسخ الرابط',
+    compareFull: 'المقارنة ممتلئة',
+    compareFullDetail: 'أزل عقاراً قبل إضافة آخر.',
+    selectedProperty: 'العقار المحدد',
+    selectedBuilding: 'المبنى المحدد',
+    dubaiUae: 'دبي، الإمارات',
+    estimateUnavailable: 'التقدير غير متاح',
+    estimateUnavailableDetail: 'تعذر تقييم هذا الموقع. يرجى المحاولة مرة أخرى.',
+    valuationFailed: 'فشل التقييم',
+    valuationFailedDetail: 'يرجى مراجعة النموذج والمحاولة مرة أخرى.',
+    unitNotFound: 'لا توجد وحدة مسجلة بالرقم "{value}". تحقق من الرقم ونوع المعرّف.',
+    lookupFailed: 'فشل البحث',
+    error: 'خطأ',
+    poiFailed: 'تعذر جلب تفاصيل الموقع. يرجى المحاولة مرة أخرى.',
+    invalidToken: 'رمز غير صالح',
+    invalidTokenDetail: 'يرجى لصق رمز Mapbox عام (يبدأ بـ pk.)',
+    priceHeat: 'خريطة الأسعار الحرارية',
+    yieldHeat: 'خريطة العوائد الحرارية',
+    watchlist: 'قائمة المتابعة',
+    directions: 'الاتجاهات',
+    travelZones: 'مناطق زمن التنقل',
+    driving: 'بالسيارة: مناطق 5 و10 و20 دقيقة',
+    walking: 'سيراً: مناطق 5 و10 و15 دقيقة',
+    cycling: 'بالدراجة: مناطق 5 و10 و15 دقيقة',
+    zonesDiscovering: 'مناطق {minutes} دقيقة • جارٍ اكتشاف المرافق...',
+    valuation: 'تقييم العقار',
+    lookUpUnit: 'البحث عن وحدة مسجلة',
+    unitsMatch: '{count} وحدات مطابقة — اختر واحدة',
+    buildingUnit: '{building} – الوحدة {unit}',
+    tokenTitle: 'رمز Mapbox العام',
+    tokenHelp: 'أدخل رمز Mapbox العام لتفعيل الخريطة ثلاثية الأبعاد. تجده في لوحة تحكم Mapbox (Tokens).',
+    later: 'لاحقاً',
+    marketValue: 'القيمة السوقية',
+    yield: 'العائد',
+    perSqft: 'للقدم المربع',
+    score: 'التقييم',
+    fullDetails: 'سجل المبيعات والتفاصيل الكاملة',
+    investmentScore: 'مؤشر الاستثمار',
+    excellent: 'ممتاز',
+    good: 'جيد',
+    details: 'التفاصيل',
+    type: 'النوع',
+    trend: 'الاتجاه',
+    typicalUnit: 'الوحدة المعتادة',
+    howEstimated: 'كيف تم التقدير',
+    comparableNote: '{name}: {price}، {yield}، على بعد {distance} (وزن {weight})',
+    footer: 'تحليلات ذكية تبرز المناطق المقيّمة بأقل من قيمتها بتوهج زمردي. تكبير سلس وتفاعلات عند المرور.',
+  },
+  map: {
+    tokenRequired: 'رمز Mapbox مطلوب',
+    tokenRequiredDetail: 'يرجى تقديم رمز Mapbox عام لعرض خريطة الإمارات ثلاثية الأبعاد.',
+    noAmenitiesInZone: '⚠️ لم يتم العثور على مرافق في منطقة التنقل هذه. جرّب زمن تنقل أطول أو موقعاً مختلفاً.',
+    website: 'الموقع الإلكتروني',
+  },
+};
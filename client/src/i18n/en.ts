@@ -0,0 +1,483 @@
+// English messages. Every key here must also exist in ar.ts; `{name}` placeholders are filled by t().
+export const en = {
+  common: {
+    cancel: 'Cancel',
+    clear: 'Clear',
+    close: 'Close',
+    remove: 'Remove',
+    save: 'Save',
+    retry: 'Please try again.',
+    loading: 'Loading…',
+    none: '—',
+    studio: 'Studio',
+    bedrooms: '{count} bed',
+    sqft: '{value} sq ft',
+    perSqft: '{value}/sq ft',
+    sqkm: '{value} km²',
+    yield: '{value} yield',
+  },
+  language: {
+    label: 'Language',
+    switchTo: 'العربية',
+    saveFailed: 'Language not saved to your account',
+  },
+  notFound: {
+    message: 'Oops! Page not found',
+    home: 'Return to Home',
+  },
+  compareTray: {
+    title: 'Compare ({count}/{max})',
+    open: 'Open comparison',
+    pickTwo: 'Pick at least two',
+  },
+  watchlist: {
+    add: 'Add to watchlist',
+    remove: 'Remove from watchlist',
+    notUpdated: 'Watchlist not updated',
+  },
+  account: {
+    signIn: 'Sign in',
+    signOut: 'Sign out',
+    signedInAs: 'Signed in as {username}',
+    signOutFailed: 'Sign out failed',
+  },
+  identifier: {
+    typeLabel: 'Identifier type',
+    unit: 'Unit No',
+    dewa: 'DEWA',
+    oqoo: 'OQOO',
+    titleDeed: 'Title Deed',
+    unitPlaceholder: 'Enter Unit No. (e.g., 1503, A-1701)',
+    dewaPlaceholder: 'Enter DEWA No.',
+    oqooPlaceholder: 'Enter OQOO/OQOOD No.',
+    titleDeedPlaceholder: 'Enter Title Deed No.',
+    check: 'Check',
+    checking: 'Checking...',
+  },
+  watchlistPanel: {
+    title: 'Watchlist',
+    loading: 'Loading watchlist...',
+    error: 'Could not load your watchlist.',
+    empty: 'Star a building to keep it here.',
+  },
+  notifications: {
+    label: 'Notifications ({count} unread)',
+    title: 'Alerts',
+    markAllRead: 'Mark all read',
+    empty: 'No alerts yet. Save a search to get notified about new matches.',
+  },
+  savedSearches: {
+    title: 'Saved Searches',
+    saveCurrent: 'Save current',
+    loading: 'Loading saved searches...',
+    error: 'Could not load saved searches.',
+    empty: 'Search, draw an area or pick amenities, then save it to get alerts.',
+    emailOn: 'Email alerts on',
+    emailPending: 'Enter the code sent to {email} to start email alerts',
+    code: 'Code',
+    confirm: 'Confirm',
+    resend: 'Resend code',
+    codeSent: 'New code sent',
+    codeRejected: "That code didn't match",
+    delete: 'Delete saved search',
+    drawnArea: 'drawn area',
+    amenityTypes: '{count} amenity types',
+    all: 'All properties',
+  },
+  exportMenu: {
+    button: 'Export',
+    title: 'Export map data',
+    visibleOnly: 'Visible area only',
+    nothing: 'Nothing to export',
+    nothingDetail: 'No {dataset} match the current view and filters.',
+    datasets: {
+      properties: 'Properties',
+      zones: 'Zones',
+      searchArea: 'Drawn area',
+      isochrones: 'Travel-time zones',
+      amenities: 'Amenities',
+    },
+  },
+  amenities: {
+    title: 'Amenities',
+    all: 'All',
+    radius: 'Radius',
+    meters: '{value} m',
+    alongRoute: 'Search along route',
+    on: 'On',
+    off: 'Off',
+    categories: {
+      food_drink: 'Food & Cafes',
+      groceries: 'Groceries',
+      atm_bank: 'ATMs & Banks',
+      pharmacy_hospital: 'Pharmacy & Hospital',
+      school_university: 'Schools & Universities',
+      gym_sports: 'Gyms & Sports',
+      shopping_mall: 'Shopping Malls',
+      public_transport: 'Public Transport',
+    },
+  },
+  auth: {
+    signIn: 'Sign in',
+    createAccountTitle: 'Create an account',
+    description: 'Keep watchlists, saved searches and portfolios under your own account.',
+    register: 'Register',
+    username: 'Username',
+    password: 'Password',
+    passwordHint: 'At least 8 characters.',
+    wait: 'Please wait...',
+    createAccount: 'Create account',
+    welcomeBack: 'Welcome back, {username}',
+    created: 'Account created for {username}',
+    failed: 'Something went wrong. Please try again.',
+  },
+  saveSearch: {
+    title: 'Save search',
+    includes: 'Includes {summary}.',
+    everything: 'Covers every property in the catalogue.',
+    alertsNote: 'Alerts fire for new properties and sales that match.',
+    name: 'Name',
+    defaultName: 'My search',
+    minPrice: 'Min price (AED)',
+    maxPrice: 'Max price (AED)',
+    minYield: 'Min yield (%)',
+    maxYield: 'Max yield (%)',
+    emailMe: 'Also email me',
+    saving: 'Saving...',
+    saved: 'Search saved',
+    savedDetail: 'You will be notified when new matches appear.',
+    failed: 'Could not save this search.',
+  },
+  portfolio: {
+    title: 'Portfolio',
+    loading: 'Loading portfolio...',
+    error: 'Could not load your portfolio.',
+    empty: 'Open a building and choose "Add to portfolio" to track a unit you own.',
+    currentValue: 'Current value',
+    unrealisedGain: 'Unrealised gain',
+    equity: 'Equity',
+    netYield: 'Net yield',
+    cashFlow: 'Cash flow after mortgage: {value}/yr',
+    valueVsCost: 'Value vs cost',
+    value: 'Value',
+    cost: 'Cost',
+    yieldVsMap: 'Net yield {net} vs map {map}',
+    loan: 'Loan {value}',
+    remove: 'Remove from portfolio',
+  },
+  addHolding: {
+    title: 'Add to portfolio',
+    description: "Record a unit you own in {building}. It is valued at the building's current AED/sqft.",
+    unit: 'Unit',
+    unitPlaceholder: 'e.g. 1503',
+    size: 'Size (sqft)',
+    purchaseDate: 'Purchase date',
+    purchasePrice: 'Purchase price (AED)',
+    mortgage: 'Mortgage (AED)',
+    rateTerm: 'Rate (%) / term (yrs)',
+    loanTerm: 'Loan term in years',
+    rent: 'Rent received / yr',
+    serviceCharges: 'Service charges / yr',
+    saving: 'Saving...',
+    submit: 'Add holding',
+    added: 'Added to portfolio',
+    failed: 'Could not add this holding.',
+  },
+  valuation: {
+    title: 'Estimated value',
+    pointEstimate: 'Point estimate',
+    range: 'Range',
+    perSqft: 'Per Sq.Ft',
+    bedroomsPlus: '{count}+ bed',
+    comparablesCount: '{count} comparables',
+    comparables: 'Comparables (highlighted on the map)',
+    building: 'Building or community name',
+    unitNumber: 'Unit/Villa Number',
+    unitNumberLabel: 'Unit or Villa Number',
+    bedrooms: 'Bedrooms',
+    size: 'Size',
+    sizeUnit: 'Size unit',
+    unit: 'Unit',
+    sqft: 'sqft',
+    sqm: 'sqm',
+    calculate: 'Calculate',
+    calculating: 'Calculating...',
+  },
+  area: {
+    title: 'Selected Area',
+    clear: 'Clear area',
+    analysing: 'Analysing area...',
+    error: 'Could not analyse this area. Try redrawing it.',
+    properties: 'Properties',
+    medianPerSqft: 'Median /sqft',
+    avgYield: 'Avg yield',
+    yieldDistribution: 'Yield distribution',
+    topBuildings: 'Top-scoring buildings',
+    amenitiesInside: 'Amenities inside',
+    noAmenities: 'No loaded amenities fall inside this area.',
+  },
+  poi: {
+    value: 'Value',
+    perSqft: 'Per Sq.Ft',
+    yield: 'Yield',
+    score: 'Score',
+    outOf100: '{value}/100',
+    website: 'Visit Website',
+    directions: 'Get Directions',
+  },
+  apiKeys: {
+    button: 'Image APIs',
+    configured: 'Configured',
+    notConfigured: 'Not configured',
+    title: 'Building Image APIs Configuration',
+    current: 'Current Configuration',
+    googleMaps: 'Google Maps API',
+    key: 'Key: {value}',
+    googleKey: 'Google Maps API Key',
+    googleKeyDetail: 'Enables Street View, satellite images, and places photos for buildings',
+    apiKey: 'API Key',
+    placeholder: 'Enter your Google Maps API key',
+    required: 'Required APIs: Maps Static API, Places API, Street View Static API',
+    save: 'Save Key',
+    get: 'Get API Key',
+    sources: 'Available Image Sources',
+    streetView: 'Google Street View',
+    satellite: 'Satellite Images',
+    places: 'Places Photos',
+    stock: 'Stock Photos',
+    active: 'Active',
+    needsKey: 'Needs key',
+    alwaysActive: 'Always Active',
+    instructions: 'Instructions:',
+    step1: 'Go to Google Cloud Console and create a new project',
+    step2: 'Enable: Maps Static API, Places API, Street View Static API',
+    step3: 'Create credentials (API key) and copy it here',
+    step4: 'Click buildings on the map to see real photos!',
+  },
+  calculator: {
+    purchase: 'Purchase',
+    price: 'Price (AED)',
+    nonResident: 'Non-resident buyer',
+    firstProperty: 'First property',
+    deferDld: 'Defer DLD fee (first-buyer scheme)',
+    commission: 'Agency commission (%)',
+    mortgage: 'Mortgage',
+    ltv: 'Loan to value',
+    maxLtv: '(max {value})',
+    rate: 'Rate (%)',
+    tenor: 'Tenor (years)',
+    rent: 'Rent / yr (AED)',
+    serviceCharges: 'Service charges / yr',
+    costsAndReturns: 'Costs and Returns',
+    downPayment: 'Down payment',
+    dldFee: 'DLD transfer fee ({value})',
+    deferred: '{value} deferred',
+    trusteeFee: 'Trustee fee (incl. VAT)',
+    agencyCommission: 'Agency commission (incl. VAT)',
+    mortgageRegistration: 'Mortgage registration',
+    cashRequired: 'Cash required',
+    loanAmount: 'Loan amount',
+    monthlyPayment: 'Monthly payment',
+    totalInterest: 'Total interest',
+    cashFlow: 'Cash flow / yr',
+    cashOnCash: 'Cash-on-cash return',
+    amortisation: 'Amortisation',
+    year: 'Year',
+    interest: 'Interest',
+    principal: 'Principal',
+    balance: 'Balance',
+  },
+  gallery: {
+    noImages: 'No images available',
+    streetView: 'Street View',
+    previous: 'Previous image',
+    next: 'Next image',
+    expand: 'View larger',
+    building: 'Building',
+    property: 'Property',
+    counter: '{index} / {total}',
+  },
+  stats: {
+    investmentScore: 'Investment Score',
+    notAvailable: 'n/a',
+    factorContribution: '{score}/100 × {weight} = +{contribution}',
+    adjustWeights: 'Adjust weights',
+    resetWeights: 'Reset to defaults',
+    factors: {
+      yield: 'Yield vs zone',
+      price: 'Price vs zone',
+      momentum: 'Price momentum',
+      amenities: 'Amenity density',
+      transit: 'Transit access',
+    },
+    selectPrompt: 'Select a property or zone',
+    addToComparison: 'Add to comparison',
+    removeFromComparison: 'Remove from comparison',
+    photoAlt: '{name} building photo in {community}',
+    marketValue: 'Estimated Market Value',
+    rentYield: 'Rent Yield',
+    priceTrends: 'Price Trends (12 months)',
+    tip: 'Tip: Use the search above or click points on the map to see insights. Undervalued zones glow in emerald.',
+    nearbyAmenities: 'Nearby Amenities',
+    selectForAmenities: 'Select a property to see nearby amenities.',
+    loadingAmenities: 'Loading amenities...',
+    meters: '{value} m',
+    kilometers: '{value} km',
+    minutes: '{value} min',
+    travel: '{distance} • {walk} walk • {drive} drive',
+    walk: 'Walk',
+    drive: 'Drive',
+    noneNearby: 'No results found nearby.',
+    supermarkets: 'Supermarkets',
+    schools: 'Schools',
+    metro: 'Metro',
+    transactions: 'Transaction History',
+    transactionsPlaceholder: 'Sample recent transactions will appear here.',
+  },
+  details: {
+    placesVerified: '✓ Google Places verified',
+    addToPortfolio: 'Add to portfolio',
+    generateReport: 'Generate report',
+    reportFailed: 'Report failed',
+    overview: 'Overview',
+    costs: 'Costs & Mortgage',
+    location: 'Location',
+    dubai: 'Dubai',
+    yield: 'Yield',
+    score: 'Score',
+    value: 'Value',
+    perSqft: 'Per Sq.Ft',
+    soldPerSqft: 'Sold Price per Sq.Ft',
+    priceTrends: 'Price Trends (12 months)',
+    loadingSales: 'Loading sales history...',
+    noSales: 'No recorded sales nearby yet',
+    salesNote: 'Monthly median of recorded sales of similar units nearby',
+    recentSales: 'Recent Sales',
+    investmentScore: 'Investment Score',
+    outOf100: 'out of 100',
+    excellent: 'Excellent',
+    good: 'Good',
+    fair: 'Fair',
+    propertyDetails: 'Property Details',
+    propertyType: 'Property Type',
+    apartment: 'Apartment',
+    unitNo: 'Unit No.',
+    bedrooms: 'Bedrooms',
+    size: 'Size',
+    typicalBedrooms: 'Bedrooms (typical)',
+    typicalSize: 'Size (typical)',
+    marketTrend: 'Market Trend',
+    stable: 'Stable',
+    dewa: 'DEWA Premise No.',
+    oqoo: 'Oqood No.',
+    titleDeed: 'Title Deed No.',
+  },
+  search: {
+    placeholder: 'Search property or location (e.g., Marina, JVC, Downtown)...',
+    explore: 'Explore',
+    places: 'Places',
+    matched: 'matched “{alias}”',
+    groups: {
+      building: 'Properties',
+      community: 'Communities',
+      project: 'Projects',
+      developer: 'Developers',
+    },
+  },
+  compare: {
+    map: 'Map',
+    title: 'Compare properties',
+    copyLink: 'Copy link',
+    linkCopied: 'Link copied',
+    linkCopiedDetail: 'Anyone with the link sees this comparison.',
+    copyFailed: 'Could not copy link',
+    empty: 'Nothing to compare yet. Pick up to {max} properties on the map with the compare button, then open the comparison.',
+    unavailable: 'Unavailable',
+    buildingAt: 'Building at {lat}, {lng}',
+    loading: 'Loading...',
+    remove: 'Remove from comparison',
+    needsToken: 'Amenity distances and drive-time reach need MAPBOX_ACCESS_TOKEN set on the server.',
+    priceTrends: 'Price trends',
+    metrics: {
+      value: 'Estimated value',
+      pricePerSqft: 'Price per sq ft',
+      yield: 'Rental yield',
+      score: 'Investment score',
+      size: 'Typical unit size',
+      nearest: 'Nearest {category}',
+      reach: '{minutes} min drive reach',
+    },
+  },
+  index: {
+    title: 'Property Valuation Analyser',
+    metaDescription: 'Property Valuation Analyser: input details and instantly center the map to your building or community.',
+    brand: 'UAE Property Intel',
+    tagline: '3D AI map for prices, yields & opportunities',
+    token: 'Token',
+    copyLinkTitle: 'Copy a link to this view',
+    copyLink: 'Copy link',
+    linkCopied: 'Link copied',
+    linkCopiedDetail: 'Anyone opening it sees this exact view.',
+    copyFailed: 'Could not copy link',
+    compareFull: 'Comparison is full',
+    compareFullDetail: 'Remove a property before adding another.',
+    selectedProperty: 'Selected Property',
+    selectedBuilding: 'Selected Building',
+    dubaiUae: 'Dubai, UAE',
+    estimateUnavailable: 'Estimate unavailable',
+    estimateUnavailableDetail: 'Could not value this location. Please try again.',
+    valuationFailed: 'Valuation failed',
+    valuationFailedDetail: 'Please check the form and try again.',
+    unitNotFound: 'No unit is registered under "{value}". Check the number and identifier type.',
+    lookupFailed: 'Lookup failed',
+    error: 'Error',
+    poiFailed: 'Failed to fetch location details. Please try again.',
+    invalidToken: 'Invalid token',
+    invalidTokenDetail: 'Please paste a Mapbox public token (starts with pk.)',
+    priceHeat: 'Price heat',
+    yieldHeat: 'Yield heat',
+    watchlist: 'Watchlist',
+    directions: 'Directions',
+    travelZones: 'Travel time zones',
+    driving: 'Driving: 5, 10, 20 min zones',
+    walking: 'Walking: 5, 10, 15 min zones',
+    cycling: 'Cycling: 5, 10, 15 min zones',
+    zonesDiscovering: '{minutes} min zones • Discovering amenities...',
+    valuation: 'Property Valuation',
+    lookUpUnit: 'Look up a registered unit',
+    unitsMatch: '{count} units match — choose one',
+    buildingUnit: '{building} – Unit {unit}',
+    tokenTitle: 'Mapbox Public Token',
+    tokenHelp: 'Enter your Mapbox public token to enable the 3D map. You can find it in your Mapbox dashboard (Tokens).',
+    later: 'Later',
+    marketValue: 'Market Value',
+    yield: 'Yield',
+    perSqft: 'Per Sq.Ft',
+    score: 'Score',
+    fullDetails: 'Sales history & full details',
+    investmentScore: 'Investment Score',
+    excellent: 'Excellent',
+    good: 'Good',
+    details: 'Details',
+    type: 'Type',
+    trend: 'Trend',
+    typicalUnit: 'Typical unit',
+    howEstimated: 'How this was estimated',
+    comparableNote: '{name}: {price}, {yield}, {distance} away ({weight} weight)',
+    footer: 'Smart insights highlighting undervalued zones with emerald glow. Smooth zoom & hover-rise interactions.',
+  },
+  map: {
+    tokenRequired: 'Mapbox token required',
+    tokenRequiredDetail: 'Please provide a Mapbox public token to render the 3D UAE map.',
+    noAmenitiesInZone: '⚠️ No amenities found in this specific travel zone. Try selecting a larger travel time or different location.',
+    website: 'Website',
+  },
+};
+
+type DeepStrings<T> = { [K in keyof T]: T[K] extends string ? string : DeepStrings<T[K]> };
+type Leaves<T, P extends string = ''> = {
+  [K in keyof T & string]: T[K] extends string ? `${P}${K}` : Leaves<T[K], `${P}${K}.`>;
+}[keyof T & string];
+
+export type Messages = DeepStrings<typeof en>;
+export type MessageKey = Leaves<typeof en>;
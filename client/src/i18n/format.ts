@@ -0,0 +1,50 @@
+import type { Language } from '@shared/schema';
+
+// Arabic uses Arabic-Indic digits (١٢٣) rather than the ar-AE default of Western ones
+export const LOCALES: Record<Language, string> = {
+  en: 'en-AE',
+  ar: 'ar-AE-u-nu-arab',
+};
+
+export function formatNumber(language: Language, value: number, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(LOCALES[language], options).format(value);
+}
+
+/**
+ * Whole dirhams, e.g. "AED 1,250,000" / "١٬٢٥٠٬٠٠٠ د.إ.‏"; `compact` gives "AED 1.3M"
+ */
+export function formatAED(language: Language, value: number, { compact = false } = {}): string {
+  return new Intl.NumberFormat(LOCALES[language], {
+    style: 'currency',
+    currency: 'AED',
+    currencyDisplay: language === 'en' ? 'code' : 'symbol',
+    notation: compact ? 'compact' : 'standard',
+    maximumFractionDigits: compact ? 1 : 0,
+  }).format(value);
+}
+
+/**
+ * A value already in percent (7.5 for 7.5%)
+ */
+export function formatPercent(language: Language, value: number, maximumFractionDigits = 1): string {
+  return new Intl.NumberFormat(LOCALES[language], { style: 'percent', maximumFractionDigits }).format(value / 100);
+}
+
+export function formatDate(language: Language, date: string | number | Date, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }): string {
+  return new Intl.DateTimeFormat(LOCALES[language], options).format(new Date(date));
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Re-render a server chart label ("Mar", "Mar 24") in the interface language; anything else
+ * passes through unchanged
+ */
+export function formatMonth(language: Language, label: string): string {
+  const match = label.match(/^([A-Z][a-z]{2})(?: (\d{2}))?$/);
+  const month = match ? MONTHS.indexOf(match[1]) : -1;
+  if (language === 'en' || month < 0) return label;
+  const year = match![2] ? 2000 + Number(match![2]) : 2000;
+  return new Intl.DateTimeFormat(LOCALES[language], match![2] ? { month: 'short', year: '2-digit' } : { month: 'short' })
+    .format(new Date(year, month, 1));
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { toCsv } from "./exportFormats";
+
+const points = (...properties: GeoJSON.GeoJsonProperties[]): GeoJSON.FeatureCollection => ({
+  type: "FeatureCollection",
+  features: properties.map((p, i) => ({
+    type: "Feature",
+    properties: p,
+    geometry: { type: "Point", coordinates: [55.27 + i, -25.2] },
+  })),
+});
+
+describe("toCsv", () => {
+  it("writes point layers with lng/lat columns and quotes awkward cells", () => {
+    expect(toCsv(points({ name: 'Tower "A", Marina', floors: 40 }))).toBe(
+      'name,floors,lng,lat\r\n"Tower ""A"", Marina",40,55.27,-25.2\r\n',
+    );
+  });
+
+  it("keeps text that looks like a formula from running in a spreadsheet", () => {
+    const csv = toCsv(points({ name: "=HYPERLINK(\"http://x\")" }, { name: "+971" }, { name: "-1" }, { name: "@SUM(A1)" }));
+    expect(csv.split("\r\n").slice(1, 5)).toEqual([
+      "\"'=HYPERLINK(\"\"http://x\"\")\",55.27,-25.2",
+      "'+971,56.27,-25.2",
+      "'-1,57.27,-25.2",
+      "'@SUM(A1),58.27,-25.2",
+    ]);
+  });
+
+  it("leaves negative numbers as numbers", () => {
+    expect(toCsv(points({ change: -3.5 }))).toBe("change,lng,lat\r\n-3.5,55.27,-25.2\r\n");
+  });
+});
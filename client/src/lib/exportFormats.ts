@@ -0,0 +1,120 @@
+export type ExportFormat = "csv" | "geojson" | "kml";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: "CSV", extension: "csv", mimeType: "text/csv;charset=utf-8" },
+  geojson: { label: "GeoJSON", extension: "geojson", mimeType: "application/geo+json" },
+  kml: { label: "KML", extension: "kml", mimeType: "application/vnd.google-earth.kml+xml" },
+};
+
+type AnyFeatureCollection = GeoJSON.FeatureCollection<GeoJSON.Geometry, GeoJSON.GeoJsonProperties>;
+
+function propertyColumns(fc: AnyFeatureCollection): string[] {
+  const columns = new Set<string>();
+  for (const f of fc.features) Object.keys(f.properties ?? {}).forEach((key) => columns.add(key));
+  return Array.from(columns);
+}
+
+function cellText(value: unknown): string {
+  if (value == null) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+// Spreadsheets run text cells starting with these as formulas; numbers (negative coordinates) are left alone
+function csvCell(value: unknown): string {
+  const text = typeof value === "string" && /^[=+\-@]/.test(value) ? `'${value}` : cellText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const wktRing = (ring: GeoJSON.Position[]) => `(${ring.map(([lng, lat]) => `${lng} ${lat}`).join(", ")})`;
+
+function toWkt(geometry: GeoJSON.Geometry): string {
+  switch (geometry.type) {
+    case "Point": return `POINT (${geometry.coordinates[0]} ${geometry.coordinates[1]})`;
+    case "LineString": return `LINESTRING ${wktRing(geometry.coordinates)}`;
+    case "Polygon": return `POLYGON (${geometry.coordinates.map(wktRing).join(", ")})`;
+    case "MultiPolygon": return `MULTIPOLYGON (${geometry.coordinates.map((p) => `(${p.map(wktRing).join(", ")})`).join(", ")})`;
+    default: return "";
+  }
+}
+
+/**
+ * One row per feature. Point layers get lng/lat columns; anything else gets a WKT geometry column.
+ */
+export function toCsv(fc: AnyFeatureCollection): string {
+  const columns = propertyColumns(fc);
+  const pointsOnly = fc.features.every((f) => f.geometry?.type === "Point");
+  const header = [...columns, ...(pointsOnly ? ["lng", "lat"] : ["wkt"])];
+  const rows = fc.features.map((f) => {
+    const geometry = pointsOnly
+      ? (f.geometry as GeoJSON.Point).coordinates.slice(0, 2)
+      : [f.geometry ? toWkt(f.geometry) : ""];
+    return [...columns.map((c) => f.properties?.[c]), ...geometry].map(csvCell).join(",");
+  });
+  return [header.map(csvCell).join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+export function toGeoJson(fc: AnyFeatureCollection): string {
+  return JSON.stringify(fc, null, 2);
+}
+
+function xml(value: unknown): string {
+  return cellText(value).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+const kmlCoordinates = (ring: GeoJSON.Position[]) => ring.map(([lng, lat]) => `${lng},${lat},0`).join(" ");
+
+function kmlPolygon(rings: GeoJSON.Position[][]): string {
+  const [outer, ...holes] = rings;
+  return `<Polygon><outerBoundaryIs><LinearRing><coordinates>${kmlCoordinates(outer)}</coordinates></LinearRing></outerBoundaryIs>${holes
+    .map((h) => `<innerBoundaryIs><LinearRing><coordinates>${kmlCoordinates(h)}</coordinates></LinearRing></innerBoundaryIs>`)
+    .join("")}</Polygon>`;
+}
+
+function kmlGeometry(geometry: GeoJSON.Geometry | null): string {
+  switch (geometry?.type) {
+    case "Point": return `<Point><coordinates>${kmlCoordinates([geometry.coordinates])}</coordinates></Point>`;
+    case "LineString": return `<LineString><coordinates>${kmlCoordinates(geometry.coordinates)}</coordinates></LineString>`;
+    case "Polygon": return kmlPolygon(geometry.coordinates);
+    case "MultiPolygon": return `<MultiGeometry>${geometry.coordinates.map(kmlPolygon).join("")}</MultiGeometry>`;
+    default: return "";
+  }
+}
+
+/**
+ * KML 2.2 document; feature properties become ExtendedData so they survive the round trip
+ */
+export function toKml(fc: AnyFeatureCollection, name: string): string {
+  const placemarks = fc.features.map((f, i) => {
+    const props = f.properties ?? {};
+    const data = Object.entries(props)
+      .map(([key, value]) => `<Data name="${xml(key)}"><value>${xml(value)}</value></Data>`)
+      .join("");
+    return `  <Placemark><name>${xml(props.name ?? props.id ?? `${name} ${i + 1}`)}</name><ExtendedData>${data}</ExtendedData>${kmlGeometry(f.geometry)}</Placemark>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+<Document>
+  <name>${xml(name)}</name>
+${placemarks.join("\n")}
+</Document>
+</kml>
+`;
+}
+
+export function formatFeatureCollection(fc: AnyFeatureCollection, format: ExportFormat, name: string): string {
+  if (format === "csv") return toCsv(fc);
+  if (format === "kml") return toKml(fc, name);
+  return toGeoJson(fc);
+}
+
+export function downloadText(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoked on the next tick; some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
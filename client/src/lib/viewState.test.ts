@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { parseViewState, serializeViewState, type ViewState } from "./viewState";
+
+const roundTrip = (view: ViewState) => parseViewState(new URLSearchParams(serializeViewState(view).toString()));
+
+describe("view state in the URL", () => {
+  it("restores the camera, layers and drawn area", () => {
+    const view: ViewState = {
+      camera: { center: [55.27, 25.2], zoom: 14.5, pitch: 45, bearing: 10 },
+      selected: "pt:55.27000,25.20000",
+      mapStyle: "mapbox://styles/mapbox/dark-v11",
+      showPriceHeat: false,
+      showYieldHeat: true,
+      isochrone: { enabled: true, profile: "walking", minutes: [5, 10, 15] },
+      amenityCats: ["groceries", "public_transport"],
+      amenityRadius: 1000,
+      searchArea: {
+        type: "Feature",
+        properties: {},
+        geometry: { type: "Polygon", coordinates: [[[55.1, 25.1], [55.2, 25.1], [55.2, 25.2], [55.1, 25.1]]] },
+      },
+    };
+    expect(roundTrip(view)).toEqual(view);
+  });
+
+  it("keeps layers the sender turned off switched off", () => {
+    const params = serializeViewState({ isochrone: { enabled: false, profile: "driving", minutes: [5, 10, 20] }, amenityCats: [] });
+    expect(params.get("iso")).toBe("off");
+    expect(params.get("amen")).toBe("");
+    expect(parseViewState(params)).toMatchObject({ isochrone: { enabled: false }, amenityCats: [] });
+  });
+
+  it("leaves what the link doesn't mention to the page defaults", () => {
+    const view = parseViewState(new URLSearchParams("ll=55.27,25.2"));
+    expect(view.isochrone).toBeUndefined();
+    expect(view.amenityCats).toBeUndefined();
+  });
+});
@@ -0,0 +1,123 @@
+import type { AmenityCategory } from "@/components/controls/AmenityFilters";
+import { ALL_AMENITY_CATEGORIES } from "@/components/controls/AmenityFilters";
+
+export type MapCamera = {
+  center: [number, number]; // [lng, lat]
+  zoom: number;
+  pitch: number;
+  bearing: number;
+};
+
+export type TravelProfile = "driving" | "walking" | "cycling";
+
+/**
+ * Everything on the map page that a shared link restores. Fields missing from the URL are
+ * left undefined so the page keeps its own defaults; layers the sender turned off are written
+ * out explicitly (`amen=`, `iso=off`) so they stay off whatever those defaults are.
+ */
+export type ViewState = {
+  camera?: MapCamera;
+  // Catalogue id, or `pt:lng,lat` for a clicked building
+  selected?: string;
+  mapStyle?: string;
+  showPriceHeat?: boolean;
+  showYieldHeat?: boolean;
+  // Profile and minutes are left out when the link only says the isochrone is off
+  isochrone?: { enabled: boolean; profile?: TravelProfile; minutes?: number[] };
+  amenityCats?: AmenityCategory[];
+  amenityRadius?: number;
+  searchArea?: GeoJSON.Feature<GeoJSON.Polygon> | null;
+};
+
+const STYLE_PREFIX = "mapbox://styles/";
+const PROFILES: TravelProfile[] = ["driving", "walking", "cycling"];
+
+const fixed = (n: number, digits: number) => Number(n.toFixed(digits)).toString();
+const numbers = (value: string | null, sep = ",") =>
+  value == null || value === "" ? [] : value.split(sep).map(Number);
+const allFinite = (values: number[]) => values.length > 0 && values.every(Number.isFinite);
+
+// "lng,lat;lng,lat;..." keeps a drawn area readable and short enough for a link
+function encodeRing(polygon: GeoJSON.Polygon) {
+  return polygon.coordinates[0].map(([lng, lat]) => `${fixed(lng, 5)},${fixed(lat, 5)}`).join(";");
+}
+
+function decodeRing(value: string): GeoJSON.Feature<GeoJSON.Polygon> | null {
+  const ring = value.split(";").map((pair) => numbers(pair) as [number, number]);
+  if (ring.length < 4 || !ring.every((p) => p.length === 2 && allFinite(p))) return null;
+  return { type: "Feature", properties: {}, geometry: { type: "Polygon", coordinates: [ring] } };
+}
+
+export function parseViewState(params: URLSearchParams): ViewState {
+  const view: ViewState = {};
+
+  const ll = numbers(params.get("ll"));
+  if (ll.length === 2 && allFinite(ll)) {
+    const [zoom, pitch, bearing] = [params.get("z"), params.get("pitch"), params.get("bearing")].map(Number);
+    view.camera = {
+      center: [ll[0], ll[1]],
+      zoom: Number.isFinite(zoom) && params.has("z") ? zoom : 15,
+      pitch: Number.isFinite(pitch) && params.has("pitch") ? pitch : 60,
+      bearing: Number.isFinite(bearing) && params.has("bearing") ? bearing : 0,
+    };
+  }
+
+  const selected = params.get("sel");
+  if (selected) view.selected = selected;
+
+  const style = params.get("style");
+  if (style) view.mapStyle = style.startsWith(STYLE_PREFIX) ? style : `${STYLE_PREFIX}${style}`;
+
+  if (params.has("heat")) {
+    const layers = (params.get("heat") || "").split(",");
+    view.showPriceHeat = layers.includes("price");
+    view.showYieldHeat = layers.includes("yield");
+  }
+
+  // iso=driving:5,10,20, or iso=off
+  const iso = params.get("iso");
+  if (iso === "off") {
+    view.isochrone = { enabled: false };
+  } else if (iso) {
+    const [profile, minutes] = iso.split(":");
+    const contours = numbers(minutes ?? "");
+    if (PROFILES.includes(profile as TravelProfile) && allFinite(contours)) {
+      view.isochrone = { enabled: true, profile: profile as TravelProfile, minutes: contours };
+    }
+  }
+
+  if (params.has("amen")) {
+    view.amenityCats = (params.get("amen") || "")
+      .split(",")
+      .filter((c): c is AmenityCategory => ALL_AMENITY_CATEGORIES.includes(c as AmenityCategory));
+  }
+  const radius = Number(params.get("r"));
+  if (params.has("r") && Number.isFinite(radius) && radius > 0) view.amenityRadius = radius;
+
+  const area = params.get("area");
+  if (area) view.searchArea = decodeRing(area);
+
+  return view;
+}
+
+export function serializeViewState(view: ViewState): URLSearchParams {
+  const params = new URLSearchParams();
+  if (view.camera) {
+    const { center, zoom, pitch, bearing } = view.camera;
+    params.set("ll", `${fixed(center[0], 5)},${fixed(center[1], 5)}`);
+    params.set("z", fixed(zoom, 2));
+    params.set("pitch", fixed(pitch, 0));
+    params.set("bearing", fixed(bearing, 0));
+  }
+  if (view.selected) params.set("sel", view.selected);
+  if (view.mapStyle) params.set("style", view.mapStyle.replace(STYLE_PREFIX, ""));
+  params.set("heat", [view.showPriceHeat && "price", view.showYieldHeat && "yield"].filter(Boolean).join(",") || "none");
+  if (view.isochrone) {
+    const { enabled, profile, minutes } = view.isochrone;
+    params.set("iso", enabled && profile && minutes?.length ? `${profile}:${minutes.join(",")}` : "off");
+  }
+  if (view.amenityCats) params.set("amen", view.amenityCats.join(","));
+  if (view.amenityRadius != null) params.set("r", String(view.amenityRadius));
+  if (view.searchArea) params.set("area", encodeRing(view.searchArea.geometry));
+  return params;
+}
@@ -0,0 +1,242 @@
+import React, { useMemo } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { useQueries } from "@tanstack/react-query";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { ArrowLeft, GitCompare, Link2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import LanguageToggle from "@/components/controls/LanguageToggle";
+import {
+  COMPARE_AMENITIES,
+  MAX_COMPARE,
+  REACH_MINUTES,
+  loadCompareEntry,
+  type CompareEntry,
+} from "@/services/comparisonService";
+import { compareUrl } from "@/hooks/useCompareSelection";
+import { useGeoConfig } from "@/hooks/useGeoConfig";
+import { useI18n } from "@/hooks/useI18n";
+
+// One colour per column, reused in the chart
+const COLORS = ["hsl(182,65%,45%)", "hsl(24,90%,55%)", "hsl(262,60%,55%)", "hsl(340,70%,55%)"];
+
+type Metric = {
+  key: string;
+  label: string;
+  value: (e: CompareEntry) => number | undefined;
+  format: (n: number) => string;
+  // Which end of the range is better, for highlighting
+  best?: "high" | "low";
+};
+
+// Rows of the comparison table, labelled and formatted in the interface language
+function buildMetrics({ t, formatAED, formatNumber, formatPercent }: ReturnType<typeof useI18n>): Metric[] {
+  const fmtDist = (m: number) =>
+    m < 1000
+      ? t("stats.meters", { value: Math.round(m) })
+      : t("stats.kilometers", { value: formatNumber(m / 1000, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) });
+  return [
+    { key: "value", label: t("compare.metrics.value"), value: (e) => e.valueAED, format: (n) => formatAED(n) },
+    { key: "pricePerSqft", label: t("compare.metrics.pricePerSqft"), value: (e) => e.pricePerSqft, format: (n) => formatAED(n), best: "low" },
+    { key: "yield", label: t("compare.metrics.yield"), value: (e) => e.rentYield, format: (n) => formatPercent(n), best: "high" },
+    { key: "score", label: t("compare.metrics.score"), value: (e) => e.score, format: (n) => t("poi.outOf100", { value: n }), best: "high" },
+    { key: "size", label: t("compare.metrics.size"), value: (e) => e.sizeSqft, format: (n) => t("common.sqft", { value: n }) },
+    ...COMPARE_AMENITIES.map((category): Metric => ({
+      key: `nearest-${category}`,
+      label: t("compare.metrics.nearest", { category: t(`amenities.categories.${category}`).toLocaleLowerCase() }),
+      value: (e) => e.nearest[category]?.distanceMeters,
+      format: fmtDist,
+      best: "low",
+    })),
+    ...REACH_MINUTES.map((minutes): Metric => ({
+      key: `reach-${minutes}`,
+      label: t("compare.metrics.reach", { minutes }),
+      value: (e) => e.reach.find((r) => r.minutes === minutes)?.areaSqKm,
+      format: (n) => t("common.sqkm", { value: n }),
+      best: "high",
+    })),
+  ];
+}
+
+/**
+ * Side-by-side comparison of up to four properties; the selection lives in the `p` URL
+ * parameters so the page can be shared
+ */
+const Compare: React.FC = () => {
+  const [params] = useSearchParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const refs = useMemo(() => Array.from(new Set(params.getAll("p"))).slice(0, MAX_COMPARE), [params]);
+  const { config: geoConfig } = useGeoConfig();
+  const i18n = useI18n();
+  const { t, formatMonth, formatNumber } = i18n;
+  const metrics = useMemo(() => buildMetrics(i18n), [i18n]);
+
+  const results = useQueries({
+    queries: refs.map((ref) => ({
+      queryKey: ["compare-entry", ref],
+      queryFn: () => loadCompareEntry(ref),
+      staleTime: 1000 * 60 * 5, // Cache for 5 minutes
+      retry: 1,
+    })),
+  });
+  const entries = results.map((r) => r.data);
+  const coord = (n: number) => formatNumber(n, { minimumFractionDigits: 4, maximumFractionDigits: 4 });
+  const entryName = (e: CompareEntry) =>
+    e.name ?? t("compare.buildingAt", { lat: coord(e.coords[1]), lng: coord(e.coords[0]) });
+  const loaded = entries.filter((e): e is CompareEntry => !!e);
+
+  // Align every price trend on the month labels so the lines overlay
+  const months: string[] = [];
+  loaded.forEach((e) => e.priceTrend.forEach((p) => { if (!months.includes(p.month)) months.push(p.month); }));
+  const chartData = months.map((month) => {
+    const row: Record<string, string | number> = { month };
+    loaded.forEach((e) => {
+      const point = e.priceTrend.find((p) => p.month === month);
+      if (point) row[e.ref] = point.value;
+    });
+    return row;
+  });
+
+  const remove = (ref: string) => navigate(compareUrl(refs.filter((r) => r !== ref)), { replace: true });
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({ title: t("compare.linkCopied"), description: t("compare.linkCopiedDetail") } as any);
+    } catch {
+      toast({ title: t("compare.copyFailed"), description: window.location.href, variant: "destructive" } as any);
+    }
+  };
+
+  const bestIndex = (metric: Metric) => {
+    if (!metric.best) return -1;
+    const values = entries.map((e) => (e ? metric.value(e) : undefined));
+    const known = values.filter((v): v is number => v != null);
+    if (known.length < 2) return -1;
+    const target = metric.best === "high" ? Math.max(...known) : Math.min(...known);
+    return values.indexOf(target);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto flex items-center justify-between gap-2 py-3">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" asChild>
+              <Link to="/"><ArrowLeft className="w-4 h-4 me-1 rtl:rotate-180" />{t("compare.map")}</Link>
+            </Button>
+            <h1 className="text-lg font-semibold flex items-center gap-2">
+              <GitCompare className="w-5 h-5" />
+              {t("compare.title")}
+            </h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <LanguageToggle />
+            <Button variant="outline" size="sm" onClick={copyLink} disabled={!refs.length}>
+              <Link2 className="w-4 h-4 me-1" />{t("compare.copyLink")}
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto py-6 space-y-6">
+        {!refs.length ? (
+          <Card>
+            <CardContent className="py-10 text-center text-sm text-muted-foreground">
+              {t("compare.empty", { max: MAX_COMPARE })}
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardContent className="p-0 overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-start font-medium text-muted-foreground p-3 w-48" />
+                      {refs.map((ref, i) => (
+                        <th key={ref} className="text-start p-3 align-top">
+                          <div className="flex items-start justify-between gap-2">
+                            <div>
+                              <div className="flex items-center gap-2 font-semibold">
+                                <span className="inline-block w-2.5 h-2.5 rounded-full" style={{ background: COLORS[i] }} />
+                                {entries[i] ? entryName(entries[i]!) : (results[i].isError ? t("compare.unavailable") : t("compare.loading"))}
+                              </div>
+                              {entries[i]?.community && <div className="text-xs font-normal text-muted-foreground">{entries[i]!.community}</div>}
+                            </div>
+                            <Button variant="ghost" size="sm" onClick={() => remove(ref)} className="text-gray-500 hover:text-gray-700" title={t("compare.remove")}>
+                              <X className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {metrics.map((metric) => {
+                      const best = bestIndex(metric);
+                      return (
+                        <tr key={metric.key} className="border-b last:border-0">
+                          <td className="p-3 text-muted-foreground">{metric.label}</td>
+                          {refs.map((ref, i) => {
+                            const value = entries[i] ? metric.value(entries[i]!) : undefined;
+                            return (
+                              <td key={ref} className={`p-3 ${i === best ? "font-semibold text-emerald-600" : ""}`}>
+                                {value != null ? metric.format(value) : t("common.none")}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+            {geoConfig && !geoConfig.proxyEnabled && (
+              <div className="text-xs text-muted-foreground">{t("compare.needsToken")}</div>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">{t("compare.priceTrends")}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="h-72">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                      <XAxis dataKey="month" axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: "#666" }} tickFormatter={formatMonth} />
+                      <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: "#666" }} width={60} domain={["auto", "auto"]} />
+                      <Tooltip
+                        contentStyle={{ background: "hsl(var(--card))", border: "1px solid hsl(var(--border))" }}
+                        labelFormatter={(label: string) => formatMonth(label)}
+                      />
+                      <Legend />
+                      {loaded.map((e) => (
+                        <Line
+                          key={e.ref}
+                          type="monotone"
+                          dataKey={e.ref}
+                          name={entryName(e)}
+                          stroke={COLORS[refs.indexOf(e.ref)]}
+                          strokeWidth={2}
+                          dot={false}
+                          connectNulls
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Compare;
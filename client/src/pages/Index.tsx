@@ -1,24 +1,53 @@
 import React, { useMemo, useState, useRef, useEffect } from "react";
-import RealEstateMap, { type RealEstateMapHandle } from "@/components/map/RealEstateMap";
+import { useSearchParams } from "react-router-dom";
+import RealEstateMap, { clickedBuildingPoint, type RealEstateMapHandle } from "@/components/map/RealEstateMap";
 import SearchBar from "@/components/controls/SearchBar";
-import ValuationForm from "@/components/controls/ValuationForm";
+import ValuationForm, { type ValuationFormValues } from "@/components/controls/ValuationForm";
 import StatsPanel from "@/components/panels/StatsPanel";
-import { properties, PropertyPoint } from "@/data/mockProperties";
+import type { PropertyPoint } from "@/data/mockProperties";
+import { useProperties } from "@/hooks/useProperties";
+import { useZones } from "@/hooks/useZones";
+import { useGeoConfig } from "@/hooks/useGeoConfig";
+import { getPropertyEstimate, estimateToPropertyData } from "@/services/estimateService";
+import { getValuation } from "@/services/valuationService";
+import { lookupUnit, unitToPropertyData } from "@/services/unitLookupService";
+import type { SavedSearchSummary, UnitLookupResult, Valuation } from "@shared/schema";
+import IdentifierBar, { type IdentifierPayload } from "@/components/controls/IdentifierBar";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
-import { Map, Sparkles, Settings2, X, BarChart3, Building2, MapPin, Car, Bike, PersonStanding } from "lucide-react";
+import { Map, Sparkles, Settings2, X, BarChart3, Building2, MapPin, Car, Bike, PersonStanding, Link2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import AmenityFilters, { type AmenityCategory, ALL_AMENITY_CATEGORIES } from "@/components/controls/AmenityFilters";
 import { useSearchBoxAmenities } from "@/hooks/useSearchBoxAmenities";
 import POIDetailsPanel, { type POIDetails } from "@/components/panels/POIDetailsPanel";
+import ValuationResultCard from "@/components/panels/ValuationResultCard";
+import AreaAnalyticsPanel from "@/components/panels/AreaAnalyticsPanel";
+import { useAreaAnalytics } from "@/hooks/useAreaAnalytics";
+import { useInvestmentScore, useScoreWeights } from "@/hooks/useInvestmentScore";
 import PropertyDetailsPanel, { type PropertyData } from "@/components/panels/PropertyDetailsPanel";
 import usePOIData from "@/hooks/usePOIData";
 import { ApiKeySettings } from "@/components/settings/ApiKeySettings";
+import AccountMenu from "@/components/auth/AccountMenu";
+import WatchlistPanel from "@/components/panels/WatchlistPanel";
+import PortfolioPanel from "@/components/panels/PortfolioPanel";
+import CompareTray from "@/components/controls/CompareTray";
+import ExportMenu from "@/components/controls/ExportMenu";
+import { useCompareSelection } from "@/hooks/useCompareSelection";
+import { pointRef } from "@/services/comparisonService";
+import WatchlistStar from "@/components/controls/WatchlistStar";
+import { useWatchlist } from "@/hooks/useWatchlist";
+import SavedSearchesPanel from "@/components/panels/SavedSearchesPanel";
+import SaveSearchDialog from "@/components/controls/SaveSearchDialog";
+import NotificationInbox from "@/components/notifications/NotificationInbox";
+import { polygonCentroid } from "@shared/geo";
+import { parseViewState, serializeViewState, type MapCamera } from "@/lib/viewState";
 import { BuildingImageGallery } from "@/components/images/BuildingImageGallery";
 import { useBuildingImages } from "@/hooks/useBuildingImages";
+import { useI18n } from "@/hooks/useI18n";
+import LanguageToggle from "@/components/controls/LanguageToggle";
 
 function circlePolygon(center: [number, number], radiusMeters: number, points = 64): GeoJSON.Feature<GeoJSON.Polygon> {
   const [lng, lat] = center;
@@ -36,16 +65,59 @@ function circlePolygon(center: [number, number], radiusMeters: number, points =
 }
 
 const Index: React.FC = () => {
+  // View restored from a shared link; read once, then the URL follows the page
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [initialView] = useState(() => parseViewState(searchParams));
+  const [camera, setCamera] = useState<MapCamera | undefined>(initialView.camera);
+
   const [selected, setSelected] = useState<PropertyPoint | null>(null);
-  const [showPriceHeat, setShowPriceHeat] = useState(true);
-  const [showYieldHeat, setShowYieldHeat] = useState(false);
-  const [searchArea, setSearchArea] = useState<GeoJSON.Feature<GeoJSON.Polygon> | null>(null);
+  const [showPriceHeat, setShowPriceHeat] = useState(initialView.showPriceHeat ?? true);
+  const [showYieldHeat, setShowYieldHeat] = useState(initialView.showYieldHeat ?? false);
+  const [searchArea, setSearchArea] = useState<GeoJSON.Feature<GeoJSON.Polygon> | null>(initialView.searchArea ?? null);
+  // Text in the search bar, kept here so it can be saved with a search and restored
+  const [searchQuery, setSearchQuery] = useState('');
+  const [saveSearchOpen, setSaveSearchOpen] = useState(false);
+  // The server normally supplies the map token; pasting one is only needed when it has none
+  const { config: geoConfig } = useGeoConfig();
   const [token, setToken] = useState<string>(() => localStorage.getItem('MAPBOX_PUBLIC_TOKEN') || "");
   const [showTokenPanel, setShowTokenPanel] = useState<boolean>(() => !localStorage.getItem('MAPBOX_PUBLIC_TOKEN'));
-  const [dataSource, setDataSource] = useState<'all' | 'title-deed' | 'oqoo' | 'dewa'>('all');
-  const [mapStyle, setMapStyle] = useState<string>('mapbox://styles/mapbox/streets-v12');
+  const mapToken = geoConfig?.mapToken || token;
+  const [mapStyle, setMapStyle] = useState<string>(initialView.mapStyle ?? 'mapbox://styles/mapbox/streets-v12');
   const [flyTo, setFlyTo] = useState<{ center: [number, number]; zoom?: number; timestamp?: number } | null>(null);
   const { toast } = useToast();
+  const { t, language, formatAED, formatNumber, formatPercent } = useI18n();
+
+  // Property catalogue served by /api/properties
+  const { properties } = useProperties();
+  const { zones } = useZones();
+  const { watchedIds, signedIn } = useWatchlist();
+  const [showWatchlist, setShowWatchlist] = useState(true);
+  const isCatalogueProperty = (id: string) => properties.some((p) => p.id === id);
+
+  // Up to four catalogue buildings or clicked buildings queued for the comparison page
+  const compare = useCompareSelection();
+  const compareRefFor = (property: PropertyPoint) =>
+    isCatalogueProperty(property.id) ? property.id : pointRef(property.coords as [number, number]);
+  const handleToggleCompare = () => {
+    if (!selected) return;
+    const added = compare.toggle({ ref: compareRefFor(selected), name: selected.name });
+    if (!added) {
+      toast({ title: t('index.compareFull'), description: t('index.compareFullDetail') } as any);
+    }
+  };
+
+  // Valuation result from the form; its comparables are highlighted on the map
+  const [valuation, setValuation] = useState<Valuation | null>(null);
+  const [calculating, setCalculating] = useState(false);
+  const comparablePropertyIds = useMemo(
+    () => Array.from(new Set(valuation?.comparables.map((c) => c.propertyId) ?? [])),
+    [valuation]
+  );
+
+  // Unit lookup by unit, DEWA premise, Oqood or title deed number
+  const [unitMatches, setUnitMatches] = useState<UnitLookupResult[]>([]);
+  const [unitNotFound, setUnitNotFound] = useState<string | null>(null);
+  const [checkingIdentifier, setCheckingIdentifier] = useState(false);
 
   // Directions and routing
   const [directionsEnabled, setDirectionsEnabled] = useState(false);
@@ -55,11 +127,12 @@ const Index: React.FC = () => {
     enabled: boolean;
     profile: 'driving' | 'walking' | 'cycling';
     minutes: number[];
-  }>({
+  }>(() => ({
     enabled: false,
     profile: 'driving',
-    minutes: [5, 10, 20] // Realistic driving times: 5, 10, 20 minutes
-  });
+    minutes: [5, 10, 20], // Realistic driving times: 5, 10, 20 minutes
+    ...initialView.isochrone,
+  }));
 
   // Get realistic travel time configurations for different transport modes
   const getRealisticTravelTimes = (profile: 'driving' | 'walking' | 'cycling') => {
@@ -81,6 +154,8 @@ const Index: React.FC = () => {
 
   // Property details state
   const [selectedPropertyDetails, setSelectedPropertyDetails] = useState<PropertyData | null>(null);
+  // Full details drawer with sales history
+  const [showDetailsPanel, setShowDetailsPanel] = useState(false);
 
 // Building images for selected property
 const { images: buildingImages, isLoading: buildingImagesLoading } = useBuildingImages({
@@ -91,88 +166,176 @@ const { images: buildingImages, isLoading: buildingImagesLoading } = useBuilding
 });
 
 // Amenities and filters
-const [amenityCats, setAmenityCats] = useState<AmenityCategory[]>([]);
-const [amenityRadius, setAmenityRadius] = useState<number>(1500);
+const [amenityCats, setAmenityCats] = useState<AmenityCategory[]>(initialView.amenityCats ?? []);
+const [amenityRadius, setAmenityRadius] = useState<number>(initialView.amenityRadius ?? 1500);
 const amenitiesSB = useSearchBoxAmenities({
   center: selected ? (selected.coords as [number, number]) : null,
   categories: amenityCats,
   radiusMeters: amenityRadius,
-  token: token,
 });
 
   const mapRef = useRef<RealEstateMapHandle>(null);
 
-  const handleSelect = (property: PropertyPoint) => {
+  // Server-side summary of the drawn (or searched) area
+  const areaAnalytics = useAreaAnalytics(searchArea, amenitiesSB.results);
+
+  // One score model and one set of weights for the side card, the details panel and StatsPanel
+  const scoreWeights = useScoreWeights();
+  const selectedScore = useInvestmentScore(
+    selectedPropertyDetails?.coordinates ?? null,
+    selectedPropertyDetails?.propertyId,
+    scoreWeights.weights,
+    amenitiesSB.results
+  ).breakdown?.score;
+  const handleClearArea = () => {
+    mapRef.current?.clearDraw();
+    setSearchArea(null);
+  };
+
+  const applySavedSearch = ({ criteria }: SavedSearchSummary) => {
+    setSearchQuery(criteria.query ?? '');
+    setAmenityCats(criteria.amenityCategories.filter((c): c is AmenityCategory => ALL_AMENITY_CATEGORIES.includes(c as AmenityCategory)));
+    if (criteria.area) {
+      mapRef.current?.clearDraw();
+      setSearchArea({ type: 'Feature', properties: {}, geometry: criteria.area });
+      setFlyTo({ center: polygonCentroid(criteria.area), zoom: 13, timestamp: Date.now() });
+    } else {
+      handleClearArea();
+    }
+  };
+
+  const handleSelectById = (id: string) => {
+    const property = properties.find((p) => p.id === id);
+    if (property) handleSelect(property);
+  };
+
+  const handleSelect = (property: PropertyPoint, { fly = true }: { fly?: boolean } = {}) => {
     setSelected(property);
     const timestamp = Date.now();
-    setFlyTo({ center: property.coords as [number, number], zoom: 16, timestamp });
-    
-    // Generate property data immediately - no loading state needed
-    const propertyData: PropertyData = {
-      id: `building-${timestamp}`,
-      name: 'Selected Property',
-      address: 'Dubai, UAE', 
-      location: 'Dubai, UAE',
-      coordinates: property.coords as [number, number],
-      value: Math.floor(Math.random() * 2000000) + 800000, // 800k - 2.8M AED
-      pricePerSqFt: Math.floor(Math.random() * 800) + 600, // 600-1400 AED/sqft
-      yield: Math.round((Math.random() * 4 + 5) * 10) / 10, // 5-9% yield
-      score: Math.floor(Math.random() * 30) + 70, // 70-100 score
-      propertyType: Math.random() > 0.5 ? 'Apartment' : 'Villa',
-      bedrooms: Math.floor(Math.random() * 4) + 1, // 1-4 bedrooms
-      size: Math.floor(Math.random() * 2000) + 800, // 800-2800 sqft
-      marketTrend: Math.random() > 0.3 ? 'Increasing' : 'Stable'
-      // No stock images - only authentic Google Street View images
-    };
-    
-    // Set property data immediately
-    setSelectedPropertyDetails(propertyData);
-    
-    // Enhance with Google Places API in background
+    if (fly) setFlyTo({ center: property.coords as [number, number], zoom: 16, timestamp });
+    const id = `building-${timestamp}`;
     const [lng, lat] = property.coords as [number, number];
-    fetch(`/api/places/nearby?lat=${lat}&lng=${lng}&radius=50`)
-      .then(response => response.json())
-      .then(data => {
-        if (data.buildings && data.buildings.length > 0) {
-          const building = data.buildings[0];
-          const buildingName = building.name || property.name || 'Selected Building';
-          console.log('Google Places found for property panel:', buildingName);
-          setSelectedPropertyDetails(prev => prev ? {
-            ...prev,
-            name: buildingName,
-            address: building.address || 'Dubai, UAE',
-            location: building.address || 'Dubai, UAE'
-          } : prev);
-        }
+
+    // Same coordinates always produce the same figures
+    getPropertyEstimate(property.coords as [number, number])
+      .then((estimate) => {
+        setSelectedPropertyDetails({
+          ...estimateToPropertyData(estimate, {
+            id,
+            name: t('index.selectedProperty'),
+            address: t('index.dubaiUae'),
+            location: t('index.dubaiUae'),
+          }),
+          propertyId: isCatalogueProperty(property.id) ? property.id : undefined,
+        });
+
+        // Clicked buildings arrive without metrics; give StatsPanel the same figures
+        setSelected(prev => prev && prev.id === property.id && !prev.estimatedValueAED ? {
+          ...prev,
+          estimatedValueAED: estimate.value,
+          pricePerSqft: estimate.pricePerSqFt,
+          rentYield: estimate.yield,
+          priceTrend: estimate.priceTrend
+        } : prev);
+
+        // Enhance with Google Places API in background
+        return fetch(`/api/places/nearby?lat=${lat}&lng=${lng}&radius=50`)
+          .then(response => response.json())
+          .then(data => {
+            if (data.buildings && data.buildings.length > 0) {
+              const building = data.buildings[0];
+              const buildingName = building.name || property.name || t('index.selectedBuilding');
+              console.log('Google Places found for property panel:', buildingName);
+              setSelectedPropertyDetails(prev => prev && prev.id === id ? {
+                ...prev,
+                name: buildingName,
+                address: building.address || t('index.dubaiUae'),
+                location: building.address || t('index.dubaiUae')
+              } : prev);
+            }
+          })
+          .catch(error => {
+            console.error('Error fetching Google Places building details:', error);
+          });
       })
       .catch(error => {
-        console.error('Error fetching Google Places building details:', error);
+        console.error('Error estimating property:', error);
+        toast({
+          title: t('index.estimateUnavailable'),
+          description: t('index.estimateUnavailableDetail'),
+          variant: 'destructive'
+        } as any);
       });
   };
 
+  const handleCalculate = async (values: ValuationFormValues) => {
+    setCalculating(true);
+    try {
+      const result = await getValuation(values);
+      setValuation(result);
+      setFlyTo({ center: result.building.coords, zoom: 14, timestamp: Date.now() });
+    } catch (error) {
+      console.error('Valuation error:', error);
+      toast({
+        title: t('index.valuationFailed'),
+        description: error instanceof Error ? error.message : t('index.valuationFailedDetail'),
+        variant: 'destructive'
+      } as any);
+    } finally {
+      setCalculating(false);
+    }
+  };
+
+  const openUnit = (match: UnitLookupResult) => {
+    setSelected(match.building);
+    setFlyTo({ center: match.building.coords, zoom: 17, timestamp: Date.now() });
+    setSelectedPropertyDetails(unitToPropertyData(match));
+    setShowDetailsPanel(true);
+  };
+
+  const handleIdentifierSubmit = async (payload: IdentifierPayload) => {
+    setCheckingIdentifier(true);
+    setUnitNotFound(null);
+    setUnitMatches([]);
+    try {
+      const matches = await lookupUnit(payload);
+      if (!matches.length) {
+        setUnitNotFound(t('index.unitNotFound', { value: payload.value }));
+        return;
+      }
+      // A bare unit number can exist in several buildings; let the user pick
+      if (matches.length > 1) setUnitMatches(matches);
+      else openUnit(matches[0]);
+    } catch (error) {
+      console.error('Unit lookup error:', error);
+      toast({
+        title: t('index.lookupFailed'),
+        description: error instanceof Error ? error.message : t('common.retry'),
+        variant: 'destructive'
+      } as any);
+    } finally {
+      setCheckingIdentifier(false);
+    }
+  };
+
   const handlePlaceSelect = (pl: { name: string; center: [number, number]; timestamp?: number }) => {
     setSelected(null);
     const timestamp = pl.timestamp || Date.now();
     setFlyTo({ center: pl.center, zoom: 15, timestamp });
-    
+
     // Create property data for searched locations
-    const propertyData: PropertyData = {
-      id: `search-${timestamp}`,
-      name: pl.name,
-      address: pl.name,
-      location: pl.name,
-      coordinates: pl.center,
-      value: Math.floor(Math.random() * 2000000) + 800000, // 800k - 2.8M AED
-      pricePerSqFt: Math.floor(Math.random() * 800) + 600, // 600-1400 AED/sqft
-      yield: Math.round((Math.random() * 4 + 5) * 10) / 10, // 5-9% yield
-      score: Math.floor(Math.random() * 30) + 70, // 70-100 score
-      propertyType: Math.random() > 0.5 ? 'Apartment' : 'Villa',
-      bedrooms: Math.floor(Math.random() * 4) + 1, // 1-4 bedrooms
-      size: Math.floor(Math.random() * 2000) + 800, // 800-2800 sqft
-      marketTrend: Math.random() > 0.3 ? 'Increasing' : 'Stable'
-      // No stock images - only authentic Google Street View images
-    };
-    setSelectedPropertyDetails(propertyData);
+    getPropertyEstimate(pl.center)
+      .then((estimate) => {
+        setSelectedPropertyDetails(estimateToPropertyData(estimate, {
+          id: `search-${timestamp}`,
+          name: pl.name,
+          address: pl.name,
+          location: pl.name,
+        }));
+      })
+      .catch(error => {
+        console.error('Error estimating searched location:', error);
+      });
     setSearchArea(circlePolygon(pl.center, 1500));
     setFlyTo({ center: pl.center, zoom: 13, timestamp: pl.timestamp || Date.now() });
   };
@@ -230,8 +393,8 @@ const amenitiesSB = useSearchBoxAmenities({
     } catch (error) {
       console.error('Error fetching POI details:', error);
       toast({
-        title: 'Error',
-        description: 'Failed to fetch location details. Please try again.',
+        title: t('index.error'),
+        description: t('index.poiFailed'),
         variant: 'destructive'
       } as any);
     }
@@ -247,84 +410,136 @@ const amenitiesSB = useSearchBoxAmenities({
   };
 
   const saveToken = () => {
-    const t = token.trim();
-    if (!t || (!t.startsWith('pk.') && !t.startsWith('pk_'))) {
+    const trimmed = token.trim();
+    if (!trimmed || (!trimmed.startsWith('pk.') && !trimmed.startsWith('pk_'))) {
       toast({
-        title: 'Invalid token',
-        description: 'Please paste a Mapbox public token (starts with pk.)',
+        title: t('index.invalidToken'),
+        description: t('index.invalidTokenDetail'),
         variant: 'destructive'
       } as any);
       return;
     }
-    localStorage.setItem('MAPBOX_PUBLIC_TOKEN', t);
+    localStorage.setItem('MAPBOX_PUBLIC_TOKEN', trimmed);
     setShowTokenPanel(false);
   };
 
-  const hasToken = useMemo(() => !!(token || localStorage.getItem('MAPBOX_PUBLIC_TOKEN')), [token]);
+  // Wait for the server's answer before asking for a token
+  const hasToken = !geoConfig || !!(geoConfig.mapToken || localStorage.getItem('MAPBOX_PUBLIC_TOKEN'));
+
+  // Reopen the linked selection once the catalogue has loaded, without moving the linked camera
+  const pendingSelection = useRef(initialView.selected);
+  useEffect(() => {
+    const ref = pendingSelection.current;
+    if (!ref) return;
+    if (ref.startsWith('pt:')) {
+      const [lng, lat] = ref.slice(3).split(',').map(Number);
+      if (Number.isFinite(lng) && Number.isFinite(lat)) {
+        handleSelect(clickedBuildingPoint(ref, [lng, lat]), { fly: !camera });
+      }
+      pendingSelection.current = undefined;
+      return;
+    }
+    if (!properties.length) return;
+    const property = properties.find((p) => p.id === ref);
+    if (property) handleSelect(property, { fly: !camera });
+    pendingSelection.current = undefined;
+  }, [properties]);
 
-  // TEMP: preload provided Mapbox public token into localStorage for testing
+  // Keep the address bar in step with the view so it can be shared or bookmarked
   useEffect(() => {
-    const existing = localStorage.getItem('MAPBOX_PUBLIC_TOKEN');
-    const testToken = 'pk.eyJ1IjoidGFoYWFsd2FyZCIsImEiOiJjbWUzdmdwZWwwOXNtMmpzOGl1eXo0dnBvIn0.IcI376nuRKs0ufijqg1LEQ';
-    if (!existing) {
-      localStorage.setItem('MAPBOX_PUBLIC_TOKEN', testToken);
-      setToken(testToken);
-      setShowTokenPanel(false);
+    const params = serializeViewState({
+      camera,
+      selected: selected ? compareRefFor(selected) : undefined,
+      mapStyle,
+      showPriceHeat,
+      showYieldHeat,
+      isochrone: isochroneSettings,
+      amenityCats,
+      amenityRadius,
+      searchArea,
+    });
+    if (params.toString() !== searchParams.toString()) setSearchParams(params, { replace: true });
+  }, [camera, selected, mapStyle, showPriceHeat, showYieldHeat, isochroneSettings, amenityCats, amenityRadius, searchArea]);
+
+  const copyViewLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({ title: t('index.linkCopied'), description: t('index.linkCopiedDetail') } as any);
+    } catch {
+      toast({ title: t('index.copyFailed'), description: window.location.href, variant: 'destructive' } as any);
     }
-  }, []);
+  };
 
   useEffect(() => {
-    document.title = 'Property Valuation Analyser';
+    document.title = t('index.title');
     let meta = document.querySelector('meta[name="description"]');
     if (!meta) {
       meta = document.createElement('meta');
       meta.setAttribute('name', 'description');
       document.head.appendChild(meta);
     }
-    meta.setAttribute('content', 'Property Valuation Analyser: input details and instantly center the map to your building or community.');
-  }, []);
+    meta.setAttribute('content', t('index.metaDescription'));
+  }, [language]);
 
   return (
     <main className="min-h-screen">
       <header className="sticky top-0 z-20 bg-background/70 backdrop-blur supports-[backdrop-filter]:bg-background/60 border-b">
         <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4 flex flex-col gap-3 max-w-full">
-          <h1 className="text-2xl md:text-3xl font-bold tracking-tight text-foreground">Property Valuation Analyser</h1>
+          <h1 className="text-2xl md:text-3xl font-bold tracking-tight text-foreground">{t('index.title')}</h1>
           <div className="flex items-center justify-between gap-3">
             <div className="flex items-center gap-2 text-foreground">
               <div className="h-8 w-8 rounded-md" style={{ background: 'linear-gradient(135deg, hsl(182,65%,45%), hsl(152,53%,41%))' }} />
               <div>
-                <div className="font-semibold leading-tight">UAE Property Intel</div>
-                <div className="text-xs text-muted-foreground">3D AI map for prices, yields & opportunities</div>
+                <div className="font-semibold leading-tight">{t('index.brand')}</div>
+                <div className="text-xs text-muted-foreground">{t('index.tagline')}</div>
               </div>
             </div>
             <div className="hidden md:block">
-              <SearchBar items={properties} onSelect={handleSelect} token={token} onPlaceSelect={handlePlaceSelect} />
+              <SearchBar items={properties} onSelect={handleSelect} onPlaceSelect={handlePlaceSelect} query={searchQuery} onQueryChange={setSearchQuery} />
             </div>
             <div className="flex items-center gap-2">
-              <Button variant="secondary" size="sm" onClick={() => setShowTokenPanel((s) => !s)}>
-                <Settings2 className="h-4 w-4 mr-2" /> Token
+              {geoConfig && !geoConfig.mapToken && (
+                <Button variant="secondary" size="sm" onClick={() => setShowTokenPanel((s) => !s)}>
+                  <Settings2 className="h-4 w-4 me-2" /> {t('index.token')}
+                </Button>
+              )}
+              <LanguageToggle />
+              <Button variant="outline" size="sm" onClick={copyViewLink} title={t('index.copyLinkTitle')}>
+                <Link2 className="h-4 w-4 me-2" /> {t('index.copyLink')}
               </Button>
+              <ExportMenu
+                getSources={() => ({ properties, zones, searchArea, isochrones: mapRef.current?.getIsochrones() ?? null, amenities: amenitiesSB.results })}
+                getBounds={() => mapRef.current?.getBounds() ?? null}
+              />
+              <NotificationInbox onOpenProperty={handleSelectById} />
+              <AccountMenu />
             </div>
           </div>
           <div className="md:hidden">
-            <SearchBar items={properties} onSelect={handleSelect} token={token} onPlaceSelect={handlePlaceSelect} />
+            <SearchBar items={properties} onSelect={handleSelect} onPlaceSelect={handlePlaceSelect} query={searchQuery} onQueryChange={setSearchQuery} />
           </div>
           <div className="flex flex-wrap items-center gap-4">
             <div className="flex items-center gap-2">
               <Switch id="toggle-price" checked={showPriceHeat} onCheckedChange={setShowPriceHeat} />
-              <label htmlFor="toggle-price" className="text-sm cursor-pointer">Price heat</label>
+              <label htmlFor="toggle-price" className="text-sm cursor-pointer">{t('index.priceHeat')}</label>
             </div>
             <div className="flex items-center gap-2">
               <Switch id="toggle-yield" checked={showYieldHeat} onCheckedChange={setShowYieldHeat} />
-              <label htmlFor="toggle-yield" className="text-sm cursor-pointer">Yield heat</label>
+              <label htmlFor="toggle-yield" className="text-sm cursor-pointer">{t('index.yieldHeat')}</label>
             </div>
+            {signedIn && (
+              <div className="flex items-center gap-2">
+                <Switch id="toggle-watchlist" checked={showWatchlist} onCheckedChange={setShowWatchlist} />
+                <label htmlFor="toggle-watchlist" className="text-sm cursor-pointer">{t('index.watchlist')}</label>
+              </div>
+            )}
             <div className="flex items-center gap-2">
               <Switch 
                 id="toggle-directions" 
                 checked={directionsEnabled} 
                 onCheckedChange={handleDirectionsToggle} 
               />
-              <label htmlFor="toggle-directions" className="text-sm cursor-pointer">Directions</label>
+              <label htmlFor="toggle-directions" className="text-sm cursor-pointer">{t('index.directions')}</label>
             </div>
             <div className="flex items-center gap-4">
               <div className="flex items-center gap-2">
@@ -333,18 +548,18 @@ const amenitiesSB = useSearchBoxAmenities({
                   checked={isochroneSettings.enabled} 
                   onCheckedChange={handleIsochroneToggle} 
                 />
-                <label htmlFor="toggle-isochrone" className="text-sm cursor-pointer">Travel time zones</label>
+                <label htmlFor="toggle-isochrone" className="text-sm cursor-pointer">{t('index.travelZones')}</label>
               </div>
               
               {isochroneSettings.enabled && (
-                <div className="flex items-center gap-3 ml-2">
+                <div className="flex items-center gap-3 ms-2">
                   <div className="flex items-center gap-1">
                     <Button
                       size="sm"
                       variant={isochroneSettings.profile === 'driving' ? 'default' : 'outline'}
                       onClick={() => handleProfileChange('driving')}
                       className="h-7 px-2"
-                      title="Driving: 5, 10, 20 min zones"
+                      title={t('index.driving')}
                     >
                       <Car className="h-3 w-3" />
                     </Button>
@@ -353,7 +568,7 @@ const amenitiesSB = useSearchBoxAmenities({
                       variant={isochroneSettings.profile === 'walking' ? 'default' : 'outline'}
                       onClick={() => handleProfileChange('walking')}
                       className="h-7 px-2"
-                      title="Walking: 5, 10, 15 min zones"
+                      title={t('index.walking')}
                     >
                       <PersonStanding className="h-3 w-3" />
                     </Button>
@@ -362,14 +577,14 @@ const amenitiesSB = useSearchBoxAmenities({
                       variant={isochroneSettings.profile === 'cycling' ? 'default' : 'outline'}
                       onClick={() => handleProfileChange('cycling')}
                       className="h-7 px-2"
-                      title="Cycling: 5, 10, 15 min zones"
+                      title={t('index.cycling')}
                     >
                       <Bike className="h-3 w-3" />
                     </Button>
                   </div>
                   <div className="text-xs text-muted-foreground bg-muted px-2 py-1 rounded flex items-center gap-1">
                     <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                    <span>{isochroneSettings.minutes.join(', ')} min zones • Discovering amenities...</span>
+                    <span>{t('index.zonesDiscovering', { minutes: isochroneSettings.minutes.map((m) => formatNumber(m)).join(language === 'ar' ? '، ' : ', ') })}</span>
                   </div>
                 </div>
               )}
@@ -382,20 +597,66 @@ const amenitiesSB = useSearchBoxAmenities({
         {/* Valuation Form - Full width above map */}
         <Card>
           <CardHeader className="pb-4">
-            <CardTitle className="text-xl font-semibold">Property Valuation</CardTitle>
+            <CardTitle className="text-xl font-semibold">{t('index.valuation')}</CardTitle>
           </CardHeader>
           <CardContent>
-            <ValuationForm token={token} onPlaceSelect={handlePlaceSelect} />
+            <ValuationForm
+              onPlaceSelect={handlePlaceSelect}
+              onCalculate={handleCalculate}
+              calculating={calculating}
+            />
+            <Separator className="my-4" />
+            <div className="text-sm font-medium mb-2">{t('index.lookUpUnit')}</div>
+            <IdentifierBar onSubmit={handleIdentifierSubmit} checking={checkingIdentifier} notFound={unitNotFound} />
+            {unitMatches.length > 1 && (
+              <div className="mt-3">
+                <div className="text-xs text-muted-foreground mb-1">{t('index.unitsMatch', { count: unitMatches.length })}</div>
+                <div className="divide-y rounded-md border">
+                  {unitMatches.map((match) => (
+                    <button
+                      key={match.unit.id}
+                      type="button"
+                      onClick={() => {
+                        setUnitMatches([]);
+                        openUnit(match);
+                      }}
+                      className="w-full flex items-center justify-between gap-2 px-3 py-2 text-start text-sm hover:bg-muted/50"
+                    >
+                      <div>
+                        <div className="font-medium">{t('index.buildingUnit', { building: match.building.name, unit: match.unit.unitNumber })}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {match.building.community} • {match.unit.bedrooms === 0 ? t('common.studio') : t('common.bedrooms', { count: match.unit.bedrooms })} • {t('common.sqft', { value: match.unit.sizeSqft })}
+                        </div>
+                      </div>
+                      <span className="text-sm font-medium">{formatAED(match.unit.valueAED)}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
 
+        {valuation && (
+          <ValuationResultCard
+            valuation={valuation}
+            onClose={() => setValuation(null)}
+            onComparableClick={(c) => setFlyTo({ center: c.coords, zoom: 16, timestamp: Date.now() })}
+          />
+        )}
+
         {/* Map and Sidebar Grid */}
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-4 lg:gap-6 min-h-[85vh] w-full max-w-full">
           <article className="lg:col-span-8 xl:col-span-9">
             <div className="relative rounded-lg border bg-muted/50 overflow-hidden h-[70vh] lg:h-[85vh]">
             <RealEstateMap
               ref={mapRef}
-              token={token}
+              token={mapToken}
+              properties={properties}
+              zones={zones}
+              highlightedPropertyIds={comparablePropertyIds}
+              watchedPropertyIds={watchedIds}
+              showWatchlist={showWatchlist}
               selected={selected}
               onSelect={handleSelect}
               showPriceHeat={showPriceHeat}
@@ -408,6 +669,9 @@ const amenitiesSB = useSearchBoxAmenities({
               isochrone={isochroneSettings}
               amenities={amenitiesSB.results}
               onPOISelect={handlePOISelect}
+              initialCamera={initialView.camera}
+              initialSelectedId={initialView.selected}
+              onCameraChange={setCamera}
             />
             
             {/* POI Details Panel Overlay */}
@@ -417,10 +681,10 @@ const amenitiesSB = useSearchBoxAmenities({
               onGetDirections={handleGetDirections}
             />
             {!hasToken && showTokenPanel && (
-              <div className="absolute left-4 top-4 z-20 max-w-md">
+              <div className="absolute start-4 top-4 z-20 max-w-md">
                 <Card className="p-4 glass-panel animate-enter">
-                  <div className="font-medium mb-2 flex items-center gap-2"><Map className="h-4 w-4" /> Mapbox Public Token</div>
-                  <p className="text-xs text-muted-foreground mb-3">Enter your Mapbox public token to enable the 3D map. You can find it in your Mapbox dashboard (Tokens).</p>
+                  <div className="font-medium mb-2 flex items-center gap-2"><Map className="h-4 w-4" /> {t('index.tokenTitle')}</div>
+                  <p className="text-xs text-muted-foreground mb-3">{t('index.tokenHelp')}</p>
                   <input
                     className="w-full rounded-md border px-3 py-2 text-sm bg-background"
                     placeholder="pk.ey..."
@@ -428,8 +692,8 @@ const amenitiesSB = useSearchBoxAmenities({
                     onChange={(e) => setToken(e.target.value)}
                   />
                   <div className="mt-3 flex items-center gap-2">
-                    <Button size="sm" onClick={saveToken}>Save</Button>
-                    <Button size="sm" variant="secondary" onClick={() => setShowTokenPanel(false)}>Later</Button>
+                    <Button size="sm" onClick={saveToken}>{t('common.save')}</Button>
+                    <Button size="sm" variant="secondary" onClick={() => setShowTokenPanel(false)}>{t('index.later')}</Button>
                   </div>
                 </Card>
               </div>
@@ -438,6 +702,15 @@ const amenitiesSB = useSearchBoxAmenities({
           </article>
           
           <aside className="lg:col-span-4 xl:col-span-3 space-y-4">
+          {searchArea && (
+            <AreaAnalyticsPanel
+              analytics={areaAnalytics.analytics}
+              isLoading={areaAnalytics.isLoading}
+              error={areaAnalytics.error}
+              onClear={handleClearArea}
+              onSelectBuilding={handleSelectById}
+            />
+          )}
           {selectedPropertyDetails ? (
             <div className="space-y-4">
               <Card>
@@ -450,10 +723,11 @@ const amenitiesSB = useSearchBoxAmenities({
                         <span>{selectedPropertyDetails.location}</span>
                       </div>
                     </div>
+                    {selectedPropertyDetails.propertyId && <WatchlistStar propertyId={selectedPropertyDetails.propertyId} />}
                     <Button 
                       variant="ghost" 
                       size="sm" 
-                      onClick={() => setSelectedPropertyDetails(null)}
+                      onClick={() => { setSelectedPropertyDetails(null); setShowDetailsPanel(false); }}
                       className="text-gray-500 hover:text-gray-700"
                     >
                       <X className="w-4 h-4" />
@@ -472,24 +746,27 @@ const amenitiesSB = useSearchBoxAmenities({
                   )}
                   <div className="grid grid-cols-2 gap-3">
                     <div className="p-3 bg-gray-50 rounded-lg">
-                      <div className="text-xs font-medium text-gray-600">Market Value</div>
-                      <div className="text-sm font-bold">AED {selectedPropertyDetails.value.toLocaleString()}</div>
+                      <div className="text-xs font-medium text-gray-600">{t('index.marketValue')}</div>
+                      <div className="text-sm font-bold">{formatAED(selectedPropertyDetails.value)}</div>
                     </div>
                     <div className="p-3 bg-green-50 rounded-lg">
-                      <div className="text-xs font-medium text-gray-600">Yield</div>
-                      <div className="text-sm font-bold text-green-600">{selectedPropertyDetails.yield}%</div>
+                      <div className="text-xs font-medium text-gray-600">{t('index.yield')}</div>
+                      <div className="text-sm font-bold text-green-600">{formatPercent(selectedPropertyDetails.yield)}</div>
                     </div>
                   </div>
                   <div className="grid grid-cols-2 gap-3 text-sm">
                     <div>
-                      <div className="text-xs text-gray-600">Per Sq.Ft</div>
-                      <div className="font-semibold">AED {selectedPropertyDetails.pricePerSqFt}</div>
+                      <div className="text-xs text-gray-600">{t('index.perSqft')}</div>
+                      <div className="font-semibold">{formatAED(selectedPropertyDetails.pricePerSqFt)}</div>
                     </div>
                     <div>
-                      <div className="text-xs text-gray-600">Score</div>
-                      <div className="font-semibold text-orange-600">{selectedPropertyDetails.score}/100</div>
+                      <div className="text-xs text-gray-600">{t('index.score')}</div>
+                      <div className="font-semibold text-orange-600">{selectedScore != null ? t('poi.outOf100', { value: selectedScore }) : t('common.none')}</div>
                     </div>
                   </div>
+                  <Button variant="outline" size="sm" className="w-full" onClick={() => setShowDetailsPanel(true)}>
+                    {t('index.fullDetails')}
+                  </Button>
                 </CardContent>
               </Card>
 
@@ -504,62 +781,103 @@ const amenitiesSB = useSearchBoxAmenities({
                 </CardContent>
               </Card>
 
-              <Card>
-                <CardHeader className="pb-3">
-                  <CardTitle className="text-base font-semibold flex items-center gap-2">
-                    <BarChart3 className="w-4 h-4" />
-                    Investment Score
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="relative w-20 h-20 mx-auto">
-                    <svg className="w-full h-full transform -rotate-90" viewBox="0 0 100 100">
-                      <circle cx="50" cy="50" r="40" fill="none" stroke="#e5e7eb" strokeWidth="8" />
-                      <circle
-                        cx="50" cy="50" r="40" fill="none" stroke="#10b981" strokeWidth="8"
-                        strokeLinecap="round"
-                        strokeDasharray={`${(selectedPropertyDetails.score / 100) * 251} 251`}
-                      />
-                    </svg>
-                    <div className="absolute inset-0 flex items-center justify-center">
-                      <div className="text-center">
-                        <div className="text-base font-bold">{selectedPropertyDetails.score}</div>
-                        <div className="text-xs text-gray-600">/ 100</div>
+              {selectedScore != null && (
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base font-semibold flex items-center gap-2">
+                      <BarChart3 className="w-4 h-4" />
+                      {t('index.investmentScore')}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="relative w-20 h-20 mx-auto">
+                      <svg className="w-full h-full transform -rotate-90" viewBox="0 0 100 100">
+                        <circle cx="50" cy="50" r="40" fill="none" stroke="#e5e7eb" strokeWidth="8" />
+                        <circle
+                          cx="50" cy="50" r="40" fill="none" stroke="#10b981" strokeWidth="8"
+                          strokeLinecap="round"
+                          strokeDasharray={`${(selectedScore / 100) * 251} 251`}
+                        />
+                      </svg>
+                      <div className="absolute inset-0 flex items-center justify-center">
+                        <div className="text-center">
+                          <div className="text-base font-bold">{formatNumber(selectedScore)}</div>
+                          <div className="text-xs text-gray-600">/ {formatNumber(100)}</div>
+                        </div>
                       </div>
                     </div>
-                  </div>
-                  <div className="text-center mt-2">
-                    <Badge variant="secondary" className={selectedPropertyDetails.score >= 80 ? "bg-green-100 text-green-800" : "bg-yellow-100 text-yellow-800"}>
-                      {selectedPropertyDetails.score >= 80 ? 'Excellent' : 'Good'}
-                    </Badge>
-                  </div>
-                </CardContent>
-              </Card>
+                    <div className="text-center mt-2">
+                      <Badge variant="secondary" className={selectedScore >= 80 ? "bg-green-100 text-green-800" : "bg-yellow-100 text-yellow-800"}>
+                        {selectedScore >= 80 ? t('index.excellent') : t('index.good')}
+                      </Badge>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
               
               <Card>
                 <CardHeader className="pb-3">
                   <CardTitle className="text-base font-semibold flex items-center gap-2">
                     <Building2 className="w-4 h-4" />
-                    Details
+                    {t('index.details')}
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-2 text-sm">
                   <div className="flex justify-between">
-                    <span className="text-gray-600">Type</span>
+                    <span className="text-gray-600">{t('index.type')}</span>
                     <span className="font-medium">{selectedPropertyDetails.propertyType}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-gray-600">Trend</span>
+                    <span className="text-gray-600">{t('index.trend')}</span>
                     <span className="font-medium">{selectedPropertyDetails.marketTrend}</span>
                   </div>
+                  {selectedPropertyDetails.bedrooms && selectedPropertyDetails.size && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">{t('index.typicalUnit')}</span>
+                      <span className="font-medium">{t('common.bedrooms', { count: selectedPropertyDetails.bedrooms })} • {t('common.sqft', { value: selectedPropertyDetails.size })}</span>
+                    </div>
+                  )}
+                  {selectedPropertyDetails.estimate && (
+                    <>
+                      <Separator className="my-2" />
+                      <div className="text-xs font-medium text-gray-600">{t('index.howEstimated')}</div>
+                      <ul className="list-disc ps-4 space-y-1 text-xs text-muted-foreground">
+                        {selectedPropertyDetails.estimate.explanation.notes.map((note) => (
+                          <li key={note}>{note}</li>
+                        ))}
+                        {selectedPropertyDetails.estimate.explanation.comparables.map((c) => (
+                          <li key={c.id}>
+                            {t('index.comparableNote', {
+                              name: c.name,
+                              price: t('common.perSqft', { value: formatAED(c.pricePerSqft) }),
+                              yield: t('common.yield', { value: formatPercent(c.rentYield) }),
+                              distance: t('stats.meters', { value: c.distanceMeters }),
+                              weight: formatPercent(c.weight * 100, 0),
+                            })}
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
                 </CardContent>
               </Card>
             </div>
           ) : (
             <>
-              <StatsPanel selected={selected} onRouteTo={handleRouteTo} amenitiesOverride={amenitiesSB.results} amenitiesLoadingOverride={amenitiesSB.loading} />
+              <StatsPanel selected={selected} onRouteTo={handleRouteTo} amenitiesOverride={amenitiesSB.results} amenitiesLoadingOverride={amenitiesSB.loading} watchable={!!selected && isCatalogueProperty(selected.id)} comparing={!!selected && compare.has(compareRefFor(selected))} onToggleCompare={handleToggleCompare} scoreWeights={scoreWeights} />
             </>
           )}
+          <CompareTray items={compare.items} onRemove={compare.remove} onClear={compare.clear} />
+          <SavedSearchesPanel onApply={applySavedSearch} onSaveCurrent={() => setSaveSearchOpen(true)} />
+          <WatchlistPanel onSelect={handleSelect} />
+          <PortfolioPanel onSelect={handleSelect} />
+          <SaveSearchDialog
+            open={saveSearchOpen}
+            onOpenChange={setSaveSearchOpen}
+            query={searchQuery}
+            area={searchArea?.geometry ?? null}
+            amenityCategories={amenityCats}
+          />
           </aside>
         </div>
       </section>
@@ -567,11 +885,20 @@ const amenitiesSB = useSearchBoxAmenities({
       <footer className="border-t">
         <div className="container py-6 text-xs text-muted-foreground flex items-center gap-2">
           <Sparkles className="h-3.5 w-3.5" />
-          Smart insights highlighting undervalued zones with emerald glow. Smooth zoom & hover-rise interactions.
+          {t('index.footer')}
         </div>
       </footer>
 
 
+      <PropertyDetailsPanel
+        property={showDetailsPanel && selectedPropertyDetails ? { ...selectedPropertyDetails, score: selectedScore } : null}
+        onClose={() => setShowDetailsPanel(false)}
+        reportContext={{
+          amenities: amenitiesSB.results,
+          isochrone: { profile: isochroneSettings.profile, minutes: isochroneSettings.minutes },
+          weights: scoreWeights.weights,
+        }}
+      />
     </main>
   );
 };
@@ -0,0 +1,122 @@
+import type { InvestmentScore, PriceTrendPoint, PropertyPoint } from '@shared/schema';
+import { haversineMeters, polygonAreaSqMeters } from '@shared/geo';
+import { getPropertyEstimate } from '@/services/estimateService';
+import { CATEGORY_QUERY, type AmenityCategory } from '@/hooks/useSearchBoxAmenities';
+import { fetchIsochrone, geocodePlaces } from '@/services/geoService';
+
+export const MAX_COMPARE = 4;
+
+// Nearest of each of these is shown per property
+export const COMPARE_AMENITIES: AmenityCategory[] = ['groceries', 'school_university', 'pharmacy_hospital', 'shopping_mall', 'public_transport'];
+// Driving isochrones used for "reach"
+export const REACH_MINUTES = [10, 20, 30];
+
+/**
+ * A property in the comparison: a catalogue id, or `pt:lng,lat` for a clicked building.
+ * This is also the form used in the shareable `?p=` URL parameter.
+ */
+export type CompareRef = string;
+
+export type CompareEntry = {
+  ref: CompareRef;
+  name?: string; // catalogue buildings only; the page labels a bare point in the interface language
+  community?: string;
+  coords: [number, number];
+  valueAED: number;
+  pricePerSqft: number;
+  rentYield: number;
+  score?: number; // missing when /api/score is unavailable
+  sizeSqft: number; // typical unit from the estimate
+  priceTrend: PriceTrendPoint[];
+  nearest: Partial<Record<AmenityCategory, { name: string; distanceMeters: number }>>;
+  reach: { minutes: number; areaSqKm: number }[];
+};
+
+export function pointRef([lng, lat]: [number, number]): CompareRef {
+  return `pt:${lng.toFixed(5)},${lat.toFixed(5)}`;
+}
+
+function parsePointRef(ref: CompareRef): [number, number] | null {
+  const m = ref.match(/^pt:(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)$/);
+  return m ? [Number(m[1]), Number(m[2])] : null;
+}
+
+async function getCatalogueProperty(id: string): Promise<PropertyPoint> {
+  const response = await fetch(`/api/properties/${encodeURIComponent(id)}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to load property: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+type AmenityPoint = { category: AmenityCategory; center: [number, number] };
+
+// The nearest of each category, plus every result so the score can count them
+async function nearbyAmenities(center: [number, number]) {
+  const nearest: CompareEntry['nearest'] = {};
+  const points: AmenityPoint[] = [];
+  await Promise.all(COMPARE_AMENITIES.map(async (category) => {
+    const places = await geocodePlaces(CATEGORY_QUERY[category], { types: 'poi', proximity: center, limit: 5 }).catch(() => []);
+    for (const place of places) {
+      points.push({ category, center: place.center });
+      const distanceMeters = haversineMeters(center, place.center);
+      if (!nearest[category] || distanceMeters < nearest[category]!.distanceMeters) {
+        nearest[category] = { name: place.name, distanceMeters };
+      }
+    }
+  }));
+  return { nearest, points };
+}
+
+async function drivingReach(center: [number, number]): Promise<CompareEntry['reach']> {
+  const geo = await fetchIsochrone('driving', center, REACH_MINUTES);
+  return geo.features
+    .map((f) => ({ minutes: f.properties.contour, areaSqKm: Math.round(polygonAreaSqMeters(f.geometry) / 1e5) / 10 }))
+    .sort((a, b) => a.minutes - b.minutes);
+}
+
+async function getScore(coordinates: [number, number], propertyId: string | undefined, amenities: AmenityPoint[]): Promise<InvestmentScore | null> {
+  const response = await fetch('/api/score', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ coordinates, propertyId, amenities })
+  });
+  return response.ok ? response.json() : null;
+}
+
+/**
+ * Everything the comparison table shows for one property. Amenity and reach figures come from
+ * the server's Mapbox proxy and are left empty when it is unavailable.
+ */
+export async function loadCompareEntry(ref: CompareRef): Promise<CompareEntry> {
+  const point = parsePointRef(ref);
+  const property = point ? null : await getCatalogueProperty(ref);
+  const coords = point ?? (property!.coords as [number, number]);
+  const estimate = await getPropertyEstimate(coords);
+
+  const noAmenities = { nearest: {}, points: [] as AmenityPoint[] };
+  const [amenities, reach] = await Promise.all([
+    nearbyAmenities(coords).catch(() => noAmenities),
+    drivingReach(coords).catch(() => []),
+  ]);
+  const score = await getScore(coords, property?.id, amenities.points).catch(() => null);
+
+  return {
+    ref,
+    name: property?.name,
+    community: property?.community ?? estimate.explanation.zone?.name,
+    coords,
+    valueAED: property?.estimatedValueAED ?? estimate.value,
+    pricePerSqft: property?.pricePerSqft ?? estimate.pricePerSqFt,
+    rentYield: property?.rentYield ?? estimate.yield,
+    score: score?.score,
+    sizeSqft: estimate.size,
+    priceTrend: property?.priceTrend.length ? property.priceTrend : estimate.priceTrend,
+    nearest: amenities.nearest,
+    reach,
+  };
+}
@@ -0,0 +1,43 @@
+import type { PropertyEstimate } from '@shared/schema';
+import type { PropertyData } from '@/components/panels/PropertyDetailsPanel';
+
+/**
+ * Fetch deterministic metrics for a coordinate from the estimation service
+ */
+export async function getPropertyEstimate(coordinates: [number, number]): Promise<PropertyEstimate> {
+  const response = await fetch('/api/estimate', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ coordinates })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to estimate property: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Map an estimate onto the details panel shape
+ */
+export function estimateToPropertyData(
+  estimate: PropertyEstimate,
+  base: Pick<PropertyData, 'id' | 'name' | 'address' | 'location'>
+): PropertyData {
+  return {
+    ...base,
+    coordinates: estimate.coordinates,
+    value: estimate.value,
+    pricePerSqFt: estimate.pricePerSqFt,
+    yield: estimate.yield,
+    propertyType: estimate.propertyType,
+    bedrooms: estimate.bedrooms,
+    size: estimate.size,
+    marketTrend: estimate.marketTrend,
+    priceHistory: estimate.priceTrend.length ? estimate.priceTrend : undefined,
+    estimate
+  };
+}
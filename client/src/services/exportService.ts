@@ -0,0 +1,97 @@
+import { bboxesIntersect, pointInBBox, pointInPolygon, polygonAreaSqMeters, polygonBBox, polygonCentroid, type BBox } from '@shared/geo';
+import { buildZonesFeatureCollection, toFeatureCollection, type PropertyPoint, type Zone } from '@/data/mockProperties';
+import type { AmenityResult } from '@/hooks/useSearchBoxAmenities';
+import { EXPORT_FORMATS, downloadText, formatFeatureCollection, type ExportFormat } from '@/lib/exportFormats';
+
+export type ExportDataset = 'properties' | 'zones' | 'searchArea' | 'isochrones' | 'amenities';
+
+export const EXPORT_DATASETS: Record<ExportDataset, string> = {
+  properties: 'Properties',
+  zones: 'Zones',
+  searchArea: 'Drawn area',
+  isochrones: 'Travel-time zones',
+  amenities: 'Amenities',
+};
+
+export type ExportSources = {
+  properties: PropertyPoint[];
+  zones: Zone[];
+  searchArea: GeoJSON.Feature<GeoJSON.Polygon> | null;
+  isochrones: GeoJSON.FeatureCollection<GeoJSON.Polygon> | null;
+  amenities: AmenityResult[];
+};
+
+/**
+ * Which features make it into an export: those on screen when `bounds` is set, and those
+ * inside the drawn search area when there is one.
+ */
+export type ExportScope = {
+  bounds?: BBox | null;
+  area?: GeoJSON.Polygon | null;
+};
+
+type AnyFeatureCollection = GeoJSON.FeatureCollection<GeoJSON.Geometry, GeoJSON.GeoJsonProperties>;
+
+const keepPoint = ({ bounds, area }: ExportScope) => (p: [number, number]) =>
+  (!bounds || pointInBBox(p, bounds)) && (!area || pointInPolygon(p, area));
+
+// Polygons are kept when they overlap the view, and when their centre lies in the drawn area
+const keepPolygon = ({ bounds, area }: ExportScope) => (polygon: GeoJSON.Polygon) =>
+  (!bounds || bboxesIntersect(polygonBBox(polygon), bounds)) && (!area || pointInPolygon(polygonCentroid(polygon), area));
+
+export function buildExport(dataset: ExportDataset, sources: ExportSources, scope: ExportScope = {}): AnyFeatureCollection {
+  const inScope = keepPoint(scope);
+  switch (dataset) {
+    case 'properties':
+      return toFeatureCollection(sources.properties.filter((p) => inScope(p.coords as [number, number])));
+    case 'zones': {
+      const fc = buildZonesFeatureCollection(sources.zones);
+      return { ...fc, features: fc.features.filter((f) => keepPolygon(scope)(f.geometry)) };
+    }
+    case 'searchArea':
+      // The drawn area is the filter itself, so only the view bounds apply
+      return {
+        type: 'FeatureCollection',
+        features: sources.searchArea && keepPolygon({ bounds: scope.bounds })(sources.searchArea.geometry)
+          ? [{ ...sources.searchArea, properties: { name: 'Drawn area', areaSqKm: Math.round(polygonAreaSqMeters(sources.searchArea.geometry) / 1e4) / 100 } }]
+          : [],
+      };
+    case 'isochrones':
+      // Contours are drawn around the selection rather than filtered by the drawn area
+      return {
+        type: 'FeatureCollection',
+        features: (sources.isochrones?.features ?? [])
+          .filter((f) => keepPolygon({ bounds: scope.bounds })(f.geometry))
+          .map((f) => ({ ...f, properties: { minutes: f.properties?.contour, ...f.properties } })),
+      };
+    case 'amenities':
+      return {
+        type: 'FeatureCollection',
+        features: sources.amenities
+          .filter((a) => inScope(a.center))
+          .map((a) => ({
+            type: 'Feature' as const,
+            properties: {
+              id: a.id,
+              name: a.name,
+              category: a.category,
+              address: a.address ?? null,
+              distanceMeters: a.distanceMeters != null ? Math.round(a.distanceMeters) : null,
+              rating: a.rating ?? null,
+            },
+            geometry: { type: 'Point' as const, coordinates: a.center },
+          })),
+      };
+  }
+}
+
+/**
+ * Build, format and download one dataset. Returns how many features were written.
+ */
+export function exportDataset(dataset: ExportDataset, format: ExportFormat, sources: ExportSources, scope: ExportScope = {}): number {
+  const fc = buildExport(dataset, sources, scope);
+  const { extension, mimeType } = EXPORT_FORMATS[format];
+  const name = `uae-${dataset.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)}-${new Date().toISOString().slice(0, 10)}`;
+  downloadText(`${name}.${extension}`, formatFeatureCollection(fc, format, EXPORT_DATASETS[dataset]), mimeType);
+  return fc.features.length;
+}
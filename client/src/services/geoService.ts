@@ -0,0 +1,60 @@
+import type { GeoPlace, GeoRoute, IsochroneCollection } from '@shared/schema';
+import type { TravelProfile } from '@/lib/viewState';
+
+type Params = Record<string, string | number | boolean | number[] | undefined>;
+
+// Mapbox calls go through the server, which holds the token, caches and rate-limits them
+async function getGeo<T>(path: string, params: Params, signal?: AbortSignal): Promise<T> {
+  const search = new URLSearchParams();
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined) search.set(name, Array.isArray(value) ? value.join(',') : String(value));
+  }
+  const response = await fetch(`/api/geo/${path}?${search}`, { signal });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || `Geo request failed: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export type GeocodeOptions = {
+  limit?: number;
+  proximity?: [number, number];
+  bbox?: [number, number, number, number];
+  types?: string;
+  autocomplete?: boolean;
+};
+
+/**
+ * Forward geocoding within the UAE
+ */
+export async function geocodePlaces(q: string, options: GeocodeOptions = {}, signal?: AbortSignal): Promise<GeoPlace[]> {
+  return (await getGeo<{ places: GeoPlace[] }>('geocode', { q, ...options }, signal)).places;
+}
+
+/**
+ * Points of interest matching `q` near a location
+ */
+export async function searchPlaces(
+  q: string,
+  options: { limit?: number; proximity?: [number, number]; bbox?: [number, number, number, number] } = {},
+  signal?: AbortSignal
+): Promise<GeoPlace[]> {
+  return (await getGeo<{ places: GeoPlace[] }>('searchbox', { q, ...options }, signal)).places;
+}
+
+/**
+ * Fastest route between two points, or null when there is none
+ */
+export async function fetchRoute(profile: TravelProfile, from: [number, number], to: [number, number]): Promise<GeoRoute | null> {
+  return (await getGeo<{ route: GeoRoute | null }>('directions', { profile, from, to })).route;
+}
+
+/**
+ * Travel-time contours around a point; each feature's `contour` is its minutes
+ */
+export async function fetchIsochrone(profile: TravelProfile, [lng, lat]: [number, number], minutes: number[]): Promise<IsochroneCollection> {
+  return getGeo<IsochroneCollection>('isochrone', { profile, lng, lat, minutes });
+}
@@ -0,0 +1,51 @@
+import type { PropertyReportRequest, ScoreWeights } from '@shared/schema';
+import type { AmenityResult } from '@/hooks/useSearchBoxAmenities';
+import type { TravelProfile } from '@/lib/viewState';
+import { fetchIsochrone } from '@/services/geoService';
+
+export type ReportContext = {
+  // Amenities currently listed in the stats panel
+  amenities?: AmenityResult[];
+  // Travel-time zones to draw, fetched through the server's Mapbox proxy
+  isochrone?: { profile: TravelProfile; minutes: number[] };
+  weights?: ScoreWeights;
+};
+
+async function reportContours(center: [number, number], { profile, minutes }: NonNullable<ReportContext['isochrone']>): Promise<PropertyReportRequest['isochrone']> {
+  const geo = await fetchIsochrone(profile, center, minutes);
+  const contours = geo.features.map((f) => ({ minutes: f.properties.contour, polygon: f.geometry }));
+  return contours.length ? { profile, contours } : undefined;
+}
+
+/**
+ * Render the printable investment report server-side and return its HTML
+ */
+export async function generatePropertyReport(
+  subject: { coordinates: [number, number]; propertyId?: string; name?: string; address?: string },
+  { amenities = [], isochrone, weights }: ReportContext = {}
+): Promise<string> {
+  const contours = isochrone
+    ? await reportContours(subject.coordinates, isochrone).catch(() => undefined)
+    : undefined;
+
+  const request: PropertyReportRequest = {
+    ...subject,
+    amenities: amenities.map((a) => ({ name: a.name, category: a.category, center: a.center })),
+    isochrone: contours,
+    weights,
+  };
+  const response = await fetch('/api/reports/property', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(request)
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || `Failed to generate report: ${response.statusText}`);
+  }
+
+  return response.text();
+}
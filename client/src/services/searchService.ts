@@ -0,0 +1,21 @@
+import type { SearchResponse, SearchResultType } from '@shared/schema';
+
+/**
+ * Fuzzy English/Arabic search over buildings, communities, projects and developers
+ */
+export async function searchIndex(
+  q: string,
+  options: { limit?: number; types?: SearchResultType[] } = {},
+  signal?: AbortSignal
+): Promise<SearchResponse> {
+  const params = new URLSearchParams({ q });
+  if (options.limit) params.set('limit', String(options.limit));
+  if (options.types) params.set('types', options.types.join(','));
+  const response = await fetch(`/api/search?${params}`, { signal });
+
+  if (!response.ok) {
+    throw new Error(`Search failed: ${response.statusText}`);
+  }
+
+  return response.json();
+}
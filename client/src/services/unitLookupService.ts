@@ -0,0 +1,44 @@
+import type { UnitLookupResult } from '@shared/schema';
+import type { IdentifierPayload } from '@/components/controls/IdentifierBar';
+import type { PropertyData } from '@/components/panels/PropertyDetailsPanel';
+
+/**
+ * Units registered under an identifier; resolves to an empty list when nothing matches
+ */
+export async function lookupUnit({ type, value }: IdentifierPayload): Promise<UnitLookupResult[]> {
+  const params = new URLSearchParams({ type, value });
+  const response = await fetch(`/api/units/lookup?${params}`);
+
+  if (response.status === 404) return [];
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || `Unit lookup failed: ${response.statusText}`);
+  }
+
+  const { matches } = await response.json();
+  return matches;
+}
+
+/**
+ * Map a looked-up unit onto the details panel shape; building-level metrics fill the gaps
+ */
+export function unitToPropertyData({ unit, identifiers, building, marketTrend }: UnitLookupResult): PropertyData {
+  return {
+    id: `unit-${unit.id}`,
+    propertyId: building.id,
+    name: `${building.name} – Unit ${unit.unitNumber}`,
+    address: `${building.name}, ${building.community}`,
+    location: building.community,
+    coordinates: building.coords,
+    imageUrl: building.imageUrl,
+    value: unit.valueAED,
+    pricePerSqFt: Math.round(unit.valueAED / unit.sizeSqft),
+    yield: building.rentYield,
+    marketTrend,
+    propertyType: 'Apartment',
+    bedrooms: unit.bedrooms,
+    size: unit.sizeSqft,
+    priceHistory: building.priceTrend.length ? building.priceTrend : undefined,
+    unit: { unitNumber: unit.unitNumber, identifiers },
+  };
+}
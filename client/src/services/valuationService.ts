@@ -0,0 +1,22 @@
+import type { Valuation } from '@shared/schema';
+import type { ValuationFormValues } from '@/components/controls/ValuationForm';
+
+/**
+ * Value a unit from the form inputs; rejects with the server's message when it can't
+ */
+export async function getValuation(values: ValuationFormValues): Promise<Valuation> {
+  const response = await fetch('/api/valuation', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(values)
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || `Failed to calculate valuation: ${response.statusText}`);
+  }
+
+  return response.json();
+}
@@ -0,0 +1,56 @@
+import type { FeatureCollection, Polygon } from "geojson";
+
+// Approximate community outlines traced from public maps; replace with survey boundaries via `npm run import -- zones <file>.geojson`
+export const communityBoundaries: FeatureCollection<Polygon, { id: string; name: string }> = {
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      properties: { id: 'zone-dm', name: 'Dubai Marina' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [[
+          [55.1300, 25.0870], [55.1315, 25.0925], [55.1385, 25.0965], [55.1445, 25.0920],
+          [55.1500, 25.0860], [55.1545, 25.0790], [55.1490, 25.0735], [55.1415, 25.0700],
+          [55.1350, 25.0745], [55.1330, 25.0810], [55.1300, 25.0870],
+        ]],
+      },
+    },
+    {
+      type: 'Feature',
+      properties: { id: 'zone-downtown', name: 'Downtown Dubai' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [[
+          [55.2630, 25.1940], [55.2655, 25.2005], [55.2720, 25.2065], [55.2815, 25.2010],
+          [55.2890, 25.1950], [55.2850, 25.1880], [55.2770, 25.1840], [55.2690, 25.1880],
+          [55.2630, 25.1940],
+        ]],
+      },
+    },
+    {
+      type: 'Feature',
+      properties: { id: 'zone-jvc', name: 'Jumeirah Village Circle' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [[
+          [55.2090, 25.0710], [55.2175, 25.0675], [55.2210, 25.0590], [55.2175, 25.0505],
+          [55.2090, 25.0470], [55.2005, 25.0505], [55.1970, 25.0590], [55.2005, 25.0675],
+          [55.2090, 25.0710],
+        ]],
+      },
+    },
+    {
+      type: 'Feature',
+      properties: { id: 'zone-corniche', name: 'Abu Dhabi Corniche' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [[
+          [54.3200, 24.4640], [54.3260, 24.4700], [54.3420, 24.4850], [54.3580, 24.5000],
+          [54.3660, 24.4960], [54.3560, 24.4860], [54.3400, 24.4720], [54.3270, 24.4590],
+          [54.3200, 24.4640],
+        ]],
+      },
+    },
+  ],
+};
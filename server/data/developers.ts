@@ -0,0 +1,18 @@
+import type { Developer } from "../services/searchIndex";
+
+// Major UAE developers and the gazetteer places they built, so a developer search lands on their
+// projects. `projects` are gazetteer ids.
+export const developers: Developer[] = [
+  { id: 'emaar', name: 'Emaar Properties', nameAr: 'إعمار العقارية', aliases: ['emaar'], projects: ['downtown-dubai', 'dubai-hills-estate', 'dubai-creek-harbour', 'dubai-marina', 'arabian-ranches', 'emaar-beachfront', 'the-greens', 'the-springs', 'the-meadows', 'emirates-hills'] },
+  { id: 'nakheel', name: 'Nakheel', nameAr: 'نخيل', projects: ['palm-jumeirah', 'jumeirah-village', 'jvc', 'jvt', 'jlt', 'discovery-gardens', 'al-furjan', 'international-city'] },
+  { id: 'meraas', name: 'Meraas', nameAr: 'مراس', projects: ['city-walk', 'bluewaters'] },
+  { id: 'dubai-properties', name: 'Dubai Properties', nameAr: 'دبي للعقارات', aliases: ['dp'], projects: ['jbr', 'business-bay'] },
+  { id: 'damac', name: 'DAMAC Properties', nameAr: 'داماك العقارية', aliases: ['damac'], projects: ['damac-hills'] },
+  { id: 'sobha', name: 'Sobha Realty', nameAr: 'شوبا العقارية', aliases: ['sobha'], projects: ['sobha-hartland'] },
+  { id: 'meydan', name: 'Meydan', nameAr: 'ميدان', projects: ['mbr-city', 'district-one'] },
+  { id: 'nshama', name: 'Nshama', nameAr: 'نشامى', projects: ['town-square'] },
+  { id: 'majid-al-futtaim', name: 'Majid Al Futtaim', nameAr: 'ماجد الفطيم', aliases: ['maf'], projects: ['tilal-al-ghaf'] },
+  { id: 'aldar', name: 'Aldar Properties', nameAr: 'الدار العقارية', aliases: ['aldar'], projects: ['yas-island', 'saadiyat-island', 'al-raha-beach'] },
+  { id: 'arada', name: 'Arada', nameAr: 'أرادَ', projects: ['aljada'] },
+  { id: 'al-hamra', name: 'Al Hamra', nameAr: 'الحمرا', projects: ['al-hamra-village', 'al-marjan-island'] },
+];
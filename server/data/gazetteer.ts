@@ -0,0 +1,90 @@
+import type { GazetteerEntry } from "../services/gazetteer";
+
+// Emirates, master projects, communities and sub-communities searched before any remote geocoder.
+// Centres are approximate (to ~200 m); `aliases` holds abbreviations and common spellings.
+export const gazetteer: GazetteerEntry[] = [
+  // Emirates; the box is the main city, which is what people searching the name want to see
+  { id: 'dubai', kind: 'emirate', name: 'Dubai', nameAr: 'دبي', aliases: ['dxb'], center: [55.2708, 25.2048], bbox: [54.89, 24.79, 55.57, 25.36] },
+  { id: 'abu-dhabi', kind: 'emirate', name: 'Abu Dhabi', nameAr: 'أبوظبي', aliases: ['auh', 'abudhabi', 'abu zabi'], center: [54.3773, 24.4539], bbox: [54.25, 24.2, 54.75, 24.62] },
+  { id: 'sharjah', kind: 'emirate', name: 'Sharjah', nameAr: 'الشارقة', aliases: ['shj', 'sharja'], center: [55.4033, 25.3463], bbox: [55.35, 25.2, 55.65, 25.42] },
+  { id: 'ajman', kind: 'emirate', name: 'Ajman', nameAr: 'عجمان', center: [55.5136, 25.4052], bbox: [55.42, 25.36, 55.6, 25.47] },
+  { id: 'umm-al-quwain', kind: 'emirate', name: 'Umm Al Quwain', nameAr: 'أم القيوين', aliases: ['uaq', 'umm al qaiwain'], center: [55.555, 25.5647], bbox: [55.53, 25.45, 55.8, 25.62] },
+  { id: 'ras-al-khaimah', kind: 'emirate', name: 'Ras Al Khaimah', nameAr: 'رأس الخيمة', aliases: ['rak'], center: [55.9432, 25.8007], bbox: [55.72, 25.55, 56.1, 26.05] },
+  { id: 'fujairah', kind: 'emirate', name: 'Fujairah', nameAr: 'الفجيرة', aliases: ['fujeirah'], center: [56.3414, 25.1288], bbox: [56.22, 25.05, 56.4, 25.3] },
+
+  // Dubai master projects
+  { id: 'downtown-dubai', kind: 'master_project', name: 'Downtown Dubai', nameAr: 'وسط مدينة دبي', aliases: ['downtown', 'burj khalifa'], emirate: 'dubai', center: [55.2744, 25.1972] },
+  { id: 'palm-jumeirah', kind: 'master_project', name: 'Palm Jumeirah', nameAr: 'نخلة جميرا', aliases: ['the palm', 'palm'], emirate: 'dubai', center: [55.138, 25.1124] },
+  { id: 'dubai-hills-estate', kind: 'master_project', name: 'Dubai Hills Estate', nameAr: 'دبي هيلز استيت', aliases: ['dubai hills', 'dhe'], emirate: 'dubai', center: [55.245, 25.11] },
+  { id: 'dubai-creek-harbour', kind: 'master_project', name: 'Dubai Creek Harbour', nameAr: 'خور دبي', aliases: ['creek harbour', 'creek harbor', 'the lagoons'], emirate: 'dubai', center: [55.345, 25.2] },
+  { id: 'mbr-city', kind: 'master_project', name: 'Mohammed Bin Rashid City', nameAr: 'مدينة محمد بن راشد', aliases: ['mbr city', 'mbrc', 'meydan'], emirate: 'dubai', center: [55.3, 25.16] },
+  { id: 'dubai-south', kind: 'master_project', name: 'Dubai South', nameAr: 'دبي الجنوب', aliases: ['dwc', 'dubai world central'], emirate: 'dubai', center: [55.16, 24.89] },
+  { id: 'dubai-harbour', kind: 'master_project', name: 'Dubai Harbour', nameAr: 'ميناء دبي', aliases: ['dubai harbor'], emirate: 'dubai', center: [55.139, 25.093] },
+  { id: 'jumeirah-village', kind: 'master_project', name: 'Jumeirah Village', nameAr: 'قرية جميرا', aliases: ['jv'], emirate: 'dubai', center: [55.2, 25.052] },
+
+  // Dubai communities
+  { id: 'dubai-marina', kind: 'community', name: 'Dubai Marina', nameAr: 'دبي مارينا', aliases: ['marina', 'dm'], emirate: 'dubai', center: [55.1403, 25.0805] },
+  { id: 'jbr', kind: 'community', name: 'Jumeirah Beach Residence', nameAr: 'جميرا بيتش ريزيدنس', aliases: ['jbr', 'the walk'], emirate: 'dubai', center: [55.134, 25.078] },
+  { id: 'jlt', kind: 'community', name: 'Jumeirah Lakes Towers', nameAr: 'أبراج بحيرات جميرا', aliases: ['jlt'], emirate: 'dubai', center: [55.145, 25.0693] },
+  { id: 'business-bay', kind: 'community', name: 'Business Bay', nameAr: 'الخليج التجاري', aliases: ['bb'], emirate: 'dubai', center: [55.262, 25.186] },
+  { id: 'difc', kind: 'community', name: 'Dubai International Financial Centre', nameAr: 'مركز دبي المالي العالمي', aliases: ['difc', 'financial centre', 'financial center'], emirate: 'dubai', center: [55.282, 25.213] },
+  { id: 'jvc', kind: 'community', name: 'Jumeirah Village Circle', nameAr: 'قرية جميرا الدائرية', aliases: ['jvc'], emirate: 'dubai', parent: 'jumeirah-village', center: [55.209, 25.059] },
+  { id: 'jvt', kind: 'community', name: 'Jumeirah Village Triangle', nameAr: 'قرية جميرا المثلثة', aliases: ['jvt'], emirate: 'dubai', parent: 'jumeirah-village', center: [55.19, 25.044] },
+  { id: 'arabian-ranches', kind: 'community', name: 'Arabian Ranches', nameAr: 'المرابع العربية', aliases: ['ranches'], emirate: 'dubai', center: [55.27, 25.055] },
+  { id: 'al-barsha', kind: 'community', name: 'Al Barsha', nameAr: 'البرشاء', aliases: ['barsha'], emirate: 'dubai', center: [55.2, 25.11] },
+  { id: 'deira', kind: 'community', name: 'Deira', nameAr: 'ديرة', emirate: 'dubai', center: [55.32, 25.27] },
+  { id: 'bur-dubai', kind: 'community', name: 'Bur Dubai', nameAr: 'بر دبي', emirate: 'dubai', center: [55.296, 25.253] },
+  { id: 'jumeirah', kind: 'community', name: 'Jumeirah', nameAr: 'جميرا', aliases: ['jumeira'], emirate: 'dubai', center: [55.246, 25.208] },
+  { id: 'umm-suqeim', kind: 'community', name: 'Umm Suqeim', nameAr: 'أم سقيم', emirate: 'dubai', center: [55.215, 25.15] },
+  { id: 'al-quoz', kind: 'community', name: 'Al Quoz', nameAr: 'القوز', aliases: ['quoz'], emirate: 'dubai', center: [55.23, 25.142] },
+  { id: 'al-karama', kind: 'community', name: 'Al Karama', nameAr: 'الكرامة', aliases: ['karama'], emirate: 'dubai', center: [55.303, 25.245] },
+  { id: 'city-walk', kind: 'community', name: 'City Walk', nameAr: 'سيتي ووك', emirate: 'dubai', center: [55.261, 25.207] },
+  { id: 'dubai-silicon-oasis', kind: 'community', name: 'Dubai Silicon Oasis', nameAr: 'واحة دبي للسيليكون', aliases: ['dso', 'silicon oasis'], emirate: 'dubai', center: [55.38, 25.12] },
+  { id: 'international-city', kind: 'community', name: 'International City', nameAr: 'المدينة العالمية', emirate: 'dubai', center: [55.408, 25.164] },
+  { id: 'mirdif', kind: 'community', name: 'Mirdif', nameAr: 'مردف', aliases: ['mirdiff'], emirate: 'dubai', center: [55.42, 25.22] },
+  { id: 'dubai-festival-city', kind: 'community', name: 'Dubai Festival City', nameAr: 'دبي فستيفال سيتي', aliases: ['festival city', 'dfc'], emirate: 'dubai', center: [55.352, 25.222] },
+  { id: 'dubai-sports-city', kind: 'community', name: 'Dubai Sports City', nameAr: 'مدينة دبي الرياضية', aliases: ['sports city', 'dsc'], emirate: 'dubai', center: [55.22, 25.04] },
+  { id: 'motor-city', kind: 'community', name: 'Motor City', nameAr: 'موتور سيتي', emirate: 'dubai', center: [55.235, 25.048] },
+  { id: 'damac-hills', kind: 'community', name: 'DAMAC Hills', nameAr: 'داماك هيلز', aliases: ['akoya'], emirate: 'dubai', center: [55.255, 25.025] },
+  { id: 'town-square', kind: 'community', name: 'Town Square', nameAr: 'تاون سكوير', emirate: 'dubai', center: [55.297, 24.999] },
+  { id: 'emirates-hills', kind: 'community', name: 'Emirates Hills', nameAr: 'تلال الإمارات', emirate: 'dubai', center: [55.17, 25.07] },
+  { id: 'the-greens', kind: 'community', name: 'The Greens', nameAr: 'ذا جرينز', aliases: ['greens'], emirate: 'dubai', center: [55.173, 25.095] },
+  { id: 'the-springs', kind: 'community', name: 'The Springs', nameAr: 'الينابيع', aliases: ['springs'], emirate: 'dubai', center: [55.18, 25.06] },
+  { id: 'the-meadows', kind: 'community', name: 'The Meadows', nameAr: 'المروج', aliases: ['meadows'], emirate: 'dubai', center: [55.16, 25.06] },
+  { id: 'al-furjan', kind: 'community', name: 'Al Furjan', nameAr: 'الفرجان', aliases: ['furjan'], emirate: 'dubai', center: [55.145, 25.03] },
+  { id: 'discovery-gardens', kind: 'community', name: 'Discovery Gardens', nameAr: 'ديسكفري جاردنز', emirate: 'dubai', center: [55.14, 25.04] },
+  { id: 'bluewaters', kind: 'community', name: 'Bluewaters Island', nameAr: 'جزيرة بلووترز', aliases: ['bluewaters'], emirate: 'dubai', center: [55.12, 25.08] },
+  { id: 'jumeirah-golf-estates', kind: 'community', name: 'Jumeirah Golf Estates', nameAr: 'جميرا جولف استيتس', aliases: ['jge'], emirate: 'dubai', center: [55.2, 25.02] },
+  { id: 'tilal-al-ghaf', kind: 'community', name: 'Tilal Al Ghaf', nameAr: 'تلال الغاف', emirate: 'dubai', center: [55.23, 25.015] },
+
+  // Dubai sub-communities
+  { id: 'old-town', kind: 'sub_community', name: 'Old Town', nameAr: 'البلدة القديمة', emirate: 'dubai', parent: 'downtown-dubai', center: [55.277, 25.193] },
+  { id: 'opera-district', kind: 'sub_community', name: 'Opera District', nameAr: 'حي الأوبرا', emirate: 'dubai', parent: 'downtown-dubai', center: [55.273, 25.1955] },
+  { id: 'palm-shoreline', kind: 'sub_community', name: 'Shoreline Apartments', nameAr: 'شقق الشورلاين', aliases: ['shoreline'], emirate: 'dubai', parent: 'palm-jumeirah', center: [55.142, 25.111] },
+  { id: 'palm-crescent', kind: 'sub_community', name: 'The Crescent', nameAr: 'الهلال', aliases: ['crescent'], emirate: 'dubai', parent: 'palm-jumeirah', center: [55.12, 25.13] },
+  { id: 'emaar-beachfront', kind: 'sub_community', name: 'Emaar Beachfront', nameAr: 'إعمار بيتشفرونت', aliases: ['beachfront'], emirate: 'dubai', parent: 'dubai-harbour', center: [55.141, 25.096] },
+  { id: 'sobha-hartland', kind: 'sub_community', name: 'Sobha Hartland', nameAr: 'شوبا هارتلاند', aliases: ['hartland'], emirate: 'dubai', parent: 'mbr-city', center: [55.312, 25.18] },
+  { id: 'district-one', kind: 'sub_community', name: 'District One', nameAr: 'ديستركت ون', aliases: ['district 1'], emirate: 'dubai', parent: 'mbr-city', center: [55.288, 25.16] },
+
+  // Abu Dhabi
+  { id: 'abu-dhabi-corniche', kind: 'community', name: 'Abu Dhabi Corniche', nameAr: 'كورنيش أبوظبي', aliases: ['corniche'], emirate: 'abu-dhabi', center: [54.356, 24.476] },
+  { id: 'al-reem-island', kind: 'community', name: 'Al Reem Island', nameAr: 'جزيرة الريم', aliases: ['reem island', 'reem'], emirate: 'abu-dhabi', center: [54.403, 24.498] },
+  { id: 'al-maryah-island', kind: 'community', name: 'Al Maryah Island', nameAr: 'جزيرة الماريه', aliases: ['maryah island', 'maryah'], emirate: 'abu-dhabi', center: [54.39, 24.501] },
+  { id: 'saadiyat-island', kind: 'master_project', name: 'Saadiyat Island', nameAr: 'جزيرة السعديات', aliases: ['saadiyat'], emirate: 'abu-dhabi', center: [54.435, 24.54] },
+  { id: 'yas-island', kind: 'master_project', name: 'Yas Island', nameAr: 'جزيرة ياس', aliases: ['yas'], emirate: 'abu-dhabi', center: [54.605, 24.49] },
+  { id: 'al-raha-beach', kind: 'community', name: 'Al Raha Beach', nameAr: 'شاطئ الراحة', aliases: ['raha beach'], emirate: 'abu-dhabi', center: [54.6, 24.45] },
+  { id: 'khalifa-city', kind: 'community', name: 'Khalifa City', nameAr: 'مدينة خليفة', emirate: 'abu-dhabi', center: [54.58, 24.42] },
+  { id: 'masdar-city', kind: 'master_project', name: 'Masdar City', nameAr: 'مدينة مصدر', aliases: ['masdar'], emirate: 'abu-dhabi', center: [54.615, 24.426] },
+  { id: 'mbz-city', kind: 'community', name: 'Mohammed Bin Zayed City', nameAr: 'مدينة محمد بن زايد', aliases: ['mbz city', 'mbz'], emirate: 'abu-dhabi', center: [54.55, 24.35] },
+  { id: 'al-reef', kind: 'community', name: 'Al Reef', nameAr: 'الريف', emirate: 'abu-dhabi', center: [54.68, 24.46] },
+
+  // Northern emirates
+  { id: 'al-majaz', kind: 'community', name: 'Al Majaz', nameAr: 'المجاز', aliases: ['majaz'], emirate: 'sharjah', center: [55.385, 25.325] },
+  { id: 'al-khan', kind: 'community', name: 'Al Khan', nameAr: 'الخان', emirate: 'sharjah', center: [55.37, 25.328] },
+  { id: 'al-nahda-sharjah', kind: 'community', name: 'Al Nahda', nameAr: 'النهدة', aliases: ['nahda'], emirate: 'sharjah', center: [55.375, 25.3] },
+  { id: 'muwaileh', kind: 'community', name: 'Muwaileh', nameAr: 'مويلح', emirate: 'sharjah', center: [55.45, 25.3] },
+  { id: 'aljada', kind: 'master_project', name: 'Aljada', nameAr: 'الجادة', emirate: 'sharjah', center: [55.46, 25.31] },
+  { id: 'al-nuaimiya', kind: 'community', name: 'Al Nuaimiya', nameAr: 'النعيمية', aliases: ['nuaimiya'], emirate: 'ajman', center: [55.46, 25.39] },
+  { id: 'al-marjan-island', kind: 'master_project', name: 'Al Marjan Island', nameAr: 'جزيرة المرجان', aliases: ['marjan island', 'marjan'], emirate: 'ras-al-khaimah', center: [55.74, 25.67] },
+  { id: 'al-hamra-village', kind: 'community', name: 'Al Hamra Village', nameAr: 'قرية الحمراء', aliases: ['al hamra'], emirate: 'ras-al-khaimah', center: [55.78, 25.69] },
+];
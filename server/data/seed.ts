@@ -0,0 +1,117 @@
+import type { InsertProperty, InsertTransaction, InsertUnit, InsertUnitIdentifier, InsertZone, PriceTrendPoint } from "@shared/schema";
+import { communityBoundaries } from "./communityBoundaries";
+
+function monthlyTrend(build: (i: number) => number): PriceTrendPoint[] {
+  return Array.from({ length: 12 }).map((_, i) => ({
+    month: new Date(2024, i, 1).toLocaleString('en', { month: 'short' }),
+    value: build(i),
+  }));
+}
+
+// Starter catalogue the in-memory store is seeded with
+export const seedProperties: InsertProperty[] = [
+  {
+    id: "dubai-marina-01",
+    name: "Marina Heights",
+    community: "Dubai Marina",
+    lng: 55.1405,
+    lat: 25.0835,
+    estimatedValueAED: 2200000,
+    pricePerSqft: 2100,
+    rentYield: 6.8,
+    priceTrend: monthlyTrend((i) => 1800 + i * 30 + (i % 3 === 0 ? 40 : 0)),
+  },
+  {
+    id: "downtown-01",
+    name: "Burj Park Residences",
+    community: "Downtown Dubai",
+    lng: 55.2750,
+    lat: 25.1965,
+    estimatedValueAED: 3800000,
+    pricePerSqft: 3200,
+    rentYield: 5.2,
+    priceTrend: monthlyTrend((i) => 2900 + i * 25 + (i % 4 === 0 ? 60 : 0)),
+  },
+  {
+    id: "jvc-01",
+    name: "JVC Skyline",
+    community: "Jumeirah Village Circle",
+    lng: 55.205,
+    lat: 25.060,
+    estimatedValueAED: 1100000,
+    pricePerSqft: 1100,
+    rentYield: 7.6,
+    priceTrend: monthlyTrend((i) => 950 + i * 15 + (i % 5 === 0 ? 30 : 0)),
+  },
+  {
+    id: "abudhabi-01",
+    name: "Corniche Pearl",
+    community: "Abu Dhabi Corniche",
+    lng: 54.354,
+    lat: 24.494,
+    estimatedValueAED: 2600000,
+    pricePerSqft: 1700,
+    rentYield: 6.1,
+    priceTrend: monthlyTrend((i) => 1500 + i * 18 + (i % 3 === 0 ? 25 : 0)),
+  },
+];
+
+export const seedZones: InsertZone[] = communityBoundaries.features.map((f) => ({
+  id: f.properties.id,
+  name: f.properties.name,
+  polygon: f.geometry,
+}));
+
+// Sizes (sqft) of the sample units stocked in every seeded building, by bedroom count
+const UNIT_MIX: { bedrooms: number; sizes: number[] }[] = [
+  { bedrooms: 0, sizes: [420, 455, 490] },
+  { bedrooms: 1, sizes: [720, 780, 860] },
+  { bedrooms: 2, sizes: [1150, 1240, 1330] },
+  { bedrooms: 3, sizes: [1650, 1780] },
+  { bedrooms: 4, sizes: [2400, 2650] },
+];
+// Spread around the building's price per sqft so comparables don't all agree
+const PRICE_SPREAD = [0.94, 1.02, 1.07];
+
+export const seedUnits: InsertUnit[] = seedProperties.flatMap((property) =>
+  UNIT_MIX.flatMap(({ bedrooms, sizes }) =>
+    sizes.map((sizeSqft, i) => ({
+      propertyId: property.id,
+      unitNumber: `${bedrooms + 1}${String(i + 1).padStart(2, '0')}`,
+      bedrooms,
+      sizeSqft,
+      valueAED: Math.round((sizeSqft * property.pricePerSqft * PRICE_SPREAD[i]) / 1000) * 1000,
+    })),
+  ),
+);
+
+// Two sales a month per building across 2024, priced off the building's monthly trend
+export const seedTransactions: InsertTransaction[] = seedProperties.flatMap((property) => {
+  const stock = seedUnits.filter((u) => u.propertyId === property.id);
+  return (property.priceTrend ?? []).flatMap((point, month) =>
+    [0, 1].map((k) => {
+      const unit = stock[(month * 2 + k) % stock.length];
+      return {
+        propertyId: property.id,
+        date: `2024-${String(month + 1).padStart(2, '0')}-${String(5 + k * 12).padStart(2, '0')}`,
+        priceAED: Math.round((unit.sizeSqft * point.value * (k ? 1.03 : 0.97)) / 1000) * 1000,
+        sizeSqft: unit.sizeSqft,
+        unitType: 'Flat',
+        bedrooms: unit.bedrooms,
+        source: 'seed' as const,
+        sourceRef: `${property.id}-${month + 1}-${k + 1}`,
+      };
+    }),
+  );
+});
+
+// Sample registry numbers for the seeded units; unitId is the 1-based position in seedUnits
+export const seedUnitIdentifiers: InsertUnitIdentifier[] = seedUnits.flatMap((unit, i) => {
+  const unitId = i + 1;
+  const serial = String(unitId).padStart(4, '0');
+  return [
+    { unitId, type: 'dewa' as const, value: String(684200000 + unitId * 37) },
+    { unitId, type: 'oqoo' as const, value: `OQ-2023-${serial}` },
+    { unitId, type: 'title-deed' as const, value: `${1000 + unitId}/2024` },
+  ];
+});
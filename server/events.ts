@@ -0,0 +1,27 @@
+export type DataKind = "properties" | "zones" | "transactions";
+export type DataChange = { kinds: DataKind[] };
+
+type Listener = (change: DataChange) => Promise<void> | void;
+
+const listeners: Listener[] = [];
+
+/**
+ * Subscribe to writes of catalogue data (property edits, imports, zone uploads)
+ */
+export function onDataChanged(listener: Listener) {
+  listeners.push(listener);
+}
+
+/**
+ * Run every listener in order and wait for them, so derived data is fresh when the write returns.
+ * A failing listener is logged and doesn't stop the others or the write itself.
+ */
+export async function notifyDataChanged(change: DataChange) {
+  for (const listener of listeners) {
+    try {
+      await listener(change);
+    } catch (error) {
+      console.error('Data change listener error:', error);
+    }
+  }
+}
@@ -1,10 +1,14 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { setupAuth } from "./auth";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
-app.use(express.json());
+const json = express.json();
+// Bulk imports carry files far over the default JSON limit; that route parses its own body after the admin check
+app.use((req, res, next) => (req.path === "/api/admin/import" ? next() : json(req, res, next)));
 app.use(express.urlencoded({ extended: false }));
+setupAuth(app);
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, parseCsvRecords } from "./csv";
+
+describe("parseCsv", () => {
+  it("handles quoted fields, escaped quotes and CRLF", () => {
+    expect(parseCsv('a,"b,""c"""\r\n1,2\r\n')).toEqual([["a", 'b,"c"'], ["1", "2"]]);
+  });
+});
+
+describe("parseCsvRecords", () => {
+  it("reports the line each record starts on in the file", () => {
+    const text = 'name,price\n\nOne,1\n"Two\nlines",2\r\n\r\nThree,3\n';
+    expect(parseCsvRecords(text).map(({ line, record }) => [line, record.name])).toEqual([
+      [3, "One"],
+      [4, "Two\nlines"],
+      [7, "Three"],
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+type CsvRow = { line: number; cells: string[] };
+
+// Rows with the 1-based line each starts on; quoted fields may span lines
+function parseCsvRows(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  // Strip a UTF-8 BOM, which Excel adds to exports
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (inQuotes) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        if (ch === '\n' || (ch === '\r' && src[i + 1] !== '\n')) line++;
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some((f) => f !== '')) rows.push({ line: rowLine, cells: row });
+      row = [];
+      field = '';
+      rowLine = ++line;
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some((f) => f !== '')) rows.push({ line: rowLine, cells: row });
+  return rows;
+}
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes ("") and CRLF or LF line endings.
+ * Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  return parseCsvRows(text).map((row) => row.cells);
+}
+
+/**
+ * Parse CSV with a header row into records keyed by trimmed header names.
+ * `line` is the 1-based line the record starts on in the file, counting the header, blank lines
+ * and the extra lines of quoted multi-line fields.
+ */
+export function parseCsvRecords(text: string): { line: number; record: Record<string, string> }[] {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) return [];
+  const keys = header.cells.map((h) => h.trim());
+  return rows.map(({ line, cells }) => ({
+    line,
+    record: Object.fromEntries(keys.map((k, j) => [k, (cells[j] ?? '').trim()])),
+  }));
+}
@@ -0,0 +1,80 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DiskCache } from "./diskCache";
+
+const png = (fill: number, size = 100) => ({ contentType: "image/png", data: Buffer.alloc(size, fill) });
+
+describe("DiskCache", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "disk-cache-"));
+    // Recency is a millisecond timestamp, so step the clock between accesses explicitly
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const later = () => vi.setSystemTime(Date.now() + 1000);
+
+  it("misses, then hits once the key is written", async () => {
+    const cache = new DiskCache(dir, 1000);
+    expect(await cache.get("a")).toBeUndefined();
+
+    await cache.set("a", png(1));
+    const hit = await cache.get("a");
+    expect(hit?.contentType).toBe("image/png");
+    expect(hit?.data.equals(png(1).data)).toBe(true);
+
+    expect(await cache.stats()).toMatchObject({ entries: 1, bytes: 100, hits: 1, misses: 1, writes: 1, evictions: 0 });
+  });
+
+  it("stores identical content once", async () => {
+    const cache = new DiskCache(dir, 1000);
+    await cache.set("a", png(1));
+    await cache.set("b", png(1));
+    expect(await cache.stats()).toMatchObject({ entries: 2, blobs: 1, bytes: 100 });
+  });
+
+  it("evicts the least recently used entries once over the byte cap", async () => {
+    const cache = new DiskCache(dir, 250);
+    await cache.set("a", png(1));
+    later();
+    await cache.set("b", png(2));
+    later();
+    await cache.get("a");
+    later();
+    await cache.set("c", png(3));
+
+    expect(await cache.get("b")).toBeUndefined();
+    expect(await cache.get("a")).toBeDefined();
+    expect(await cache.get("c")).toBeDefined();
+    expect(await cache.stats()).toMatchObject({ entries: 2, bytes: 200, evictions: 1 });
+  });
+
+  it("skips data larger than the whole cache", async () => {
+    const cache = new DiskCache(dir, 50);
+    await cache.set("a", png(1));
+    expect(await cache.get("a")).toBeUndefined();
+    expect(await cache.stats()).toMatchObject({ entries: 0, writes: 0 });
+  });
+
+  it("purges by key prefix", async () => {
+    const cache = new DiskCache(dir, 1000);
+    await cache.set("satellite:1", png(1));
+    await cache.set("satellite:2", png(2));
+    await cache.set("streetview:1", png(3));
+
+    expect(await cache.purge("satellite:")).toBe(2);
+    expect(await cache.get("satellite:1")).toBeUndefined();
+    expect(await cache.get("streetview:1")).toBeDefined();
+    expect(await cache.stats()).toMatchObject({ entries: 1, blobs: 1, bytes: 100 });
+    expect(await cache.purge()).toBe(1);
+  });
+});
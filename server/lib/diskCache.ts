@@ -0,0 +1,176 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+export type CachedBlob = { contentType: string; data: Buffer };
+
+export type DiskCacheStats = {
+  entries: number;
+  blobs: number;
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  writes: number;
+  evictions: number;
+};
+
+type Entry = { key: string; contentHash: string; contentType: string; lastAccess: number };
+type Blob = { size: number; refs: number };
+
+const sha256 = (value: string | Buffer) => createHash("sha256").update(value).digest("hex");
+
+/**
+ * Content-addressed cache on disk with a byte cap and least-recently-used eviction.
+ *
+ * Each key is a small JSON file under `entries/` pointing at a blob under `blobs/` named by the
+ * SHA-256 of its bytes, so identical responses (e.g. Google's "no imagery" tile) are stored once.
+ * Recency is the entry file's mtime, so it survives restarts.
+ */
+export class DiskCache {
+  private entries = new Map<string, Entry>(); // by key hash
+  private blobs = new Map<string, Blob>(); // by content hash
+  private bytes = 0;
+  private counters = { hits: 0, misses: 0, writes: 0, evictions: 0 };
+  private ready: Promise<void> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private dir: string, private maxBytes: number) {}
+
+  // Index updates span several awaits, so writes run one at a time
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  private entryPath(keyHash: string) {
+    return path.join(this.dir, "entries", keyHash.slice(0, 2), `${keyHash}.json`);
+  }
+
+  private blobPath(contentHash: string) {
+    return path.join(this.dir, "blobs", contentHash.slice(0, 2), contentHash);
+  }
+
+  private async walk(sub: string): Promise<string[]> {
+    const root = path.join(this.dir, sub);
+    const shards = await fs.readdir(root).catch(() => [] as string[]);
+    const files = await Promise.all(shards.map(async (shard) =>
+      (await fs.readdir(path.join(root, shard)).catch(() => [] as string[])).map((f) => path.join(root, shard, f))));
+    return files.flat();
+  }
+
+  // Rebuild the index from disk once; entries whose blob is gone and unreferenced blobs are removed
+  private load() {
+    this.ready ??= (async () => {
+      for (const file of await this.walk("blobs")) {
+        const stat = await fs.stat(file).catch(() => null);
+        if (stat) this.blobs.set(path.basename(file), { size: stat.size, refs: 0 });
+      }
+      for (const file of await this.walk("entries")) {
+        try {
+          const [raw, stat] = await Promise.all([fs.readFile(file, "utf8"), fs.stat(file)]);
+          const { key, contentHash, contentType } = JSON.parse(raw);
+          const blob = this.blobs.get(contentHash);
+          if (!blob) throw new Error("missing blob");
+          blob.refs++;
+          this.entries.set(path.basename(file, ".json"), { key, contentHash, contentType, lastAccess: stat.mtimeMs });
+        } catch {
+          await fs.rm(file, { force: true });
+        }
+      }
+      for (const [contentHash, blob] of Array.from(this.blobs)) {
+        if (blob.refs) this.bytes += blob.size;
+        else await this.dropBlob(contentHash);
+      }
+    })();
+    return this.ready;
+  }
+
+  private async dropBlob(contentHash: string) {
+    this.blobs.delete(contentHash);
+    await fs.rm(this.blobPath(contentHash), { force: true });
+  }
+
+  private async removeEntry(keyHash: string) {
+    const entry = this.entries.get(keyHash);
+    if (!entry) return;
+    this.entries.delete(keyHash);
+    await fs.rm(this.entryPath(keyHash), { force: true });
+    const blob = this.blobs.get(entry.contentHash);
+    if (blob && --blob.refs === 0) {
+      this.bytes -= blob.size;
+      await this.dropBlob(entry.contentHash);
+    }
+  }
+
+  private async evict() {
+    if (this.bytes <= this.maxBytes) return;
+    const oldestFirst = Array.from(this.entries).sort((a, b) => a[1].lastAccess - b[1].lastAccess);
+    for (const [keyHash] of oldestFirst) {
+      if (this.bytes <= this.maxBytes) break;
+      await this.removeEntry(keyHash);
+      this.counters.evictions++;
+    }
+  }
+
+  async get(key: string): Promise<CachedBlob | undefined> {
+    await this.load();
+    const keyHash = sha256(key);
+    const entry = this.entries.get(keyHash);
+    const data = entry && await fs.readFile(this.blobPath(entry.contentHash)).catch(() => undefined);
+    if (!entry || !data) {
+      if (entry) await this.exclusive(() => this.removeEntry(keyHash));
+      this.counters.misses++;
+      return undefined;
+    }
+    this.counters.hits++;
+    entry.lastAccess = Date.now();
+    const now = new Date(entry.lastAccess);
+    fs.utimes(this.entryPath(keyHash), now, now).catch(() => {});
+    return { contentType: entry.contentType, data };
+  }
+
+  async set(key: string, { contentType, data }: CachedBlob): Promise<void> {
+    // Larger than the whole cache: not worth evicting everything else for
+    if (data.length > this.maxBytes) return;
+    await this.load();
+    const keyHash = sha256(key);
+    const contentHash = sha256(data);
+    await this.exclusive(async () => {
+      await this.removeEntry(keyHash);
+
+      const blob = this.blobs.get(contentHash);
+      if (blob) {
+        blob.refs++;
+      } else {
+        await fs.mkdir(path.dirname(this.blobPath(contentHash)), { recursive: true });
+        await fs.writeFile(this.blobPath(contentHash), data);
+        this.blobs.set(contentHash, { size: data.length, refs: 1 });
+        this.bytes += data.length;
+      }
+      await fs.mkdir(path.dirname(this.entryPath(keyHash)), { recursive: true });
+      await fs.writeFile(this.entryPath(keyHash), JSON.stringify({ key, contentHash, contentType }));
+      this.entries.set(keyHash, { key, contentHash, contentType, lastAccess: Date.now() });
+      this.counters.writes++;
+      await this.evict();
+    });
+  }
+
+  /**
+   * Remove every entry, or only those whose key starts with `prefix`. Returns how many were removed.
+   */
+  async purge(prefix = ""): Promise<number> {
+    await this.load();
+    return this.exclusive(async () => {
+      const matching = Array.from(this.entries).filter(([, e]) => e.key.startsWith(prefix)).map(([keyHash]) => keyHash);
+      for (const keyHash of matching) await this.removeEntry(keyHash);
+      return matching.length;
+    });
+  }
+
+  async stats(): Promise<DiskCacheStats> {
+    await this.load();
+    return { entries: this.entries.size, blobs: this.blobs.size, bytes: this.bytes, maxBytes: this.maxBytes, ...this.counters };
+  }
+}
@@ -0,0 +1,23 @@
+// "2024-03-15" -> "2024-03"
+export function monthKey(date: string) {
+  return date.slice(0, 7);
+}
+
+// "2024-03" -> "Mar 24"
+export function monthLabel(yearMonth: string) {
+  const [year, month] = yearMonth.split('-').map(Number);
+  return new Date(year, month - 1, 1).toLocaleString('en', { month: 'short' }) + ` ${String(year).slice(2)}`;
+}
+
+// Every month from one YYYY-MM key to another, inclusive
+export function monthRange(from: string, to: string): string[] {
+  const keys: string[] = [];
+  let [year, month] = from.split('-').map(Number);
+  const [endYear, endMonth] = to.split('-').map(Number);
+  while (year < endYear || (year === endYear && month <= endMonth)) {
+    keys.push(`${year}-${String(month).padStart(2, '0')}`);
+    month++;
+    if (month > 12) { month = 1; year++; }
+  }
+  return keys;
+}
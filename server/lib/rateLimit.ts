@@ -0,0 +1,40 @@
+import type { NextFunction, Request, Response } from "express";
+
+export type RateLimitOptions = {
+  windowMs: number;
+  max: number;
+  // Signed-in users are limited per account, everyone else per IP
+  key?: (req: Request) => string;
+};
+
+const clientKey = (req: Request) => (req.user ? `user:${req.user.id}` : `ip:${req.ip}`);
+
+/**
+ * Fixed-window request limit. Over the limit the client gets 429 with Retry-After.
+ */
+export function rateLimit({ windowMs, max, key = clientKey }: RateLimitOptions) {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    const id = key(req);
+    let window = windows.get(id);
+    if (!window || window.resetAt <= now) {
+      // Drop stale windows now and then so one-off clients don't accumulate
+      if (windows.size > 10_000) {
+        windows.forEach((w, k) => { if (w.resetAt <= now) windows.delete(k); });
+      }
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(id, window);
+    }
+
+    window.count++;
+    res.set('X-RateLimit-Limit', String(max));
+    res.set('X-RateLimit-Remaining', String(Math.max(0, max - window.count)));
+    if (window.count > max) {
+      res.set('Retry-After', String(Math.ceil((window.resetAt - now) / 1000)));
+      return res.status(429).json({ error: 'Too many requests; try again shortly', code: 'rate_limited' });
+    }
+    next();
+  };
+}
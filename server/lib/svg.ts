@@ -0,0 +1,94 @@
+import type { LngLat } from "@shared/geo";
+
+export function escapeXml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const r1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Line chart of labelled values with a min/max axis and first/last month labels
+ */
+export function lineChartSvg(
+  points: { label: string; value: number }[],
+  { width = 640, height = 220, color = "#2f9e6e", format = (v: number) => v.toLocaleString("en") } = {},
+): string {
+  if (points.length < 2) return "";
+  const pad = { top: 12, right: 12, bottom: 28, left: 64 };
+  const values = points.map((p) => p.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const x = (i: number) => pad.left + (i / (points.length - 1)) * (width - pad.left - pad.right);
+  const y = (v: number) => pad.top + (1 - (v - min) / span) * (height - pad.top - pad.bottom);
+  const path = points.map((p, i) => `${i ? "L" : "M"}${r1(x(i))},${r1(y(p.value))}`).join("");
+  const baseline = height - pad.bottom;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="100%" role="img">
+  <line x1="${pad.left}" y1="${baseline}" x2="${width - pad.right}" y2="${baseline}" stroke="#ddd"/>
+  <line x1="${pad.left}" y1="${pad.top}" x2="${width - pad.right}" y2="${pad.top}" stroke="#eee"/>
+  <text x="${pad.left - 6}" y="${pad.top + 4}" text-anchor="end" font-size="11" fill="#666">${escapeXml(format(max))}</text>
+  <text x="${pad.left - 6}" y="${baseline}" text-anchor="end" font-size="11" fill="#666">${escapeXml(format(min))}</text>
+  <text x="${pad.left}" y="${height - 8}" font-size="11" fill="#666">${escapeXml(points[0].label)}</text>
+  <text x="${width - pad.right}" y="${height - 8}" text-anchor="end" font-size="11" fill="#666">${escapeXml(points[points.length - 1].label)}</text>
+  <path d="${path}" fill="none" stroke="${color}" stroke-width="2.5" stroke-linejoin="round"/>
+  ${points.map((p, i) => `<circle cx="${r1(x(i))}" cy="${r1(y(p.value))}" r="2.5" fill="${color}"><title>${escapeXml(`${p.label}: ${format(p.value)}`)}</title></circle>`).join("")}
+</svg>`;
+}
+
+export type MapLayer =
+  | { kind: "polygon"; ring: LngLat[]; fill: string; stroke: string; label?: string }
+  | { kind: "point"; at: LngLat; color: string; radius?: number; label?: string };
+
+/**
+ * Schematic map: layers drawn in a local equirectangular projection around `center`,
+ * scaled so everything fits. Good enough at city scale and needs no tiles.
+ */
+export function mapSketchSvg(center: LngLat, layers: MapLayer[], { width = 640, height = 400, minExtentMeters = 500 } = {}): string {
+  const cosLat = Math.cos((center[1] * Math.PI) / 180);
+  const toMeters = ([lng, lat]: LngLat): [number, number] => [
+    (lng - center[0]) * 111320 * cosLat,
+    (lat - center[1]) * 110540,
+  ];
+
+  let extent = minExtentMeters;
+  for (const layer of layers) {
+    for (const p of layer.kind === "polygon" ? layer.ring : [layer.at]) {
+      const [mx, my] = toMeters(p);
+      extent = Math.max(extent, Math.abs(mx) * (height / width), Math.abs(my));
+    }
+  }
+  const scale = (height / 2 - 16) / extent;
+  const project = (p: LngLat) => {
+    const [mx, my] = toMeters(p);
+    return [r1(width / 2 + mx * scale), r1(height / 2 - my * scale)];
+  };
+
+  // Scale bar of a round distance about a quarter of the width
+  const target = (width / 4) / scale;
+  const step = [50, 100, 250, 500, 1000, 2000, 5000, 10000, 20000].find((m) => m >= target) ?? 50000;
+  const barPx = r1(step * scale);
+
+  const shapes = layers.map((layer) => {
+    if (layer.kind === "polygon") {
+      const d = layer.ring.map((p, i) => `${i ? "L" : "M"}${project(p).join(",")}`).join("") + "Z";
+      return `<path d="${d}" fill="${layer.fill}" stroke="${layer.stroke}" stroke-width="1.5">${layer.label ? `<title>${escapeXml(layer.label)}</title>` : ""}</path>`;
+    }
+    const [cx, cy] = project(layer.at);
+    return `<circle cx="${cx}" cy="${cy}" r="${layer.radius ?? 4}" fill="${layer.color}" stroke="#fff" stroke-width="1">${layer.label ? `<title>${escapeXml(layer.label)}</title>` : ""}</circle>`;
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="100%" role="img">
+  <rect width="${width}" height="${height}" fill="#f4f6f5"/>
+  ${shapes.join("\n  ")}
+  <path d="M${width / 2 - 7},${height / 2}h14M${width / 2},${height / 2 - 7}v14" stroke="#c0392b" stroke-width="3"/>
+  <line x1="16" y1="${height - 16}" x2="${16 + barPx}" y2="${height - 16}" stroke="#333" stroke-width="2"/>
+  <text x="16" y="${height - 22}" font-size="11" fill="#333">${step >= 1000 ? `${step / 1000} km` : `${step} m`}</text>
+  <text x="${width - 16}" y="24" text-anchor="end" font-size="14" fill="#333">N ↑</text>
+</svg>`;
+}
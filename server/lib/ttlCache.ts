@@ -0,0 +1,35 @@
+type Slot<V> = { value: V; expiresAt: number };
+
+/**
+ * In-memory cache with a per-entry time to live and a cap on entries; the least recently
+ * used entry goes first when it is full
+ */
+export class TtlCache<V> {
+  private slots = new Map<string, Slot<V>>();
+
+  constructor(private maxEntries: number, private ttlMs: number, private now = () => Date.now()) {}
+
+  get(key: string): V | undefined {
+    const slot = this.slots.get(key);
+    if (!slot || slot.expiresAt <= this.now()) {
+      if (slot) this.slots.delete(key);
+      return undefined;
+    }
+    // Re-insert so Map order tracks recency
+    this.slots.delete(key);
+    this.slots.set(key, slot);
+    return slot.value;
+  }
+
+  set(key: string, value: V, ttlMs = this.ttlMs) {
+    this.slots.delete(key);
+    this.slots.set(key, { value, expiresAt: this.now() + ttlMs });
+    while (this.slots.size > this.maxEntries) {
+      this.slots.delete(this.slots.keys().next().value as string);
+    }
+  }
+
+  get size() {
+    return this.slots.size;
+  }
+}
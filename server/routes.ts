@@ -1,113 +1,119 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { listProperties, getProperty, createProperty, updateProperty, deleteProperty } from "./routes/properties";
+import { listZones } from "./routes/zones";
+import { estimateProperty } from "./routes/estimate";
+import { calculateValuation } from "./routes/valuation";
+import { listComparables, importTransactions } from "./routes/transactions";
+import { importUpload } from "./routes/admin";
+import { areaAnalytics, investmentScore } from "./routes/analytics";
+import { lookupUnit } from "./routes/units";
+import { register, login, logout, me, updatePreferences } from "./routes/auth";
+import { listWatchlist, addToWatchlist, updateWatchlistItem, removeFromWatchlist } from "./routes/watchlist";
+import {
+  listSavedSearches,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  resendSavedSearchEmailCode,
+  confirmSavedSearchEmail,
+} from "./routes/savedSearches";
+import { listNotifications, markNotificationsRead } from "./routes/notifications";
+import { propertyReport } from "./routes/reports";
+import { directions, geoConfig, geocode, isochrone, searchBox } from "./routes/geo";
+import { search } from "./routes/search";
+import { getBuildingImages, getSatelliteImage, getStreetViewImage, imageCacheStats, purgeImageCache } from "./routes/images";
+import { showPortfolio, addHolding, updateHolding, removeHolding } from "./routes/portfolio";
+import { requireAdmin, requireAuth } from "./auth";
+import { registerDataJobs } from "./services/dataJobs";
+import { rateLimit } from "./lib/rateLimit";
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Building image routes using Google Maps APIs
-  
-  // Street View images
-  app.get("/api/images/streetview", async (req, res) => {
-    try {
-      const { lat, lng, heading = 0 } = req.query;
-      const googleApiKey = process.env.GOOGLE_MAPS_API_KEY;
-
-      if (!googleApiKey) {
-        return res.status(400).json({ error: 'Google Maps API key not configured' });
-      }
-
-      if (!lat || !lng) {
-        return res.status(400).json({ error: 'Latitude and longitude are required' });
-      }
-
-      const streetViewUrl = `https://maps.googleapis.com/maps/api/streetview?` +
-        `size=640x640&location=${lat},${lng}&heading=${heading}&pitch=0&fov=90&key=${googleApiKey}`;
-      
-      console.log('Requesting Street View URL:', streetViewUrl.replace(googleApiKey, 'API_KEY_HIDDEN'));
-
-      const response = await fetch(streetViewUrl);
-      
-      console.log('Street View response status:', response.status);
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Street View API error:', errorText);
-        
-        // Check if API is not enabled
-        if (response.status === 403 && errorText.includes('not authorized')) {
-          return res.status(403).json({ 
-            error: 'Street View Static API not enabled',
-            message: 'Please enable Street View Static API in Google Cloud Console',
-            details: errorText
-          });
-        }
-        
-        return res.status(response.status).json({ 
-          error: 'Street View image not available', 
-          details: errorText
-        });
-      }
-
-      res.set('Content-Type', 'image/jpeg');
-      res.set('Cache-Control', 'public, max-age=86400');
-      
-      const buffer = await response.arrayBuffer();
-      res.send(Buffer.from(buffer));
-
-    } catch (error) {
-      console.error('Street View image error:', error);
-      res.status(500).json({ error: 'Failed to fetch Street View image' });
-    }
-  });
-
-  // Satellite images  
-  app.get("/api/images/satellite", async (req, res) => {
-    try {
-      const { lat, lng, zoom = 18 } = req.query;
-      const googleApiKey = process.env.GOOGLE_MAPS_API_KEY;
-
-      if (!googleApiKey) {
-        return res.status(400).json({ error: 'Google Maps API key not configured' });
-      }
-
-      if (!lat || !lng) {
-        return res.status(400).json({ error: 'Latitude and longitude are required' });
-      }
-
-      const satelliteUrl = `https://maps.googleapis.com/maps/api/staticmap?` +
-        `center=${lat},${lng}&zoom=${zoom}&size=640x640&maptype=satellite&key=${googleApiKey}`;
-
-      const response = await fetch(satelliteUrl);
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Maps Static API error:', errorText);
-        
-        // Check if API is not enabled
-        if (response.status === 403 && errorText.includes('not authorized')) {
-          return res.status(403).json({ 
-            error: 'Maps Static API not enabled',
-            message: 'Please enable Maps Static API in Google Cloud Console',
-            details: errorText
-          });
-        }
-        
-        return res.status(response.status).json({ 
-          error: 'Satellite image not available', 
-          details: errorText
-        });
-      }
-
-      res.set('Content-Type', 'image/png');
-      res.set('Cache-Control', 'public, max-age=86400');
-      
-      const buffer = await response.arrayBuffer();
-      res.send(Buffer.from(buffer));
-
-    } catch (error) {
-      console.error('Satellite image error:', error);
-      res.status(500).json({ error: 'Failed to fetch satellite image' });
-    }
-  });
+  // Zone stats and other derived data follow catalogue writes
+  await registerDataJobs();
+
+  // Property catalogue
+  app.get("/api/properties", listProperties);
+  app.get("/api/properties/:id", getProperty);
+  app.post("/api/properties", requireAdmin, createProperty);
+  app.patch("/api/properties/:id", requireAdmin, updateProperty);
+  app.delete("/api/properties/:id", requireAdmin, deleteProperty);
+  app.get("/api/zones", listZones);
+  // Fuzzy English/Arabic search over buildings, communities, projects and developers
+  app.get("/api/search", search);
+
+  // Deterministic valuation metrics for any coordinate
+  app.post("/api/estimate", estimateProperty);
+  // Unit valuation from same-community, same-bedroom comparables
+  app.post("/api/valuation", calculateValuation);
+  // Statistics for a drawn search area
+  app.post("/api/analytics/area", areaAnalytics);
+  // Investment score with its factor breakdown
+  app.post("/api/score", investmentScore);
+  // Printable investment report (HTML, print to PDF from the browser)
+  app.post("/api/reports/property", propertyReport);
+  // Unit number, DEWA premise, Oqood and title deed lookup
+  app.get("/api/units/lookup", lookupUnit);
+
+  // Accounts; sessions are set up by setupAuth in server/index.ts
+  app.post("/api/auth/register", register);
+  app.post("/api/auth/login", login);
+  app.post("/api/auth/logout", logout);
+  app.get("/api/auth/me", me);
+  app.patch("/api/auth/me", requireAuth, updatePreferences);
+
+  // Per-user watchlist
+  app.get("/api/watchlist", requireAuth, listWatchlist);
+  app.post("/api/watchlist", requireAuth, addToWatchlist);
+  app.patch("/api/watchlist/:propertyId", requireAuth, updateWatchlistItem);
+  app.delete("/api/watchlist/:propertyId", requireAuth, removeFromWatchlist);
+
+  // Saved searches; matches are checked after each data change and land in the notification inbox
+  app.get("/api/saved-searches", requireAuth, listSavedSearches);
+  app.post("/api/saved-searches", requireAuth, createSavedSearch);
+  app.patch("/api/saved-searches/:id", requireAuth, updateSavedSearch);
+  app.delete("/api/saved-searches/:id", requireAuth, deleteSavedSearch);
+  // Alert emails only go to an address confirmed with the code emailed to it
+  const confirmLimit = rateLimit({ windowMs: 15 * 60_000, max: 10 });
+  app.post("/api/saved-searches/:id/email-code", requireAuth, confirmLimit, resendSavedSearchEmailCode);
+  app.post("/api/saved-searches/:id/confirm-email", requireAuth, confirmLimit, confirmSavedSearchEmail);
+  app.get("/api/notifications", requireAuth, listNotifications);
+  app.post("/api/notifications/read", requireAuth, markNotificationsRead);
+
+  // Portfolio of owned units
+  app.get("/api/portfolio", requireAuth, showPortfolio);
+  app.post("/api/portfolio/holdings", requireAuth, addHolding);
+  app.patch("/api/portfolio/holdings/:id", requireAuth, updateHolding);
+  app.delete("/api/portfolio/holdings/:id", requireAuth, removeHolding);
+
+  // Sales ledger
+  app.get("/api/comparables", listComparables);
+  app.post("/api/transactions/import", requireAdmin, express.text({ type: ["text/csv", "text/plain"], limit: "20mb" }), importTransactions);
+
+  // Bulk data import (CSV or GeoJSON); the same pipeline backs `npm run import`
+  app.post(
+    "/api/admin/import",
+    requireAdmin,
+    express.text({ type: ["text/csv", "text/plain", "application/geo+json", "application/json"], limit: "50mb" }),
+    importUpload,
+  );
+
+  // Mapbox geocoding, POI search, routing and isochrones behind the server token
+  const geoLimit = rateLimit({ windowMs: 60_000, max: Number(process.env.GEO_RATE_LIMIT_PER_MINUTE) || 120 });
+  app.get("/api/geo/config", geoConfig);
+  app.get("/api/geo/geocode", geoLimit, geocode);
+  app.get("/api/geo/searchbox", geoLimit, searchBox);
+  app.get("/api/geo/directions", geoLimit, directions);
+  app.get("/api/geo/isochrone", geoLimit, isochrone);
+
+  // Building imagery from the configured provider (Google, Mapbox or offline fixtures),
+  // served from the disk cache when possible
+  app.get("/api/images/cache", requireAdmin, imageCacheStats);
+  app.delete("/api/images/cache", requireAdmin, purgeImageCache);
+  app.get("/api/images/streetview", getStreetViewImage);
+  app.get("/api/images/satellite", getSatelliteImage);
+  app.post("/api/images/building", getBuildingImages);
 
   // Google Places nearby search for building names
   app.get("/api/places/nearby", async (req, res) => {
@@ -156,57 +162,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Comprehensive building images endpoint
-  app.post("/api/images/building", async (req, res) => {
-    try {
-      const { coordinates, buildingName, address } = req.body;
-      const googleApiKey = process.env.GOOGLE_MAPS_API_KEY;
-
-      if (!coordinates || coordinates.length !== 2) {
-        return res.status(400).json({ error: 'Valid coordinates [lng, lat] are required' });
-      }
-
-      const [lng, lat] = coordinates as [number, number];
-      const images: any = {};
-
-      if (googleApiKey) {
-        // Compute a better Street View heading by finding the nearest panorama and pointing to the building
-        try {
-          const metaUrl = `https://maps.googleapis.com/maps/api/streetview/metadata?location=${lat},${lng}&radius=80&key=${googleApiKey}`;
-          const metaRes = await fetch(metaUrl);
-          const meta = await metaRes.json();
-
-          const panoLat = meta?.location?.lat ?? lat;
-          const panoLng = meta?.location?.lng ?? lng;
-
-          const toRad = (d: number) => (d * Math.PI) / 180;
-          const toDeg = (r: number) => (r * 180) / Math.PI;
-          const bearing = (() => {
-            const φ1 = toRad(panoLat), φ2 = toRad(lat);
-            const λ1 = toRad(panoLng), λ2 = toRad(lng);
-            const y = Math.sin(λ2 - λ1) * Math.cos(φ2);
-            const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(λ2 - λ1);
-            const θ = Math.atan2(y, x);
-            return (toDeg(θ) + 360) % 360;
-          })();
-
-          images.streetViewUrl = `/api/images/streetview?lat=${panoLat}&lng=${panoLng}&heading=${Math.round(bearing)}`;
-        } catch (e) {
-          // Fallback to basic Street View at building center
-          images.streetViewUrl = `/api/images/streetview?lat=${lat}&lng=${lng}`;
-        }
-      }
-
-      // No stock photos - only authentic Google Street View images
-
-      res.json(images);
-
-    } catch (error) {
-      console.error('Building images error:', error);
-      res.status(500).json({ error: 'Failed to fetch building images' });
-    }
-  });
-
   const httpServer = createServer(app);
 
   return httpServer;
@@ -0,0 +1,37 @@
+import { Request, Response } from 'express';
+import { fromZodError } from 'zod-validation-error';
+import { importQuerySchema, type ImportFormat } from '@shared/schema';
+import { importData } from '../services/bulkImport';
+
+function formatFromContentType(req: Request): ImportFormat | undefined {
+  if (req.is('text/csv')) return 'csv';
+  if (req.is('application/geo+json') || req.is('application/json')) return 'geojson';
+  return undefined;
+}
+
+/**
+ * Bulk import properties, zones or transactions from an uploaded CSV or GeoJSON file
+ */
+export async function importUpload(req: Request, res: Response) {
+  try {
+    const parsed = importQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+
+    const { kind, dryRun = false } = parsed.data;
+    const format = parsed.data.format ?? formatFromContentType(req);
+    if (!format) {
+      return res.status(400).json({ error: 'Pass ?format=csv|geojson or send Content-Type text/csv or application/geo+json' });
+    }
+
+    const report = await importData(kind, format, req.body, { dryRun });
+    // A file that couldn't be read at all is a bad request; row errors are part of a normal report
+    const unreadable = report.errors.some((e) => e.row === 0);
+    res.status(unreadable ? 400 : 200).json(report);
+
+  } catch (error) {
+    console.error('Import error:', error);
+    res.status(500).json({ error: 'Failed to import file' });
+  }
+}
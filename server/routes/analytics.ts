@@ -0,0 +1,51 @@
+import { Request, Response } from 'express';
+import { fromZodError } from 'zod-validation-error';
+import { areaAnalyticsRequestSchema, investmentScoreRequestSchema } from '@shared/schema';
+import { storage } from '../storage';
+import { analyzeArea } from '../services/areaAnalytics';
+import { scoreInvestment } from '../services/scoring';
+import { EstimateCoverageError } from '../services/estimate';
+
+/**
+ * Property and amenity statistics for a drawn polygon
+ */
+export async function areaAnalytics(req: Request, res: Response) {
+  try {
+    const parsed = areaAnalyticsRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+
+    const analytics = await analyzeArea(parsed.data);
+    res.json(analytics);
+
+  } catch (error) {
+    console.error('Area analytics error:', error);
+    res.status(500).json({ error: 'Failed to analyse area' });
+  }
+}
+
+/**
+ * Weighted investment score for a building or coordinate, with the factor breakdown behind it
+ */
+export async function investmentScore(req: Request, res: Response) {
+  try {
+    const parsed = investmentScoreRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    if (parsed.data.propertyId && !(await storage.getProperty(parsed.data.propertyId))) {
+      return res.status(404).json({ error: 'Property not found' });
+    }
+
+    const score = await scoreInvestment(parsed.data);
+    res.json(score);
+
+  } catch (error) {
+    if (error instanceof EstimateCoverageError) {
+      return res.status(422).json({ error: error.message });
+    }
+    console.error('Investment score error:', error);
+    res.status(500).json({ error: 'Failed to score property' });
+  }
+}
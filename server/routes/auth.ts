@@ -0,0 +1,105 @@
+import { NextFunction, Request, Response } from 'express';
+import passport from 'passport';
+import { fromZodError } from 'zod-validation-error';
+import { loginSchema, registerSchema, updatePreferencesSchema, type PublicUser } from '@shared/schema';
+import { storage } from '../storage';
+import { hashPassword, toPublicUser } from '../auth';
+
+function logIn(req: Request, user: PublicUser) {
+  return new Promise<void>((resolve, reject) => req.login(user, (err) => (err ? reject(err) : resolve())));
+}
+
+/**
+ * Create an account and sign it in
+ */
+export async function register(req: Request, res: Response) {
+  try {
+    const parsed = registerSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+
+    const { username, password, language } = parsed.data;
+    if (await storage.getUserByUsername(username)) {
+      return res.status(409).json({ error: 'That username is already taken' });
+    }
+
+    const user = toPublicUser(await storage.createUser({ username, password: await hashPassword(password), language }));
+    await logIn(req, user);
+    res.status(201).json(user);
+
+  } catch (error) {
+    console.error('Register error:', error);
+    res.status(500).json({ error: 'Failed to create account' });
+  }
+}
+
+/**
+ * Check a username and password and start a session
+ */
+export function login(req: Request, res: Response, next: NextFunction) {
+  const parsed = loginSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: fromZodError(parsed.error).message });
+  }
+
+  passport.authenticate('local', async (err: unknown, user: PublicUser | false) => {
+    try {
+      if (err) throw err;
+      if (!user) return res.status(401).json({ error: 'Incorrect username or password' });
+      await logIn(req, user);
+      res.json(user);
+    } catch (error) {
+      console.error('Login error:', error);
+      res.status(500).json({ error: 'Failed to sign in' });
+    }
+  })(req, res, next);
+}
+
+/**
+ * End the current session
+ */
+export function logout(req: Request, res: Response) {
+  req.logout((err) => {
+    if (err) {
+      console.error('Logout error:', err);
+      return res.status(500).json({ error: 'Failed to sign out' });
+    }
+    req.session.destroy(() => {
+      res.clearCookie('connect.sid');
+      res.status(204).end();
+    });
+  });
+}
+
+/**
+ * The signed-in user, or 401
+ */
+export function me(req: Request, res: Response) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: 'Not signed in' });
+  }
+  res.json(req.user);
+}
+
+/**
+ * Save the signed-in user's preferences (currently the interface language)
+ */
+export async function updatePreferences(req: Request, res: Response) {
+  try {
+    const parsed = updatePreferencesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+
+    const user = await storage.updateUser(req.user!.id, parsed.data);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    res.json(toPublicUser(user));
+
+  } catch (error) {
+    console.error('Update preferences error:', error);
+    res.status(500).json({ error: 'Failed to save preferences' });
+  }
+}
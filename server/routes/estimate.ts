@@ -0,0 +1,26 @@
+import { Request, Response } from 'express';
+import { fromZodError } from 'zod-validation-error';
+import { estimateRequestSchema } from '@shared/schema';
+import { estimateAt, EstimateCoverageError } from '../services/estimate';
+
+/**
+ * Deterministic metrics for a coordinate, derived from zone averages and nearby comparables
+ */
+export async function estimateProperty(req: Request, res: Response) {
+  try {
+    const parsed = estimateRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+
+    const estimate = await estimateAt(parsed.data.coordinates);
+    res.json(estimate);
+
+  } catch (error) {
+    if (error instanceof EstimateCoverageError) {
+      return res.status(422).json({ error: error.message });
+    }
+    console.error('Estimate error:', error);
+    res.status(500).json({ error: 'Failed to estimate property' });
+  }
+}
@@ -0,0 +1,106 @@
+import { Request, Response } from 'express';
+import { fromZodError } from 'zod-validation-error';
+import {
+  directionsQuerySchema,
+  geocodeQuerySchema,
+  isochroneQuerySchema,
+  searchBoxQuerySchema,
+} from '@shared/schema';
+import { searchGazetteer } from '../services/gazetteer';
+import { GeoError, mapboxGeo, publicMapToken } from '../services/mapboxGeo';
+
+function sendGeoError(res: Response, error: unknown, what: string) {
+  if (error instanceof GeoError) {
+    if (error.details) console.error(`Mapbox ${error.code}:`, error.details);
+    return res.status(error.status).json({ error: error.message, code: error.code });
+  }
+  console.error(`${what} error:`, error);
+  res.status(500).json({ error: `Failed to fetch ${what.toLowerCase()}`, code: 'internal_error' });
+}
+
+// Browsers may reuse proxied answers for a while; they are cached here too
+const PRIVATE_CACHE = 'private, max-age=300';
+
+/**
+ * Token the browser renders map tiles with; null when the server has none to share
+ */
+export function geoConfig(_req: Request, res: Response) {
+  res.json({ mapToken: publicMapToken(), proxyEnabled: mapboxGeo.configured() });
+}
+
+/**
+ * Forward geocoding within the UAE; known emirates and communities come from the gazetteer
+ */
+export async function geocode(req: Request, res: Response) {
+  try {
+    const parsed = geocodeQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message, code: 'invalid_request' });
+    }
+
+    const local = searchGazetteer(parsed.data);
+    const result = local.length ? { places: local, source: 'gazetteer' } : await mapboxGeo.geocode(parsed.data);
+    res.set('Cache-Control', PRIVATE_CACHE);
+    res.json(result);
+
+  } catch (error) {
+    sendGeoError(res, error, 'Geocoding');
+  }
+}
+
+/**
+ * Points of interest near a location, from Search Box or geocoding when Search Box is unavailable
+ */
+export async function searchBox(req: Request, res: Response) {
+  try {
+    const parsed = searchBoxQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message, code: 'invalid_request' });
+    }
+
+    const result = await mapboxGeo.searchBox(parsed.data);
+    res.set('Cache-Control', PRIVATE_CACHE);
+    res.json(result);
+
+  } catch (error) {
+    sendGeoError(res, error, 'Place search');
+  }
+}
+
+/**
+ * Fastest route between two points; `route` is null when there is none
+ */
+export async function directions(req: Request, res: Response) {
+  try {
+    const parsed = directionsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message, code: 'invalid_request' });
+    }
+
+    const result = await mapboxGeo.directions(parsed.data);
+    res.set('Cache-Control', PRIVATE_CACHE);
+    res.json({ route: result });
+
+  } catch (error) {
+    sendGeoError(res, error, 'Directions');
+  }
+}
+
+/**
+ * Travel-time contours around a point as a GeoJSON FeatureCollection
+ */
+export async function isochrone(req: Request, res: Response) {
+  try {
+    const parsed = isochroneQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message, code: 'invalid_request' });
+    }
+
+    const result = await mapboxGeo.isochrone(parsed.data);
+    res.set('Cache-Control', PRIVATE_CACHE);
+    res.json(result);
+
+  } catch (error) {
+    sendGeoError(res, error, 'Isochrone');
+  }
+}
@@ -1,187 +1,125 @@
 import { Request, Response } from 'express';
+import { fromZodError } from 'zod-validation-error';
+import {
+  buildingImagesRequestSchema,
+  imageCachePurgeQuerySchema,
+  satelliteQuerySchema,
+  streetViewQuerySchema,
+} from '@shared/schema';
+import { ImageryError, imagery, type FetchedImage } from '../services/imagery';
+
+// Same body for every failure: a message, a stable code and whatever the provider said
+function sendImageryError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof ImageryError) {
+    // Provider error bodies can echo the request URL, key included, so they stay in the server log
+    if (error.details) console.error(`Imagery (${imagery.provider}) ${error.code}:`, error.details);
+    return res.status(error.status).json({ error: error.message, code: error.code });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: `Failed to fetch ${fallback.toLowerCase()}`, code: 'internal_error' });
+}
 
-interface BuildingImageRequest {
-  coordinates: [number, number];
-  buildingName?: string;
-  address?: string;
+function invalidRequest(res: Response, message: string) {
+  return res.status(400).json({ error: message, code: 'invalid_request' });
 }
 
-interface ImageProxyRequest {
-  url: string;
-  type: 'streetview' | 'satellite' | 'places';
+function sendImage(res: Response, { image, cached }: { image: FetchedImage; cached: boolean }) {
+  res.set('Content-Type', image.contentType);
+  res.set('Cache-Control', 'public, max-age=86400');
+  res.set('X-Cache', cached ? 'HIT' : 'MISS');
+  res.set('X-Imagery-Provider', imagery.provider);
+  res.send(image.data);
 }
 
 /**
- * Get Google Street View image for a location
+ * Street-level image of a location from the configured imagery provider
  */
 export async function getStreetViewImage(req: Request, res: Response) {
   try {
-    const { lat, lng, heading = 0 } = req.query;
-    const googleApiKey = process.env.GOOGLE_MAPS_API_KEY;
-
-    if (!googleApiKey) {
-      return res.status(400).json({ error: 'Google Maps API key not configured' });
-    }
-
-    if (!lat || !lng) {
-      return res.status(400).json({ error: 'Latitude and longitude are required' });
+    const parsed = streetViewQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return invalidRequest(res, fromZodError(parsed.error).message);
     }
 
-    const streetViewUrl = `https://maps.googleapis.com/maps/api/streetview?` +
-      `size=640x640&location=${lat},${lng}&heading=${heading}&pitch=0&fov=90&key=${googleApiKey}`;
-
-    // Fetch the image and pipe it to the response
-    const response = await fetch(streetViewUrl);
-    
-    if (!response.ok) {
-      return res.status(response.status).json({ error: 'Street View image not available' });
-    }
-
-    res.set('Content-Type', 'image/jpeg');
-    res.set('Cache-Control', 'public, max-age=86400'); // Cache for 24 hours
-    
-    const buffer = await response.arrayBuffer();
-    res.send(Buffer.from(buffer));
+    const { lng, lat, heading } = parsed.data;
+    sendImage(res, await imagery.streetView([lng, lat], heading));
 
   } catch (error) {
-    console.error('Street View image error:', error);
-    res.status(500).json({ error: 'Failed to fetch Street View image' });
+    sendImageryError(res, error, 'Street View image');
   }
 }
 
 /**
- * Get Google Satellite image for a location
+ * Overhead satellite image centred on a location from the configured imagery provider
  */
 export async function getSatelliteImage(req: Request, res: Response) {
   try {
-    const { lat, lng, zoom = 18 } = req.query;
-    const googleApiKey = process.env.GOOGLE_MAPS_API_KEY;
-
-    if (!googleApiKey) {
-      return res.status(400).json({ error: 'Google Maps API key not configured' });
+    const parsed = satelliteQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return invalidRequest(res, fromZodError(parsed.error).message);
     }
 
-    if (!lat || !lng) {
-      return res.status(400).json({ error: 'Latitude and longitude are required' });
-    }
-
-    const satelliteUrl = `https://maps.googleapis.com/maps/api/staticmap?` +
-      `center=${lat},${lng}&zoom=${zoom}&size=640x640&maptype=satellite&key=${googleApiKey}`;
-
-    const response = await fetch(satelliteUrl);
-    
-    if (!response.ok) {
-      return res.status(response.status).json({ error: 'Satellite image not available' });
-    }
-
-    res.set('Content-Type', 'image/png');
-    res.set('Cache-Control', 'public, max-age=86400'); // Cache for 24 hours
-    
-    const buffer = await response.arrayBuffer();
-    res.send(Buffer.from(buffer));
+    const { lng, lat, zoom } = parsed.data;
+    sendImage(res, await imagery.satellite([lng, lat], zoom));
 
   } catch (error) {
-    console.error('Satellite image error:', error);
-    res.status(500).json({ error: 'Failed to fetch satellite image' });
+    sendImageryError(res, error, 'Satellite image');
   }
 }
 
 /**
- * Get Google Places photos for a location
+ * Image URLs for a building, with the street-level camera pointed at it
  */
-export async function getPlacesPhotos(req: Request, res: Response) {
+export async function getBuildingImages(req: Request, res: Response) {
   try {
-    const { lat, lng, query } = req.query;
-    const googleApiKey = process.env.GOOGLE_MAPS_API_KEY;
-
-    if (!googleApiKey) {
-      return res.status(400).json({ error: 'Google Maps API key not configured' });
-    }
-
-    if (!lat || !lng || !query) {
-      return res.status(400).json({ error: 'Latitude, longitude, and search query are required' });
+    const parsed = buildingImagesRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalidRequest(res, fromZodError(parsed.error).message);
     }
 
-    // First, search for the place
-    const searchUrl = `https://maps.googleapis.com/maps/api/place/textsearch/json?` +
-      `query=${encodeURIComponent(query as string)}&location=${lat},${lng}&radius=100&key=${googleApiKey}`;
-    
-    const searchResponse = await fetch(searchUrl);
-    const searchData = await searchResponse.json();
+    const images: { streetViewUrl?: string } = {};
 
-    if (!searchData.results || searchData.results.length === 0) {
-      return res.json({ photos: [] });
+    // Without a configured provider there is nothing to link to; the panel shows its placeholder
+    if (imagery.configured()) {
+      const { location: [lng, lat], heading } = await imagery.streetViewCamera(parsed.data.coordinates);
+      images.streetViewUrl = `/api/images/streetview?lat=${lat}&lng=${lng}&heading=${heading}`;
     }
 
-    const placeId = searchData.results[0].place_id;
-
-    // Get place details with photos
-    const detailsUrl = `https://maps.googleapis.com/maps/api/place/details/json?` +
-      `place_id=${placeId}&fields=photos&key=${googleApiKey}`;
-    
-    const detailsResponse = await fetch(detailsUrl);
-    const detailsData = await detailsResponse.json();
-
-    if (!detailsData.result?.photos) {
-      return res.json({ photos: [] });
-    }
-
-    // Convert photo references to URLs
-    const photoUrls = detailsData.result.photos.slice(0, 3).map((photo: any) => 
-      `https://maps.googleapis.com/maps/api/place/photo?maxwidth=640&photoreference=${photo.photo_reference}&key=${googleApiKey}`
-    );
-
-    res.json({ photos: photoUrls });
+    res.json(images);
 
   } catch (error) {
-    console.error('Places photos error:', error);
-    res.status(500).json({ error: 'Failed to fetch Places photos' });
+    sendImageryError(res, error, 'Building images');
   }
 }
 
 /**
- * Comprehensive building images endpoint
+ * Active provider, hit/miss counters, size and upstream request counts for the imagery cache
  */
-export async function getBuildingImages(req: Request, res: Response) {
+export async function imageCacheStats(_req: Request, res: Response) {
   try {
-    const { coordinates, buildingName, address } = req.body as BuildingImageRequest;
-    const googleApiKey = process.env.GOOGLE_MAPS_API_KEY;
+    res.json(await imagery.metrics());
 
-    if (!coordinates || coordinates.length !== 2) {
-      return res.status(400).json({ error: 'Valid coordinates [lng, lat] are required' });
-    }
+  } catch (error) {
+    console.error('Image cache stats error:', error);
+    res.status(500).json({ error: 'Failed to read image cache stats' });
+  }
+}
 
-    const [lng, lat] = coordinates;
-    const images: any = {};
-
-    if (googleApiKey) {
-      // Generate image URLs that will be served through our proxy endpoints
-      images.streetViewUrl = `/api/images/streetview?lat=${lat}&lng=${lng}`;
-      images.satelliteUrl = `/api/images/satellite?lat=${lat}&lng=${lng}`;
-
-      // Get Places photos if building name or address provided
-      if (buildingName || address) {
-        const query = buildingName || address;
-        try {
-          const placesResponse = await fetch(
-            `http://localhost:5000/api/images/places-photos?lat=${lat}&lng=${lng}&query=${encodeURIComponent((query as string) || '')}`
-          );
-          const placesData = await placesResponse.json();
-          if (placesData.photos && placesData.photos.length > 0) {
-            images.placesPhotos = placesData.photos;
-          }
-        } catch (error) {
-          console.log('Places photos not available:', error);
-        }
-      }
+/**
+ * Drop cached images, optionally only Street View or only satellite
+ */
+export async function purgeImageCache(req: Request, res: Response) {
+  try {
+    const parsed = imageCachePurgeQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
     }
 
-    // No stock photos - only authentic Google Street View images
-
-    res.json(images);
+    const purged = await imagery.purge(parsed.data.kind);
+    res.json({ purged });
 
   } catch (error) {
-    console.error('Building images error:', error);
-    res.status(500).json({ error: 'Failed to fetch building images' });
+    console.error('Image cache purge error:', error);
+    res.status(500).json({ error: 'Failed to purge image cache' });
   }
-}
\ No newline at end of file
+}
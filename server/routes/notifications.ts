@@ -0,0 +1,42 @@
+import { Request, Response } from 'express';
+import { fromZodError } from 'zod-validation-error';
+import { markNotificationsReadSchema } from '@shared/schema';
+import { storage } from '../storage';
+
+const INBOX_SIZE = 50;
+
+/**
+ * The signed-in user's most recent alerts and how many are unread
+ */
+export async function listNotifications(req: Request, res: Response) {
+  try {
+    const [items, unreadCount] = await Promise.all([
+      storage.getNotifications(req.user!.id, INBOX_SIZE),
+      storage.countUnreadNotifications(req.user!.id),
+    ]);
+    res.json({ items, unreadCount });
+
+  } catch (error) {
+    console.error('Notifications error:', error);
+    res.status(500).json({ error: 'Failed to load notifications' });
+  }
+}
+
+/**
+ * Mark the given notifications, or all of them, as read
+ */
+export async function markNotificationsRead(req: Request, res: Response) {
+  try {
+    const parsed = markNotificationsReadSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+
+    const updated = await storage.markNotificationsRead(req.user!.id, parsed.data.ids);
+    res.json({ updated });
+
+  } catch (error) {
+    console.error('Mark notifications read error:', error);
+    res.status(500).json({ error: 'Failed to update notifications' });
+  }
+}
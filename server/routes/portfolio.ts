@@ -0,0 +1,99 @@
+import { Request, Response } from 'express';
+import { fromZodError } from 'zod-validation-error';
+import { insertHoldingSchema, loanWithinPrice, updateHoldingSchema } from '@shared/schema';
+import { storage } from '../storage';
+import { getPortfolio } from '../services/portfolio';
+
+// Routes are mounted behind requireAuth, so req.user is always set
+
+function parseId(req: Request) {
+  const id = Number(req.params.id);
+  return Number.isInteger(id) && id > 0 ? id : undefined;
+}
+
+/**
+ * The signed-in user's holdings with current value, yields and a value history
+ */
+export async function showPortfolio(req: Request, res: Response) {
+  try {
+    res.json(await getPortfolio(req.user!.id));
+
+  } catch (error) {
+    console.error('Portfolio error:', error);
+    res.status(500).json({ error: 'Failed to load portfolio' });
+  }
+}
+
+/**
+ * Record a unit the user owns in a catalogue building
+ */
+export async function addHolding(req: Request, res: Response) {
+  try {
+    const parsed = insertHoldingSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    if (!(await storage.getProperty(parsed.data.propertyId))) {
+      return res.status(404).json({ error: 'Property not found' });
+    }
+
+    const holding = await storage.createHolding(req.user!.id, parsed.data);
+    res.status(201).json(holding);
+
+  } catch (error) {
+    console.error('Add holding error:', error);
+    res.status(500).json({ error: 'Failed to add holding' });
+  }
+}
+
+/**
+ * Edit a holding's purchase, financing or income figures
+ */
+export async function updateHolding(req: Request, res: Response) {
+  try {
+    const id = parseId(req);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid holding id' });
+    }
+    const parsed = updateHoldingSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+
+    const existing = await storage.getHolding(req.user!.id, id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Holding not found' });
+    }
+    if (!loanWithinPrice({ ...existing, ...parsed.data })) {
+      return res.status(400).json({ error: 'loanAmountAED cannot exceed purchasePriceAED' });
+    }
+
+    const holding = await storage.updateHolding(req.user!.id, id, parsed.data);
+    res.json(holding);
+
+  } catch (error) {
+    console.error('Update holding error:', error);
+    res.status(500).json({ error: 'Failed to update holding' });
+  }
+}
+
+/**
+ * Remove a holding from the portfolio
+ */
+export async function removeHolding(req: Request, res: Response) {
+  try {
+    const id = parseId(req);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid holding id' });
+    }
+    const removed = await storage.deleteHolding(req.user!.id, id);
+    if (!removed) {
+      return res.status(404).json({ error: 'Holding not found' });
+    }
+    res.status(204).end();
+
+  } catch (error) {
+    console.error('Remove holding error:', error);
+    res.status(500).json({ error: 'Failed to remove holding' });
+  }
+}
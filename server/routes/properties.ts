@@ -0,0 +1,120 @@
+import { Request, Response } from 'express';
+import { fromZodError } from 'zod-validation-error';
+import {
+  insertPropertySchema,
+  updatePropertySchema,
+  propertyQuerySchema,
+  toPropertyPoint,
+  type Page,
+  type PropertyPoint,
+} from '@shared/schema';
+import { storage } from '../storage';
+import { notifyDataChanged } from '../events';
+
+/**
+ * List catalogue properties with bbox, community, price and yield filters
+ */
+export async function listProperties(req: Request, res: Response) {
+  try {
+    const parsed = propertyQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+
+    const query = parsed.data;
+    const { items, total } = await storage.getProperties(query);
+    const page: Page<PropertyPoint> = {
+      items: items.map(toPropertyPoint),
+      total,
+      limit: query.limit,
+      offset: query.offset,
+    };
+    res.json(page);
+
+  } catch (error) {
+    console.error('List properties error:', error);
+    res.status(500).json({ error: 'Failed to list properties' });
+  }
+}
+
+/**
+ * Get a single catalogue property
+ */
+export async function getProperty(req: Request, res: Response) {
+  try {
+    const property = await storage.getProperty(req.params.id);
+    if (!property) {
+      return res.status(404).json({ error: 'Property not found' });
+    }
+    res.json(toPropertyPoint(property));
+
+  } catch (error) {
+    console.error('Get property error:', error);
+    res.status(500).json({ error: 'Failed to fetch property' });
+  }
+}
+
+/**
+ * Add a building to the catalogue
+ */
+export async function createProperty(req: Request, res: Response) {
+  try {
+    const parsed = insertPropertySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+
+    if (await storage.getProperty(parsed.data.id)) {
+      return res.status(409).json({ error: 'Property with this id already exists' });
+    }
+
+    const property = await storage.createProperty(parsed.data);
+    await notifyDataChanged({ kinds: ['properties'] });
+    res.status(201).json(toPropertyPoint(property));
+
+  } catch (error) {
+    console.error('Create property error:', error);
+    res.status(500).json({ error: 'Failed to create property' });
+  }
+}
+
+/**
+ * Update fields of an existing catalogue property
+ */
+export async function updateProperty(req: Request, res: Response) {
+  try {
+    const parsed = updatePropertySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+
+    const property = await storage.updateProperty(req.params.id, parsed.data);
+    if (!property) {
+      return res.status(404).json({ error: 'Property not found' });
+    }
+    await notifyDataChanged({ kinds: ['properties'] });
+    res.json(toPropertyPoint(property));
+
+  } catch (error) {
+    console.error('Update property error:', error);
+    res.status(500).json({ error: 'Failed to update property' });
+  }
+}
+
+/**
+ * Remove a property from the catalogue
+ */
+export async function deleteProperty(req: Request, res: Response) {
+  try {
+    const deleted = await storage.deleteProperty(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Property not found' });
+    }
+    await notifyDataChanged({ kinds: ['properties', 'transactions'] });
+    res.status(204).end();
+
+  } catch (error) {
+    console.error('Delete property error:', error);
+    res.status(500).json({ error: 'Failed to delete property' });
+  }
+}
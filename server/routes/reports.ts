@@ -0,0 +1,27 @@
+import { Request, Response } from 'express';
+import { fromZodError } from 'zod-validation-error';
+import { propertyReportRequestSchema } from '@shared/schema';
+import { buildPropertyReport, ReportSubjectError } from '../services/report';
+import { renderPropertyReportHtml } from '../services/reportHtml';
+
+/**
+ * Printable multi-page investment report for a building or coordinate, as self-contained HTML
+ */
+export async function propertyReport(req: Request, res: Response) {
+  try {
+    const parsed = propertyReportRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+
+    const report = await buildPropertyReport(parsed.data);
+    res.type('html').send(renderPropertyReportHtml(report));
+
+  } catch (error) {
+    if (error instanceof ReportSubjectError) {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Property report error:', error);
+    res.status(500).json({ error: 'Failed to generate report' });
+  }
+}
@@ -0,0 +1,164 @@
+import { Request, Response } from 'express';
+import { fromZodError } from 'zod-validation-error';
+import {
+  confirmSavedSearchEmailSchema,
+  insertSavedSearchSchema,
+  updateSavedSearchSchema,
+  type SavedSearch,
+  type SavedSearchSummary,
+} from '@shared/schema';
+import { storage } from '../storage';
+import { confirmEmail, initialAlertState, sendEmailConfirmation } from '../services/savedSearchAlerts';
+
+// Routes are mounted behind requireAuth, so req.user is always set
+
+function toResponse({ matchedPropertyIds: _matched, lastTransactionId: _last, emailConfirmCode: _code, ...search }: SavedSearch): SavedSearchSummary {
+  return search;
+}
+
+// A failed send leaves the address unconfirmed; the owner can ask for another code
+async function startConfirmation(search: SavedSearch): Promise<SavedSearch> {
+  try {
+    return await sendEmailConfirmation(search);
+  } catch (error) {
+    console.error(`Confirmation email for search ${search.id} failed:`, error);
+    return (await storage.getSavedSearch(search.userId, search.id)) ?? search;
+  }
+}
+
+function parseId(req: Request) {
+  const id = Number(req.params.id);
+  return Number.isInteger(id) && id > 0 ? id : undefined;
+}
+
+/**
+ * The signed-in user's saved searches
+ */
+export async function listSavedSearches(req: Request, res: Response) {
+  try {
+    const searches = await storage.getSavedSearches(req.user!.id);
+    res.json({ items: searches.map(toResponse) });
+
+  } catch (error) {
+    console.error('Saved searches error:', error);
+    res.status(500).json({ error: 'Failed to load saved searches' });
+  }
+}
+
+/**
+ * Save a search; only properties and sales that appear after this point trigger alerts
+ */
+export async function createSavedSearch(req: Request, res: Response) {
+  try {
+    const parsed = insertSavedSearchSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+
+    const state = await initialAlertState(parsed.data.criteria);
+    let search = await storage.createSavedSearch(req.user!.id, parsed.data, state);
+    if (search.notifyEmail) search = await startConfirmation(search);
+    res.status(201).json(toResponse(search));
+
+  } catch (error) {
+    console.error('Create saved search error:', error);
+    res.status(500).json({ error: 'Failed to save search' });
+  }
+}
+
+/**
+ * Rename a saved search, change its criteria or its alert email
+ */
+export async function updateSavedSearch(req: Request, res: Response) {
+  try {
+    const id = parseId(req);
+    const parsed = updateSavedSearchSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    const existing = id ? await storage.getSavedSearch(req.user!.id, id) : undefined;
+    if (!id || !existing) {
+      return res.status(404).json({ error: 'Saved search not found' });
+    }
+
+    // New criteria start from a fresh baseline so the edit itself doesn't raise alerts
+    const state = parsed.data.criteria ? await initialAlertState(parsed.data.criteria) : {};
+    // A different alert address has to be confirmed again
+    const emailChanged = parsed.data.notifyEmail !== undefined && parsed.data.notifyEmail !== existing.notifyEmail;
+    const emailState = emailChanged ? { emailConfirmCode: null, emailConfirmedAt: null } : {};
+    let search = (await storage.updateSavedSearch(id, { ...parsed.data, ...state, ...emailState }))!;
+    if (emailChanged && search.notifyEmail) search = await startConfirmation(search);
+    res.json(toResponse(search));
+
+  } catch (error) {
+    console.error('Update saved search error:', error);
+    res.status(500).json({ error: 'Failed to update saved search' });
+  }
+}
+
+/**
+ * Delete a saved search and its notifications
+ */
+export async function deleteSavedSearch(req: Request, res: Response) {
+  try {
+    const id = parseId(req);
+    if (!id || !(await storage.deleteSavedSearch(req.user!.id, id))) {
+      return res.status(404).json({ error: 'Saved search not found' });
+    }
+    res.status(204).end();
+
+  } catch (error) {
+    console.error('Delete saved search error:', error);
+    res.status(500).json({ error: 'Failed to delete saved search' });
+  }
+}
+
+/**
+ * Email a new confirmation code to the search's alert address
+ */
+export async function resendSavedSearchEmailCode(req: Request, res: Response) {
+  try {
+    const id = parseId(req);
+    const search = id ? await storage.getSavedSearch(req.user!.id, id) : undefined;
+    if (!search) {
+      return res.status(404).json({ error: 'Saved search not found' });
+    }
+    if (!search.notifyEmail || search.emailConfirmedAt) {
+      return res.status(409).json({ error: 'This search has no alert address waiting for confirmation' });
+    }
+
+    await sendEmailConfirmation(search);
+    res.status(204).end();
+
+  } catch (error) {
+    console.error('Resend confirmation code error:', error);
+    res.status(500).json({ error: 'Failed to send confirmation code' });
+  }
+}
+
+/**
+ * Confirm the alert address with the code emailed to it; alerts are emailed from then on
+ */
+export async function confirmSavedSearchEmail(req: Request, res: Response) {
+  try {
+    const id = parseId(req);
+    const parsed = confirmSavedSearchEmailSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    const search = id ? await storage.getSavedSearch(req.user!.id, id) : undefined;
+    if (!search) {
+      return res.status(404).json({ error: 'Saved search not found' });
+    }
+
+    const confirmed = await confirmEmail(search, parsed.data.code);
+    if (!confirmed) {
+      return res.status(400).json({ error: 'That code is not the one we sent' });
+    }
+    res.json(toResponse(confirmed));
+
+  } catch (error) {
+    console.error('Confirm saved search email error:', error);
+    res.status(500).json({ error: 'Failed to confirm email' });
+  }
+}
@@ -0,0 +1,22 @@
+import { Request, Response } from 'express';
+import { fromZodError } from 'zod-validation-error';
+import { searchQuerySchema } from '@shared/schema';
+import { searchIndex } from '../services/searchIndex';
+
+/**
+ * Buildings, communities, projects and developers matching typed text, grouped by type
+ */
+export async function search(req: Request, res: Response) {
+  try {
+    const parsed = searchQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+
+    res.json(await searchIndex.search(parsed.data));
+
+  } catch (error) {
+    console.error('Search error:', error);
+    res.status(500).json({ error: 'Failed to search' });
+  }
+}
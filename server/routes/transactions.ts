@@ -0,0 +1,42 @@
+import { Request, Response } from 'express';
+import { fromZodError } from 'zod-validation-error';
+import { comparablesQuerySchema } from '@shared/schema';
+import { findComparableSales } from '../services/comparables';
+import { importDldCsv } from '../services/dldImport';
+
+/**
+ * Recent sales near a coordinate, filtered by size and bedroom similarity
+ */
+export async function listComparables(req: Request, res: Response) {
+  try {
+    const parsed = comparablesQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+
+    const result = await findComparableSales(parsed.data);
+    res.json(result);
+
+  } catch (error) {
+    console.error('Comparables error:', error);
+    res.status(500).json({ error: 'Failed to find comparable sales' });
+  }
+}
+
+/**
+ * Import a Dubai Land Department style CSV export into the transactions ledger
+ */
+export async function importTransactions(req: Request, res: Response) {
+  try {
+    if (typeof req.body !== 'string' || !req.body.trim()) {
+      return res.status(400).json({ error: 'Send the CSV as the request body with Content-Type: text/csv' });
+    }
+
+    const report = await importDldCsv(req.body);
+    res.json(report);
+
+  } catch (error) {
+    console.error('Transaction import error:', error);
+    res.status(500).json({ error: 'Failed to import transactions' });
+  }
+}
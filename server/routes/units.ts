@@ -0,0 +1,34 @@
+import { Request, Response } from 'express';
+import { fromZodError } from 'zod-validation-error';
+import { identifierLookupSchema, type IdentifierType } from '@shared/schema';
+import { lookupUnits } from '../services/unitLookup';
+
+const IDENTIFIER_LABEL: Record<IdentifierType, string> = {
+  unit: 'unit number',
+  dewa: 'DEWA premise number',
+  oqoo: 'Oqood number',
+  'title-deed': 'title deed number',
+};
+
+/**
+ * Find units registered under an identifier, with their building coordinates
+ */
+export async function lookupUnit(req: Request, res: Response) {
+  try {
+    const parsed = identifierLookupSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+
+    const { type, value } = parsed.data;
+    const matches = await lookupUnits(type, value);
+    if (!matches.length) {
+      return res.status(404).json({ error: `No unit found for ${IDENTIFIER_LABEL[type]} ${value}` });
+    }
+    res.json({ matches });
+
+  } catch (error) {
+    console.error('Unit lookup error:', error);
+    res.status(500).json({ error: 'Failed to look up unit' });
+  }
+}
@@ -0,0 +1,31 @@
+import { Request, Response } from 'express';
+import { fromZodError } from 'zod-validation-error';
+import { valuationRequestSchema } from '@shared/schema';
+import { findBuilding, valueUnit } from '../services/valuation';
+
+/**
+ * Value a unit from comparables in the same community with the same bedroom count
+ */
+export async function calculateValuation(req: Request, res: Response) {
+  try {
+    const parsed = valuationRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+
+    const subject = await findBuilding(parsed.data.building);
+    if (!subject) {
+      return res.status(404).json({ error: `No building or community matching "${parsed.data.building}"` });
+    }
+
+    const valuation = await valueUnit(subject, parsed.data);
+    if (!valuation) {
+      return res.status(404).json({ error: `No comparable units with this bedroom count in ${subject.community}` });
+    }
+    res.json(valuation);
+
+  } catch (error) {
+    console.error('Valuation error:', error);
+    res.status(500).json({ error: 'Failed to calculate valuation' });
+  }
+}
@@ -0,0 +1,82 @@
+import { Request, Response } from 'express';
+import { fromZodError } from 'zod-validation-error';
+import { insertWatchlistItemSchema, updateWatchlistItemSchema } from '@shared/schema';
+import { storage } from '../storage';
+import { getWatchlistEntries, toWatchlistEntry } from '../services/watchlist';
+
+// Routes are mounted behind requireAuth, so req.user is always set
+
+/**
+ * The signed-in user's watchlist
+ */
+export async function listWatchlist(req: Request, res: Response) {
+  try {
+    const items = await getWatchlistEntries(req.user!.id);
+    res.json({ items });
+
+  } catch (error) {
+    console.error('Watchlist error:', error);
+    res.status(500).json({ error: 'Failed to load watchlist' });
+  }
+}
+
+/**
+ * Watch a catalogue property; watching it again only updates the note
+ */
+export async function addToWatchlist(req: Request, res: Response) {
+  try {
+    const parsed = insertWatchlistItemSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    if (!(await storage.getProperty(parsed.data.propertyId))) {
+      return res.status(404).json({ error: 'Property not found' });
+    }
+
+    const item = await storage.addWatchlistItem(req.user!.id, parsed.data);
+    res.status(201).json(await toWatchlistEntry(item));
+
+  } catch (error) {
+    console.error('Add watchlist item error:', error);
+    res.status(500).json({ error: 'Failed to add to watchlist' });
+  }
+}
+
+/**
+ * Change the note on a watched property
+ */
+export async function updateWatchlistItem(req: Request, res: Response) {
+  try {
+    const parsed = updateWatchlistItemSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+
+    const item = await storage.updateWatchlistItem(req.user!.id, req.params.propertyId, parsed.data);
+    if (!item) {
+      return res.status(404).json({ error: 'Property is not on your watchlist' });
+    }
+    res.json(await toWatchlistEntry(item));
+
+  } catch (error) {
+    console.error('Update watchlist item error:', error);
+    res.status(500).json({ error: 'Failed to update watchlist' });
+  }
+}
+
+/**
+ * Stop watching a property
+ */
+export async function removeFromWatchlist(req: Request, res: Response) {
+  try {
+    const removed = await storage.removeWatchlistItem(req.user!.id, req.params.propertyId);
+    if (!removed) {
+      return res.status(404).json({ error: 'Property is not on your watchlist' });
+    }
+    res.status(204).end();
+
+  } catch (error) {
+    console.error('Remove watchlist item error:', error);
+    res.status(500).json({ error: 'Failed to remove from watchlist' });
+  }
+}
@@ -0,0 +1,16 @@
+import { Request, Response } from 'express';
+import { storage } from '../storage';
+
+/**
+ * List community zones with their price and yield averages
+ */
+export async function listZones(_req: Request, res: Response) {
+  try {
+    const zones = await storage.getZones();
+    res.json({ zones });
+
+  } catch (error) {
+    console.error('List zones error:', error);
+    res.status(500).json({ error: 'Failed to list zones' });
+  }
+}
@@ -0,0 +1,51 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { importFormats, importKinds, type ImportFormat, type ImportKind } from "@shared/schema";
+import { importData } from "../services/bulkImport";
+import { registerDataJobs } from "../services/dataJobs";
+
+const USAGE = `Usage: npm run import -- <${importKinds.join('|')}> <file> [--format csv|geojson] [--dry-run]`;
+
+function formatFromPath(file: string): ImportFormat | undefined {
+  const ext = path.extname(file).toLowerCase();
+  if (ext === '.csv') return 'csv';
+  if (ext === '.geojson' || ext === '.json') return 'geojson';
+  return undefined;
+}
+
+async function main() {
+  const positional: string[] = [];
+  let dryRun = false;
+  let explicitFormat: string | undefined;
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--dry-run') dryRun = true;
+    else if (args[i] === '--format') explicitFormat = args[++i];
+    else positional.push(args[i]);
+  }
+  const [kind, file] = positional;
+
+  if (!importKinds.includes(kind as ImportKind) || !file) {
+    console.error(USAGE);
+    process.exit(2);
+  }
+  const format = explicitFormat ?? formatFromPath(file);
+  if (!format || !importFormats.includes(format as ImportFormat)) {
+    console.error(`Cannot tell the format of ${file}; pass --format csv|geojson`);
+    process.exit(2);
+  }
+  if (!process.env.DATABASE_URL && !dryRun) {
+    console.warn('DATABASE_URL is not set: rows go to the in-memory store and are lost when this command exits.');
+  }
+
+  await registerDataJobs();
+  const report = await importData(kind as ImportKind, format as ImportFormat, await readFile(file, 'utf8'), { dryRun });
+  console.log(JSON.stringify(report, null, 2));
+  // Non-zero exit lets scripted data drops notice rejected rows
+  process.exit(report.errors.length ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error('Import failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,52 @@
+import type { AreaAnalytics, AreaAnalyticsRequest } from "@shared/schema";
+import { pointInPolygon, polygonAreaSqMeters } from "@shared/geo";
+import { mean, median } from "../lib/stats";
+import { scoreInvestment } from "./scoring";
+import { propertiesInPolygon } from "./spatial";
+
+const TOP_BUILDINGS = 5;
+// Gross yield buckets (%); the last one is open-ended
+const YIELD_BUCKETS = [0, 5, 6, 7, 8];
+
+/**
+ * Summarise the properties and amenities inside a drawn polygon
+ */
+export async function analyzeArea({ polygon, amenities }: AreaAnalyticsRequest): Promise<AreaAnalytics> {
+  const inside = await propertiesInPolygon(polygon);
+
+  const yieldDistribution = YIELD_BUCKETS.map((min, i) => {
+    const max = YIELD_BUCKETS[i + 1] ?? null;
+    return {
+      label: max == null ? `${min}%+` : i === 0 ? `<${max}%` : `${min}–${max}%`,
+      min,
+      max,
+      count: inside.filter((p) => p.rentYield >= min && (max == null || p.rentYield < max)).length,
+    };
+  });
+
+  // Same model and default weights as /api/score, so a building ranks by the score it shows elsewhere
+  const scored = await Promise.all(inside.map(async ({ id, name, community, lng, lat, rentYield, pricePerSqft }) => {
+    const { score } = await scoreInvestment({ coordinates: [lng, lat], propertyId: id, amenities });
+    return { id, name, community, score, rentYield, pricePerSqft };
+  }));
+  const topBuildings = scored
+    .sort((a, b) => b.score - a.score || b.rentYield - a.rentYield || a.id.localeCompare(b.id))
+    .slice(0, TOP_BUILDINGS);
+
+  const amenityCounts: Record<string, number> = {};
+  for (const amenity of amenities) {
+    if (pointInPolygon(amenity.center, polygon)) {
+      amenityCounts[amenity.category] = (amenityCounts[amenity.category] ?? 0) + 1;
+    }
+  }
+
+  return {
+    areaSqKm: Math.round(polygonAreaSqMeters(polygon) / 10_000) / 100,
+    propertyCount: inside.length,
+    medianPricePerSqft: inside.length ? Math.round(median(inside.map((p) => p.pricePerSqft))) : null,
+    averageYield: inside.length ? Math.round(mean(inside.map((p) => p.rentYield)) * 10) / 10 : null,
+    yieldDistribution,
+    topBuildings,
+    amenityCounts,
+  };
+}
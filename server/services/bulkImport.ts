@@ -0,0 +1,200 @@
+import {
+  insertPropertySchema,
+  insertTransactionSchema,
+  insertZoneSchema,
+  type ImportFormat,
+  type ImportKind,
+  type ImportReport,
+  type InsertTransaction,
+} from "@shared/schema";
+import type { LngLat } from "@shared/geo";
+import { fromZodError } from "zod-validation-error";
+import { parseCsvRecords } from "../lib/csv";
+import { storage } from "../storage";
+import { notifyDataChanged } from "../events";
+import { defaultGeocoder, type Geocoder } from "./geocode";
+
+export type ImportOptions = {
+  dryRun?: boolean;
+  geocode?: Geocoder;
+};
+
+type RawRow = { row: number; record: Record<string, unknown> };
+
+// CSV cells arrive as strings; these columns are converted before validation
+const NUMERIC_FIELDS: Record<ImportKind, string[]> = {
+  properties: ['lng', 'lat', 'estimatedValueAED', 'pricePerSqft', 'rentYield'],
+  zones: [], // only the boundary is imported; stats are derived
+  transactions: ['priceAED', 'sizeSqft', 'bedrooms'],
+};
+const JSON_FIELDS = ['priceTrend', 'polygon'];
+
+class FileError extends Error {}
+
+function coerce(kind: ImportKind, record: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (value === '' || value == null) continue;
+    if (typeof value !== 'string') {
+      out[key] = value;
+    } else if (NUMERIC_FIELDS[kind].includes(key)) {
+      const n = Number(value.replace(/,/g, ''));
+      // Leave unparseable values as-is so validation names the column
+      out[key] = Number.isFinite(n) ? n : value;
+    } else if (JSON_FIELDS.includes(key)) {
+      try { out[key] = JSON.parse(value); } catch { out[key] = value; }
+    } else {
+      out[key] = value;
+    }
+  }
+  return out;
+}
+
+function rowsFromGeoJson(input: unknown): RawRow[] {
+  let data = input;
+  if (typeof input === 'string') {
+    try { data = JSON.parse(input); } catch (e) { throw new FileError(`Invalid JSON: ${(e as Error).message}`); }
+  }
+  const doc = data as any;
+  const features: any[] =
+    doc?.type === 'FeatureCollection' && Array.isArray(doc.features) ? doc.features
+      : doc?.type === 'Feature' ? [doc]
+        : Array.isArray(doc) ? doc
+          : [];
+  if (!features.length) throw new FileError('Expected a GeoJSON FeatureCollection with at least one feature');
+
+  return features.map((feature, i) => {
+    const record: Record<string, unknown> = { ...(feature?.properties ?? {}) };
+    if (record.id == null && feature?.id != null) record.id = String(feature.id);
+    const geometry = feature?.geometry;
+    if (geometry?.type === 'Point' && Array.isArray(geometry.coordinates)) {
+      [record.lng, record.lat] = geometry.coordinates;
+    } else if (geometry?.type === 'Polygon') {
+      record.polygon = geometry;
+    }
+    return { row: i + 1, record };
+  });
+}
+
+function readRows(format: ImportFormat, input: unknown): RawRow[] {
+  if (format === 'geojson') return rowsFromGeoJson(input);
+  if (typeof input !== 'string') throw new FileError('CSV input must be text');
+  const rows = parseCsvRecords(input).map(({ line, record }) => ({ row: line, record: record as Record<string, unknown> }));
+  if (!rows.length) throw new FileError('CSV has no data rows');
+  return rows;
+}
+
+/**
+ * Validate and load properties, zones or transactions from CSV or GeoJSON.
+ * Each bad row is reported and skipped; the rest of the file is still imported.
+ * Properties and zones are upserted by id, transactions are deduped by source reference.
+ */
+export async function importData(
+  kind: ImportKind,
+  format: ImportFormat,
+  input: unknown,
+  { dryRun = false, geocode = defaultGeocoder }: ImportOptions = {},
+): Promise<ImportReport> {
+  const report: ImportReport = { kind, format, dryRun, total: 0, created: 0, updated: 0, skipped: 0, errors: [] };
+
+  let rows: RawRow[];
+  try {
+    rows = readRows(format, input);
+  } catch (e) {
+    if (!(e instanceof FileError)) throw e;
+    report.errors.push({ row: 0, error: e.message });
+    return report;
+  }
+  report.total = rows.length;
+
+  const firstSeen = new Map<string, number>();
+  const isDuplicate = (key: string, row: number, id?: string) => {
+    const first = firstSeen.get(key);
+    if (first != null) {
+      report.errors.push({ row, id, error: `Duplicate of row ${first}` });
+      return true;
+    }
+    firstSeen.set(key, row);
+    return false;
+  };
+
+  if (kind === 'properties') {
+    const geocoded = new Map<string, LngLat | undefined>();
+    for (const { row, record } of rows) {
+      const values = coerce(kind, record);
+      const id = typeof values.id === 'string' ? values.id : undefined;
+
+      if (values.lng == null || values.lat == null) {
+        const query = [values.name, values.community, 'UAE'].filter(Boolean).join(', ');
+        try {
+          if (!geocoded.has(query)) geocoded.set(query, await geocode(query));
+        } catch (e) {
+          report.errors.push({ row, id, error: `Missing coordinates and geocoding failed: ${(e as Error).message}` });
+          continue;
+        }
+        const point = geocoded.get(query);
+        if (!point) {
+          report.errors.push({ row, id, error: `Missing coordinates and no geocoding match for "${query}"` });
+          continue;
+        }
+        [values.lng, values.lat] = point;
+      }
+
+      const parsed = insertPropertySchema.safeParse(values);
+      if (!parsed.success) {
+        report.errors.push({ row, id, error: fromZodError(parsed.error).message });
+        continue;
+      }
+      if (isDuplicate(parsed.data.id, row, parsed.data.id)) continue;
+
+      const exists = !!(await storage.getProperty(parsed.data.id));
+      if (!dryRun) {
+        if (exists) await storage.updateProperty(parsed.data.id, parsed.data);
+        else await storage.createProperty(parsed.data);
+      }
+      if (exists) report.updated++;
+      else report.created++;
+    }
+  } else if (kind === 'zones') {
+    for (const { row, record } of rows) {
+      const values = coerce(kind, record);
+      const parsed = insertZoneSchema.safeParse(values);
+      if (!parsed.success) {
+        report.errors.push({ row, id: typeof values.id === 'string' ? values.id : undefined, error: fromZodError(parsed.error).message });
+        continue;
+      }
+      if (isDuplicate(parsed.data.id, row, parsed.data.id)) continue;
+
+      const exists = !!(await storage.getZone(parsed.data.id));
+      if (!dryRun) await storage.upsertZone(parsed.data);
+      if (exists) report.updated++;
+      else report.created++;
+    }
+  } else {
+    const knownProperty = new Map<string, boolean>();
+    const valid: InsertTransaction[] = [];
+    for (const { row, record } of rows) {
+      const values = coerce(kind, { source: 'manual', ...record });
+      const parsed = insertTransactionSchema.safeParse(values);
+      if (!parsed.success) {
+        report.errors.push({ row, error: fromZodError(parsed.error).message });
+        continue;
+      }
+      const { propertyId, source, sourceRef } = parsed.data;
+      if (!knownProperty.has(propertyId)) knownProperty.set(propertyId, !!(await storage.getProperty(propertyId)));
+      if (!knownProperty.get(propertyId)) {
+        report.errors.push({ row, error: `Unknown property "${propertyId}"` });
+        continue;
+      }
+      if (sourceRef && isDuplicate(`${source}:${sourceRef}`, row, sourceRef)) continue;
+      valid.push(parsed.data);
+    }
+    report.created = dryRun ? valid.length : await storage.addTransactions(valid);
+    report.skipped = valid.length - report.created;
+  }
+
+  if (!dryRun && report.created + report.updated > 0) {
+    await notifyDataChanged({ kinds: [kind] });
+  }
+  return report;
+}
@@ -0,0 +1,61 @@
+import type { ComparableSale, ComparablesQuery, ComparablesResult, PriceTrendPoint } from "@shared/schema";
+import { bboxAround, haversineMeters } from "@shared/geo";
+import { storage } from "../storage";
+import { median } from "../lib/stats";
+import { monthKey, monthLabel } from "../lib/months";
+
+function monthlyHistory(sales: ComparableSale[]): PriceTrendPoint[] {
+  const byMonth = new Map<string, number[]>();
+  for (const sale of sales) {
+    const key = monthKey(sale.date);
+    byMonth.set(key, [...(byMonth.get(key) ?? []), sale.pricePerSqft]);
+  }
+  return Array.from(byMonth.keys())
+    .sort()
+    .map((key) => ({ month: monthLabel(key), value: Math.round(median(byMonth.get(key)!)) }));
+}
+
+/**
+ * Recorded sales near a coordinate, optionally narrowed to units of similar size and bedroom count
+ */
+export async function findComparableSales(query: ComparablesQuery): Promise<ComparablesResult> {
+  const origin: [number, number] = [query.lng, query.lat];
+  const { items } = await storage.getProperties({ bbox: bboxAround(origin, query.radius), limit: 1000, offset: 0 });
+  const buildings = new Map(
+    items
+      .map((property) => ({ property, distanceMeters: haversineMeters(origin, [property.lng, property.lat]) }))
+      .filter((b) => b.distanceMeters <= query.radius)
+      .map((b) => [b.property.id, b]),
+  );
+
+  const minSize = query.size != null ? query.size * (1 - query.sizeTolerance) : 0;
+  const maxSize = query.size != null ? query.size * (1 + query.sizeTolerance) : Infinity;
+
+  const matching: ComparableSale[] = (await storage.getTransactionsForProperties(Array.from(buildings.keys()), query.since))
+    .filter((t) => t.sizeSqft >= minSize && t.sizeSqft <= maxSize)
+    .filter((t) => query.bedrooms == null || (t.bedrooms != null && Math.abs(t.bedrooms - query.bedrooms) <= query.bedroomTolerance))
+    .map((t) => {
+      const { property, distanceMeters } = buildings.get(t.propertyId)!;
+      return {
+        id: t.id,
+        propertyId: t.propertyId,
+        building: property.name,
+        community: property.community,
+        coords: [property.lng, property.lat],
+        distanceMeters: Math.round(distanceMeters),
+        date: t.date,
+        priceAED: t.priceAED,
+        sizeSqft: t.sizeSqft,
+        pricePerSqft: Math.round(t.priceAED / t.sizeSqft),
+        unitType: t.unitType,
+        bedrooms: t.bedrooms,
+      };
+    });
+
+  // History uses every match so the chart isn't cut off by the page size
+  return {
+    sales: matching.slice(0, query.limit),
+    history: monthlyHistory(matching),
+    medianPricePerSqft: matching.length ? Math.round(median(matching.map((s) => s.pricePerSqft))) : null,
+  };
+}
@@ -0,0 +1,20 @@
+import { onDataChanged } from "../events";
+import { recomputeZoneStats } from "./zoneStats";
+import { checkSavedSearches } from "./savedSearchAlerts";
+import { searchIndex } from "./searchIndex";
+
+/**
+ * Wire derived-data jobs to catalogue writes and bring derived data up to date.
+ * Called once by the web server and by the import CLI.
+ */
+export async function registerDataJobs() {
+  onDataChanged(() => recomputeZoneStats());
+  // Zone boundaries don't affect search matches
+  onDataChanged(async ({ kinds }) => {
+    if (kinds.includes('properties') || kinds.includes('transactions')) await checkSavedSearches();
+  });
+  onDataChanged(({ kinds }) => {
+    if (kinds.includes('properties')) searchIndex.invalidate();
+  });
+  await recomputeZoneStats();
+}
@@ -0,0 +1,110 @@
+import { SQFT_PER_SQM, insertTransactionSchema, type InsertTransaction, type Property, type TransactionImportReport } from "@shared/schema";
+import { fromZodError } from "zod-validation-error";
+import { parseCsvRecords } from "../lib/csv";
+import { storage } from "../storage";
+import { notifyDataChanged } from "../events";
+
+// Header spellings seen in DLD open-data downloads and the Dubai REST portal export
+const COLUMNS = {
+  ref: ['transactionnumber', 'transactionid', 'transno'],
+  date: ['transactiondate', 'instancedate', 'date'],
+  group: ['transactiontype', 'transgroupen', 'transgroup'],
+  amount: ['amount', 'actualworth', 'transvalue', 'transactionvalue'],
+  sizeSqm: ['transactionsizesqm', 'propertysizesqm', 'procedurearea', 'area'],
+  rooms: ['rooms', 'roomen', 'roomsen'],
+  unitType: ['propertysubtype', 'propertysubtypeen', 'propertytype', 'propertytypeen'],
+  building: ['buildingname', 'buildingnameen', 'project', 'projectnameen', 'projectname'],
+} as const;
+
+type Column = keyof typeof COLUMNS;
+
+function normalizeHeader(h: string) {
+  return h.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Aliases are tried in order, so "Property Sub Type" wins over the coarser "Property Type"
+function pick(record: Record<string, string>, column: Column): string {
+  const byHeader = new Map(Object.entries(record).map(([key, value]) => [normalizeHeader(key), value]));
+  for (const alias of COLUMNS[column]) {
+    const value = byHeader.get(alias);
+    if (value) return value;
+  }
+  return '';
+}
+
+// Accepts 2024-03-15, 2024-03-15 00:00:00, 15-03-2024 and 15/03/2024
+export function parseDldDate(value: string): string | undefined {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const dmy = value.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{4})/);
+  if (dmy) return `${dmy[3]}-${dmy[2].padStart(2, '0')}-${dmy[1].padStart(2, '0')}`;
+  return undefined;
+}
+
+// "Studio" -> 0, "2 B/R" -> 2; offices, shops and blanks have no bedroom count
+export function parseDldRooms(value: string): number | null {
+  if (/studio/i.test(value)) return 0;
+  const n = value.match(/^(\d+)\s*b\/?r/i);
+  return n ? Number(n[1]) : null;
+}
+
+function parseAmount(value: string) {
+  return Number(value.replace(/[^0-9.]/g, ''));
+}
+
+/**
+ * Import sales from a DLD-style CSV export. Rows are matched to catalogue buildings by name;
+ * mortgages, gifts and rows for unknown buildings are reported rather than imported.
+ */
+export async function importDldCsv(text: string): Promise<TransactionImportReport> {
+  const report: TransactionImportReport = { imported: 0, duplicates: 0, skipped: 0, errors: [] };
+  const buildingCache = new Map<string, Property | undefined>();
+  const rows: InsertTransaction[] = [];
+
+  const findBuilding = async (name: string) => {
+    const key = name.toLowerCase();
+    if (!buildingCache.has(key)) {
+      const matches = await storage.searchProperties(name, 20);
+      buildingCache.set(key, matches.find((p) => p.name.toLowerCase() === key));
+    }
+    return buildingCache.get(key);
+  };
+
+  for (const { line, record } of parseCsvRecords(text)) {
+    const group = pick(record, 'group');
+    if (group && !/^sales?$/i.test(group)) {
+      report.skipped++;
+      continue;
+    }
+
+    const buildingName = pick(record, 'building');
+    const building = buildingName ? await findBuilding(buildingName) : undefined;
+    if (!building) {
+      report.errors.push({ row: line, error: buildingName ? `Unknown building "${buildingName}"` : 'Missing building or project name' });
+      continue;
+    }
+
+    const date = parseDldDate(pick(record, 'date'));
+    const sizeSqm = parseAmount(pick(record, 'sizeSqm'));
+    const parsed = insertTransactionSchema.safeParse({
+      propertyId: building.id,
+      date: date ?? pick(record, 'date'),
+      priceAED: Math.round(parseAmount(pick(record, 'amount'))),
+      sizeSqft: Math.round(sizeSqm * SQFT_PER_SQM),
+      unitType: pick(record, 'unitType') || 'Unknown',
+      bedrooms: parseDldRooms(pick(record, 'rooms')),
+      source: 'dld',
+      sourceRef: pick(record, 'ref') || null,
+    });
+    if (!parsed.success) {
+      report.errors.push({ row: line, error: fromZodError(parsed.error).message });
+      continue;
+    }
+    rows.push(parsed.data);
+  }
+
+  report.imported = await storage.addTransactions(rows);
+  report.duplicates = rows.length - report.imported;
+  if (report.imported > 0) await notifyDataChanged({ kinds: ['transactions'] });
+  return report;
+}
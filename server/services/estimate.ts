@@ -0,0 +1,166 @@
+import type { EstimateComparable, PriceTrendPoint, Property, PropertyEstimate, Zone } from "@shared/schema";
+import { bboxAround, haversineMeters, pointInPolygon, polygonCentroid, type LngLat } from "@shared/geo";
+import { storage } from "../storage";
+
+const COMPARABLE_RADIUS_M = 3000;
+const MAX_COMPARABLES = 5;
+// Distances below this are treated as the same building so one record can't take 100% weight by accident
+const MIN_DISTANCE_M = 25;
+const ZONE_WEIGHT = 0.4;
+// A zone further than this from the point says nothing about it, so it isn't used at all
+const MAX_ZONE_DISTANCE_M = 20000;
+
+// Typical unit size (sqft) for each bedroom count, 0 = studio
+const TYPICAL_SIZE_SQFT = [450, 800, 1250, 1750, 2600];
+const VILLA_COMMUNITY = /villa|ranches|springs|meadows|lakes|hills|district one/i;
+
+// FNV-1a over the key, turned into a stable 0-1 fraction
+function stableFraction(key: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0) / 0x100000000;
+}
+
+export class EstimateCoverageError extends Error {}
+
+function round(n: number, digits = 0) {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
+
+export function findZone(point: LngLat, zones: Zone[]) {
+  let best: { zone: Zone; containsPoint: boolean; distanceMeters: number } | null = null;
+  for (const zone of zones) {
+    const containsPoint = pointInPolygon(point, zone.polygon);
+    const distanceMeters = containsPoint ? 0 : haversineMeters(point, polygonCentroid(zone.polygon));
+    if (!best || distanceMeters < best.distanceMeters) best = { zone, containsPoint, distanceMeters };
+  }
+  return best;
+}
+
+function blendTrends(comps: { property: Property; weight: number }[]): PriceTrendPoint[] {
+  const withTrend = comps.filter((c) => c.property.priceTrend.length);
+  if (!withTrend.length) return [];
+  const length = Math.min(...withTrend.map((c) => c.property.priceTrend.length));
+  const total = withTrend.reduce((s, c) => s + c.weight, 0);
+  return Array.from({ length }).map((_, i) => ({
+    month: withTrend[0].property.priceTrend[i].month,
+    value: Math.round(withTrend.reduce((s, c) => s + c.property.priceTrend[i].value * c.weight, 0) / total),
+  }));
+}
+
+export function trendDirection(trend: PriceTrendPoint[]): PropertyEstimate["marketTrend"] {
+  if (trend.length < 2) return 'Stable';
+  const first = trend[0].value;
+  const change = (trend[trend.length - 1].value - first) / first;
+  if (change > 0.02) return 'Increasing';
+  if (change < -0.02) return 'Decreasing';
+  return 'Stable';
+}
+
+/**
+ * Estimate value, price per sqft, yield and a typical unit for a coordinate; the investment score
+ * is `scoreInvestment`'s job. Pure function of the coordinate and the stored catalogue, so repeated
+ * calls agree.
+ */
+export async function estimateAt(coordinates: LngLat): Promise<PropertyEstimate> {
+  const notes: string[] = [];
+  // Zones without any properties inside have no averages to offer
+  const nearestZone = findZone(coordinates, (await storage.getZones()).filter((z) => z.propertyCount > 0));
+  const zoneMatch = nearestZone && nearestZone.distanceMeters <= MAX_ZONE_DISTANCE_M ? nearestZone : null;
+
+  const { items: nearby } = await storage.getProperties({
+    bbox: bboxAround(coordinates, COMPARABLE_RADIUS_M),
+    limit: 1000,
+    offset: 0,
+  });
+
+  const ranked = nearby
+    .map((property) => ({ property, distanceMeters: haversineMeters(coordinates, [property.lng, property.lat]) }))
+    .filter((c) => c.distanceMeters <= COMPARABLE_RADIUS_M)
+    .sort((a, b) => a.distanceMeters - b.distanceMeters || a.property.id.localeCompare(b.property.id))
+    .slice(0, MAX_COMPARABLES);
+
+  // Inverse-distance weights
+  const rawWeights = ranked.map((c) => 1 / Math.max(MIN_DISTANCE_M, c.distanceMeters));
+  const weightSum = rawWeights.reduce((s, w) => s + w, 0);
+  const comps = ranked.map((c, i) => ({ ...c, weight: rawWeights[i] / weightSum }));
+
+  const compAvg = (pick: (p: Property) => number) =>
+    comps.reduce((s, c) => s + pick(c.property) * c.weight, 0);
+
+  let pricePerSqFt: number;
+  let rentYield: number;
+  if (comps.length && zoneMatch) {
+    pricePerSqFt = compAvg((p) => p.pricePerSqft) * (1 - ZONE_WEIGHT) + zoneMatch.zone.avgPricePerSqft * ZONE_WEIGHT;
+    rentYield = compAvg((p) => p.rentYield) * (1 - ZONE_WEIGHT) + zoneMatch.zone.avgYield * ZONE_WEIGHT;
+    notes.push(`Blended ${comps.length} comparable(s) within ${COMPARABLE_RADIUS_M / 1000} km (${(1 - ZONE_WEIGHT) * 100}%) with ${zoneMatch.zone.name} zone averages (${ZONE_WEIGHT * 100}%).`);
+  } else if (comps.length) {
+    pricePerSqFt = compAvg((p) => p.pricePerSqft);
+    rentYield = compAvg((p) => p.rentYield);
+    notes.push(`No zones available; used ${comps.length} comparable(s) only.`);
+  } else if (zoneMatch) {
+    pricePerSqFt = zoneMatch.zone.avgPricePerSqft;
+    rentYield = zoneMatch.zone.avgYield;
+    notes.push(`No comparables within ${COMPARABLE_RADIUS_M / 1000} km; used ${zoneMatch.zone.name} zone averages.`);
+  } else {
+    throw new EstimateCoverageError(
+      `No comparables within ${COMPARABLE_RADIUS_M / 1000} km and no zone within ${MAX_ZONE_DISTANCE_M / 1000} km; this point is outside the area covered`
+    );
+  }
+  if (zoneMatch && !zoneMatch.containsPoint) {
+    notes.push(`Point lies outside all zones; nearest zone centre is ${round(zoneMatch.distanceMeters / 1000, 1)} km away.`);
+  }
+
+  // Unit mix is a stable pick per ~1 m grid cell, not a measurement; `syntheticUnit` says so to clients
+  const cell = `${coordinates[0].toFixed(5)},${coordinates[1].toFixed(5)}`;
+  const community = comps[0]?.property.community ?? zoneMatch?.zone.name ?? '';
+  const propertyType: PropertyEstimate["propertyType"] = VILLA_COMMUNITY.test(community) ? 'Villa' : 'Apartment';
+  const bedrooms = propertyType === 'Villa'
+    ? 3 + Math.floor(stableFraction(`${cell}:beds`) * 2)
+    : 1 + Math.floor(stableFraction(`${cell}:beds`) * 3);
+  const size = Math.round(TYPICAL_SIZE_SQFT[bedrooms] * (0.9 + stableFraction(`${cell}:size`) * 0.2));
+  notes.push(`Bedrooms and size describe an illustrative ${bedrooms}-bedroom ${propertyType.toLowerCase()} of ${size} sqft, not a real unit.`);
+
+  const priceTrend = blendTrends(comps);
+
+  const comparables: EstimateComparable[] = comps.map((c) => ({
+    id: c.property.id,
+    name: c.property.name,
+    community: c.property.community,
+    distanceMeters: Math.round(c.distanceMeters),
+    pricePerSqft: c.property.pricePerSqft,
+    rentYield: c.property.rentYield,
+    weight: round(c.weight, 3),
+  }));
+
+  return {
+    coordinates,
+    value: Math.round((size * pricePerSqFt) / 1000) * 1000,
+    pricePerSqFt: Math.round(pricePerSqFt),
+    yield: round(rentYield, 1),
+    bedrooms,
+    size,
+    propertyType,
+    syntheticUnit: true,
+    marketTrend: trendDirection(priceTrend),
+    priceTrend,
+    explanation: {
+      zone: zoneMatch
+        ? {
+            id: zoneMatch.zone.id,
+            name: zoneMatch.zone.name,
+            avgPricePerSqft: zoneMatch.zone.avgPricePerSqft,
+            avgYield: zoneMatch.zone.avgYield,
+            containsPoint: zoneMatch.containsPoint,
+            distanceMeters: Math.round(zoneMatch.distanceMeters),
+          }
+        : null,
+      comparables,
+      notes,
+    },
+  };
+}
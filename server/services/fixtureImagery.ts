@@ -0,0 +1,52 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { LngLat } from "@shared/geo";
+import { escapeXml } from "../lib/svg";
+import type { FetchedImage, ImageryProvider } from "./imagery";
+
+const CONTENT_TYPES: Record<string, string> = { ".jpg": "image/jpeg", ".jpeg": "image/jpeg", ".png": "image/png", ".svg": "image/svg+xml" };
+
+// Labelled stand-in so offline pages still show where an image would go
+function placeholder(title: string, [lng, lat]: LngLat, detail: string): FetchedImage {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="640" height="640" viewBox="0 0 640 640">
+  <rect width="640" height="640" fill="#dfe7e3"/>
+  <path d="M0 640L640 0M0 0l640 640" stroke="#c5d1cb" stroke-width="2"/>
+  <text x="320" y="300" text-anchor="middle" font-family="sans-serif" font-size="32" fill="#2f4f44">${escapeXml(title)}</text>
+  <text x="320" y="345" text-anchor="middle" font-family="sans-serif" font-size="20" fill="#4b6b60">${lat.toFixed(5)}, ${lng.toFixed(5)}</text>
+  <text x="320" y="375" text-anchor="middle" font-family="sans-serif" font-size="18" fill="#4b6b60">${escapeXml(detail)}</text>
+</svg>`;
+  return { contentType: "image/svg+xml", data: Buffer.from(svg) };
+}
+
+/**
+ * Offline imagery for development. Serves `streetview.*` and `satellite.*` from the fixtures
+ * directory when present (e.g. `satellite.png`), and a labelled SVG placeholder otherwise.
+ */
+export function fixtureImageryProvider({
+  dir = process.env.IMAGERY_FIXTURES_DIR || path.resolve("server/data/imagery"),
+}: { dir?: string } = {}): ImageryProvider {
+  async function fixture(kind: "streetview" | "satellite"): Promise<FetchedImage | null> {
+    for (const [ext, contentType] of Object.entries(CONTENT_TYPES)) {
+      const data = await fs.readFile(path.join(dir, `${kind}${ext}`)).catch(() => null);
+      if (data) return { contentType, data };
+    }
+    return null;
+  }
+
+  return {
+    name: "fixtures",
+    configured: () => true,
+
+    async streetViewCamera(target) {
+      return { location: target, heading: 0 };
+    },
+
+    async streetView(location, heading) {
+      return (await fixture("streetview")) ?? placeholder("Street View (offline)", location, `heading ${heading}°`);
+    },
+
+    async satellite(center, zoom) {
+      return (await fixture("satellite")) ?? placeholder("Satellite (offline)", center, `zoom ${zoom}`);
+    },
+  };
+}
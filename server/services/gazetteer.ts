@@ -0,0 +1,115 @@
+import type { BBox, LngLat } from "@shared/geo";
+import { pointInBBox } from "@shared/geo";
+import type { GeocodeQuery, GeoPlace } from "@shared/schema";
+import { gazetteer } from "../data/gazetteer";
+import type { Geocoder } from "./geocode";
+
+export type GazetteerKind = "emirate" | "master_project" | "community" | "sub_community";
+
+export type GazetteerEntry = {
+  id: string;
+  kind: GazetteerKind;
+  name: string;
+  nameAr: string;
+  aliases?: string[];
+  emirate?: string; // id of the emirate entry; unset on emirates themselves
+  parent?: string; // id of the master project a community or sub-community belongs to
+  center: LngLat;
+  bbox?: BBox;
+};
+
+// The geocoding place types each kind answers for
+const PLACE_TYPES: Record<GazetteerKind, string> = {
+  emirate: "place",
+  master_project: "locality",
+  community: "locality",
+  sub_community: "neighborhood",
+};
+
+const KIND_RANK: Record<GazetteerKind, number> = { emirate: 0, master_project: 1, community: 2, sub_community: 3 };
+
+/**
+ * Fold case, Latin accents, Arabic diacritics and letter variants, and punctuation, so that
+ * "Al-Barsha", "al barsha" and "البرشاء" / "البرشاءُ" each compare equal to their own forms
+ */
+export function normalisePlaceName(text: string): string {
+  return text
+    .normalize("NFKD")
+    .toLowerCase()
+    .replace(/[̀-ͯ]/g, "") // Latin combining accents
+    .replace(/[ً-ٰٟـ]/g, "") // Arabic harakat, dagger alef, tatweel
+    .replace(/[أإآٱ]/g, "ا")
+    .replace(/ى/g, "ي")
+    .replace(/ة/g, "ه")
+    .replace(/[^a-z0-9ء-ي٠-٩]+/g, " ")
+    .trim();
+}
+
+type IndexedEntry = { entry: GazetteerEntry; keys: string[] };
+
+const byId = new Map(gazetteer.map((e) => [e.id, e]));
+const index: IndexedEntry[] = gazetteer.map((entry) => ({
+  entry,
+  keys: [entry.name, entry.nameAr, ...(entry.aliases ?? [])].map(normalisePlaceName),
+}));
+
+// "Jumeirah Village Circle, Jumeirah Village, Dubai, United Arab Emirates"
+export function gazetteerFullName(entry: GazetteerEntry) {
+  const parent = entry.parent ? byId.get(entry.parent)?.name : undefined;
+  const emirate = entry.emirate ? byId.get(entry.emirate)?.name : undefined;
+  return [entry.name, parent, emirate, "United Arab Emirates"].filter(Boolean).join(", ");
+}
+
+function toPlace(entry: GazetteerEntry): GeoPlace {
+  return {
+    id: `gazetteer.${entry.id}`,
+    name: entry.name,
+    nameAr: entry.nameAr,
+    fullName: gazetteerFullName(entry),
+    center: entry.center,
+    bbox: entry.bbox,
+    placeType: PLACE_TYPES[entry.kind],
+    category: entry.kind,
+  };
+}
+
+// 3: the whole name or an alias, 2: the start of one, 1: the start of a later word in one
+function matchScore(keys: string[], q: string, prefixes: boolean) {
+  let best = 0;
+  for (const key of keys) {
+    if (key === q) return 3;
+    if (!prefixes) continue;
+    if (key.startsWith(q)) best = Math.max(best, 2);
+    else if (q.length >= 3 && key.includes(` ${q}`)) best = Math.max(best, 1);
+  }
+  return best;
+}
+
+/**
+ * Gazetteer places matching a geocoding query, best first. Autocomplete queries also match name
+ * prefixes; otherwise only whole names and aliases count. Empty when `types` asks for none of
+ * the kinds the gazetteer holds.
+ */
+export function searchGazetteer({ q, limit, bbox, types, autocomplete }: Pick<GeocodeQuery, "q" | "limit" | "bbox" | "types" | "autocomplete">): GeoPlace[] {
+  const wanted = types ? new Set(types.split(",")) : null;
+  const query = normalisePlaceName(q);
+  if (!query) return [];
+
+  return index
+    .filter(({ entry }) => !wanted || wanted.has(PLACE_TYPES[entry.kind]))
+    .filter(({ entry }) => !bbox || pointInBBox(entry.center, bbox))
+    .map(({ entry, keys }) => ({ entry, score: matchScore(keys, query, autocomplete) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || KIND_RANK[a.entry.kind] - KIND_RANK[b.entry.kind] || a.entry.name.localeCompare(b.entry.name))
+    .slice(0, limit)
+    .map(({ entry }) => toPlace(entry));
+}
+
+/**
+ * Resolves only exact gazetteer names ("Dubai Marina, UAE"); undefined for anything else
+ */
+export const gazetteerGeocoder: Geocoder = async (query) => {
+  const bare = query.replace(/,?\s*(uae|united arab emirates|الامارات|الإمارات)\s*$/i, "");
+  const [match] = searchGazetteer({ q: bare, limit: 1, autocomplete: false });
+  return match?.center;
+};
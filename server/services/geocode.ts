@@ -0,0 +1,74 @@
+import type { LngLat } from "@shared/geo";
+import { DiskCache } from "../lib/diskCache";
+import { gazetteerGeocoder } from "./gazetteer";
+
+export type Geocoder = (query: string) => Promise<LngLat | undefined>;
+
+/**
+ * Resolve a free-text place to coordinates with the Google Geocoding API, biased to the UAE.
+ * Resolves to undefined when nothing matches; throws when the API key is missing or the call fails.
+ */
+export const googleGeocoder: Geocoder = async (query) => {
+  const googleApiKey = process.env.GOOGLE_MAPS_API_KEY;
+  if (!googleApiKey) {
+    throw new Error('Google Maps API key not configured');
+  }
+
+  const url = `https://maps.googleapis.com/maps/api/geocode/json?` +
+    `address=${encodeURIComponent(query)}&region=ae&components=country:AE&key=${googleApiKey}`;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Geocoding failed: ${response.status}`);
+  }
+
+  const data = await response.json();
+  if (data.status === 'ZERO_RESULTS') return undefined;
+  if (data.status !== 'OK') {
+    throw new Error(`Geocoding failed: ${data.status}`);
+  }
+
+  const { lat, lng } = data.results[0].geometry.location;
+  return [lng, lat];
+};
+
+/**
+ * Disk cache for remote geocoding results under GEOCODE_CACHE_DIR (default .cache/geocode),
+ * capped at GEOCODE_CACHE_MAX_MB (default 64); a cap of 0 turns it off
+ */
+export function geocodeCacheFromEnv(): DiskCache | null {
+  const maxMb = Number(process.env.GEOCODE_CACHE_MAX_MB ?? 64);
+  if (!Number.isFinite(maxMb) || maxMb <= 0) return null;
+  return new DiskCache(process.env.GEOCODE_CACHE_DIR || ".cache/geocode", maxMb * 1024 * 1024);
+}
+
+export const geocodeCache = geocodeCacheFromEnv();
+
+/**
+ * Remember a geocoder's matches on disk, so a repeated query answers without the network.
+ * Misses aren't stored: a place the provider doesn't know yet may be added later.
+ */
+export function cachedGeocoder(geocoder: Geocoder, cache: DiskCache | null, name: string): Geocoder {
+  if (!cache) return geocoder;
+  return async (query) => {
+    const key = `geocoder:${name}:${query.trim().toLowerCase()}`;
+    const hit = await cache.get(key);
+    if (hit) return JSON.parse(hit.data.toString("utf8")) as LngLat;
+
+    const point = await geocoder(query);
+    if (point) {
+      await cache.set(key, { contentType: "application/json", data: Buffer.from(JSON.stringify(point)) })
+        .catch((e) => console.warn('Geocode cache write failed:', e.message));
+    }
+    return point;
+  };
+}
+
+/**
+ * Answer from the UAE gazetteer when the query names a known emirate or community, and from
+ * `geocoder` otherwise
+ */
+export function withGazetteer(geocoder: Geocoder): Geocoder {
+  return async (query) => (await gazetteerGeocoder(query)) ?? geocoder(query);
+}
+
+export const defaultGeocoder: Geocoder = withGazetteer(cachedGeocoder(googleGeocoder, geocodeCache, "google"));
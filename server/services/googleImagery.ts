@@ -0,0 +1,72 @@
+import type { LngLat } from "@shared/geo";
+import { ImageryError, type FetchedImage, type ImageryProvider, type UpstreamFetch } from "./imagery";
+
+const IMAGE_SIZE = "640x640";
+
+function initialBearing([lng1, lat1]: LngLat, [lng2, lat2]: LngLat) {
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const φ1 = toRad(lat1), φ2 = toRad(lat2);
+  const Δλ = toRad(lng2 - lng1);
+  const y = Math.sin(Δλ) * Math.cos(φ2);
+  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+/**
+ * Turn a non-OK Google response into an ImageryError; an API that isn't enabled for the key
+ * comes back as 403 "not authorized"
+ */
+async function googleError(response: Response, api: string): Promise<ImageryError> {
+  const details = await response.text();
+  if (response.status === 403 && details.includes('not authorized')) {
+    return new ImageryError('upstream_forbidden', `${api} not enabled; enable it in Google Cloud Console`, details);
+  }
+  if (response.status === 404) return new ImageryError('not_found', `${api} image not available`, details);
+  return new ImageryError('upstream_error', `${api} request failed (${response.status})`, details);
+}
+
+async function readImage(response: Response, api: string): Promise<FetchedImage> {
+  if (!response.ok) throw await googleError(response, api);
+  return {
+    contentType: response.headers.get("content-type") ?? "image/jpeg",
+    data: Buffer.from(await response.arrayBuffer()),
+  };
+}
+
+/**
+ * Street View Static and Maps Static (satellite) imagery; needs GOOGLE_MAPS_API_KEY
+ */
+export function googleImageryProvider({
+  fetch: upstream = (url) => fetch(url),
+  apiKey = () => process.env.GOOGLE_MAPS_API_KEY,
+}: { fetch?: UpstreamFetch; apiKey?: () => string | undefined } = {}): ImageryProvider {
+  return {
+    name: "google",
+    configured: () => !!apiKey(),
+
+    // Falls back to the building itself, heading north, when the metadata lookup fails
+    async streetViewCamera([lng, lat]) {
+      try {
+        const meta = await (await upstream(`https://maps.googleapis.com/maps/api/streetview/metadata?location=${lat},${lng}&radius=80&key=${apiKey()}`)).json();
+        const location: LngLat = [meta?.location?.lng ?? lng, meta?.location?.lat ?? lat];
+        return { location, heading: Math.round(initialBearing(location, [lng, lat])) };
+      } catch {
+        return { location: [lng, lat], heading: 0 };
+      }
+    },
+
+    async streetView([lng, lat], heading) {
+      return readImage(
+        await upstream(`https://maps.googleapis.com/maps/api/streetview?size=${IMAGE_SIZE}&location=${lat.toFixed(5)},${lng.toFixed(5)}&heading=${heading}&pitch=0&fov=90&key=${apiKey()}`),
+        'Street View Static API',
+      );
+    },
+
+    async satellite([lng, lat], zoom) {
+      return readImage(
+        await upstream(`https://maps.googleapis.com/maps/api/staticmap?center=${lat.toFixed(5)},${lng.toFixed(5)}&zoom=${zoom}&size=${IMAGE_SIZE}&maptype=satellite&key=${apiKey()}`),
+        'Maps Static API',
+      );
+    },
+  };
+}
@@ -0,0 +1,81 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { DiskCache } from "../lib/diskCache";
+import { createImageryService, ImageryError, type UpstreamFetch } from "./imagery";
+import { mapboxImageryProvider } from "./mapboxImagery";
+
+const DOWNTOWN: [number, number] = [55.2744, 25.1972];
+
+describe("createImageryService", () => {
+  let dir: string;
+  let urls: string[];
+  let status: number;
+
+  // Stands in for the Mapbox API: answers every request with a small PNG, or `status` when it isn't 200
+  const stub: UpstreamFetch = async (url) => {
+    urls.push(url);
+    return status === 200
+      ? new Response(Buffer.from("png"), { headers: { "content-type": "image/png" } })
+      : new Response("upstream said no", { status });
+  };
+
+  const service = () => createImageryService(
+    mapboxImageryProvider({ fetch: stub, accessToken: () => "test-token" }),
+    { cache: new DiskCache(dir, 1024 * 1024) },
+  );
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "imagery-"));
+    urls = [];
+    status = 200;
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("serves a repeat request from the cache", async () => {
+    const imagery = service();
+    expect((await imagery.satellite(DOWNTOWN, 18)).cached).toBe(false);
+    const again = await imagery.satellite(DOWNTOWN, 18);
+
+    expect(again.cached).toBe(true);
+    expect(again.image.data.toString()).toBe("png");
+    expect(urls).toHaveLength(1);
+    expect((await imagery.metrics()).upstream).toEqual({ requests: 1, errors: 0 });
+  });
+
+  it("shares one upstream call between concurrent requests", async () => {
+    const imagery = service();
+    await Promise.all([imagery.streetView(DOWNTOWN, 90), imagery.streetView(DOWNTOWN, 450)]);
+    expect(urls).toHaveLength(1);
+  });
+
+  it("doesn't cache failures", async () => {
+    const imagery = service();
+    status = 403;
+    await expect(imagery.satellite(DOWNTOWN, 18)).rejects.toMatchObject({ code: "upstream_forbidden" });
+
+    status = 200;
+    expect((await imagery.satellite(DOWNTOWN, 18)).cached).toBe(false);
+    expect((await imagery.metrics()).upstream).toEqual({ requests: 2, errors: 1 });
+  });
+
+  it("purges one kind of image", async () => {
+    const imagery = service();
+    await imagery.satellite(DOWNTOWN, 18);
+    await imagery.streetView(DOWNTOWN, 0);
+
+    expect(await imagery.purge("satellite")).toBe(1);
+    expect((await imagery.satellite(DOWNTOWN, 18)).cached).toBe(false);
+    expect((await imagery.streetView(DOWNTOWN, 0)).cached).toBe(true);
+  });
+
+  it("refuses requests when the provider has no credentials", async () => {
+    const imagery = createImageryService(mapboxImageryProvider({ fetch: stub, accessToken: () => undefined }));
+    await expect(imagery.satellite(DOWNTOWN)).rejects.toBeInstanceOf(ImageryError);
+    expect(urls).toHaveLength(0);
+  });
+});
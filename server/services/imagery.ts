@@ -0,0 +1,181 @@
+import type { LngLat } from "@shared/geo";
+import { DiskCache, type CachedBlob, type DiskCacheStats } from "../lib/diskCache";
+import { fixtureImageryProvider } from "./fixtureImagery";
+import { googleImageryProvider } from "./googleImagery";
+import { mapboxImageryProvider } from "./mapboxImagery";
+
+export type FetchedImage = CachedBlob;
+
+// Swappable so tests can point a provider at a local stub instead of the real API
+export type UpstreamFetch = (url: string) => Promise<Response>;
+
+export const imageryErrorCodes = {
+  invalid_request: 400,
+  upstream_forbidden: 403,
+  not_found: 404,
+  upstream_error: 502,
+  not_configured: 503,
+} as const;
+
+export type ImageryErrorCode = keyof typeof imageryErrorCodes;
+
+/**
+ * Every imagery failure carries one of a few codes so the routes answer with the same JSON shape
+ * whichever provider is behind them
+ */
+export class ImageryError extends Error {
+  constructor(public code: ImageryErrorCode, message: string, public details?: string) {
+    super(message);
+  }
+
+  get status() {
+    return imageryErrorCodes[this.code];
+  }
+}
+
+export type StreetViewCamera = { location: LngLat; heading: number };
+
+export type ImageryProviderName = "google" | "mapbox" | "fixtures";
+
+/**
+ * A source of building photos and overhead imagery. Implementations throw ImageryError.
+ */
+export interface ImageryProvider {
+  name: ImageryProviderName;
+  configured(): boolean;
+  // Where to stand, and which way to look, to see the building at `target`
+  streetViewCamera(target: LngLat): Promise<StreetViewCamera>;
+  streetView(location: LngLat, heading: number): Promise<FetchedImage>;
+  satellite(center: LngLat, zoom: number): Promise<FetchedImage>;
+}
+
+export type ImageryMetrics = {
+  provider: ImageryProviderName;
+  cache: DiskCacheStats | null;
+  upstream: { requests: number; errors: number };
+};
+
+// ~1 m of precision and whole degrees/zoom levels: nearby requests share one cached image
+const coordKey = ([lng, lat]: LngLat) => `${lat.toFixed(5)},${lng.toFixed(5)}`;
+const normaliseHeading = (heading: number) => ((Math.round(heading) % 360) + 360) % 360;
+
+/**
+ * Put a provider behind the disk cache. Only successful images are cached, and concurrent
+ * requests for the same image share one upstream call.
+ */
+export function createImageryService(provider: ImageryProvider, { cache = null }: { cache?: DiskCache | null } = {}) {
+  const inFlight = new Map<string, Promise<{ image: FetchedImage; cached: boolean }>>();
+  const upstream = { requests: 0, errors: 0 };
+
+  function cached(key: string, load: () => Promise<FetchedImage>) {
+    const pending = inFlight.get(key);
+    if (pending) return pending;
+
+    const result = (async () => {
+      const hit = await cache?.get(key);
+      if (hit) return { image: hit, cached: true };
+      upstream.requests++;
+      const image = await load().catch((error) => {
+        upstream.errors++;
+        throw error;
+      });
+      await cache?.set(key, image).catch((e) => console.warn('Image cache write failed:', e.message));
+      return { image, cached: false };
+    })().finally(() => inFlight.delete(key));
+    inFlight.set(key, result);
+    return result;
+  }
+
+  function requireConfigured() {
+    if (!provider.configured()) {
+      throw new ImageryError('not_configured', `Imagery provider "${provider.name}" is not configured`);
+    }
+  }
+
+  return {
+    provider: provider.name,
+    configured: () => provider.configured(),
+
+    async streetViewCamera(target: LngLat): Promise<StreetViewCamera> {
+      requireConfigured();
+      return provider.streetViewCamera(target);
+    },
+
+    async streetView(location: LngLat, heading = 0) {
+      requireConfigured();
+      const h = normaliseHeading(heading);
+      return cached(`streetview:${provider.name}:${coordKey(location)}:h${h}`, () => provider.streetView(location, h));
+    },
+
+    async satellite(center: LngLat, zoom = 18) {
+      requireConfigured();
+      const z = Math.round(zoom);
+      return cached(`satellite:${provider.name}:${coordKey(center)}:z${z}`, () => provider.satellite(center, z));
+    },
+
+    async metrics(): Promise<ImageryMetrics> {
+      return { provider: provider.name, cache: cache ? await cache.stats() : null, upstream: { ...upstream } };
+    },
+
+    purge(kind?: "streetview" | "satellite"): Promise<number> {
+      return cache ? cache.purge(kind ? `${kind}:` : "") : Promise.resolve(0);
+    },
+  };
+}
+
+export type ImageryService = ReturnType<typeof createImageryService>;
+
+/**
+ * Disk cache under IMAGE_CACHE_DIR (default .cache/images) capped at IMAGE_CACHE_MAX_MB
+ * (default 256); a cap of 0 turns caching off
+ */
+export function imageCacheFromEnv(): DiskCache | null {
+  const maxMb = Number(process.env.IMAGE_CACHE_MAX_MB ?? 256);
+  if (!Number.isFinite(maxMb) || maxMb <= 0) return null;
+  return new DiskCache(process.env.IMAGE_CACHE_DIR || ".cache/images", maxMb * 1024 * 1024);
+}
+
+/**
+ * IMAGERY_PROVIDER picks google, mapbox or fixtures. Unset, it is whichever of Google and Mapbox
+ * has a key, then offline fixtures outside production.
+ */
+export function imageryProviderFromEnv(): ImageryProvider {
+  const name = process.env.IMAGERY_PROVIDER
+    ?? (process.env.GOOGLE_MAPS_API_KEY ? "google"
+      : process.env.MAPBOX_ACCESS_TOKEN ? "mapbox"
+      : process.env.NODE_ENV !== "production" ? "fixtures"
+      : "google");
+  switch (name) {
+    case "google": return googleImageryProvider();
+    case "mapbox": return mapboxImageryProvider();
+    case "fixtures": return fixtureImageryProvider();
+    default: throw new Error(`Unknown IMAGERY_PROVIDER "${name}"; expected google, mapbox or fixtures`);
+  }
+}
+
+export const imagery = createImageryService(imageryProviderFromEnv(), { cache: imageCacheFromEnv() });
+
+/**
+ * Street-level image facing the building, or null when the provider has none
+ */
+export async function fetchStreetViewImage(coordinates: LngLat): Promise<FetchedImage | null> {
+  try {
+    const { location, heading } = await imagery.streetViewCamera(coordinates);
+    return (await imagery.streetView(location, heading)).image;
+  } catch (error) {
+    if (error instanceof ImageryError) return null;
+    throw error;
+  }
+}
+
+/**
+ * Satellite image centred on the coordinate, or null when the provider has none
+ */
+export async function fetchSatelliteImage(coordinates: LngLat, zoom = 17): Promise<FetchedImage | null> {
+  try {
+    return (await imagery.satellite(coordinates, zoom)).image;
+  } catch (error) {
+    if (error instanceof ImageryError) return null;
+    throw error;
+  }
+}
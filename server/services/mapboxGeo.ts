@@ -0,0 +1,233 @@
+import type { LngLat } from "@shared/geo";
+import type {
+  DirectionsQuery,
+  GeocodeQuery,
+  GeoPlace,
+  GeoRoute,
+  IsochroneCollection,
+  IsochroneQuery,
+  SearchBoxQuery,
+} from "@shared/schema";
+import type { DiskCache } from "../lib/diskCache";
+import { TtlCache } from "../lib/ttlCache";
+import { geocodeCache } from "./geocode";
+import type { UpstreamFetch } from "./imagery";
+
+const MAPBOX_API = "https://api.mapbox.com";
+
+export const geoErrorCodes = {
+  invalid_request: 400,
+  upstream_forbidden: 403,
+  rate_limited: 429,
+  upstream_error: 502,
+  not_configured: 503,
+} as const;
+
+export type GeoErrorCode = keyof typeof geoErrorCodes;
+
+/**
+ * A failed Mapbox call, coded the same way as imagery failures
+ */
+export class GeoError extends Error {
+  constructor(public code: GeoErrorCode, message: string, public details?: string) {
+    super(message);
+  }
+
+  get status() {
+    return geoErrorCodes[this.code];
+  }
+}
+
+// Origins to ~10 m and proximity hints to ~100 m, so nearby requests share a cache entry
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+const roundLngLat = ([lng, lat]: LngLat, digits: number): LngLat => [round(lng, digits), round(lat, digits)];
+
+function normaliseGeocodingFeature(f: any): GeoPlace {
+  return {
+    id: String(f.id),
+    name: f.text || f.place_name || "Unknown",
+    fullName: f.place_name || f.text || "",
+    center: (f.center || f.geometry?.coordinates) as LngLat,
+    bbox: f.bbox,
+    placeType: f.place_type?.[0] ?? "place",
+    category: f.properties?.category || undefined,
+  };
+}
+
+function normaliseSearchBoxFeature(f: any): GeoPlace {
+  const p = f.properties ?? {};
+  const center = (f.geometry?.coordinates ?? [p.coordinates?.longitude, p.coordinates?.latitude]) as LngLat;
+  return {
+    id: String(p.mapbox_id ?? f.id ?? center.join(",")),
+    name: p.name || "Unknown",
+    fullName: p.full_address || p.place_formatted || p.address || p.name || "",
+    center,
+    bbox: p.bbox,
+    placeType: p.feature_type ?? "poi",
+    category: p.poi_category?.[0],
+    website: p.metadata?.website,
+    rating: p.metadata?.rating,
+  };
+}
+
+type PlaceResults = { places: GeoPlace[]; source: "geocoding" | "searchbox" };
+
+/**
+ * Mapbox geocoding, Search Box, Directions and Isochrone APIs behind the server's token, with
+ * normalised responses and an in-memory cache. Concurrent identical requests share one call.
+ * Place results also go to `store`, when given, so they outlive restarts and network outages.
+ */
+export function createMapboxGeo({
+  fetch: upstream = (url) => fetch(url),
+  accessToken = () => process.env.MAPBOX_ACCESS_TOKEN,
+  store = null,
+}: { fetch?: UpstreamFetch; accessToken?: () => string | undefined; store?: DiskCache | null } = {}) {
+  const places = new TtlCache<PlaceResults>(2000, 60 * 60 * 1000);
+  const routes = new TtlCache<GeoRoute | null>(500, 10 * 60 * 1000);
+  const isochrones = new TtlCache<IsochroneCollection>(500, 6 * 60 * 60 * 1000);
+  const inFlight = new Map<string, Promise<unknown>>();
+  // Search Box needs a token with access to it; once refused, answer from geocoding instead
+  let searchBoxAvailable = true;
+
+  function cached<T>(cache: TtlCache<T>, key: string, load: () => Promise<T>): Promise<T> {
+    const hit = cache.get(key);
+    if (hit !== undefined) return Promise.resolve(hit);
+    const pending = inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+    const result = load()
+      .then((value) => { cache.set(key, value); return value; })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, result);
+    return result;
+  }
+
+  // Disk before network; only non-empty results are written back
+  async function persisted(key: string, load: () => Promise<PlaceResults>): Promise<PlaceResults> {
+    const hit = await store?.get(key);
+    if (hit) return JSON.parse(hit.data.toString("utf8"));
+    const result = await load();
+    if (result.places.length) {
+      await store?.set(key, { contentType: "application/json", data: Buffer.from(JSON.stringify(result)) })
+        .catch((e) => console.warn('Geocode cache write failed:', e.message));
+    }
+    return result;
+  }
+
+  async function getJson(path: string, params: Record<string, string | undefined>): Promise<any> {
+    const token = accessToken();
+    if (!token) throw new GeoError('not_configured', 'MAPBOX_ACCESS_TOKEN is not set on the server');
+
+    const url = new URL(path, MAPBOX_API);
+    for (const [name, value] of Object.entries(params)) {
+      if (value !== undefined) url.searchParams.set(name, value);
+    }
+    url.searchParams.set("access_token", token);
+
+    const response = await upstream(url.toString());
+    if (response.ok) return response.json();
+
+    const details = await response.text();
+    if (response.status === 401 || response.status === 403) {
+      throw new GeoError('upstream_forbidden', 'Mapbox rejected the server token', details);
+    }
+    if (response.status === 422 || response.status === 400) {
+      throw new GeoError('invalid_request', 'Mapbox rejected the request parameters', details);
+    }
+    if (response.status === 429) throw new GeoError('rate_limited', 'Mapbox rate limit reached', details);
+    throw new GeoError('upstream_error', `Mapbox request failed (${response.status})`, details);
+  }
+
+  async function geocode({ q, limit, proximity, bbox, types, autocomplete }: GeocodeQuery) {
+    const near = proximity && roundLngLat(proximity, 3);
+    const key = `geocode:${q.toLowerCase()}:${limit}:${near ?? ""}:${bbox ?? ""}:${types ?? ""}:${autocomplete}`;
+    return cached(places, key, () => persisted(key, async () => {
+      const json = await getJson(`/geocoding/v5/mapbox.places/${encodeURIComponent(q)}.json`, {
+        country: "AE",
+        limit: String(limit),
+        autocomplete: String(autocomplete),
+        proximity: near?.join(","),
+        bbox: bbox?.join(","),
+        types,
+      });
+      return { places: ((json?.features ?? []) as any[]).map(normaliseGeocodingFeature), source: "geocoding" as const };
+    }));
+  }
+
+  async function searchBox({ q, limit, proximity, bbox }: SearchBoxQuery) {
+    if (!searchBoxAvailable) {
+      return geocode({ q, limit: Math.min(limit, 10), proximity, bbox, types: "poi", autocomplete: true });
+    }
+    const near = proximity && roundLngLat(proximity, 3);
+    const key = `searchbox:${q.toLowerCase()}:${limit}:${near ?? ""}:${bbox ?? ""}`;
+    try {
+      return await cached(places, key, () => persisted(key, async () => {
+        const json = await getJson("/search/searchbox/v1/forward", {
+          q,
+          country: "AE",
+          types: "poi",
+          limit: String(limit),
+          proximity: near?.join(","),
+          bbox: bbox?.join(","),
+        });
+        return { places: ((json?.features ?? []) as any[]).map(normaliseSearchBoxFeature), source: "searchbox" as const };
+      }));
+    } catch (error) {
+      if (!(error instanceof GeoError) || error.code !== 'upstream_forbidden') throw error;
+      console.warn('Mapbox Search Box unavailable for this token; using geocoding for POI search');
+      searchBoxAvailable = false;
+      return searchBox({ q, limit, proximity, bbox });
+    }
+  }
+
+  async function directions({ profile, from, to }: DirectionsQuery): Promise<GeoRoute | null> {
+    const [a, b] = [roundLngLat(from, 5), roundLngLat(to, 5)];
+    return cached(routes, `directions:${profile}:${a}:${b}`, async () => {
+      const json = await getJson(`/directions/v5/mapbox/${profile}/${a.join(",")};${b.join(",")}`, {
+        geometries: "geojson",
+        overview: "full",
+      });
+      const route = json?.routes?.[0];
+      return route ? { geometry: route.geometry, distanceMeters: route.distance, durationSeconds: route.duration } : null;
+    });
+  }
+
+  async function isochrone({ profile, lng, lat, minutes }: IsochroneQuery): Promise<IsochroneCollection> {
+    const origin = roundLngLat([lng, lat], 4);
+    const contours = Array.from(new Set(minutes)).sort((x, y) => x - y);
+    return cached(isochrones, `isochrone:${profile}:${origin}:${contours}`, async () => {
+      const json = await getJson(`/isochrone/v1/mapbox/${profile}/${origin.join(",")}`, {
+        contours_minutes: contours.join(","),
+        polygons: "true",
+        denoise: "1",
+        generalize: "75",
+      });
+      return {
+        type: "FeatureCollection",
+        features: ((json?.features ?? []) as any[])
+          .filter((f) => f?.geometry?.type === "Polygon")
+          .map((f) => ({ type: "Feature", properties: { contour: Number(f.properties?.contour) }, geometry: f.geometry })),
+      };
+    });
+  }
+
+  return {
+    configured: () => !!accessToken(),
+    geocode,
+    searchBox,
+    directions,
+    isochrone,
+  };
+}
+
+export type MapboxGeo = ReturnType<typeof createMapboxGeo>;
+
+export const mapboxGeo = createMapboxGeo({ store: geocodeCache });
+
+/**
+ * The token the browser renders map tiles with: MAPBOX_PUBLIC_TOKEN, or the server token when it
+ * is itself a public (pk.) token. Secret tokens never leave the server.
+ */
+export function publicMapToken(): string | null {
+  const server = process.env.MAPBOX_ACCESS_TOKEN;
+  return process.env.MAPBOX_PUBLIC_TOKEN || (server?.startsWith("pk.") ? server : null);
+}
@@ -0,0 +1,51 @@
+import { ImageryError, type FetchedImage, type ImageryProvider, type UpstreamFetch } from "./imagery";
+
+const IMAGE_SIZE = "640x640";
+// Mapbox renders 512 px tiles, so its zoom sits one level below Google's for the same view
+const GOOGLE_ZOOM_OFFSET = 1;
+
+async function readImage(response: Response): Promise<FetchedImage> {
+  if (!response.ok) {
+    const details = await response.text();
+    if (response.status === 401 || response.status === 403) {
+      throw new ImageryError('upstream_forbidden', 'Mapbox rejected the access token', details);
+    }
+    if (response.status === 422) throw new ImageryError('invalid_request', 'Mapbox rejected the image parameters', details);
+    throw new ImageryError('upstream_error', `Mapbox Static Images request failed (${response.status})`, details);
+  }
+  return {
+    contentType: response.headers.get("content-type") ?? "image/png",
+    data: Buffer.from(await response.arrayBuffer()),
+  };
+}
+
+/**
+ * Mapbox Static Images; needs MAPBOX_ACCESS_TOKEN. Mapbox has no street-level photos, so the
+ * "street view" is a low, pitched satellite-streets render looking along the requested heading.
+ */
+export function mapboxImageryProvider({
+  fetch: upstream = (url) => fetch(url),
+  accessToken = () => process.env.MAPBOX_ACCESS_TOKEN,
+}: { fetch?: UpstreamFetch; accessToken?: () => string | undefined } = {}): ImageryProvider {
+  const staticUrl = (style: string, position: string) =>
+    `https://api.mapbox.com/styles/v1/mapbox/${style}/static/${position}/${IMAGE_SIZE}?access_token=${accessToken()}`;
+
+  return {
+    name: "mapbox",
+    configured: () => !!accessToken(),
+
+    // No panoramas to snap to: look at the building from where it stands
+    async streetViewCamera(target) {
+      return { location: target, heading: 0 };
+    },
+
+    async streetView([lng, lat], heading) {
+      return readImage(await upstream(staticUrl('satellite-streets-v12', `${lng.toFixed(5)},${lat.toFixed(5)},17.5,${heading},60`)));
+    },
+
+    async satellite([lng, lat], zoom) {
+      const z = Math.max(0, zoom - GOOGLE_ZOOM_OFFSET);
+      return readImage(await upstream(staticUrl('satellite-v9', `${lng.toFixed(5)},${lat.toFixed(5)},${z}`)));
+    },
+  };
+}
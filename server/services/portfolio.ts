@@ -0,0 +1,148 @@
+import {
+  toPropertyPoint,
+  type HoldingPerformance,
+  type Portfolio,
+  type PortfolioHistoryPoint,
+  type PortfolioHolding,
+  type PortfolioSummary,
+  type Property,
+} from "@shared/schema";
+import { monthlyPayment, monthsBetween, outstandingBalance } from "@shared/finance";
+import { storage } from "../storage";
+import { median } from "../lib/stats";
+import { monthKey, monthLabel, monthRange } from "../lib/months";
+
+// Twenty years of monthly points is plenty for the chart
+const MAX_HISTORY_MONTHS = 240;
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+const pct = (part: number, whole: number) => (whole > 0 ? round1((part / whole) * 100) : 0);
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function performance(holding: PortfolioHolding, property: Property, asOf: string): HoldingPerformance {
+  const currentValueAED = Math.round(holding.sizeSqft * property.pricePerSqft);
+  const unrealisedGainAED = currentValueAED - holding.purchasePriceAED;
+  const payment = monthlyPayment(holding.loanAmountAED, holding.interestRate, holding.loanTermYears);
+  const monthsPaid = monthsBetween(holding.purchaseDate, asOf);
+  const outstandingLoanAED = Math.round(
+    outstandingBalance(holding.loanAmountAED, holding.interestRate, holding.loanTermYears, monthsPaid),
+  );
+  // Payments stop once the loan is repaid
+  const annualDebtService = outstandingLoanAED > 0 ? payment * 12 : 0;
+  const netRent = holding.annualRentAED - holding.annualServiceChargesAED;
+
+  return {
+    holding,
+    property: toPropertyPoint(property),
+    currentValueAED,
+    unrealisedGainAED,
+    unrealisedGainPct: pct(unrealisedGainAED, holding.purchasePriceAED),
+    grossYield: pct(holding.annualRentAED, holding.purchasePriceAED),
+    netYield: pct(netRent, holding.purchasePriceAED),
+    mapYield: property.rentYield,
+    monthlyPaymentAED: Math.round(payment),
+    outstandingLoanAED,
+    equityAED: currentValueAED - outstandingLoanAED,
+    annualCashFlowAED: Math.round(netRent - annualDebtService),
+  };
+}
+
+function summarise(rows: HoldingPerformance[]): PortfolioSummary {
+  const sum = (pick: (row: HoldingPerformance) => number) => rows.reduce((total, row) => total + pick(row), 0);
+  const totalCostAED = sum((r) => r.holding.purchasePriceAED);
+  const currentValueAED = sum((r) => r.currentValueAED);
+  const outstandingLoanAED = sum((r) => r.outstandingLoanAED);
+  const annualRentAED = sum((r) => r.holding.annualRentAED);
+  return {
+    holdingCount: rows.length,
+    totalCostAED,
+    currentValueAED,
+    unrealisedGainAED: currentValueAED - totalCostAED,
+    unrealisedGainPct: pct(currentValueAED - totalCostAED, totalCostAED),
+    outstandingLoanAED,
+    equityAED: currentValueAED - outstandingLoanAED,
+    annualRentAED,
+    netYield: pct(annualRentAED - sum((r) => r.holding.annualServiceChargesAED), totalCostAED),
+    annualCashFlowAED: sum((r) => r.annualCashFlowAED),
+  };
+}
+
+// Median recorded AED/sqft per building per month
+async function ledgerPrices(propertyIds: string[], since: string) {
+  const byBuilding = new Map<string, Map<string, number[]>>();
+  for (const t of await storage.getTransactionsForProperties(propertyIds, since)) {
+    const months = byBuilding.get(t.propertyId) ?? new Map<string, number[]>();
+    const key = monthKey(t.date);
+    months.set(key, [...(months.get(key) ?? []), t.priceAED / t.sizeSqft]);
+    byBuilding.set(t.propertyId, months);
+  }
+  const medians = new Map<string, Map<string, number>>();
+  for (const [id, months] of Array.from(byBuilding.entries())) {
+    medians.set(id, new Map(Array.from(months.entries()).map(([key, values]) => [key, median(values)])));
+  }
+  return medians;
+}
+
+/**
+ * Month-by-month value of the portfolio. Each unit starts at its purchase price, follows its
+ * building's recorded sales (carrying the last price forward through quiet months) and ends
+ * at today's catalogue valuation so the chart agrees with the holdings list.
+ */
+async function portfolioHistory(rows: HoldingPerformance[], asOf: string): Promise<PortfolioHistoryPoint[]> {
+  if (!rows.length) return [];
+  const first = rows.map((r) => monthKey(r.holding.purchaseDate)).sort()[0];
+  const months = monthRange(first, monthKey(asOf)).slice(-MAX_HISTORY_MONTHS);
+  const prices = await ledgerPrices(Array.from(new Set(rows.map((r) => r.property.id))), `${months[0]}-01`);
+  const lastMonth = months[months.length - 1];
+
+  const tracks = rows.map((row) => {
+    const { holding } = row;
+    const purchaseMonth = monthKey(holding.purchaseDate);
+    const recorded = prices.get(row.property.id);
+    let pricePerSqft = holding.purchasePriceAED / holding.sizeSqft;
+    return months.map((month) => {
+      if (month < purchaseMonth) return null;
+      if (month === lastMonth) return { value: row.currentValueAED, loan: row.outstandingLoanAED };
+      if (month > purchaseMonth && recorded?.has(month)) pricePerSqft = recorded.get(month)!;
+      const loan = outstandingBalance(
+        holding.loanAmountAED,
+        holding.interestRate,
+        holding.loanTermYears,
+        monthsBetween(holding.purchaseDate, `${month}-28`),
+      );
+      return { value: pricePerSqft * holding.sizeSqft, loan };
+    });
+  });
+
+  return months.map((month, i) => {
+    let valueAED = 0, costAED = 0, loanAED = 0;
+    tracks.forEach((track, h) => {
+      const point = track[i];
+      if (!point) return;
+      valueAED += point.value;
+      loanAED += point.loan;
+      costAED += rows[h].holding.purchasePriceAED;
+    });
+    return {
+      month: monthLabel(month),
+      valueAED: Math.round(valueAED),
+      costAED,
+      equityAED: Math.round(valueAED - loanAED),
+    };
+  });
+}
+
+/**
+ * A user's holdings valued at today's catalogue prices, with totals and a value history
+ */
+export async function getPortfolio(userId: number, asOf = today()): Promise<Portfolio> {
+  const rows: HoldingPerformance[] = [];
+  for (const holding of await storage.getHoldings(userId)) {
+    const property = await storage.getProperty(holding.propertyId);
+    if (property) rows.push(performance(holding, property, asOf));
+  }
+  return { holdings: rows, summary: summarise(rows), history: await portfolioHistory(rows, asOf) };
+}
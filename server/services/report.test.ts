@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { PropertyReportRequest } from "@shared/schema";
+import { buildPropertyReport, ReportSubjectError } from "./report";
+import { renderPropertyReportHtml } from "./reportHtml";
+import { fetchSatelliteImage, fetchStreetViewImage } from "./imagery";
+
+vi.mock("./imagery", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./imagery")>()),
+  fetchSatelliteImage: vi.fn(),
+  fetchStreetViewImage: vi.fn(),
+}));
+
+const PNG = { contentType: "image/png", data: Buffer.from("png") };
+// Marina Heights in the seeded catalogue
+const MARINA: [number, number] = [55.1405, 25.0835];
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const request = (overrides: Partial<PropertyReportRequest> = {}): PropertyReportRequest => ({
+  coordinates: MARINA,
+  amenities: [],
+  ...overrides,
+});
+
+describe("buildPropertyReport", () => {
+  beforeEach(() => {
+    vi.mocked(fetchSatelliteImage).mockResolvedValue(PNG);
+    vi.mocked(fetchStreetViewImage).mockResolvedValue(PNG);
+  });
+
+  it("uses the catalogue building's own name and address", async () => {
+    const report = await buildPropertyReport(request({ propertyId: "dubai-marina-01", name: "Spoofed", address: "Elsewhere" }));
+    expect(report.title).toBe("Marina Heights");
+    expect(report.address).toBe("Dubai Marina");
+    expect(report.images.satellite).toBe(`data:image/png;base64,${PNG.data.toString("base64")}`);
+  });
+
+  it("lists amenities nearest first", async () => {
+    const report = await buildPropertyReport(request({
+      amenities: [
+        { name: "Far", category: "groceries", center: [55.15, 25.09] },
+        { name: "Near", category: "groceries", center: [55.1406, 25.0836] },
+      ],
+    }));
+    expect(report.amenities.map((a) => a.name)).toEqual(["Near", "Far"]);
+  });
+
+  it("leaves images empty when imagery fails instead of failing the report", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.mocked(fetchSatelliteImage).mockRejectedValue(new Error("upstream down"));
+    vi.mocked(fetchStreetViewImage).mockResolvedValue(null);
+    const report = await buildPropertyReport(request());
+    expect(report.images).toEqual({ satellite: null, streetView: null });
+  });
+
+  it("refuses unknown buildings and points with no market data", async () => {
+    await expect(buildPropertyReport(request({ propertyId: "nope" }))).rejects.toBeInstanceOf(ReportSubjectError);
+    await expect(buildPropertyReport(request({ coordinates: [0, 0] }))).rejects.toBeInstanceOf(ReportSubjectError);
+  });
+});
+
+describe("renderPropertyReportHtml", () => {
+  beforeEach(() => {
+    vi.mocked(fetchSatelliteImage).mockResolvedValue(PNG);
+    vi.mocked(fetchStreetViewImage).mockResolvedValue(PNG);
+  });
+
+  it("escapes the client-supplied name, address and amenity names", async () => {
+    const html = renderPropertyReportHtml(await buildPropertyReport(request({
+      name: "<script>alert(1)</script>",
+      address: `"Tower" & <b>Co</b>`,
+      amenities: [{ name: `<img src=x onerror="alert(2)">`, category: "food_drink", center: [55.1406, 25.0836] }],
+    })));
+    expect(html).not.toContain("<script>");
+    expect(html).not.toContain("<img src=x");
+    expect(html).not.toContain("<b>Co</b>");
+    expect(html).toContain("&lt;script&gt;alert(1)&lt;/script&gt;");
+    expect(html).toContain("&quot;Tower&quot; &amp; &lt;b&gt;Co&lt;/b&gt;");
+    expect(html).toContain("&lt;img src=x onerror=&quot;alert(2)&quot;&gt;");
+  });
+
+  it("puts the cover, valuation, location and score on their own A4 pages", async () => {
+    const html = renderPropertyReportHtml(await buildPropertyReport(request({ propertyId: "dubai-marina-01" })));
+    const pages = html.split('<section class="page">').slice(1);
+    expect(pages).toHaveLength(4);
+    expect(pages[0]).toContain("<h1>Marina Heights</h1>");
+    expect(pages[1]).toContain("<h2>Valuation</h2>");
+    expect(pages[2]).toContain("<h2>Location</h2>");
+    expect(pages[3]).toMatch(/<h2>Investment score: \d+\/100<\/h2>/);
+    expect(html).toContain("@page { size: A4;");
+    expect(html).toContain(".page + .page { break-before: page; }");
+  });
+
+  it("shows placeholders for missing imagery and amenities", async () => {
+    vi.mocked(fetchSatelliteImage).mockResolvedValue(null);
+    vi.mocked(fetchStreetViewImage).mockRejectedValue(new Error("forbidden"));
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const html = renderPropertyReportHtml(await buildPropertyReport(request()));
+    expect(html).not.toContain("<img");
+    expect(html).toContain("Street View image unavailable");
+    // Without a satellite photo the cover draws a map sketch of nearby sales instead
+    expect(html).toContain("Location and recorded sales nearby");
+    expect(html).toContain("Choose amenity categories on the map to include them here");
+  });
+});
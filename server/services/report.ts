@@ -0,0 +1,124 @@
+import type {
+  ComparablesResult,
+  InvestmentScore,
+  PriceTrendPoint,
+  Property,
+  PropertyEstimate,
+  PropertyReportRequest,
+} from "@shared/schema";
+import { haversineMeters, type LngLat } from "@shared/geo";
+import { storage } from "../storage";
+import { estimateAt } from "./estimate";
+import { findComparableSales } from "./comparables";
+import { scoreInvestment } from "./scoring";
+import { fetchSatelliteImage, fetchStreetViewImage, type FetchedImage } from "./imagery";
+
+const COMPARABLES_RADIUS_M = 1500;
+const MAX_COMPARABLES = 10;
+const MAX_AMENITY_ROWS = 40;
+
+export type ReportAmenity = { name: string; category: string; center: LngLat; distanceMeters: number };
+
+export type PropertyReport = {
+  generatedAt: Date;
+  title: string;
+  address: string;
+  coordinates: LngLat;
+  property: Property | null;
+  estimate: PropertyEstimate | null;
+  figures: {
+    valueAED: number;
+    pricePerSqft: number;
+    rentYield: number;
+    sizeSqft: number | null;
+    bedrooms: number | null;
+    propertyType: string | null;
+    marketTrend: string | null;
+  };
+  comparables: ComparablesResult;
+  trend: { points: PriceTrendPoint[]; source: "sales" | "catalogue" | "estimate" };
+  amenities: ReportAmenity[]; // nearest first
+  isochrone: PropertyReportRequest["isochrone"] | null;
+  score: InvestmentScore;
+  images: { satellite: string | null; streetView: string | null };
+};
+
+export class ReportSubjectError extends Error {}
+
+function dataUri(image: FetchedImage | null) {
+  return image ? `data:${image.contentType};base64,${image.data.toString("base64")}` : null;
+}
+
+// Imagery is a nice-to-have; a failed fetch leaves a placeholder rather than failing the report
+async function optionalImage(load: () => Promise<FetchedImage | null>) {
+  try {
+    return dataUri(await load());
+  } catch (error) {
+    console.warn('Report image unavailable:', (error as Error).message);
+    return null;
+  }
+}
+
+/**
+ * Collect everything the printable report shows for a building or coordinate.
+ * Throws ReportSubjectError for an unknown catalogue id or a point with nothing to estimate from.
+ */
+export async function buildPropertyReport(request: PropertyReportRequest, generatedAt = new Date()): Promise<PropertyReport> {
+  const property = request.propertyId ? await storage.getProperty(request.propertyId) : undefined;
+  if (request.propertyId && !property) throw new ReportSubjectError('Property not found');
+  const coordinates: LngLat = property ? [property.lng, property.lat] : request.coordinates;
+
+  const estimate = await estimateAt(coordinates).catch(() => null);
+  if (!property && !estimate) throw new ReportSubjectError('No market data near this location to report on');
+
+  const [comparables, score, satellite, streetView] = await Promise.all([
+    findComparableSales({
+      lng: coordinates[0],
+      lat: coordinates[1],
+      radius: COMPARABLES_RADIUS_M,
+      size: estimate?.size,
+      sizeTolerance: 0.25,
+      bedrooms: estimate?.bedrooms,
+      bedroomTolerance: 1,
+      limit: MAX_COMPARABLES,
+    }),
+    scoreInvestment({ ...request, coordinates, propertyId: property?.id }),
+    optionalImage(() => fetchSatelliteImage(coordinates)),
+    optionalImage(() => fetchStreetViewImage(coordinates)),
+  ]);
+
+  // Recorded sales make the best trend line; otherwise fall back to the catalogue or model trend
+  const trend: PropertyReport["trend"] =
+    comparables.history.length >= 2 ? { points: comparables.history, source: "sales" }
+      : property?.priceTrend.length ? { points: property.priceTrend, source: "catalogue" }
+        : { points: estimate?.priceTrend ?? [], source: "estimate" };
+
+  const amenities = request.amenities
+    .map((a) => ({ name: a.name, category: a.category, center: a.center, distanceMeters: Math.round(haversineMeters(coordinates, a.center)) }))
+    .sort((a, b) => a.distanceMeters - b.distanceMeters)
+    .slice(0, MAX_AMENITY_ROWS);
+
+  return {
+    generatedAt,
+    title: property?.name ?? request.name ?? 'Selected Property',
+    address: property?.community ?? request.address ?? estimate?.explanation.zone?.name ?? 'Dubai, UAE',
+    coordinates,
+    property: property ?? null,
+    estimate,
+    figures: {
+      valueAED: property?.estimatedValueAED ?? estimate!.value,
+      pricePerSqft: property?.pricePerSqft ?? estimate!.pricePerSqFt,
+      rentYield: property?.rentYield ?? estimate!.yield,
+      sizeSqft: estimate?.size ?? null,
+      bedrooms: estimate?.bedrooms ?? null,
+      propertyType: estimate?.propertyType ?? null,
+      marketTrend: estimate?.marketTrend ?? null,
+    },
+    comparables,
+    trend,
+    amenities,
+    isochrone: request.isochrone ?? null,
+    score,
+    images: { satellite, streetView },
+  };
+}
@@ -0,0 +1,175 @@
+import { escapeXml as esc, lineChartSvg, mapSketchSvg, type MapLayer } from "../lib/svg";
+import type { PropertyReport } from "./report";
+
+const ISOCHRONE_COLORS = ["#2f9e6e", "#f0a202", "#d9480f", "#7048e8"];
+
+const aed = (n: number) => `AED ${Math.round(n).toLocaleString("en")}`;
+const distance = (m: number) => (m >= 1000 ? `${(m / 1000).toFixed(1)} km` : `${m} m`);
+const categoryLabel = (c: string) => c.replace(/_/g, " ").replace(/\b\w/g, (ch) => ch.toUpperCase());
+
+function stat(label: string, value: string) {
+  return `<div class="stat"><div class="label">${esc(label)}</div><div class="value">${esc(value)}</div></div>`;
+}
+
+function image(src: string | null, alt: string, missing: string) {
+  return src ? `<img src="${esc(src)}" alt="${esc(alt)}">` : `<div class="placeholder">${esc(missing)}</div>`;
+}
+
+function coverPage(r: PropertyReport) {
+  const nearbySales = r.comparables.sales.map<MapLayer>((s) => ({ kind: "point", at: s.coords, color: "#1971c2", label: `${s.building}: ${aed(s.priceAED)}` }));
+  const snapshot = r.images.satellite
+    ? image(r.images.satellite, "Satellite view", "")
+    : mapSketchSvg(r.coordinates, nearbySales, { height: 300 });
+
+  return `<section class="page">
+  <header>
+    <div class="brand">UAE Property Intel · Investment Report</div>
+    <h1>${esc(r.title)}</h1>
+    <div class="muted">${esc(r.address)} · ${r.coordinates[1].toFixed(5)}, ${r.coordinates[0].toFixed(5)}</div>
+    <div class="muted">Generated ${esc(r.generatedAt.toISOString().slice(0, 10))}</div>
+  </header>
+  <div class="stats">
+    ${stat("Estimated value", aed(r.figures.valueAED))}
+    ${stat("Price / sqft", aed(r.figures.pricePerSqft))}
+    ${stat("Rental yield", `${r.figures.rentYield}%`)}
+    ${stat("Investment score", `${r.score.score}/100`)}
+  </div>
+  <div class="grid2">
+    <figure>${snapshot}<figcaption>Location${r.images.satellite ? " (satellite)" : " and recorded sales nearby"}</figcaption></figure>
+    <figure>${image(r.images.streetView, "Street View", "Street View image unavailable")}<figcaption>Street View</figcaption></figure>
+  </div>
+</section>`;
+}
+
+function valuationPage(r: PropertyReport) {
+  const e = r.estimate;
+  const unit = [
+    r.figures.bedrooms != null ? (r.figures.bedrooms === 0 ? "Studio" : `${r.figures.bedrooms} bedroom`) : null,
+    r.figures.propertyType?.toLowerCase(),
+    r.figures.sizeSqft != null ? `${r.figures.sizeSqft.toLocaleString("en")} sqft` : null,
+  ].filter(Boolean).join(" ");
+  const trendSource = { sales: "Median AED/sqft of recorded comparable sales", catalogue: "Catalogue price trend", estimate: "Modelled price trend" }[r.trend.source];
+
+  const salesRows = r.comparables.sales.map((s) => `<tr>
+      <td>${esc(s.date)}</td><td>${esc(s.building)}</td><td>${esc(s.unitType)}${s.bedrooms != null ? ` · ${s.bedrooms} BR` : ""}</td>
+      <td class="num">${s.sizeSqft.toLocaleString("en")}</td><td class="num">${esc(aed(s.priceAED))}</td>
+      <td class="num">${s.pricePerSqft.toLocaleString("en")}</td><td class="num">${esc(distance(s.distanceMeters))}</td>
+    </tr>`).join("");
+
+  return `<section class="page">
+  <h2>Valuation</h2>
+  <div class="stats">
+    ${stat("Typical unit", unit || "—")}
+    ${stat("Market trend", r.figures.marketTrend ?? "—")}
+    ${stat("Zone", e?.explanation.zone ? e.explanation.zone.name : "—")}
+    ${stat("Comparable median / sqft", r.comparables.medianPricePerSqft != null ? aed(r.comparables.medianPricePerSqft) : "—")}
+  </div>
+  ${e ? `<ul class="notes">${e.explanation.notes.map((n) => `<li>${esc(n)}</li>`).join("")}</ul>` : ""}
+
+  <h3>Price trend</h3>
+  ${r.trend.points.length >= 2
+    ? `${lineChartSvg(r.trend.points.map((p) => ({ label: p.month, value: p.value })), { format: (v) => `AED ${Math.round(v).toLocaleString("en")}` })}<div class="muted">${esc(trendSource)}</div>`
+    : `<div class="placeholder">Not enough history for a trend</div>`}
+
+  <h3>Comparable sales</h3>
+  ${salesRows
+    ? `<table><thead><tr><th>Date</th><th>Building</th><th>Unit</th><th class="num">Sqft</th><th class="num">Price</th><th class="num">AED/sqft</th><th class="num">Distance</th></tr></thead><tbody>${salesRows}</tbody></table>`
+    : `<div class="placeholder">No recorded sales of similar units nearby</div>`}
+</section>`;
+}
+
+function locationPage(r: PropertyReport) {
+  const layers: MapLayer[] = [];
+  const legend: string[] = [];
+  // Largest contour first so the smaller ones stay visible on top
+  const contours = [...(r.isochrone?.contours ?? [])].sort((a, b) => b.minutes - a.minutes);
+  contours.forEach((c, i) => {
+    const color = ISOCHRONE_COLORS[(contours.length - 1 - i) % ISOCHRONE_COLORS.length];
+    layers.push({ kind: "polygon", ring: c.polygon.coordinates[0] as [number, number][], fill: `${color}33`, stroke: color, label: `${c.minutes} min` });
+    legend.unshift(`<span><i style="background:${color}"></i>${c.minutes} min ${esc(r.isochrone!.profile)}</span>`);
+  });
+  for (const a of r.amenities) layers.push({ kind: "point", at: a.center, color: "#495057", radius: 3, label: a.name });
+  if (r.amenities.length) legend.push(`<span><i style="background:#495057"></i>Amenities</span>`);
+
+  const rows = r.amenities.map((a) => `<tr><td>${esc(a.name)}</td><td>${esc(categoryLabel(a.category))}</td><td class="num">${esc(distance(a.distanceMeters))}</td></tr>`).join("");
+
+  return `<section class="page">
+  <h2>Location</h2>
+  <h3>${r.isochrone ? `Travel-time reach (${esc(r.isochrone.profile)})` : "Nearby amenities"}</h3>
+  ${layers.length ? `${mapSketchSvg(r.coordinates, layers, { height: 360 })}<div class="legend">${legend.join("")}</div>` : `<div class="placeholder">No travel-time zones or amenities were loaded for this report</div>`}
+
+  <h3>Amenities</h3>
+  ${rows
+    ? `<table><thead><tr><th>Name</th><th>Category</th><th class="num">Distance</th></tr></thead><tbody>${rows}</tbody></table>`
+    : `<div class="placeholder">Choose amenity categories on the map to include them here</div>`}
+</section>`;
+}
+
+function scorePage(r: PropertyReport) {
+  const rows = r.score.factors.map((f) => `<tr class="${f.score == null ? "muted" : ""}">
+      <td>${esc(f.label)}</td>
+      <td><div class="bar"><div style="width:${f.score ?? 0}%"></div></div></td>
+      <td class="num">${f.score == null ? "n/a" : `${f.score}/100`}</td>
+      <td class="num">${Math.round(f.weight * 100)}%</td>
+      <td class="num">${f.score == null ? "—" : `+${f.contribution}`}</td>
+      <td>${esc(f.detail)}</td>
+    </tr>`).join("");
+
+  return `<section class="page">
+  <h2>Investment score: ${r.score.score}/100</h2>
+  <table><thead><tr><th>Factor</th><th style="width:22%"></th><th class="num">Score</th><th class="num">Weight</th><th class="num">Points</th><th>Basis</th></tr></thead><tbody>${rows}</tbody></table>
+  <p class="muted">Factors without data are left out and the remaining weights are rescaled. Figures are estimates from catalogue and recorded sales data and are not a formal valuation.</p>
+</section>`;
+}
+
+const STYLES = `
+  @page { size: A4; margin: 14mm; }
+  * { box-sizing: border-box; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  body { font: 13px/1.45 -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #1f2933; margin: 0; background: #e9ecef; }
+  .page { background: #fff; max-width: 210mm; margin: 16px auto; padding: 14mm; }
+  .page + .page { break-before: page; }
+  h1 { font-size: 26px; margin: 4px 0; } h2 { font-size: 20px; margin: 0 0 12px; } h3 { font-size: 14px; margin: 20px 0 8px; }
+  .brand { font-size: 11px; letter-spacing: .08em; text-transform: uppercase; color: #2f9e6e; }
+  .muted { color: #6b7280; font-size: 12px; }
+  .stats { display: grid; grid-template-columns: repeat(4, 1fr); gap: 8px; margin: 16px 0; }
+  .stat { background: #f4f6f5; border-radius: 6px; padding: 8px 10px; }
+  .stat .label { font-size: 11px; color: #6b7280; } .stat .value { font-weight: 600; font-size: 15px; }
+  .grid2 { display: grid; grid-template-columns: 1fr 1fr; gap: 12px; }
+  figure { margin: 0; } figure img, figure svg { width: 100%; border-radius: 6px; display: block; }
+  figcaption { font-size: 11px; color: #6b7280; margin-top: 4px; }
+  .placeholder { background: #f4f6f5; color: #6b7280; border-radius: 6px; padding: 24px; text-align: center; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th, td { text-align: left; padding: 5px 6px; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  th { font-weight: 600; color: #4b5563; } .num { text-align: right; white-space: nowrap; }
+  tr { break-inside: avoid; }
+  .notes { color: #4b5563; font-size: 12px; padding-left: 18px; }
+  .legend { display: flex; gap: 14px; font-size: 11px; margin-top: 6px; }
+  .legend i { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin-right: 4px; vertical-align: middle; }
+  .bar { height: 8px; background: #e5e7eb; border-radius: 4px; overflow: hidden; } .bar div { height: 100%; background: #2f9e6e; }
+  .toolbar { text-align: center; margin: 16px; }
+  @media print { body { background: #fff; } .page { margin: 0; max-width: none; padding: 0; } .toolbar { display: none; } }
+`;
+
+/**
+ * Self-contained printable HTML: one section per A4 page, charts and maps as inline SVG and
+ * photos as data URIs, so the browser's "Save as PDF" gives the same document everywhere.
+ * The server doesn't render PDF itself; that is left to the browser's print dialog.
+ */
+export function renderPropertyReportHtml(report: PropertyReport): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${esc(report.title)} · Investment Report</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<div class="toolbar"><button onclick="window.print()">Print / Save as PDF</button></div>
+${coverPage(report)}
+${valuationPage(report)}
+${locationPage(report)}
+${scorePage(report)}
+</body>
+</html>
+`;
+}
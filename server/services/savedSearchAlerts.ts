@@ -0,0 +1,142 @@
+import { randomBytes, timingSafeEqual } from "crypto";
+import type {
+  InboxNotification,
+  InsertInboxNotification,
+  Property,
+  SavedSearch,
+  SavedSearchAlertState,
+  SavedSearchCriteria,
+  Transaction,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { allProperties, propertiesInPolygon } from "./spatial";
+import { emailTransportFromEnv, type EmailTransport } from "./email";
+
+function matchesCriteria(p: Property, c: SavedSearchCriteria): boolean {
+  if (c.minPrice != null && p.estimatedValueAED < c.minPrice) return false;
+  if (c.maxPrice != null && p.estimatedValueAED > c.maxPrice) return false;
+  if (c.minYield != null && p.rentYield < c.minYield) return false;
+  if (c.maxYield != null && p.rentYield > c.maxYield) return false;
+  // Plain substring match on name or community, as saved before the fuzzy search index
+  const query = c.query?.toLowerCase();
+  if (query && !p.name.toLowerCase().includes(query) && !p.community.toLowerCase().includes(query)) return false;
+  return true;
+}
+
+/**
+ * Catalogue properties a saved search currently matches
+ */
+export async function findMatchingProperties(criteria: SavedSearchCriteria): Promise<Property[]> {
+  const candidates = criteria.area ? await propertiesInPolygon(criteria.area) : await allProperties();
+  return candidates.filter((p) => matchesCriteria(p, criteria));
+}
+
+// Sales are judged on their own price; yield thresholds only apply to properties
+function saleMatches(t: Transaction, c: SavedSearchCriteria) {
+  return (c.minPrice == null || t.priceAED >= c.minPrice) && (c.maxPrice == null || t.priceAED <= c.maxPrice);
+}
+
+/**
+ * Alert state for a new search: everything that matches today counts as already seen
+ */
+export async function initialAlertState(criteria: SavedSearchCriteria): Promise<SavedSearchAlertState> {
+  const matches = await findMatchingProperties(criteria);
+  return { matchedPropertyIds: matches.map((p) => p.id), lastTransactionId: await storage.getLatestTransactionId() };
+}
+
+function formatAED(value: number) {
+  return `AED ${Math.round(value).toLocaleString("en")}`;
+}
+
+async function evaluate(search: SavedSearch, sales: Transaction[]): Promise<InsertInboxNotification[]> {
+  const matches = await findMatchingProperties(search.criteria);
+  const byId = new Map(matches.map((p) => [p.id, p]));
+  const previously = new Set(search.matchedPropertyIds);
+  const base = { userId: search.userId, savedSearchId: search.id };
+
+  const rows: InsertInboxNotification[] = matches
+    .filter((p) => !previously.has(p.id))
+    .map((p) => ({
+      ...base,
+      kind: "property",
+      refKey: `property:${p.id}`,
+      propertyId: p.id,
+      title: `New match for "${search.name}"`,
+      body: `${p.name}, ${p.community}: ${formatAED(p.estimatedValueAED)}, ${p.rentYield}% yield`,
+    }));
+
+  const newSales = sales.filter((t) => t.id > search.lastTransactionId && byId.has(t.propertyId) && saleMatches(t, search.criteria));
+  for (const t of newSales) {
+    const property = byId.get(t.propertyId)!;
+    rows.push({
+      ...base,
+      kind: "transaction",
+      refKey: `transaction:${t.id}`,
+      propertyId: t.propertyId,
+      title: `New sale for "${search.name}"`,
+      body: `${property.name}: ${formatAED(t.priceAED)} for ${t.sizeSqft.toLocaleString("en")} sq ft on ${t.date}`,
+    });
+  }
+
+  const lastTransactionId = sales.length ? Math.max(search.lastTransactionId, sales[sales.length - 1].id) : search.lastTransactionId;
+  await storage.updateSavedSearch(search.id, { matchedPropertyIds: matches.map((p) => p.id), lastTransactionId });
+  return rows;
+}
+
+function digest(search: SavedSearch, created: InboxNotification[]) {
+  return {
+    to: search.notifyEmail!,
+    subject: created.length === 1 ? created[0].title : `${created.length} new matches for "${search.name}"`,
+    text: created.map((n) => `- ${n.body}`).join("\n") + "\n\nOpen the map to see them, or turn off email alerts for this search.",
+  };
+}
+
+export type AlertOptions = { email?: EmailTransport };
+
+/**
+ * Email a fresh confirmation code to the search's alert address. Alerts are only emailed once the
+ * owner enters it, so nobody can point alerts at an inbox they can't read.
+ */
+export async function sendEmailConfirmation(search: SavedSearch, { email = emailTransportFromEnv() }: AlertOptions = {}) {
+  const code = randomBytes(4).toString("hex").toUpperCase();
+  const updated = await storage.updateSavedSearch(search.id, { emailConfirmCode: code, emailConfirmedAt: null });
+  await email({
+    to: search.notifyEmail!,
+    subject: "Confirm your saved-search alerts",
+    text: `Your confirmation code is ${code}.\n\nEnter it next to the saved search "${search.name}" to start receiving alerts at this address. If you didn't ask for this, ignore this email.`,
+  });
+  return updated!;
+}
+
+/**
+ * Mark the alert address confirmed when `code` is the one last emailed to it
+ */
+export async function confirmEmail(search: SavedSearch, code: string): Promise<SavedSearch | undefined> {
+  const expected = Buffer.from(search.emailConfirmCode ?? "");
+  const given = Buffer.from(code.trim().toUpperCase());
+  if (!expected.length || expected.length !== given.length || !timingSafeEqual(expected, given)) return undefined;
+  return storage.updateSavedSearch(search.id, { emailConfirmCode: null, emailConfirmedAt: new Date().toISOString() });
+}
+
+/**
+ * Re-run every saved search against the current catalogue and ledger. Properties that newly match
+ * and sales recorded since the last check go to the owner's inbox, and by email when the search has a confirmed address.
+ */
+export async function checkSavedSearches({ email = emailTransportFromEnv() }: AlertOptions = {}): Promise<number> {
+  const searches = await storage.getAllSavedSearches();
+  if (!searches.length) return 0;
+
+  const since = Math.min(...searches.map((s) => s.lastTransactionId));
+  const sales = await storage.getTransactionsAfter(since);
+
+  let total = 0;
+  for (const search of searches) {
+    const created = await storage.addNotifications(await evaluate(search, sales));
+    total += created.length;
+    if (created.length && search.notifyEmail && search.emailConfirmedAt) {
+      // A mail outage shouldn't lose the in-app alerts, which are already stored
+      await email(digest(search, created)).catch((error) => console.error(`Alert email for search ${search.id} failed:`, error));
+    }
+  }
+  return total;
+}
@@ -0,0 +1,174 @@
+import {
+  DEFAULT_SCORE_WEIGHTS,
+  SCORE_FACTOR_LABELS,
+  scoreFactorKeys,
+  type InvestmentScore,
+  type InvestmentScoreRequest,
+  type PriceTrendPoint,
+  type ScoreFactorKey,
+  type ScoreWeights,
+  type Zone,
+} from "@shared/schema";
+import { haversineMeters, type LngLat } from "@shared/geo";
+import { storage } from "../storage";
+import { median } from "../lib/stats";
+import { estimateAt, findZone } from "./estimate";
+
+// A yield or price this far (relative) from the zone average scores 0 or 100
+const ZONE_SPREAD = 0.2;
+// A 12-month price change of this size scores 0 or 100
+const MOMENTUM_SPREAD = 0.1;
+// Sales in the last quarter are compared with the same quarter a year earlier
+const MOMENTUM_WINDOW_DAYS = 90;
+const MIN_MOMENTUM_SALES = 2;
+const AMENITY_RADIUS_M = 1000;
+// Amenities within the radius needed for full marks
+const AMENITY_TARGET = 25;
+// Transit within walking distance gets full marks, falling to zero at the far limit
+const TRANSIT_FULL_M = 300;
+const TRANSIT_ZERO_M = 1500;
+const TRANSIT_CATEGORY = 'public_transport';
+
+type FactorResult = { score: number | null; detail: string };
+
+const clamp = (n: number) => Math.max(0, Math.min(100, n));
+const signedPct = (ratio: number) => `${ratio >= 0 ? '+' : ''}${(ratio * 100).toFixed(1)}%`;
+
+function shiftDays(date: string, days: number) {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function yieldFactor(rentYield: number, zone: Zone | undefined): FactorResult {
+  if (!zone?.avgYield) return { score: null, detail: 'No zone average to compare with' };
+  const diff = rentYield / zone.avgYield - 1;
+  return {
+    score: clamp(50 + (diff / ZONE_SPREAD) * 50),
+    detail: `${rentYield}% vs ${zone.avgYield}% in ${zone.name} (${signedPct(diff)})`,
+  };
+}
+
+// Cheaper than the zone scores higher
+function priceFactor(pricePerSqft: number, zone: Zone | undefined): FactorResult {
+  if (!zone?.avgPricePerSqft) return { score: null, detail: 'No zone average to compare with' };
+  const diff = pricePerSqft / zone.avgPricePerSqft - 1;
+  return {
+    score: clamp(50 - (diff / ZONE_SPREAD) * 50),
+    detail: `AED ${pricePerSqft.toLocaleString()}/sqft vs AED ${Math.round(zone.avgPricePerSqft).toLocaleString()} in ${zone.name} (${signedPct(diff)})`,
+  };
+}
+
+/**
+ * Trailing 12-month change in recorded AED/sqft for the given buildings, falling back to the
+ * catalogue price trend when the ledger is too thin
+ */
+async function momentumFactor(propertyIds: string[], trend: PriceTrendPoint[]): Promise<FactorResult> {
+  let change: number | null = null;
+  let source = '';
+
+  const sales = await storage.getTransactionsForProperties(propertyIds);
+  if (sales.length) {
+    // Newest first; anchor on the latest sale so an old ledger still yields a reading
+    const latest = sales[0].date;
+    const recentFrom = shiftDays(latest, -MOMENTUM_WINDOW_DAYS);
+    const priorTo = shiftDays(latest, -365);
+    const priorFrom = shiftDays(priorTo, -MOMENTUM_WINDOW_DAYS);
+    const perSqft = (from: string, to: string) =>
+      sales.filter((t) => t.date > from && t.date <= to).map((t) => t.priceAED / t.sizeSqft);
+    const recent = perSqft(recentFrom, latest);
+    const prior = perSqft(priorFrom, priorTo);
+    if (recent.length >= MIN_MOMENTUM_SALES && prior.length >= MIN_MOMENTUM_SALES) {
+      change = median(recent) / median(prior) - 1;
+      source = `${recent.length + prior.length} recorded sales`;
+    }
+  }
+  if (change == null && trend.length >= 2) {
+    change = trend[trend.length - 1].value / trend[0].value - 1;
+    source = `${trend.length}-month price trend`;
+  }
+  if (change == null) return { score: null, detail: 'Not enough price history' };
+  return { score: clamp(50 + (change / MOMENTUM_SPREAD) * 50), detail: `${signedPct(change)} over 12 months (${source})` };
+}
+
+function amenityFactor(point: LngLat, amenities: InvestmentScoreRequest['amenities']): FactorResult {
+  if (!amenities.length) return { score: null, detail: 'Amenities not loaded' };
+  const nearby = amenities.filter((a) => a.category !== TRANSIT_CATEGORY && haversineMeters(point, a.center) <= AMENITY_RADIUS_M);
+  const categories = new Set(nearby.map((a) => a.category)).size;
+  return {
+    score: clamp((nearby.length / AMENITY_TARGET) * 100),
+    detail: `${nearby.length} amenities in ${categories} categories within ${AMENITY_RADIUS_M / 1000} km`,
+  };
+}
+
+function transitFactor(point: LngLat, amenities: InvestmentScoreRequest['amenities']): FactorResult {
+  const stops = amenities.filter((a) => a.category === TRANSIT_CATEGORY);
+  if (!stops.length) return { score: null, detail: 'No transit stops loaded' };
+  const nearest = Math.min(...stops.map((a) => haversineMeters(point, a.center)));
+  return {
+    score: clamp(((TRANSIT_ZERO_M - nearest) / (TRANSIT_ZERO_M - TRANSIT_FULL_M)) * 100),
+    detail: `Nearest stop ${Math.round(nearest)} m away`,
+  };
+}
+
+/**
+ * Weighted 0-100 investment score with a per-factor breakdown. Factors without data are left
+ * out and the remaining weights rescaled, so the breakdown always adds up to the score.
+ */
+export async function scoreInvestment({ coordinates, propertyId, amenities, weights: overrides }: InvestmentScoreRequest): Promise<InvestmentScore> {
+  const weights: ScoreWeights = { ...DEFAULT_SCORE_WEIGHTS, ...overrides };
+  const zones = (await storage.getZones()).filter((z) => z.propertyCount > 0);
+
+  let figures: { point: LngLat; pricePerSqft: number; rentYield: number; trend: PriceTrendPoint[]; ledgerIds: string[]; zone?: Zone };
+  const property = propertyId ? await storage.getProperty(propertyId) : undefined;
+  if (property) {
+    const point: LngLat = [property.lng, property.lat];
+    figures = {
+      point,
+      pricePerSqft: property.pricePerSqft,
+      rentYield: property.rentYield,
+      trend: property.priceTrend,
+      ledgerIds: [property.id],
+      zone: findZone(point, zones)?.zone,
+    };
+  } else {
+    const estimate = await estimateAt(coordinates);
+    figures = {
+      point: coordinates,
+      pricePerSqft: estimate.pricePerSqFt,
+      rentYield: estimate.yield,
+      trend: estimate.priceTrend,
+      ledgerIds: estimate.explanation.comparables.map((c) => c.id),
+      zone: zones.find((z) => z.id === estimate.explanation.zone?.id),
+    };
+  }
+
+  const results: Record<ScoreFactorKey, FactorResult> = {
+    yield: yieldFactor(figures.rentYield, figures.zone),
+    price: priceFactor(figures.pricePerSqft, figures.zone),
+    momentum: await momentumFactor(figures.ledgerIds, figures.trend),
+    amenities: amenityFactor(figures.point, amenities),
+    transit: transitFactor(figures.point, amenities),
+  };
+
+  const counted = scoreFactorKeys.filter((key) => results[key].score != null && weights[key] > 0);
+  const totalWeight = counted.reduce((sum, key) => sum + weights[key], 0);
+
+  const factors = scoreFactorKeys.map((key) => {
+    const { score, detail } = results[key];
+    const weight = totalWeight > 0 && counted.includes(key) ? weights[key] / totalWeight : 0;
+    return {
+      key,
+      label: SCORE_FACTOR_LABELS[key],
+      score: score == null ? null : Math.round(score),
+      weight: Math.round(weight * 1000) / 1000,
+      contribution: Math.round((score ?? 0) * weight * 10) / 10,
+      detail,
+    };
+  });
+
+  const score = totalWeight > 0
+    ? counted.reduce((sum, key) => sum + results[key].score! * (weights[key] / totalWeight), 0)
+    : 50;
+  return { score: Math.round(clamp(score)), factors, weights };
+}
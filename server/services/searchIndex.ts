@@ -0,0 +1,285 @@
+import type { BBox, LngLat } from "@shared/geo";
+import { containsArabic, translateArabicText } from "@shared/arabicTranslation";
+import {
+  searchResultTypes,
+  toPropertyPoint,
+  type Property,
+  type SearchQuery,
+  type SearchResponse,
+  type SearchResult,
+  type SearchResultType,
+} from "@shared/schema";
+import { createTransliterator } from "@shared/transliteration";
+import { developers } from "../data/developers";
+import { gazetteer } from "../data/gazetteer";
+import { gazetteerFullName, normalisePlaceName, type GazetteerEntry } from "./gazetteer";
+import { allProperties } from "./spatial";
+
+export type Developer = {
+  id: string;
+  name: string;
+  nameAr: string;
+  aliases?: string[];
+  projects: string[]; // gazetteer ids
+};
+
+// A searchable string: the display name, an Arabic name, an alias, or a weaker related name
+// (a building's community, a project's developer)
+type Key = { text: string; tokens: string[]; kind: "name" | "alias" | "related" };
+
+type Doc = {
+  result: Omit<SearchResult, "highlights" | "matchedAlias" | "score">;
+  keys: Key[];
+};
+
+// Key kinds score below the display name so "Marina Gate" outranks a building that is merely in Dubai Marina
+const KEY_PENALTY: Record<Key["kind"], number> = { name: 0, alias: 0.5, related: 2 };
+
+/**
+ * Fold the spelling variants transliterated place names come in, so "Jumeira" / "Jumeirah",
+ * "Al Barsha" / "Albarsha" and "Qouz" / "Quoz" compare equal. Arabic tokens lose the article.
+ */
+function foldToken(token: string): string {
+  if (containsArabic(token)) return token.length > 3 ? token.replace(/^ال/, "") : token;
+  return token
+    .replace(/^al(?=[a-z]{3})/, "")
+    .replace(/ee/g, "i")
+    .replace(/o[ou]/g, "u")
+    .replace(/q/g, "k")
+    .replace(/(.)\1+/g, "$1")
+    .replace(/([aeiou])h$/, "$1");
+}
+
+function tokenize(text: string): string[] {
+  return normalisePlaceName(text).split(" ").filter(Boolean).map(foldToken);
+}
+
+function key(text: string, kind: Key["kind"]): Key {
+  return { text, tokens: tokenize(text), kind };
+}
+
+// Damerau-Levenshtein (adjacent transpositions count once), giving up beyond `max`
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev2: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) row[j] = Math.min(row[j], prev2[j - 2] + 1);
+      best = Math.min(best, row[j]);
+    }
+    if (best > max) return max + 1;
+    [prev2, prev] = [prev, row];
+  }
+  return prev[b.length];
+}
+
+// 3: the same word, 2: the start of it, 1: within a typo or two of it (or of its start, while typing)
+function tokenScore(q: string, d: string): number {
+  if (q === d) return 3;
+  if (d.startsWith(q)) return 2;
+  if (q.length < 4) return 0;
+  const max = q.length >= 8 ? 2 : 1;
+  return Math.min(editDistance(q, d, max), editDistance(q, d.slice(0, q.length), max)) <= max ? 1 : 0;
+}
+
+// Every query word has to match some word of the key; the whole key starting with the query counts extra
+function keyScore(query: string[], k: Key): number {
+  let total = 0;
+  for (const q of query) {
+    const best = Math.max(0, ...k.tokens.map((d) => tokenScore(q, d)));
+    if (!best) return 0;
+    total += best;
+  }
+  const joined = k.tokens.join(" ");
+  const phrase = query.join(" ");
+  if (joined === phrase) total += 4;
+  else if (joined.startsWith(phrase)) total += 2;
+  return Math.max(total - KEY_PENALTY[k.kind], 0.1);
+}
+
+// [start, end) ranges of the words in `name` that some query word matched
+function highlightRanges(name: string, query: string[]): [number, number][] {
+  const ranges: [number, number][] = [];
+  for (const word of Array.from(name.matchAll(/[A-Za-z0-9À-ɏ؀-ۿ]+/g))) {
+    const tokens = tokenize(word[0]);
+    const start = word.index ?? 0;
+    const scores = query.map((q) => Math.max(0, ...tokens.map((d) => tokenScore(q, d))));
+    const best = Math.max(0, ...scores);
+    if (!best) continue;
+    // A prefix match lights up as much of the word as was typed; exact and fuzzy ones the whole word
+    const typed = best === 2 ? Math.max(...query.filter((_, i) => scores[i] === 2).map((q) => q.length)) : word[0].length;
+    ranges.push([start, start + Math.min(typed, word[0].length)]);
+  }
+  return ranges;
+}
+
+// Transliteration that also knows every Arabic place and developer name in the index
+const transliterator = createTransliterator();
+transliterator.register([...gazetteer, ...developers].flatMap((e) => (e.nameAr ? [[e.nameAr, e.name] as const] : [])));
+
+// Arabic queries also run as their dictionary translation and transliteration, which is how they
+// reach buildings that only have English names
+function queryVariants(q: string): string[][] {
+  const variants = [q];
+  if (containsArabic(q)) variants.push(translateArabicText(q), transliterator.transliterate(q));
+  return Array.from(new Set(variants)).map(tokenize).filter((tokens) => tokens.length > 0);
+}
+
+function boundsOf(points: LngLat[]): BBox {
+  const lngs = points.map((p) => p[0]);
+  const lats = points.map((p) => p[1]);
+  return [Math.min(...lngs), Math.min(...lats), Math.max(...lngs), Math.max(...lats)];
+}
+
+const average = (points: LngLat[]): LngLat => [
+  points.reduce((sum, p) => sum + p[0], 0) / points.length,
+  points.reduce((sum, p) => sum + p[1], 0) / points.length,
+];
+
+function buildDocs(properties: Property[]): Doc[] {
+  const entries = new Map(gazetteer.map((e) => [e.id, e]));
+  const developerOf = new Map(developers.flatMap((d) => d.projects.map((id) => [id, d] as const)));
+  const docs: Doc[] = [];
+
+  for (const p of properties) {
+    docs.push({
+      result: { id: `building:${p.id}`, type: "building", name: p.name, subtitle: p.community, center: [p.lng, p.lat], property: toPropertyPoint(p) },
+      keys: [key(p.name, "name"), key(p.community, "related")],
+    });
+  }
+
+  const placeDoc = (e: GazetteerEntry, type: SearchResultType): Doc => {
+    const developer = developerOf.get(e.id);
+    return {
+      result: {
+        id: `${type}:${e.id}`,
+        type,
+        name: e.name,
+        nameAr: e.nameAr,
+        subtitle: gazetteerFullName(e).split(", ").slice(1, -1).join(", ") + (developer ? ` • ${developer.name}` : ""),
+        center: e.center,
+        bbox: e.bbox,
+      },
+      keys: [
+        key(e.name, "name"),
+        key(e.nameAr, "alias"),
+        ...(e.aliases ?? []).map((a) => key(a, "alias")),
+        ...(developer ? [key(developer.name, "related"), ...(developer.aliases ?? []).map((a) => key(a, "related"))] : []),
+      ],
+    };
+  };
+  for (const e of gazetteer) {
+    if (e.kind === "master_project") docs.push(placeDoc(e, "project"));
+    else if (e.kind === "community" || e.kind === "sub_community") docs.push(placeDoc(e, "community"));
+  }
+
+  // Catalogue communities the gazetteer doesn't know, placed at their buildings' centre
+  const known = new Set(gazetteer.map((e) => normalisePlaceName(e.name)));
+  const buildingsBy = new Map<string, LngLat[]>();
+  for (const p of properties) {
+    if (known.has(normalisePlaceName(p.community))) continue;
+    buildingsBy.set(p.community, [...(buildingsBy.get(p.community) ?? []), [p.lng, p.lat]]);
+  }
+  for (const [community, points] of Array.from(buildingsBy)) {
+    docs.push({
+      result: { id: `community:${community}`, type: "community", name: community, subtitle: `${points.length} buildings`, center: average(points), bbox: points.length > 1 ? boundsOf(points) : undefined },
+      keys: [key(community, "name")],
+    });
+  }
+
+  for (const d of developers) {
+    const projects = d.projects.map((id) => entries.get(id)).filter((e): e is GazetteerEntry => !!e);
+    if (!projects.length) continue;
+    const names = projects.slice(0, 2).map((e) => e.name).join(", ");
+    docs.push({
+      result: {
+        id: `developer:${d.id}`,
+        type: "developer",
+        name: d.name,
+        nameAr: d.nameAr,
+        subtitle: projects.length > 2 ? `${names} +${projects.length - 2} more` : names,
+        center: average(projects.map((e) => e.center)),
+        bbox: boundsOf(projects.map((e) => e.center)),
+      },
+      keys: [key(d.name, "name"), key(d.nameAr, "alias"), ...(d.aliases ?? []).map((a) => key(a, "alias"))],
+    });
+  }
+  return docs;
+}
+
+function match(doc: Doc, variants: string[][]): SearchResult | null {
+  let best: { score: number; key: Key; query: string[] } | null = null;
+  for (const query of variants) {
+    for (const k of doc.keys) {
+      const score = keyScore(query, k);
+      if (score && (!best || score > best.score)) best = { score, key: k, query };
+    }
+  }
+  if (!best) return null;
+  // Highlight the name whenever it matched at all, even if an alias ("marina") scored higher
+  const highlights = highlightRanges(doc.result.name, best.query);
+  return {
+    ...doc.result,
+    score: Math.round(best.score * 10) / 10,
+    highlights,
+    matchedAlias: highlights.length || best.key.kind === "name" ? undefined : best.key.text,
+  };
+}
+
+/**
+ * Typo-tolerant search over catalogue buildings, gazetteer communities and master projects, and
+ * developers, in English or Arabic. The index is rebuilt on first use after `invalidate()` or
+ * once it is `maxAgeMs` old, so writes from another process (the import CLI) show up too.
+ */
+export function createSearchIndex({
+  loadProperties = allProperties,
+  maxAgeMs = 5 * 60 * 1000,
+  now = () => Date.now(),
+}: { loadProperties?: () => Promise<Property[]>; maxAgeMs?: number; now?: () => number } = {}) {
+  let built: { docs: Promise<Doc[]>; at: number } | null = null;
+
+  function docs() {
+    if (!built || now() - built.at > maxAgeMs) {
+      const pending = loadProperties().then(buildDocs);
+      // A failed load is retried by the next search rather than cached
+      pending.catch(() => { if (built?.docs === pending) built = null; });
+      built = { docs: pending, at: now() };
+    }
+    return built.docs;
+  }
+
+  return {
+    async search({ q, limit, types }: SearchQuery): Promise<SearchResponse> {
+      const variants = queryVariants(q);
+      const wanted = types ?? searchResultTypes;
+      const matches = (await docs())
+        .filter((doc) => wanted.includes(doc.result.type))
+        .map((doc) => match(doc, variants))
+        .filter((r): r is SearchResult => r !== null);
+
+      const groups = wanted
+        .map((type) => ({
+          type,
+          results: matches
+            .filter((r) => r.type === type)
+            .sort((a, b) => b.score - a.score || a.name.length - b.name.length || a.name.localeCompare(b.name))
+            .slice(0, limit),
+        }))
+        .filter((g) => g.results.length > 0);
+      return { query: q, groups };
+    },
+
+    invalidate() {
+      built = null;
+    },
+  };
+}
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
+
+export const searchIndex = createSearchIndex();
@@ -0,0 +1,33 @@
+import type { Polygon } from "geojson";
+import type { Property } from "@shared/schema";
+import { pointInPolygon, polygonBBox } from "@shared/geo";
+import { storage } from "../storage";
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Every stored property, a page at a time
+ */
+export async function allProperties(): Promise<Property[]> {
+  const all: Property[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { items, total } = await storage.getProperties({ limit: PAGE_SIZE, offset });
+    all.push(...items);
+    if (offset + PAGE_SIZE >= total) break;
+  }
+  return all;
+}
+
+/**
+ * Every stored property inside a polygon: bbox query against the store, then exact point-in-polygon
+ */
+export async function propertiesInPolygon(polygon: Polygon): Promise<Property[]> {
+  const bbox = polygonBBox(polygon);
+  const inside: Property[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { items, total } = await storage.getProperties({ bbox, limit: PAGE_SIZE, offset });
+    inside.push(...items.filter((p) => pointInPolygon([p.lng, p.lat], polygon)));
+    if (offset + PAGE_SIZE >= total) break;
+  }
+  return inside;
+}
@@ -0,0 +1,30 @@
+import { toPropertyPoint, type IdentifierType, type UnitLookupResult } from "@shared/schema";
+import { storage } from "../storage";
+import { trendDirection } from "./estimate";
+
+const MAX_MATCHES = 20;
+
+/**
+ * Resolve a unit number, DEWA premise number, Oqood number or title deed number to units
+ * and the buildings they belong to. An empty list means nothing is registered under that value.
+ */
+export async function lookupUnits(type: IdentifierType, value: string): Promise<UnitLookupResult[]> {
+  const units = (await storage.findUnitsByIdentifier(type, value)).slice(0, MAX_MATCHES);
+  if (!units.length) return [];
+
+  const identifiers = await storage.getIdentifiersForUnits(units.map((u) => u.id));
+  const results: UnitLookupResult[] = [];
+  for (const unit of units) {
+    const building = await storage.getProperty(unit.propertyId);
+    if (!building) continue;
+    results.push({
+      unit: { id: unit.id, unitNumber: unit.unitNumber, bedrooms: unit.bedrooms, sizeSqft: unit.sizeSqft, valueAED: unit.valueAED },
+      identifiers: Object.fromEntries(
+        identifiers.filter((i) => i.unitId === unit.id).map((i) => [i.type, i.value]),
+      ),
+      building: toPropertyPoint(building),
+      marketTrend: trendDirection(building.priceTrend),
+    });
+  }
+  return results;
+}
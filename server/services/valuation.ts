@@ -0,0 +1,110 @@
+import { SQFT_PER_SQM, type Property, type Valuation, type ValuationComparable, type ValuationRequest } from "@shared/schema";
+import { storage } from "../storage";
+
+const MAX_COMPARABLES = 10;
+// Used when there are too few comparables for a meaningful interquartile range
+const FALLBACK_SPREAD = 0.1;
+
+function percentile(sorted: number[], p: number): number {
+  const idx = (sorted.length - 1) * p;
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+}
+
+function roundThousands(n: number) {
+  return Math.round(n / 1000) * 1000;
+}
+
+function rankMatch(p: Property, term: string): number {
+  const name = p.name.toLowerCase();
+  if (name === term) return 0;
+  if (name.startsWith(term)) return 1;
+  if (name.includes(term)) return 2;
+  return 3; // community match only
+}
+
+/**
+ * Resolve the building the user typed, preferring name matches over community matches.
+ * Geocoded values such as "Marina Heights, Dubai Marina" fall back to their first segment.
+ */
+export async function findBuilding(building: string): Promise<Property | undefined> {
+  const terms = Array.from(new Set([building.trim(), building.split(',')[0].trim()])).filter(Boolean);
+  for (const term of terms) {
+    const needle = term.toLowerCase();
+    const matches = await storage.searchProperties(term, 50);
+    if (matches.length) {
+      return matches.sort((a, b) => rankMatch(a, needle) - rankMatch(b, needle) || a.id.localeCompare(b.id))[0];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Value a unit from recorded units with the same bedroom count in the building's community.
+ * Returns undefined when there is nothing to compare against.
+ */
+export async function valueUnit(subject: Property, request: ValuationRequest): Promise<Valuation | undefined> {
+  const notes: string[] = [];
+  const bedrooms = request.beds === 'studio' ? 0 : request.beds === '5+' ? 5 : Number(request.beds);
+  const sizeSqft = Math.round(request.sizeUnit === 'sqm' ? request.size * SQFT_PER_SQM : request.size);
+  if (request.sizeUnit === 'sqm') notes.push(`${request.size} sqm converted to ${sizeSqft} sqft.`);
+
+  const { items: community } = await storage.getProperties({ community: subject.community, limit: 1000, offset: 0 });
+  const buildings = new Map(community.map((p) => [p.id, p]));
+  buildings.set(subject.id, subject);
+
+  const unitNumber = request.unitNumber?.toLowerCase();
+  const sameBedrooms = (await storage.getUnitsForProperties(Array.from(buildings.keys())))
+    .filter((u) => (request.beds === '5+' ? u.bedrooms >= 5 : u.bedrooms === bedrooms));
+  // The unit being valued shouldn't count as its own comparable
+  const isSubject = (u: (typeof sameBedrooms)[number]) =>
+    u.propertyId === subject.id && !!unitNumber && u.unitNumber.toLowerCase() === unitNumber;
+  const candidates = sameBedrooms.filter((u) => !isSubject(u));
+  const excluded = sameBedrooms.find(isSubject);
+  if (excluded) notes.push(`Unit ${excluded.unitNumber} itself was excluded from the comparables.`);
+  if (!candidates.length) return undefined;
+
+  // Closest in size first, so the set stays representative of the unit being valued
+  const comparables: ValuationComparable[] = candidates
+    .sort((a, b) => Math.abs(a.sizeSqft - sizeSqft) - Math.abs(b.sizeSqft - sizeSqft) || a.id - b.id)
+    .slice(0, MAX_COMPARABLES)
+    .map((u) => {
+      const building = buildings.get(u.propertyId)!;
+      return {
+        unitId: u.id,
+        propertyId: u.propertyId,
+        building: building.name,
+        community: building.community,
+        unitNumber: u.unitNumber,
+        bedrooms: u.bedrooms,
+        sizeSqft: u.sizeSqft,
+        valueAED: u.valueAED,
+        pricePerSqft: Math.round(u.valueAED / u.sizeSqft),
+        coords: [building.lng, building.lat],
+      };
+    });
+
+  const rates = comparables.map((c) => c.pricePerSqft).sort((a, b) => a - b);
+  const pricePerSqft = percentile(rates, 0.5);
+  let lowRate = percentile(rates, 0.25);
+  let highRate = percentile(rates, 0.75);
+  if (rates.length < 3) {
+    lowRate = pricePerSqft * (1 - FALLBACK_SPREAD);
+    highRate = pricePerSqft * (1 + FALLBACK_SPREAD);
+    notes.push(`Only ${rates.length} comparable(s); range widened to ±${FALLBACK_SPREAD * 100}%.`);
+  }
+  notes.push(`Median of ${rates.length} ${bedrooms === 0 ? 'studio' : request.beds === '5+' ? '5+ bedroom' : `${bedrooms}-bedroom`} unit(s) in ${subject.community}; range is the interquartile spread.`);
+
+  return {
+    building: { id: subject.id, name: subject.name, community: subject.community, coords: [subject.lng, subject.lat] },
+    bedrooms,
+    sizeSqft,
+    value: roundThousands(sizeSqft * pricePerSqft),
+    low: roundThousands(sizeSqft * lowRate),
+    high: roundThousands(sizeSqft * highRate),
+    pricePerSqft: Math.round(pricePerSqft),
+    comparables,
+    notes,
+  };
+}
@@ -0,0 +1,15 @@
+import { toPropertyPoint, type WatchlistEntry, type WatchlistItem } from "@shared/schema";
+import { storage } from "../storage";
+
+export async function toWatchlistEntry(item: WatchlistItem): Promise<WatchlistEntry | undefined> {
+  const property = await storage.getProperty(item.propertyId);
+  return property ? { ...item, property: toPropertyPoint(property) } : undefined;
+}
+
+/**
+ * A user's watched buildings with their current catalogue figures, newest first
+ */
+export async function getWatchlistEntries(userId: number): Promise<WatchlistEntry[]> {
+  const entries = await Promise.all((await storage.getWatchlist(userId)).map(toWatchlistEntry));
+  return entries.filter((entry): entry is WatchlistEntry => !!entry);
+}
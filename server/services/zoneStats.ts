@@ -0,0 +1,51 @@
+import type { Zone, ZoneStats } from "@shared/schema";
+import { storage } from "../storage";
+import { mean, median } from "../lib/stats";
+import { propertiesInPolygon } from "./spatial";
+
+// Sales within this many days of the zone's latest sale count towards its price
+const SALES_WINDOW_DAYS = 365;
+// Fewer recorded sales than this and the zone falls back to catalogue prices
+const MIN_SALES = 3;
+// A zone is undervalued when its price per sqft is this far below the median zone
+const UNDERVALUED_DISCOUNT = 0.1;
+
+function daysBefore(date: string, days: number) {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - days);
+  return d.toISOString().slice(0, 10);
+}
+
+async function statsInside(zone: Zone): Promise<Omit<ZoneStats, 'undervalued'>> {
+  const inside = await propertiesInPolygon(zone.polygon);
+  const sales = await storage.getTransactionsForProperties(inside.map((p) => p.id));
+  // Newest first, so the window is anchored on the zone's latest sale rather than today
+  const recent = sales.length ? sales.filter((t) => t.date >= daysBefore(sales[0].date, SALES_WINDOW_DAYS)) : [];
+
+  const pricePerSqft = recent.length >= MIN_SALES
+    ? mean(recent.map((t) => t.priceAED / t.sizeSqft))
+    : inside.length ? mean(inside.map((p) => p.pricePerSqft)) : 0;
+
+  return {
+    avgPricePerSqft: Math.round(pricePerSqft),
+    avgYield: inside.length ? Math.round(mean(inside.map((p) => p.rentYield)) * 10) / 10 : 0,
+    propertyCount: inside.length,
+    saleCount: recent.length,
+  };
+}
+
+/**
+ * Derive every zone's averages and undervalued flag from the properties and sales inside its polygon
+ */
+export async function recomputeZoneStats(): Promise<void> {
+  const zones = await storage.getZones();
+  const computed = await Promise.all(zones.map(async (zone) => ({ zone, stats: await statsInside(zone) })));
+
+  const withData = computed.filter((c) => c.stats.propertyCount > 0);
+  const market = withData.length ? median(withData.map((c) => c.stats.avgPricePerSqft)) : 0;
+
+  for (const { zone, stats } of computed) {
+    const undervalued = stats.propertyCount > 0 && stats.avgPricePerSqft < market * (1 - UNDERVALUED_DISCOUNT);
+    await storage.setZoneStats(zone.id, { ...stats, undervalued });
+  }
+}
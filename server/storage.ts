@@ -1,4 +1,43 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import { and, asc, desc, eq, gt, gte, ilike, inArray, lte, or, sql, type SQL } from "drizzle-orm";
+import {
+  users,
+  properties,
+  zones,
+  units,
+  unitIdentifiers,
+  transactions,
+  watchlistItems,
+  savedSearches,
+  notifications,
+  portfolioHoldings,
+  normalizeIdentifier,
+  type User,
+  type InsertUser,
+  type Preferences,
+  type Property,
+  type InsertProperty,
+  type PropertyQuery,
+  type Zone,
+  type InsertZone,
+  type ZoneStats,
+  type Unit,
+  type UnitIdentifier,
+  type IdentifierType,
+  type Transaction,
+  type InsertTransaction,
+  type WatchlistItem,
+  type InsertWatchlistItem,
+  type SavedSearch,
+  type InsertSavedSearch,
+  type SavedSearchAlertState,
+  type SavedSearchEmailState,
+  type InboxNotification,
+  type InsertInboxNotification,
+  type PortfolioHolding,
+  type InsertHolding,
+} from "@shared/schema";
+import { createDb, type Database } from "./db";
+import { seedProperties, seedTransactions, seedUnitIdentifiers, seedUnits, seedZones } from "./data/seed";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -7,14 +46,130 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, changes: Preferences): Promise<User | undefined>;
+
+  getProperties(query: PropertyQuery): Promise<{ items: Property[]; total: number }>;
+  getProperty(id: string): Promise<Property | undefined>;
+  createProperty(property: InsertProperty): Promise<Property>;
+  updateProperty(id: string, changes: Partial<InsertProperty>): Promise<Property | undefined>;
+  deleteProperty(id: string): Promise<boolean>;
+  // Case-insensitive substring match on building name or community
+  searchProperties(term: string, limit: number): Promise<Property[]>;
+
+  getZones(): Promise<Zone[]>;
+  getZone(id: string): Promise<Zone | undefined>;
+  upsertZone(zone: InsertZone): Promise<Zone>;
+  setZoneStats(id: string, stats: ZoneStats): Promise<void>;
+
+  getUnitsForProperties(propertyIds: string[]): Promise<Unit[]>;
+  // Compares normalised values, so spacing, dashes and case don't matter; unit numbers can match several buildings
+  findUnitsByIdentifier(type: IdentifierType, value: string): Promise<Unit[]>;
+  getIdentifiersForUnits(unitIds: number[]): Promise<UnitIdentifier[]>;
+
+  // Newest first; `since` is an inclusive YYYY-MM-DD lower bound
+  getTransactionsForProperties(propertyIds: string[], since?: string): Promise<Transaction[]>;
+  // Rows whose (source, sourceRef) is already stored are skipped; resolves to the number inserted
+  addTransactions(rows: InsertTransaction[]): Promise<number>;
+  // Oldest first, by id; the alerts job uses ids as a high-water mark
+  getTransactionsAfter(id: number): Promise<Transaction[]>;
+  getLatestTransactionId(): Promise<number>;
+
+  // Newest first; adding an already watched property updates its note instead
+  getWatchlist(userId: number): Promise<WatchlistItem[]>;
+  addWatchlistItem(userId: number, item: InsertWatchlistItem): Promise<WatchlistItem>;
+  updateWatchlistItem(userId: number, propertyId: string, changes: Pick<InsertWatchlistItem, "note">): Promise<WatchlistItem | undefined>;
+  removeWatchlistItem(userId: number, propertyId: string): Promise<boolean>;
+
+  getSavedSearches(userId: number): Promise<SavedSearch[]>;
+  // Every user's searches, for the alerts job
+  getAllSavedSearches(): Promise<SavedSearch[]>;
+  getSavedSearch(userId: number, id: number): Promise<SavedSearch | undefined>;
+  createSavedSearch(userId: number, search: InsertSavedSearch, state: SavedSearchAlertState): Promise<SavedSearch>;
+  updateSavedSearch(id: number, changes: Partial<InsertSavedSearch & SavedSearchAlertState & SavedSearchEmailState>): Promise<SavedSearch | undefined>;
+  deleteSavedSearch(userId: number, id: number): Promise<boolean>;
+
+  // Newest first
+  getNotifications(userId: number, limit: number): Promise<InboxNotification[]>;
+  countUnreadNotifications(userId: number): Promise<number>;
+  // Rows already stored for the same (savedSearchId, refKey) are skipped; resolves to the rows inserted
+  addNotifications(rows: InsertInboxNotification[]): Promise<InboxNotification[]>;
+  // Every unread notification when ids is omitted; resolves to the number changed
+  markNotificationsRead(userId: number, ids?: number[]): Promise<number>;
+
+  // Oldest purchase first
+  getHoldings(userId: number): Promise<PortfolioHolding[]>;
+  getHolding(userId: number, id: number): Promise<PortfolioHolding | undefined>;
+  createHolding(userId: number, holding: InsertHolding): Promise<PortfolioHolding>;
+  updateHolding(userId: number, id: number, changes: Partial<InsertHolding>): Promise<PortfolioHolding | undefined>;
+  deleteHolding(userId: number, id: number): Promise<boolean>;
+}
+
+function toProperty(p: InsertProperty): Property {
+  return {
+    ...p,
+    priceTrend: p.priceTrend ?? [],
+    imageUrl: p.imageUrl ?? null,
+  };
+}
+
+const EMPTY_ZONE_STATS: ZoneStats = { avgPricePerSqft: 0, avgYield: 0, undervalued: false, propertyCount: 0, saleCount: 0 };
+
+function byDateDesc(a: Transaction, b: Transaction) {
+  return b.date.localeCompare(a.date) || b.id - a.id;
+}
+
+function matchesQuery(p: Property, q: PropertyQuery): boolean {
+  if (q.bbox) {
+    const [minLng, minLat, maxLng, maxLat] = q.bbox;
+    if (p.lng < minLng || p.lng > maxLng || p.lat < minLat || p.lat > maxLat) return false;
+  }
+  if (q.community && p.community.toLowerCase() !== q.community.toLowerCase()) return false;
+  if (q.minPrice != null && p.estimatedValueAED < q.minPrice) return false;
+  if (q.maxPrice != null && p.estimatedValueAED > q.maxPrice) return false;
+  if (q.minYield != null && p.rentYield < q.minYield) return false;
+  if (q.maxYield != null && p.rentYield > q.maxYield) return false;
+  return true;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private properties: Map<string, Property>;
+  private zones: Map<string, Zone>;
+  private units: Map<number, Unit>;
+  private unitIdentifiers: UnitIdentifier[];
+  private transactions: Map<number, Transaction>;
+  private transactionId: number;
+  private watchlist: Map<number, WatchlistItem>;
+  private watchlistId: number;
+  private savedSearches: Map<number, SavedSearch>;
+  private savedSearchId: number;
+  private notifications: Map<number, InboxNotification>;
+  private notificationId: number;
+  private holdings: Map<number, PortfolioHolding>;
+  private holdingId: number;
   currentId: number;
 
   constructor() {
     this.users = new Map();
+    this.properties = new Map(seedProperties.map((p) => [p.id, toProperty(p)]));
+    this.zones = new Map(seedZones.map((z) => [z.id, { ...EMPTY_ZONE_STATS, ...z }]));
+    this.units = new Map(seedUnits.map((u, i) => [i + 1, { ...u, id: i + 1 }]));
+    this.unitIdentifiers = seedUnitIdentifiers.map((identifier, i) => ({
+      ...identifier,
+      id: i + 1,
+      normalizedValue: normalizeIdentifier(identifier.value),
+    }));
+    this.transactions = new Map();
+    this.transactionId = 1;
+    void this.addTransactions(seedTransactions);
+    this.watchlist = new Map();
+    this.watchlistId = 1;
+    this.savedSearches = new Map();
+    this.savedSearchId = 1;
+    this.notifications = new Map();
+    this.notificationId = 1;
+    this.holdings = new Map();
+    this.holdingId = 1;
     this.currentId = 1;
   }
 
@@ -30,10 +185,636 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentId++;
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, language: insertUser.language ?? "en", id };
     this.users.set(id, user);
     return user;
   }
+
+  async updateUser(id: number, changes: Preferences): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    const updated = { ...user, ...changes };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async getProperties(query: PropertyQuery): Promise<{ items: Property[]; total: number }> {
+    const matches = Array.from(this.properties.values())
+      .filter((p) => matchesQuery(p, query))
+      .sort((a, b) => a.id.localeCompare(b.id));
+    return {
+      items: matches.slice(query.offset, query.offset + query.limit),
+      total: matches.length,
+    };
+  }
+
+  async getProperty(id: string): Promise<Property | undefined> {
+    return this.properties.get(id);
+  }
+
+  async createProperty(insertProperty: InsertProperty): Promise<Property> {
+    const property = toProperty(insertProperty);
+    this.properties.set(property.id, property);
+    return property;
+  }
+
+  async updateProperty(id: string, changes: Partial<InsertProperty>): Promise<Property | undefined> {
+    const existing = this.properties.get(id);
+    if (!existing) return undefined;
+    const updated: Property = { ...existing, ...changes, id };
+    this.properties.set(id, updated);
+    return updated;
+  }
+
+  async deleteProperty(id: string): Promise<boolean> {
+    const deleted = this.properties.delete(id);
+    // Mirror the ON DELETE CASCADE of the units table
+    for (const [unitId, unit] of Array.from(this.units.entries())) {
+      if (unit.propertyId === id) this.units.delete(unitId);
+    }
+    this.unitIdentifiers = this.unitIdentifiers.filter((identifier) => this.units.has(identifier.unitId));
+    for (const [txId, tx] of Array.from(this.transactions.entries())) {
+      if (tx.propertyId === id) this.transactions.delete(txId);
+    }
+    for (const [itemId, item] of Array.from(this.watchlist.entries())) {
+      if (item.propertyId === id) this.watchlist.delete(itemId);
+    }
+    for (const notification of Array.from(this.notifications.values())) {
+      if (notification.propertyId === id) this.notifications.set(notification.id, { ...notification, propertyId: null });
+    }
+    for (const [holdingId, holding] of Array.from(this.holdings.entries())) {
+      if (holding.propertyId === id) this.holdings.delete(holdingId);
+    }
+    return deleted;
+  }
+
+  async searchProperties(term: string, limit: number): Promise<Property[]> {
+    const needle = term.toLowerCase();
+    return Array.from(this.properties.values())
+      .filter((p) => p.name.toLowerCase().includes(needle) || p.community.toLowerCase().includes(needle))
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .slice(0, limit);
+  }
+
+  async getZones(): Promise<Zone[]> {
+    return Array.from(this.zones.values());
+  }
+
+  async getZone(id: string): Promise<Zone | undefined> {
+    return this.zones.get(id);
+  }
+
+  async upsertZone(insertZone: InsertZone): Promise<Zone> {
+    // Keep the previous stats until they are recomputed for the new boundary
+    const zone: Zone = { ...EMPTY_ZONE_STATS, ...this.zones.get(insertZone.id), ...insertZone };
+    this.zones.set(zone.id, zone);
+    return zone;
+  }
+
+  async setZoneStats(id: string, stats: ZoneStats): Promise<void> {
+    const zone = this.zones.get(id);
+    if (zone) this.zones.set(id, { ...zone, ...stats });
+  }
+
+  async getUnitsForProperties(propertyIds: string[]): Promise<Unit[]> {
+    const ids = new Set(propertyIds);
+    return Array.from(this.units.values()).filter((u) => ids.has(u.propertyId));
+  }
+
+  async findUnitsByIdentifier(type: IdentifierType, value: string): Promise<Unit[]> {
+    const needle = normalizeIdentifier(value);
+    if (type === 'unit') {
+      return Array.from(this.units.values()).filter((u) => normalizeIdentifier(u.unitNumber) === needle);
+    }
+    return this.unitIdentifiers
+      .filter((identifier) => identifier.type === type && identifier.normalizedValue === needle)
+      .map((identifier) => this.units.get(identifier.unitId))
+      .filter((unit): unit is Unit => !!unit);
+  }
+
+  async getIdentifiersForUnits(unitIds: number[]): Promise<UnitIdentifier[]> {
+    const ids = new Set(unitIds);
+    return this.unitIdentifiers.filter((identifier) => ids.has(identifier.unitId));
+  }
+
+  async getTransactionsForProperties(propertyIds: string[], since?: string): Promise<Transaction[]> {
+    const ids = new Set(propertyIds);
+    return Array.from(this.transactions.values())
+      .filter((t) => ids.has(t.propertyId) && (!since || t.date >= since))
+      .sort(byDateDesc);
+  }
+
+  async addTransactions(rows: InsertTransaction[]): Promise<number> {
+    const existing = new Set(
+      Array.from(this.transactions.values())
+        .filter((t) => t.sourceRef != null)
+        .map((t) => `${t.source}:${t.sourceRef}`),
+    );
+    let inserted = 0;
+    for (const row of rows) {
+      const key = `${row.source}:${row.sourceRef}`;
+      if (row.sourceRef != null && existing.has(key)) continue;
+      if (row.sourceRef != null) existing.add(key);
+      const id = this.transactionId++;
+      this.transactions.set(id, { ...row, id, bedrooms: row.bedrooms ?? null, sourceRef: row.sourceRef ?? null });
+      inserted++;
+    }
+    return inserted;
+  }
+
+  async getTransactionsAfter(id: number): Promise<Transaction[]> {
+    return Array.from(this.transactions.values())
+      .filter((t) => t.id > id)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getLatestTransactionId(): Promise<number> {
+    return this.transactionId - 1;
+  }
+
+  private findWatchlistItem(userId: number, propertyId: string) {
+    return Array.from(this.watchlist.values()).find((i) => i.userId === userId && i.propertyId === propertyId);
+  }
+
+  async getWatchlist(userId: number): Promise<WatchlistItem[]> {
+    return Array.from(this.watchlist.values())
+      .filter((i) => i.userId === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id - a.id);
+  }
+
+  async addWatchlistItem(userId: number, item: InsertWatchlistItem): Promise<WatchlistItem> {
+    const existing = this.findWatchlistItem(userId, item.propertyId);
+    if (existing) {
+      if (item.note === undefined) return existing;
+      const updated = { ...existing, note: item.note };
+      this.watchlist.set(existing.id, updated);
+      return updated;
+    }
+    const id = this.watchlistId++;
+    const created: WatchlistItem = { id, userId, propertyId: item.propertyId, note: item.note ?? null, createdAt: new Date().toISOString() };
+    this.watchlist.set(id, created);
+    return created;
+  }
+
+  async updateWatchlistItem(userId: number, propertyId: string, changes: Pick<InsertWatchlistItem, "note">): Promise<WatchlistItem | undefined> {
+    const existing = this.findWatchlistItem(userId, propertyId);
+    if (!existing) return undefined;
+    const updated = { ...existing, note: changes.note ?? null };
+    this.watchlist.set(existing.id, updated);
+    return updated;
+  }
+
+  async removeWatchlistItem(userId: number, propertyId: string): Promise<boolean> {
+    const existing = this.findWatchlistItem(userId, propertyId);
+    return existing ? this.watchlist.delete(existing.id) : false;
+  }
+
+  async getSavedSearches(userId: number): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values())
+      .filter((s) => s.userId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getAllSavedSearches(): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values());
+  }
+
+  async getSavedSearch(userId: number, id: number): Promise<SavedSearch | undefined> {
+    const search = this.savedSearches.get(id);
+    return search?.userId === userId ? search : undefined;
+  }
+
+  async createSavedSearch(userId: number, search: InsertSavedSearch, state: SavedSearchAlertState): Promise<SavedSearch> {
+    const id = this.savedSearchId++;
+    const created: SavedSearch = {
+      ...search,
+      ...state,
+      id,
+      userId,
+      notifyEmail: search.notifyEmail ?? null,
+      emailConfirmCode: null,
+      emailConfirmedAt: null,
+      createdAt: new Date().toISOString(),
+    };
+    this.savedSearches.set(id, created);
+    return created;
+  }
+
+  async updateSavedSearch(id: number, changes: Partial<InsertSavedSearch & SavedSearchAlertState & SavedSearchEmailState>): Promise<SavedSearch | undefined> {
+    const existing = this.savedSearches.get(id);
+    if (!existing) return undefined;
+    const updated: SavedSearch = { ...existing, ...changes, notifyEmail: changes.notifyEmail === undefined ? existing.notifyEmail : changes.notifyEmail };
+    this.savedSearches.set(id, updated);
+    return updated;
+  }
+
+  async deleteSavedSearch(userId: number, id: number): Promise<boolean> {
+    if (!(await this.getSavedSearch(userId, id))) return false;
+    this.savedSearches.delete(id);
+    // Mirror ON DELETE CASCADE
+    for (const notification of Array.from(this.notifications.values())) {
+      if (notification.savedSearchId === id) this.notifications.delete(notification.id);
+    }
+    return true;
+  }
+
+  async getNotifications(userId: number, limit: number): Promise<InboxNotification[]> {
+    return Array.from(this.notifications.values())
+      .filter((n) => n.userId === userId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async countUnreadNotifications(userId: number): Promise<number> {
+    return Array.from(this.notifications.values()).filter((n) => n.userId === userId && !n.read).length;
+  }
+
+  async addNotifications(rows: InsertInboxNotification[]): Promise<InboxNotification[]> {
+    const existing = new Set(Array.from(this.notifications.values()).map((n) => `${n.savedSearchId}:${n.refKey}`));
+    const inserted: InboxNotification[] = [];
+    for (const row of rows) {
+      const key = `${row.savedSearchId}:${row.refKey}`;
+      if (existing.has(key)) continue;
+      existing.add(key);
+      const notification: InboxNotification = { ...row, id: this.notificationId++, read: false, createdAt: new Date().toISOString() };
+      this.notifications.set(notification.id, notification);
+      inserted.push(notification);
+    }
+    return inserted;
+  }
+
+  async markNotificationsRead(userId: number, ids?: number[]): Promise<number> {
+    let changed = 0;
+    for (const notification of Array.from(this.notifications.values())) {
+      if (notification.userId !== userId || notification.read) continue;
+      if (ids && !ids.includes(notification.id)) continue;
+      this.notifications.set(notification.id, { ...notification, read: true });
+      changed++;
+    }
+    return changed;
+  }
+
+  async getHoldings(userId: number): Promise<PortfolioHolding[]> {
+    return Array.from(this.holdings.values())
+      .filter((h) => h.userId === userId)
+      .sort((a, b) => a.purchaseDate.localeCompare(b.purchaseDate) || a.id - b.id);
+  }
+
+  async getHolding(userId: number, id: number): Promise<PortfolioHolding | undefined> {
+    const holding = this.holdings.get(id);
+    return holding?.userId === userId ? holding : undefined;
+  }
+
+  async createHolding(userId: number, insertHolding: InsertHolding): Promise<PortfolioHolding> {
+    const id = this.holdingId++;
+    const holding: PortfolioHolding = {
+      ...insertHolding,
+      label: insertHolding.label ?? null,
+      loanAmountAED: insertHolding.loanAmountAED ?? 0,
+      interestRate: insertHolding.interestRate ?? 0,
+      loanTermYears: insertHolding.loanTermYears ?? 25,
+      annualRentAED: insertHolding.annualRentAED ?? 0,
+      annualServiceChargesAED: insertHolding.annualServiceChargesAED ?? 0,
+      id,
+      userId,
+      createdAt: new Date().toISOString(),
+    };
+    this.holdings.set(id, holding);
+    return holding;
+  }
+
+  async updateHolding(userId: number, id: number, changes: Partial<InsertHolding>): Promise<PortfolioHolding | undefined> {
+    const existing = await this.getHolding(userId, id);
+    if (!existing) return undefined;
+    const updated: PortfolioHolding = { ...existing, ...changes, label: changes.label === undefined ? existing.label : changes.label };
+    this.holdings.set(id, updated);
+    return updated;
+  }
+
+  async deleteHolding(userId: number, id: number): Promise<boolean> {
+    if (!(await this.getHolding(userId, id))) return false;
+    return this.holdings.delete(id);
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: number, changes: Preferences): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set(changes).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async getProperties(query: PropertyQuery): Promise<{ items: Property[]; total: number }> {
+    const conditions: SQL[] = [];
+    if (query.bbox) {
+      const [minLng, minLat, maxLng, maxLat] = query.bbox;
+      conditions.push(gte(properties.lng, minLng), lte(properties.lng, maxLng));
+      conditions.push(gte(properties.lat, minLat), lte(properties.lat, maxLat));
+    }
+    if (query.community) conditions.push(sql`lower(${properties.community}) = ${query.community.toLowerCase()}`);
+    if (query.minPrice != null) conditions.push(gte(properties.estimatedValueAED, query.minPrice));
+    if (query.maxPrice != null) conditions.push(lte(properties.estimatedValueAED, query.maxPrice));
+    if (query.minYield != null) conditions.push(gte(properties.rentYield, query.minYield));
+    if (query.maxYield != null) conditions.push(lte(properties.rentYield, query.maxYield));
+    const where = conditions.length ? and(...conditions) : undefined;
+
+    const items = await this.db
+      .select()
+      .from(properties)
+      .where(where)
+      .orderBy(asc(properties.id))
+      .limit(query.limit)
+      .offset(query.offset);
+    const [{ count }] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(properties)
+      .where(where);
+    return { items, total: count };
+  }
+
+  async getProperty(id: string): Promise<Property | undefined> {
+    const [property] = await this.db.select().from(properties).where(eq(properties.id, id));
+    return property;
+  }
+
+  async createProperty(insertProperty: InsertProperty): Promise<Property> {
+    const [property] = await this.db.insert(properties).values(insertProperty).returning();
+    return property;
+  }
+
+  async updateProperty(id: string, changes: Partial<InsertProperty>): Promise<Property | undefined> {
+    const { id: _ignored, ...rest } = changes;
+    const [property] = await this.db.update(properties).set(rest).where(eq(properties.id, id)).returning();
+    return property;
+  }
+
+  async deleteProperty(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(properties).where(eq(properties.id, id)).returning({ id: properties.id });
+    return deleted.length > 0;
+  }
+
+  async searchProperties(term: string, limit: number): Promise<Property[]> {
+    const pattern = `%${term.replace(/[%_\\]/g, (c) => `\\${c}`)}%`;
+    return this.db
+      .select()
+      .from(properties)
+      .where(or(ilike(properties.name, pattern), ilike(properties.community, pattern)))
+      .orderBy(asc(properties.id))
+      .limit(limit);
+  }
+
+  async getZones(): Promise<Zone[]> {
+    return this.db.select().from(zones).orderBy(asc(zones.id));
+  }
+
+  async getZone(id: string): Promise<Zone | undefined> {
+    const [zone] = await this.db.select().from(zones).where(eq(zones.id, id));
+    return zone;
+  }
+
+  async upsertZone(insertZone: InsertZone): Promise<Zone> {
+    const { id: _ignored, ...rest } = insertZone;
+    const [zone] = await this.db
+      .insert(zones)
+      .values(insertZone)
+      .onConflictDoUpdate({ target: zones.id, set: rest })
+      .returning();
+    return zone;
+  }
+
+  async setZoneStats(id: string, stats: ZoneStats): Promise<void> {
+    await this.db.update(zones).set(stats).where(eq(zones.id, id));
+  }
+
+  async getUnitsForProperties(propertyIds: string[]): Promise<Unit[]> {
+    if (!propertyIds.length) return [];
+    return this.db.select().from(units).where(inArray(units.propertyId, propertyIds)).orderBy(asc(units.id));
+  }
+
+  async findUnitsByIdentifier(type: IdentifierType, value: string): Promise<Unit[]> {
+    const needle = normalizeIdentifier(value);
+    if (type === 'unit') {
+      // Same normalisation as normalizeIdentifier, done in SQL
+      return this.db
+        .select()
+        .from(units)
+        .where(sql`upper(regexp_replace(${units.unitNumber}, '[[:space:]/_.-]', '', 'g')) = ${needle}`)
+        .orderBy(asc(units.id));
+    }
+    const rows = await this.db
+      .select({ unit: units })
+      .from(unitIdentifiers)
+      .innerJoin(units, eq(unitIdentifiers.unitId, units.id))
+      .where(and(eq(unitIdentifiers.type, type), eq(unitIdentifiers.normalizedValue, needle)));
+    return rows.map((row) => row.unit);
+  }
+
+  async getIdentifiersForUnits(unitIds: number[]): Promise<UnitIdentifier[]> {
+    if (!unitIds.length) return [];
+    return this.db.select().from(unitIdentifiers).where(inArray(unitIdentifiers.unitId, unitIds));
+  }
+
+  async getTransactionsForProperties(propertyIds: string[], since?: string): Promise<Transaction[]> {
+    if (!propertyIds.length) return [];
+    const conditions: SQL[] = [inArray(transactions.propertyId, propertyIds)];
+    if (since) conditions.push(gte(transactions.date, since));
+    return this.db
+      .select()
+      .from(transactions)
+      .where(and(...conditions))
+      .orderBy(desc(transactions.date), desc(transactions.id));
+  }
+
+  async addTransactions(rows: InsertTransaction[]): Promise<number> {
+    if (!rows.length) return 0;
+    const inserted = await this.db
+      .insert(transactions)
+      .values(rows)
+      .onConflictDoNothing({ target: [transactions.source, transactions.sourceRef] })
+      .returning({ id: transactions.id });
+    return inserted.length;
+  }
+
+  async getTransactionsAfter(id: number): Promise<Transaction[]> {
+    return this.db.select().from(transactions).where(gt(transactions.id, id)).orderBy(asc(transactions.id));
+  }
+
+  async getLatestTransactionId(): Promise<number> {
+    const [row] = await this.db.select({ max: sql<number | null>`max(${transactions.id})` }).from(transactions);
+    return Number(row?.max ?? 0);
+  }
+
+  async getWatchlist(userId: number): Promise<WatchlistItem[]> {
+    return this.db
+      .select()
+      .from(watchlistItems)
+      .where(eq(watchlistItems.userId, userId))
+      .orderBy(desc(watchlistItems.createdAt), desc(watchlistItems.id));
+  }
+
+  async addWatchlistItem(userId: number, item: InsertWatchlistItem): Promise<WatchlistItem> {
+    const insert = this.db.insert(watchlistItems).values({ ...item, userId });
+    const target = [watchlistItems.userId, watchlistItems.propertyId];
+    if (item.note === undefined) {
+      const [created] = await insert.onConflictDoNothing({ target }).returning();
+      if (created) return created;
+      const [existing] = await this.db
+        .select()
+        .from(watchlistItems)
+        .where(and(eq(watchlistItems.userId, userId), eq(watchlistItems.propertyId, item.propertyId)));
+      return existing;
+    }
+    const [saved] = await insert.onConflictDoUpdate({ target, set: { note: item.note } }).returning();
+    return saved;
+  }
+
+  async updateWatchlistItem(userId: number, propertyId: string, changes: Pick<InsertWatchlistItem, "note">): Promise<WatchlistItem | undefined> {
+    const [updated] = await this.db
+      .update(watchlistItems)
+      .set({ note: changes.note ?? null })
+      .where(and(eq(watchlistItems.userId, userId), eq(watchlistItems.propertyId, propertyId)))
+      .returning();
+    return updated;
+  }
+
+  async removeWatchlistItem(userId: number, propertyId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(watchlistItems)
+      .where(and(eq(watchlistItems.userId, userId), eq(watchlistItems.propertyId, propertyId)))
+      .returning({ id: watchlistItems.id });
+    return deleted.length > 0;
+  }
+
+  async getSavedSearches(userId: number): Promise<SavedSearch[]> {
+    return this.db.select().from(savedSearches).where(eq(savedSearches.userId, userId)).orderBy(desc(savedSearches.id));
+  }
+
+  async getAllSavedSearches(): Promise<SavedSearch[]> {
+    return this.db.select().from(savedSearches);
+  }
+
+  async getSavedSearch(userId: number, id: number): Promise<SavedSearch | undefined> {
+    const [search] = await this.db
+      .select()
+      .from(savedSearches)
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)));
+    return search;
+  }
+
+  async createSavedSearch(userId: number, search: InsertSavedSearch, state: SavedSearchAlertState): Promise<SavedSearch> {
+    const [created] = await this.db.insert(savedSearches).values({ ...search, ...state, userId }).returning();
+    return created;
+  }
+
+  async updateSavedSearch(id: number, changes: Partial<InsertSavedSearch & SavedSearchAlertState & SavedSearchEmailState>): Promise<SavedSearch | undefined> {
+    const [updated] = await this.db.update(savedSearches).set(changes).where(eq(savedSearches.id, id)).returning();
+    return updated;
+  }
+
+  async deleteSavedSearch(userId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(savedSearches)
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)))
+      .returning({ id: savedSearches.id });
+    return deleted.length > 0;
+  }
+
+  async getNotifications(userId: number, limit: number): Promise<InboxNotification[]> {
+    return this.db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.id))
+      .limit(limit);
+  }
+
+  async countUnreadNotifications(userId: number): Promise<number> {
+    const [row] = await this.db
+      .select({ count: sql<number>`count(*)` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), eq(notifications.read, false)));
+    return Number(row?.count ?? 0);
+  }
+
+  async addNotifications(rows: InsertInboxNotification[]): Promise<InboxNotification[]> {
+    if (!rows.length) return [];
+    return this.db
+      .insert(notifications)
+      .values(rows)
+      .onConflictDoNothing({ target: [notifications.savedSearchId, notifications.refKey] })
+      .returning();
+  }
+
+  async markNotificationsRead(userId: number, ids?: number[]): Promise<number> {
+    const conditions: SQL[] = [eq(notifications.userId, userId), eq(notifications.read, false)];
+    if (ids) {
+      if (!ids.length) return 0;
+      conditions.push(inArray(notifications.id, ids));
+    }
+    const updated = await this.db
+      .update(notifications)
+      .set({ read: true })
+      .where(and(...conditions))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
+  async getHoldings(userId: number): Promise<PortfolioHolding[]> {
+    return this.db
+      .select()
+      .from(portfolioHoldings)
+      .where(eq(portfolioHoldings.userId, userId))
+      .orderBy(asc(portfolioHoldings.purchaseDate), asc(portfolioHoldings.id));
+  }
+
+  async getHolding(userId: number, id: number): Promise<PortfolioHolding | undefined> {
+    const [holding] = await this.db
+      .select()
+      .from(portfolioHoldings)
+      .where(and(eq(portfolioHoldings.id, id), eq(portfolioHoldings.userId, userId)));
+    return holding;
+  }
+
+  async createHolding(userId: number, holding: InsertHolding): Promise<PortfolioHolding> {
+    const [created] = await this.db.insert(portfolioHoldings).values({ ...holding, userId }).returning();
+    return created;
+  }
+
+  async updateHolding(userId: number, id: number, changes: Partial<InsertHolding>): Promise<PortfolioHolding | undefined> {
+    const [updated] = await this.db
+      .update(portfolioHoldings)
+      .set(changes)
+      .where(and(eq(portfolioHoldings.id, id), eq(portfolioHoldings.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteHolding(userId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(portfolioHoldings)
+      .where(and(eq(portfolioHoldings.id, id), eq(portfolioHoldings.userId, userId)))
+      .returning({ id: portfolioHoldings.id });
+    return deleted.length > 0;
+  }
 }
 
-export const storage = new MemStorage();
+// Use Postgres when it is provisioned, otherwise fall back to the seeded in-memory store
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage(createDb(process.env.DATABASE_URL))
+  : new MemStorage();
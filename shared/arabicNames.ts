@@ -0,0 +1,215 @@
+// Proper nouns whose conventional UAE spelling can't be derived from the Arabic letters alone,
+// because the short vowels aren't written ("جميرا" is Jumeirah, not Jamira) or because the name is an
+// English one written in Arabic script. Keys are matched after folding (see `foldArabic`), so
+// hamza, taa marbuta and alef maqsura variants don't need separate entries.
+export const KNOWN_NAMES: Record<string, string> = {
+  // Name particles
+  "أبو": "Abu",
+  "أم": "Umm",
+  "بن": "Bin",
+  "بنت": "Bint",
+  "ابن": "Ibn",
+  "بني": "Bani",
+  "آل": "Al",
+  "رأس": "Ras",
+  "عبد": "Abd",
+  "الله": "Allah",
+  "عبدالله": "Abdullah",
+  "عبد الله": "Abdullah",
+  "عبدالرحمن": "Abdulrahman",
+  "عبد الرحمن": "Abdulrahman",
+  "عبدالعزيز": "Abdulaziz",
+  "عبد العزيز": "Abdulaziz",
+  "الشيخ": "Sheikh",
+  "شيخ": "Sheikh",
+
+  // People and ruling families that appear in place and road names
+  "محمد": "Mohammed",
+  "راشد": "Rashid",
+  "زايد": "Zayed",
+  "خليفة": "Khalifa",
+  "مكتوم": "Maktoum",
+  "آل مكتوم": "Al Maktoum",
+  "نهيان": "Nahyan",
+  "آل نهيان": "Al Nahyan",
+  "حمدان": "Hamdan",
+  "سعيد": "Saeed",
+  "سلطان": "Sultan",
+  "خالد": "Khalid",
+  "منصور": "Mansour",
+  "هزاع": "Hazza",
+  "ماجد": "Majid",
+  "الحبتور": "Al Habtoor",
+  "الفطيم": "Al Futtaim",
+  "ماجد الفطيم": "Majid Al Futtaim",
+  "الغرير": "Al Ghurair",
+  "عمر": "Omar",
+  "علي": "Ali",
+  "أحمد": "Ahmed",
+  "حمد": "Hamad",
+  "عيسى": "Isa",
+  "مريم": "Maryam",
+  "فاطمة": "Fatima",
+
+  // Emirates and cities
+  "الإمارات": "Emirates",
+  "الإمارات العربية المتحدة": "United Arab Emirates",
+  "دبي": "Dubai",
+  "أبوظبي": "Abu Dhabi",
+  "أبو ظبي": "Abu Dhabi",
+  "الشارقة": "Sharjah",
+  "عجمان": "Ajman",
+  "أم القيوين": "Umm Al Quwain",
+  "رأس الخيمة": "Ras Al Khaimah",
+  "الفجيرة": "Fujairah",
+  "العين": "Al Ain",
+  "حتا": "Hatta",
+  "خورفكان": "Khor Fakkan",
+  "كلباء": "Kalba",
+
+  // Dubai communities
+  "ديرة": "Deira",
+  "بر دبي": "Bur Dubai",
+  "جميرا": "Jumeirah",
+  "جميرة": "Jumeirah",
+  "البرشاء": "Al Barsha",
+  "القوز": "Al Quoz",
+  "الكرامة": "Al Karama",
+  "السطوة": "Al Satwa",
+  "الصفا": "Al Safa",
+  "الوصل": "Al Wasl",
+  "المنخول": "Al Mankhool",
+  "الرقة": "Al Rigga",
+  "الرفاعة": "Al Raffa",
+  "الجافلية": "Al Jafiliya",
+  "القصيص": "Al Qusais",
+  "النهدة": "Al Nahda",
+  "الطوار": "Al Twar",
+  "الممزر": "Al Mamzar",
+  "الراشدية": "Al Rashidiya",
+  "الخوانيج": "Al Khawaneej",
+  "الورقاء": "Al Warqa",
+  "المزهر": "Al Mizhar",
+  "البدع": "Al Bada",
+  "الصفوح": "Al Sufouh",
+  "الفرجان": "Al Furjan",
+  "الجداف": "Al Jaddaf",
+  "الخيل": "Al Khail",
+  "الحبية": "Al Hebiah",
+  "أم سقيم": "Umm Suqeim",
+  "أم رمول": "Umm Ramool",
+  "رأس الخور": "Ras Al Khor",
+  "مردف": "Mirdif",
+  "ند الشبا": "Nad Al Sheba",
+  "ند الحمر": "Nad Al Hamar",
+  "هور العنز": "Hor Al Anz",
+  "عود ميثاء": "Oud Metha",
+  "المرابع العربية": "Arabian Ranches",
+  "الخليج التجاري": "Business Bay",
+  "دبي مارينا": "Dubai Marina",
+  "مرسى دبي": "Dubai Marina",
+  "نخلة جميرا": "Palm Jumeirah",
+  "جزر العالم": "The World Islands",
+  "خور دبي": "Dubai Creek",
+  "تلال الإمارات": "Emirates Hills",
+  "المدينة العالمية": "International City",
+  "واحة دبي للسيليكون": "Dubai Silicon Oasis",
+  "جبل علي": "Jebel Ali",
+  "القرهود": "Al Garhoud",
+  "الحمرية": "Al Hamriya",
+  "الشندغة": "Al Shindagha",
+  "الفهيدي": "Al Fahidi",
+  "البطين": "Al Bateen",
+  "المطينة": "Al Muteena",
+
+  // Abu Dhabi and the northern emirates
+  "جزيرة الريم": "Al Reem Island",
+  "جزيرة ياس": "Yas Island",
+  "جزيرة السعديات": "Saadiyat Island",
+  "السعديات": "Saadiyat",
+  "ياس": "Yas",
+  "الريم": "Al Reem",
+  "المارية": "Al Maryah",
+  "الراحة": "Al Raha",
+  "الريف": "Al Reef",
+  "مصدر": "Masdar",
+  "الخالدية": "Al Khalidiya",
+  "المشرف": "Al Mushrif",
+  "الكورنيش": "Corniche",
+  "كورنيش": "Corniche",
+  "المجاز": "Al Majaz",
+  "الخان": "Al Khan",
+  "مويلح": "Muwaileh",
+  "الجادة": "Aljada",
+  "النعيمية": "Al Nuaimiya",
+  "جزيرة المرجان": "Al Marjan Island",
+  "الحمراء": "Al Hamra",
+
+  // Landmarks
+  "برج خليفة": "Burj Khalifa",
+  "برج العرب": "Burj Al Arab",
+  "دبي مول": "Dubai Mall",
+  "مول الإمارات": "Mall of the Emirates",
+  "إطار دبي": "Dubai Frame",
+  "متحف المستقبل": "Museum of the Future",
+  "متحف الاتحاد": "Etihad Museum",
+  "الاتحاد": "Al Ittihad",
+  "دار الأوبرا": "Opera House",
+  "الأوبرا": "Opera",
+  "سوق مدينة جميرا": "Souk Madinat Jumeirah",
+  "مدينة جميرا": "Madinat Jumeirah",
+  "شارع الشيخ زايد": "Sheikh Zayed Road",
+  "مسجد الشيخ زايد الكبير": "Sheikh Zayed Grand Mosque",
+  "قصر الإمارات": "Emirates Palace",
+  "اللوفر أبوظبي": "Louvre Abu Dhabi",
+
+  // Developers
+  "إعمار": "Emaar",
+  "إعمار العقارية": "Emaar Properties",
+  "نخيل": "Nakheel",
+  "داماك": "DAMAC",
+  "داماك العقارية": "DAMAC Properties",
+  "مراس": "Meraas",
+  "ميراس": "Meraas",
+  "دبي القابضة": "Dubai Holding",
+  "دبي للعقارات": "Dubai Properties",
+  "شوبا": "Sobha",
+  "شوبا العقارية": "Sobha Realty",
+  "نشامى": "Nshama",
+  "الدار": "Aldar",
+  "الدار العقارية": "Aldar Properties",
+  "أرادَ": "Arada",
+  "عزيزي": "Azizi",
+  "دانوب": "Danube",
+  "بلوم": "Bloom",
+  "إثراء دبي": "Ithra Dubai",
+
+  // English names written in Arabic script
+  "هيلز": "Hills",
+  "مارينا": "Marina",
+  "سيتي": "City",
+  "ووك": "Walk",
+  "بيتش": "Beach",
+  "ريزيدنس": "Residence",
+  "جاردنز": "Gardens",
+  "جولف": "Golf",
+  "استيت": "Estate",
+  "استيتس": "Estates",
+  "تاور": "Tower",
+  "تاورز": "Towers",
+  "هايتس": "Heights",
+  "فيو": "View",
+  "بارك": "Park",
+  "ريزورت": "Resort",
+  "هوتيل": "Hotel",
+  "أتلانتس": "Atlantis",
+  "أرماني": "Armani",
+  "ماريوت": "Marriott",
+  "هيلتون": "Hilton",
+};
+
+// Generic nouns with a conventional spelling when they're part of a name rather than translated
+// ("Marina Gate برج" → "Marina Gate Burj", not "Barj"). A glossary translation ("Tower") still wins.
+export const KNOWN_SPELLINGS: Record<string, string> = {
+  "برج": "Burj",
+};
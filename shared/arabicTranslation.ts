@@ -0,0 +1,151 @@
+// Arabic to English translation utility
+// Provides transliteration and common word translations without requiring API keys
+import { createTransliterator, type ProperNouns } from './transliteration';
+
+const arabicTransliterator = createTransliterator();
+
+// Common Arabic words and their English translations
+const ARABIC_DICTIONARY: Record<string, string> = {
+  // Building types
+  'برج': 'Tower',
+  'مبنى': 'Building', 
+  'عمارة': 'Building',
+  'فيلا': 'Villa',
+  'شقة': 'Apartment',
+  'مجمع': 'Complex',
+  'مركز': 'Center',
+  'مول': 'Mall',
+  'فندق': 'Hotel',
+  
+  // Locations and areas
+  'شارع': 'Street',
+  'طريق': 'Road',
+  'جادة': 'Avenue',
+  'ميدان': 'Square',
+  'حي': 'District',
+  'منطقة': 'Area',
+  'قرية': 'Village',
+  'مدينة': 'City',
+  'مطار': 'Airport',
+  
+  // Amenities
+  'مسجد': 'Mosque',
+  'مدرسة': 'School',
+  'جامعة': 'University',
+  'مستشفى': 'Hospital',
+  'صيدلية': 'Pharmacy',
+  'بنك': 'Bank',
+  'مطعم': 'Restaurant',
+  'كافيه': 'Cafe',
+  'حديقة': 'Park',
+  'مكتبة': 'Library',
+  'متحف': 'Museum',
+  
+  // Directions
+  'شمال': 'North',
+  'جنوب': 'South',
+  'شرق': 'East',
+  'غرب': 'West',
+  'وسط': 'Center',
+  
+  // Common adjectives
+  'جديد': 'New',
+  'جديدة': 'New',
+  'قديم': 'Old',
+  'كبير': 'Big',
+  'صغير': 'Small',
+  'عالي': 'High',
+  'منخفض': 'Low',
+
+  // Descriptive words in place names ("مدينة دبي الرياضية" → "Dubai Sports City")
+  'رياضي': 'Sports',
+  'رياضية': 'Sports',
+  'طبي': 'Medical',
+  'طبية': 'Medical',
+  'عالمي': 'International',
+  'عالمية': 'International',
+  'دولي': 'International',
+  'دولية': 'International',
+  'صناعي': 'Industrial',
+  'صناعية': 'Industrial'
+};
+
+// Arabic number to English number mapping
+const ARABIC_NUMBERS: Record<string, string> = {
+  '٠': '0', '١': '1', '٢': '2', '٣': '3', '٤': '4',
+  '٥': '5', '٦': '6', '٧': '7', '٨': '8', '٩': '9'
+};
+
+/**
+ * Checks if text contains Arabic characters
+ */
+export function containsArabic(text: string): boolean {
+  if (!text) return false;
+  // Arabic Unicode range: U+0600 to U+06FF
+  const arabicRegex = /[\u0600-\u06FF]/;
+  return arabicRegex.test(text);
+}
+
+/**
+ * Converts Arabic-Indic digits to Western Arabic digits
+ */
+export function convertArabicNumbers(text: string): string {
+  if (!text) return text;
+  
+  return text.replace(/[٠-٩]/g, (match) => ARABIC_NUMBERS[match] || match);
+}
+
+/**
+ * Dictionary translation of known words and proper nouns; other Arabic words are left as they are
+ */
+export function translateArabicText(text: string): string {
+  if (!text || !containsArabic(text)) return text;
+  return arabicTransliterator.transliterate(text, { glossary: ARABIC_DICTIONARY, keepUnknown: true });
+}
+
+/**
+ * Full English rendering of mixed Arabic-English text: proper nouns from the gazetteer, generic
+ * words from the dictionary, and a rule-based transliteration for the rest
+ */
+export function smartTranslate(text: string): string {
+  if (!text || !containsArabic(text)) return text;
+  return arabicTransliterator.transliterate(text, { glossary: ARABIC_DICTIONARY });
+}
+
+/**
+ * Arabic to Latin script, without translating generic words ("برج خليفة" → "Burj Khalifa",
+ * "الراشدية" → "Al Rashidiya")
+ */
+export function transliterateArabic(text: string): string {
+  if (!text) return text;
+  return arabicTransliterator.transliterate(text);
+}
+
+/**
+ * Teach the shared transliterator more proper nouns, e.g. a data set's own Arabic names
+ */
+export function registerProperNouns(names: ProperNouns): void {
+  arabicTransliterator.register(names);
+}
+
+/**
+ * Utility to enhance POI/building data with translations
+ */
+export function enhanceWithTranslation<T extends { name?: string; [key: string]: any }>(
+  item: T
+): T & { translatedName?: string; originalName?: string } {
+  if (!item.name) return item;
+  
+  const translated = smartTranslate(item.name);
+  
+  if (translated !== item.name) {
+    return {
+      ...item,
+      translatedName: translated,
+      originalName: item.name,
+      name: translated // Update the name to the translated version
+    };
+  }
+  
+  return item;
+}
\ No newline at end of file
@@ -0,0 +1,180 @@
+// Mortgage arithmetic shared by the portfolio tracker and the acquisition-cost calculator.
+// Rates are annual percentages; payments are monthly, as UAE banks quote them.
+
+export function monthlyPayment(principal: number, annualRatePct: number, years: number): number {
+  const months = Math.round(years * 12);
+  if (principal <= 0 || months <= 0) return 0;
+  const r = annualRatePct / 100 / 12;
+  if (r === 0) return principal / months;
+  return (principal * r) / (1 - Math.pow(1 + r, -months));
+}
+
+// Balance left after `monthsPaid` regular payments; zero once the term is over
+export function outstandingBalance(principal: number, annualRatePct: number, years: number, monthsPaid: number): number {
+  const months = Math.round(years * 12);
+  if (principal <= 0 || monthsPaid >= months) return 0;
+  if (monthsPaid <= 0) return principal;
+  const r = annualRatePct / 100 / 12;
+  if (r === 0) return principal * (1 - monthsPaid / months);
+  const payment = monthlyPayment(principal, annualRatePct, years);
+  return principal * Math.pow(1 + r, monthsPaid) - payment * ((Math.pow(1 + r, monthsPaid) - 1) / r);
+}
+
+// Whole months from one YYYY-MM-DD date to another, counting a month once its day has passed
+export function monthsBetween(from: string, to: string): number {
+  const [fy, fm, fd] = from.split("-").map(Number);
+  const [ty, tm, td] = to.split("-").map(Number);
+  return Math.max(0, (ty - fy) * 12 + (tm - fm) - (td < fd ? 1 : 0));
+}
+
+export type AmortisationRow = { year: number; interest: number; principal: number; balance: number };
+
+// Year-by-year split of mortgage payments between interest and principal
+export function amortisationSchedule(principal: number, annualRatePct: number, years: number): AmortisationRow[] {
+  const payment = monthlyPayment(principal, annualRatePct, years);
+  const r = annualRatePct / 100 / 12;
+  const rows: AmortisationRow[] = [];
+  let balance = principal;
+  for (let year = 1; year <= Math.ceil(years) && balance > 0.5; year++) {
+    let interest = 0, repaid = 0;
+    for (let m = 0; m < 12 && balance > 0.5; m++) {
+      const monthInterest = balance * r;
+      const monthPrincipal = Math.min(payment - monthInterest, balance);
+      interest += monthInterest;
+      repaid += monthPrincipal;
+      balance -= monthPrincipal;
+    }
+    rows.push({ year, interest, principal: repaid, balance: Math.max(0, balance) });
+  }
+  return rows;
+}
+
+export type BuyerResidency = "resident" | "non-resident";
+
+// First matching rule wins; leave maxPriceAED off for the catch-all band
+export type LtvCapRule = { residency: BuyerResidency; firstProperty?: boolean; maxPriceAED?: number; maxLtvPct: number };
+
+export type AcquisitionRules = {
+  dldTransferFeePct: number;
+  dldAdminFeeAED: number;
+  // Registration trustee fee, by price band
+  trusteeFeeAED: { belowThreshold: number; aboveThreshold: number; thresholdAED: number };
+  agencyCommissionPct: number;
+  mortgageRegistrationPct: number;
+  mortgageRegistrationAdminAED: number;
+  vatPct: number; // charged on the trustee fee and agency commission
+  firstBuyerDeferDldFee: boolean; // first-time buyer schemes that let the DLD fee be paid later
+  ltvCaps: LtvCapRule[];
+};
+
+// Dubai figures as published by DLD and the UAE Central Bank mortgage cap regulation
+export const DEFAULT_ACQUISITION_RULES: AcquisitionRules = {
+  dldTransferFeePct: 4,
+  dldAdminFeeAED: 580,
+  trusteeFeeAED: { belowThreshold: 2000, aboveThreshold: 4000, thresholdAED: 500_000 },
+  agencyCommissionPct: 2,
+  mortgageRegistrationPct: 0.25,
+  mortgageRegistrationAdminAED: 290,
+  vatPct: 5,
+  firstBuyerDeferDldFee: false,
+  ltvCaps: [
+    { residency: "resident", firstProperty: true, maxPriceAED: 5_000_000, maxLtvPct: 80 },
+    { residency: "resident", firstProperty: true, maxLtvPct: 70 },
+    { residency: "resident", firstProperty: false, maxPriceAED: 5_000_000, maxLtvPct: 65 },
+    { residency: "resident", firstProperty: false, maxLtvPct: 60 },
+    { residency: "non-resident", firstProperty: true, maxPriceAED: 5_000_000, maxLtvPct: 60 },
+    { residency: "non-resident", firstProperty: true, maxLtvPct: 50 },
+    { residency: "non-resident", firstProperty: false, maxPriceAED: 5_000_000, maxLtvPct: 50 },
+    { residency: "non-resident", firstProperty: false, maxLtvPct: 40 },
+  ],
+};
+
+export function maxLtvPct(
+  priceAED: number,
+  residency: BuyerResidency,
+  firstProperty: boolean,
+  rules: AcquisitionRules = DEFAULT_ACQUISITION_RULES,
+): number {
+  const rule = rules.ltvCaps.find(
+    (r) =>
+      r.residency === residency &&
+      (r.firstProperty == null || r.firstProperty === firstProperty) &&
+      (r.maxPriceAED == null || priceAED <= r.maxPriceAED),
+  );
+  return rule?.maxLtvPct ?? 0;
+}
+
+export type AcquisitionInput = {
+  priceAED: number;
+  residency: BuyerResidency;
+  firstProperty: boolean;
+  ltvPct: number; // clamped to the applicable cap
+  annualRatePct: number;
+  years: number;
+  annualRentAED: number;
+  annualServiceChargesAED: number;
+};
+
+export type AcquisitionCosts = {
+  ltvCapPct: number;
+  ltvPct: number;
+  loanAED: number;
+  downPaymentAED: number;
+  dldTransferFeeAED: number;
+  dldFeeDeferred: boolean;
+  trusteeFeeAED: number;
+  agencyCommissionAED: number;
+  mortgageRegistrationAED: number;
+  totalFeesAED: number;
+  cashRequiredAED: number; // down payment plus every fee due at transfer
+  monthlyPaymentAED: number;
+  totalInterestAED: number;
+  annualCashFlowAED: number;
+  cashOnCashPct: number; // first-year cash flow over cash required
+  schedule: AmortisationRow[];
+};
+
+/**
+ * What it costs to buy a Dubai property with or without a mortgage, and the first-year
+ * cash-on-cash return on the money put in
+ */
+export function acquisitionCosts(input: AcquisitionInput, rules: AcquisitionRules = DEFAULT_ACQUISITION_RULES): AcquisitionCosts {
+  const { priceAED } = input;
+  const vat = 1 + rules.vatPct / 100;
+  const ltvCapPct = maxLtvPct(priceAED, input.residency, input.firstProperty, rules);
+  const ltvPct = Math.max(0, Math.min(input.ltvPct, ltvCapPct));
+  const loanAED = Math.round((priceAED * ltvPct) / 100);
+
+  const dldTransferFeeAED = Math.round((priceAED * rules.dldTransferFeePct) / 100 + rules.dldAdminFeeAED);
+  const dldFeeDeferred = input.firstProperty && rules.firstBuyerDeferDldFee;
+  const { belowThreshold, aboveThreshold, thresholdAED } = rules.trusteeFeeAED;
+  const trusteeFeeAED = Math.round((priceAED >= thresholdAED ? aboveThreshold : belowThreshold) * vat);
+  const agencyCommissionAED = Math.round(((priceAED * rules.agencyCommissionPct) / 100) * vat);
+  const mortgageRegistrationAED =
+    loanAED > 0 ? Math.round((loanAED * rules.mortgageRegistrationPct) / 100 + rules.mortgageRegistrationAdminAED) : 0;
+  const totalFeesAED = dldTransferFeeAED + trusteeFeeAED + agencyCommissionAED + mortgageRegistrationAED;
+  const cashRequiredAED = priceAED - loanAED + totalFeesAED - (dldFeeDeferred ? dldTransferFeeAED : 0);
+
+  const payment = monthlyPayment(loanAED, input.annualRatePct, input.years);
+  const schedule = amortisationSchedule(loanAED, input.annualRatePct, input.years);
+  const annualCashFlowAED = Math.round(input.annualRentAED - input.annualServiceChargesAED - payment * 12);
+
+  return {
+    ltvCapPct,
+    ltvPct,
+    loanAED,
+    downPaymentAED: priceAED - loanAED,
+    dldTransferFeeAED,
+    dldFeeDeferred,
+    trusteeFeeAED,
+    agencyCommissionAED,
+    mortgageRegistrationAED,
+    totalFeesAED,
+    cashRequiredAED,
+    monthlyPaymentAED: Math.round(payment),
+    totalInterestAED: Math.round(schedule.reduce((sum, row) => sum + row.interest, 0)),
+    annualCashFlowAED,
+    cashOnCashPct: cashRequiredAED > 0 ? Math.round((annualCashFlowAED / cashRequiredAED) * 1000) / 10 : 0,
+    schedule,
+  };
+}
@@ -0,0 +1,80 @@
+import type { Polygon } from "geojson";
+
+export type LngLat = [number, number];
+export type BBox = [number, number, number, number]; // minLng, minLat, maxLng, maxLat
+
+const EARTH_RADIUS_M = 6371000;
+
+export function haversineMeters([lng1, lat1]: LngLat, [lng2, lat2]: LngLat): number {
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a));
+}
+
+// Ray casting against the outer ring, holes excluded
+export function pointInPolygon([x, y]: LngLat, polygon: Polygon): boolean {
+  const inRing = (ring: number[][]) => {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+    }
+    return inside;
+  };
+  const [outer, ...holes] = polygon.coordinates;
+  if (!outer || !inRing(outer)) return false;
+  return !holes.some(inRing);
+}
+
+export function polygonBBox(polygon: Polygon): BBox {
+  let minLng = Infinity, minLat = Infinity, maxLng = -Infinity, maxLat = -Infinity;
+  for (const [lng, lat] of polygon.coordinates[0] ?? []) {
+    minLng = Math.min(minLng, lng);
+    minLat = Math.min(minLat, lat);
+    maxLng = Math.max(maxLng, lng);
+    maxLat = Math.max(maxLat, lat);
+  }
+  return [minLng, minLat, maxLng, maxLat];
+}
+
+export function polygonCentroid(polygon: Polygon): LngLat {
+  const ring = polygon.coordinates[0] ?? [];
+  // Skip the closing vertex so it isn't counted twice
+  const pts = ring.length > 1 ? ring.slice(0, -1) : ring;
+  const sum = pts.reduce((acc, [lng, lat]) => [acc[0] + lng, acc[1] + lat], [0, 0]);
+  return [sum[0] / Math.max(1, pts.length), sum[1] / Math.max(1, pts.length)];
+}
+
+// Spherical excess approximation; good to well under 1% at city scale
+export function polygonAreaSqMeters(polygon: Polygon): number {
+  const ringArea = (ring: number[][]) => {
+    let sum = 0;
+    for (let i = 0; i < ring.length - 1; i++) {
+      const [lng1, lat1] = ring[i];
+      const [lng2, lat2] = ring[i + 1];
+      sum += ((lng2 - lng1) * Math.PI / 180) * (2 + Math.sin(lat1 * Math.PI / 180) + Math.sin(lat2 * Math.PI / 180));
+    }
+    return Math.abs((sum * EARTH_RADIUS_M * EARTH_RADIUS_M) / 2);
+  };
+  const [outer, ...holes] = polygon.coordinates;
+  if (!outer) return 0;
+  return holes.reduce((area, hole) => area - ringArea(hole), ringArea(outer));
+}
+
+// Square box of roughly `meters` half-width around a point
+export function bboxAround([lng, lat]: LngLat, meters: number): BBox {
+  const dLat = (meters / EARTH_RADIUS_M) * (180 / Math.PI);
+  const dLng = dLat / Math.cos((lat * Math.PI) / 180);
+  return [lng - dLng, lat - dLat, lng + dLng, lat + dLat];
+}
+
+export function pointInBBox([lng, lat]: LngLat, [minLng, minLat, maxLng, maxLat]: BBox): boolean {
+  return lng >= minLng && lng <= maxLng && lat >= minLat && lat <= maxLat;
+}
+
+export function bboxesIntersect(a: BBox, b: BBox): boolean {
+  return a[0] <= b[2] && b[0] <= a[2] && a[1] <= b[3] && b[1] <= a[3];
+}
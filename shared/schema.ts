@@ -1,17 +1,812 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, doublePrecision, real, jsonb, date, uniqueIndex, timestamp } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { FeatureCollection, LineString, Polygon } from "geojson";
+
+export const languages = ["en", "ar"] as const;
+export type Language = (typeof languages)[number];
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  language: text("language").$type<Language>().notNull().default("en"),
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
+export const insertUserSchema = createInsertSchema(users, {
+  language: z.enum(languages).optional(),
+}).pick({
   username: true,
   password: true,
+  language: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+// What the API returns for a signed-in user; the password hash never leaves the server
+export type PublicUser = Omit<User, "password">;
+
+// Usernames are stored lowercased so "Sara" and "sara" can't both register
+export const registerSchema = z.object({
+  username: z.string().trim().toLowerCase()
+    .min(3, "Username must be at least 3 characters")
+    .max(32, "Username must be at most 32 characters")
+    .regex(/^[a-z0-9._-]+$/, "Username may only contain letters, numbers, dots, dashes and underscores"),
+  password: z.string().min(8, "Password must be at least 8 characters").max(128),
+  // The interface language picked before signing up carries over to the new account
+  language: z.enum(languages).optional(),
+});
+
+export const loginSchema = z.object({
+  username: z.string().trim().toLowerCase().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export type Credentials = z.infer<typeof loginSchema>;
+export type Registration = z.infer<typeof registerSchema>;
+
+export const updatePreferencesSchema = z.object({
+  language: z.enum(languages),
+});
+
+export type Preferences = z.infer<typeof updatePreferencesSchema>;
+
+export type PriceTrendPoint = { month: string; value: number };
+
+export const properties = pgTable("properties", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  community: text("community").notNull(),
+  lng: doublePrecision("lng").notNull(),
+  lat: doublePrecision("lat").notNull(),
+  estimatedValueAED: integer("estimated_value_aed").notNull(),
+  pricePerSqft: integer("price_per_sqft").notNull(),
+  rentYield: real("rent_yield").notNull(), // %
+  priceTrend: jsonb("price_trend").$type<PriceTrendPoint[]>().notNull().default([]),
+  imageUrl: text("image_url"),
+});
+
+export const insertPropertySchema = createInsertSchema(properties, {
+  id: (schema) => schema.min(1),
+  name: (schema) => schema.min(1),
+  community: (schema) => schema.min(1),
+  lng: (schema) => schema.min(-180).max(180),
+  lat: (schema) => schema.min(-90).max(90),
+  rentYield: (schema) => schema.min(0).max(100),
+  priceTrend: z.array(z.object({ month: z.string(), value: z.number() })).optional(),
+});
+
+export const updatePropertySchema = insertPropertySchema.omit({ id: true }).partial();
+
+export type InsertProperty = z.infer<typeof insertPropertySchema>;
+export type Property = typeof properties.$inferSelect;
+
+// Shape the client map, search and panels work with
+export type PropertyPoint = {
+  id: string;
+  name: string;
+  community: string;
+  coords: [number, number]; // [lng, lat]
+  estimatedValueAED: number;
+  pricePerSqft: number;
+  rentYield: number; // %
+  priceTrend: PriceTrendPoint[];
+  imageUrl?: string; // optional building photo
+};
+
+export function toPropertyPoint(p: Property): PropertyPoint {
+  return {
+    id: p.id,
+    name: p.name,
+    community: p.community,
+    coords: [p.lng, p.lat],
+    estimatedValueAED: p.estimatedValueAED,
+    pricePerSqft: p.pricePerSqft,
+    rentYield: p.rentYield,
+    priceTrend: p.priceTrend,
+    imageUrl: p.imageUrl ?? undefined,
+  };
+}
+
+const bboxParam = z
+  .string()
+  .transform((v) => v.split(",").map(Number))
+  .refine((v) => v.length === 4 && v.every(Number.isFinite), "bbox must be minLng,minLat,maxLng,maxLat")
+  .transform((v) => v as [number, number, number, number]);
+
+export const propertyQuerySchema = z.object({
+  bbox: bboxParam.optional(),
+  community: z.string().min(1).optional(),
+  minPrice: z.coerce.number().nonnegative().optional(),
+  maxPrice: z.coerce.number().nonnegative().optional(),
+  minYield: z.coerce.number().nonnegative().optional(),
+  maxYield: z.coerce.number().nonnegative().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type PropertyQuery = z.infer<typeof propertyQuerySchema>;
+
+export type Page<T> = {
+  items: T[];
+  total: number;
+  limit: number;
+  offset: number;
+};
+
+// GeoJSON Polygon with closed rings of at least four positions
+export const polygonSchema = z.object({
+  type: z.literal("Polygon"),
+  coordinates: z.array(z.array(z.array(z.number()).min(2)).min(4)).min(1),
+});
+
+// Community boundaries; the stats columns are derived from the properties and sales inside the polygon
+export const zones = pgTable("zones", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  polygon: jsonb("polygon").$type<Polygon>().notNull(),
+  avgPricePerSqft: real("avg_price_per_sqft").notNull().default(0),
+  avgYield: real("avg_yield").notNull().default(0),
+  undervalued: boolean("undervalued").notNull().default(false),
+  propertyCount: integer("property_count").notNull().default(0),
+  saleCount: integer("sale_count").notNull().default(0),
+});
+
+// Only the boundary is supplied; stats are recomputed after every data change
+export const insertZoneSchema = createInsertSchema(zones, {
+  id: (schema) => schema.min(1),
+  name: (schema) => schema.min(1),
+  polygon: polygonSchema,
+}).pick({ id: true, name: true, polygon: true });
+
+export type InsertZone = z.infer<typeof insertZoneSchema>;
+export type Zone = typeof zones.$inferSelect;
+export type ZoneStats = Pick<Zone, "avgPricePerSqft" | "avgYield" | "undervalued" | "propertyCount" | "saleCount">;
+
+export const estimateRequestSchema = z.object({
+  coordinates: z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]),
+});
+
+export type EstimateRequest = z.infer<typeof estimateRequestSchema>;
+
+export type EstimateComparable = {
+  id: string;
+  name: string;
+  community: string;
+  distanceMeters: number;
+  pricePerSqft: number;
+  rentYield: number;
+  weight: number; // share of the comparable blend, 0-1
+};
+
+export type PropertyEstimate = {
+  coordinates: [number, number];
+  value: number;
+  pricePerSqFt: number;
+  yield: number;
+  bedrooms: number;
+  size: number; // sqft
+  propertyType: "Apartment" | "Villa";
+  // Bedrooms, size and type are a typical unit picked per location, not a real unit's attributes
+  syntheticUnit: true;
+  marketTrend: "Increasing" | "Stable" | "Decreasing";
+  priceTrend: PriceTrendPoint[];
+  explanation: {
+    zone: {
+      id: string;
+      name: string;
+      avgPricePerSqft: number;
+      avgYield: number;
+      containsPoint: boolean;
+      distanceMeters: number;
+    } | null;
+    comparables: EstimateComparable[];
+    notes: string[];
+  };
+};
+
+export const units = pgTable("units", {
+  id: serial("id").primaryKey(),
+  propertyId: text("property_id").notNull().references(() => properties.id, { onDelete: "cascade" }),
+  unitNumber: text("unit_number").notNull(),
+  bedrooms: integer("bedrooms").notNull(), // 0 = studio
+  sizeSqft: integer("size_sqft").notNull(),
+  valueAED: integer("value_aed").notNull(),
+});
+
+export const insertUnitSchema = createInsertSchema(units, {
+  unitNumber: (schema) => schema.min(1),
+  bedrooms: (schema) => schema.min(0),
+  sizeSqft: (schema) => schema.positive(),
+  valueAED: (schema) => schema.positive(),
+}).omit({ id: true });
+
+export type InsertUnit = z.infer<typeof insertUnitSchema>;
+export type Unit = typeof units.$inferSelect;
+
+export const SQFT_PER_SQM = 10.7639;
+
+// Mirrors ValuationFormValues; "5+" matches any unit with five or more bedrooms
+export const valuationRequestSchema = z.object({
+  building: z.string().trim().min(1, "Building or community is required"),
+  unitNumber: z.string().trim().optional(),
+  beds: z.enum(["studio", "1", "2", "3", "4", "5+"], {
+    errorMap: () => ({ message: "Bedrooms must be studio, 1-4 or 5+" }),
+  }),
+  size: z.coerce.number().positive("Size must be a positive number"),
+  sizeUnit: z.enum(["sqft", "sqm"]).default("sqft"),
+});
+
+export type ValuationRequest = z.infer<typeof valuationRequestSchema>;
+
+export type ValuationComparable = {
+  unitId: number;
+  propertyId: string;
+  building: string;
+  community: string;
+  unitNumber: string;
+  bedrooms: number;
+  sizeSqft: number;
+  valueAED: number;
+  pricePerSqft: number;
+  coords: [number, number]; // [lng, lat]
+};
+
+export type Valuation = {
+  building: { id: string; name: string; community: string; coords: [number, number] };
+  bedrooms: number;
+  sizeSqft: number;
+  value: number;
+  low: number;
+  high: number;
+  pricePerSqft: number;
+  comparables: ValuationComparable[];
+  notes: string[];
+};
+
+export const transactionSources = ["dld", "seed", "manual"] as const;
+export type TransactionSource = (typeof transactionSources)[number];
+
+// Recorded sales; the source reference (e.g. DLD transaction number) keeps re-imports idempotent
+export const transactions = pgTable("transactions", {
+  id: serial("id").primaryKey(),
+  propertyId: text("property_id").notNull().references(() => properties.id, { onDelete: "cascade" }),
+  date: date("date", { mode: "string" }).notNull(), // YYYY-MM-DD
+  priceAED: integer("price_aed").notNull(),
+  sizeSqft: integer("size_sqft").notNull(),
+  unitType: text("unit_type").notNull(), // e.g. Flat, Villa, Office
+  bedrooms: integer("bedrooms"), // 0 = studio, null for non-residential
+  source: text("source").$type<TransactionSource>().notNull(),
+  sourceRef: text("source_ref"),
+}, (table) => [
+  uniqueIndex("transactions_source_ref_idx").on(table.source, table.sourceRef),
+]);
+
+export const insertTransactionSchema = createInsertSchema(transactions, {
+  date: (schema) => schema.regex(/^\d{4}-\d{2}-\d{2}$/, "date must be YYYY-MM-DD"),
+  priceAED: (schema) => schema.positive(),
+  sizeSqft: (schema) => schema.positive(),
+  bedrooms: (schema) => schema.min(0),
+  source: z.enum(transactionSources),
+}).omit({ id: true });
+
+export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
+export type Transaction = typeof transactions.$inferSelect;
+
+export const comparablesQuerySchema = z.object({
+  lng: z.coerce.number().min(-180).max(180),
+  lat: z.coerce.number().min(-90).max(90),
+  radius: z.coerce.number().positive().max(20000).default(1500), // meters
+  size: z.coerce.number().positive().optional(), // sqft
+  sizeTolerance: z.coerce.number().min(0).max(1).default(0.25), // ± share of size
+  bedrooms: z.coerce.number().int().min(0).optional(),
+  bedroomTolerance: z.coerce.number().int().min(0).max(5).default(0),
+  since: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "since must be YYYY-MM-DD").optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+export type ComparablesQuery = z.infer<typeof comparablesQuerySchema>;
+
+export type ComparableSale = {
+  id: number;
+  propertyId: string;
+  building: string;
+  community: string;
+  coords: [number, number]; // [lng, lat]
+  distanceMeters: number;
+  date: string;
+  priceAED: number;
+  sizeSqft: number;
+  pricePerSqft: number;
+  unitType: string;
+  bedrooms: number | null;
+};
+
+export type ComparablesResult = {
+  sales: ComparableSale[]; // newest first
+  history: PriceTrendPoint[]; // monthly median AED/sqft, oldest first
+  medianPricePerSqft: number | null;
+};
+
+export type TransactionImportReport = {
+  imported: number;
+  duplicates: number;
+  skipped: number; // non-sale rows, e.g. mortgages and gifts
+  errors: { row: number; error: string }[];
+};
+
+export const importKinds = ["properties", "zones", "transactions"] as const;
+export type ImportKind = (typeof importKinds)[number];
+export const importFormats = ["csv", "geojson"] as const;
+export type ImportFormat = (typeof importFormats)[number];
+
+export const importQuerySchema = z.object({
+  kind: z.enum(importKinds),
+  format: z.enum(importFormats).optional(), // inferred from Content-Type when omitted
+  dryRun: z.enum(["true", "false", "1", "0"]).transform((v) => v === "true" || v === "1").optional(),
+});
+
+// Row 0 means the file itself could not be read
+export type ImportRowError = { row: number; id?: string; error: string };
+
+export type ImportReport = {
+  kind: ImportKind;
+  format: ImportFormat;
+  dryRun: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  skipped: number; // e.g. transactions already in the ledger
+  errors: ImportRowError[];
+};
+
+export const areaAnalyticsRequestSchema = z.object({
+  polygon: polygonSchema,
+  // Amenities are searched client-side, so the points currently on the map are sent along to be counted
+  amenities: z.array(z.object({
+    category: z.string().min(1),
+    center: z.tuple([z.number(), z.number()]),
+  })).max(5000).default([]),
+});
+
+export type AreaAnalyticsRequest = z.infer<typeof areaAnalyticsRequestSchema>;
+
+export type AreaAnalytics = {
+  areaSqKm: number;
+  propertyCount: number;
+  medianPricePerSqft: number | null;
+  averageYield: number | null;
+  yieldDistribution: { label: string; min: number; max: number | null; count: number }[];
+  // Ranked by the investment score model, with default weights and the amenities sent
+  topBuildings: (Pick<Property, "id" | "name" | "community" | "rentYield" | "pricePerSqft"> & { score: number })[];
+  amenityCounts: Record<string, number>;
+};
+
+export const identifierTypes = ["unit", "dewa", "oqoo", "title-deed"] as const;
+export type IdentifierType = (typeof identifierTypes)[number];
+// Registry-backed identifiers; "unit" numbers are matched against units.unitNumber instead
+export type RegistryIdentifierType = Exclude<IdentifierType, "unit">;
+
+// "OQ-2023 / 0042" and "oq20230042" are the same identifier
+export function normalizeIdentifier(value: string): string {
+  return value.toUpperCase().replace(/[\s\-/_.]/g, "");
+}
+
+// DEWA premise, Oqood and title deed numbers registered against a unit
+export const unitIdentifiers = pgTable("unit_identifiers", {
+  id: serial("id").primaryKey(),
+  unitId: integer("unit_id").notNull().references(() => units.id, { onDelete: "cascade" }),
+  type: text("type").$type<RegistryIdentifierType>().notNull(),
+  value: text("value").notNull(), // as issued, for display
+  normalizedValue: text("normalized_value").notNull(),
+}, (table) => [
+  uniqueIndex("unit_identifiers_type_value_idx").on(table.type, table.normalizedValue),
+]);
+
+export type UnitIdentifier = typeof unitIdentifiers.$inferSelect;
+export type InsertUnitIdentifier = Omit<UnitIdentifier, "id" | "normalizedValue">;
+
+export const identifierLookupSchema = z.object({
+  type: z.enum(identifierTypes),
+  value: z.string().trim().min(1, "Identifier is required").max(64),
+});
+
+export type UnitLookupResult = {
+  unit: Pick<Unit, "id" | "unitNumber" | "bedrooms" | "sizeSqft" | "valueAED">;
+  identifiers: Partial<Record<RegistryIdentifierType, string>>;
+  building: PropertyPoint;
+  marketTrend: PropertyEstimate["marketTrend"];
+};
+
+// Buildings a user keeps an eye on; one row per user and property
+export const watchlistItems = pgTable("watchlist_items", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  propertyId: text("property_id").notNull().references(() => properties.id, { onDelete: "cascade" }),
+  note: text("note"),
+  createdAt: timestamp("created_at", { mode: "string" }).notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("watchlist_items_user_property_idx").on(table.userId, table.propertyId),
+]);
+
+export const insertWatchlistItemSchema = createInsertSchema(watchlistItems, {
+  propertyId: (schema) => schema.min(1),
+  note: (schema) => schema.max(500),
+}).pick({ propertyId: true, note: true });
+
+export const updateWatchlistItemSchema = insertWatchlistItemSchema.pick({ note: true });
+
+export type InsertWatchlistItem = z.infer<typeof insertWatchlistItemSchema>;
+export type WatchlistItem = typeof watchlistItems.$inferSelect;
+export type WatchlistEntry = WatchlistItem & { property: PropertyPoint };
+
+// What a saved search remembers. Amenity categories are restored on the map but not evaluated
+// by the alerts job, since amenities come from Mapbox at view time.
+export const savedSearchCriteriaSchema = z.object({
+  query: z.string().trim().max(200).optional(),
+  area: polygonSchema.optional(),
+  amenityCategories: z.array(z.string().min(1)).max(20).default([]),
+  minPrice: z.number().nonnegative().optional(),
+  maxPrice: z.number().nonnegative().optional(),
+  minYield: z.number().nonnegative().max(100).optional(),
+  maxYield: z.number().nonnegative().max(100).optional(),
+}).refine((c) => c.minPrice == null || c.maxPrice == null || c.minPrice <= c.maxPrice, {
+  message: "minPrice must not exceed maxPrice",
+  path: ["minPrice"],
+}).refine((c) => c.minYield == null || c.maxYield == null || c.minYield <= c.maxYield, {
+  message: "minYield must not exceed maxYield",
+  path: ["minYield"],
+});
+
+export type SavedSearchCriteria = z.infer<typeof savedSearchCriteriaSchema>;
+
+export const savedSearches = pgTable("saved_searches", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  criteria: jsonb("criteria").$type<SavedSearchCriteria>().notNull(),
+  notifyEmail: text("notify_email"), // alerts are also emailed here once the address is confirmed
+  // Code emailed to notifyEmail, cleared when the owner enters it; proves they can read that inbox
+  emailConfirmCode: text("email_confirm_code"),
+  emailConfirmedAt: timestamp("email_confirmed_at", { mode: "string" }),
+  // Alert state: properties that matched at the last check and the newest sale already seen
+  matchedPropertyIds: jsonb("matched_property_ids").$type<string[]>().notNull().default([]),
+  lastTransactionId: integer("last_transaction_id").notNull().default(0),
+  createdAt: timestamp("created_at", { mode: "string" }).notNull().defaultNow(),
+});
+
+export const insertSavedSearchSchema = createInsertSchema(savedSearches, {
+  // Control characters would end up in email headers (and CR/LF could add new ones)
+  name: (schema) => schema.trim().min(1).max(100).regex(/^[^\x00-\x1f\x7f]*$/, "Name can't contain control characters"),
+  criteria: savedSearchCriteriaSchema,
+  notifyEmail: (schema) => schema.email(),
+}).pick({ name: true, criteria: true, notifyEmail: true });
+
+export const updateSavedSearchSchema = insertSavedSearchSchema.partial();
+
+export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type SavedSearchAlertState = Pick<SavedSearch, "matchedPropertyIds" | "lastTransactionId">;
+export type SavedSearchEmailState = Pick<SavedSearch, "emailConfirmCode" | "emailConfirmedAt">;
+// API shape; alert bookkeeping and the confirmation code stay on the server
+export type SavedSearchSummary = Omit<SavedSearch, keyof SavedSearchAlertState | "emailConfirmCode">;
+
+export const confirmSavedSearchEmailSchema = z.object({
+  code: z.string().trim().min(1, "Enter the code from the confirmation email"),
+});
+
+export const notificationKinds = ["property", "transaction"] as const;
+export type NotificationKind = (typeof notificationKinds)[number];
+
+// In-app inbox; refKey ("property:<id>" or "transaction:<id>") stops a search reporting the same thing twice
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  savedSearchId: integer("saved_search_id").references(() => savedSearches.id, { onDelete: "cascade" }),
+  kind: text("kind").$type<NotificationKind>().notNull(),
+  refKey: text("ref_key").notNull(),
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  propertyId: text("property_id").references(() => properties.id, { onDelete: "set null" }),
+  read: boolean("read").notNull().default(false),
+  createdAt: timestamp("created_at", { mode: "string" }).notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("notifications_search_ref_idx").on(table.savedSearchId, table.refKey),
+]);
+
+// Named to avoid clashing with the DOM Notification type on the client
+export type InboxNotification = typeof notifications.$inferSelect;
+export type InsertInboxNotification = Omit<InboxNotification, "id" | "read" | "createdAt">;
+
+export const markNotificationsReadSchema = z.object({
+  ids: z.array(z.number().int().positive()).max(500).optional(), // all unread when omitted
+});
+
+// Units an investor owns, valued against the catalogue building they sit in
+export const portfolioHoldings = pgTable("portfolio_holdings", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  propertyId: text("property_id").notNull().references(() => properties.id, { onDelete: "cascade" }),
+  label: text("label"), // e.g. "Unit 1503"
+  sizeSqft: integer("size_sqft").notNull(),
+  purchaseDate: date("purchase_date", { mode: "string" }).notNull(),
+  purchasePriceAED: integer("purchase_price_aed").notNull(),
+  loanAmountAED: integer("loan_amount_aed").notNull().default(0),
+  interestRate: real("interest_rate").notNull().default(0), // annual %
+  loanTermYears: integer("loan_term_years").notNull().default(25),
+  annualRentAED: integer("annual_rent_aed").notNull().default(0), // rent actually received
+  annualServiceChargesAED: integer("annual_service_charges_aed").notNull().default(0),
+  createdAt: timestamp("created_at", { mode: "string" }).notNull().defaultNow(),
+});
+
+const holdingFieldsSchema = createInsertSchema(portfolioHoldings, {
+  propertyId: (schema) => schema.min(1),
+  label: (schema) => schema.trim().max(100),
+  sizeSqft: (schema) => schema.positive(),
+  purchaseDate: (schema) => schema.regex(/^\d{4}-\d{2}-\d{2}$/, "purchaseDate must be YYYY-MM-DD"),
+  purchasePriceAED: (schema) => schema.positive(),
+  loanAmountAED: (schema) => schema.min(0),
+  interestRate: (schema) => schema.min(0).max(30),
+  loanTermYears: (schema) => schema.min(1).max(35),
+  annualRentAED: (schema) => schema.min(0),
+  annualServiceChargesAED: (schema) => schema.min(0),
+}).omit({ id: true, userId: true, createdAt: true });
+
+export const loanWithinPrice = (h: { loanAmountAED?: number; purchasePriceAED?: number }) =>
+  h.loanAmountAED == null || h.purchasePriceAED == null || h.loanAmountAED <= h.purchasePriceAED;
+
+export const insertHoldingSchema = holdingFieldsSchema.refine(loanWithinPrice, {
+  message: "loanAmountAED cannot exceed purchasePriceAED",
+  path: ["loanAmountAED"],
+});
+export const updateHoldingSchema = holdingFieldsSchema.omit({ propertyId: true }).partial();
+
+export type InsertHolding = z.infer<typeof insertHoldingSchema>;
+export type PortfolioHolding = typeof portfolioHoldings.$inferSelect;
+
+export type HoldingPerformance = {
+  holding: PortfolioHolding;
+  property: PropertyPoint;
+  currentValueAED: number;
+  unrealisedGainAED: number;
+  unrealisedGainPct: number;
+  grossYield: number; // rent / purchase price, %
+  netYield: number; // (rent - service charges) / purchase price, %
+  mapYield: number; // the building's rentYield shown on the map
+  monthlyPaymentAED: number;
+  outstandingLoanAED: number;
+  equityAED: number;
+  annualCashFlowAED: number; // rent - service charges - mortgage payments
+};
+
+export type PortfolioSummary = {
+  holdingCount: number;
+  totalCostAED: number;
+  currentValueAED: number;
+  unrealisedGainAED: number;
+  unrealisedGainPct: number;
+  outstandingLoanAED: number;
+  equityAED: number;
+  annualRentAED: number;
+  netYield: number;
+  annualCashFlowAED: number;
+};
+
+export type PortfolioHistoryPoint = { month: string; valueAED: number; costAED: number; equityAED: number };
+
+export type Portfolio = {
+  holdings: HoldingPerformance[];
+  summary: PortfolioSummary;
+  history: PortfolioHistoryPoint[];
+};
+
+export const scoreFactorKeys = ["yield", "price", "momentum", "amenities", "transit"] as const;
+export type ScoreFactorKey = (typeof scoreFactorKeys)[number];
+export type ScoreWeights = Record<ScoreFactorKey, number>;
+
+export const SCORE_FACTOR_LABELS: Record<ScoreFactorKey, string> = {
+  yield: "Yield vs zone",
+  price: "Price vs zone",
+  momentum: "Price momentum",
+  amenities: "Amenity density",
+  transit: "Transit access",
+};
+
+// Relative importance; they need not add up to 100, the engine normalises them
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+  yield: 30,
+  price: 20,
+  momentum: 20,
+  amenities: 15,
+  transit: 15,
+};
+
+export const investmentScoreRequestSchema = z.object({
+  coordinates: z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]),
+  // Catalogue building to score; without it the figures come from /api/estimate's model
+  propertyId: z.string().min(1).optional(),
+  // Amenities are searched client-side, as for area analytics
+  amenities: z.array(z.object({
+    category: z.string().min(1),
+    center: z.tuple([z.number(), z.number()]),
+  })).max(5000).default([]),
+  weights: z.object({
+    yield: z.number().min(0).max(100),
+    price: z.number().min(0).max(100),
+    momentum: z.number().min(0).max(100),
+    amenities: z.number().min(0).max(100),
+    transit: z.number().min(0).max(100),
+  }).partial().optional(),
+});
+
+export type InvestmentScoreRequest = z.infer<typeof investmentScoreRequestSchema>;
+
+export type ScoreFactor = {
+  key: ScoreFactorKey;
+  label: string;
+  score: number | null; // 0-100; null when there is no data and the factor is left out
+  weight: number; // share of the total after normalising, 0-1
+  contribution: number; // points added to the overall score
+  detail: string;
+};
+
+export type InvestmentScore = {
+  score: number; // 0-100
+  factors: ScoreFactor[];
+  weights: ScoreWeights;
+};
+
+export const travelProfiles = ["driving", "walking", "cycling"] as const;
+
+export const propertyReportRequestSchema = investmentScoreRequestSchema.extend({
+  // Names shown on the cover; catalogue buildings use their own
+  name: z.string().max(200).optional(),
+  address: z.string().max(300).optional(),
+  // The amenity table from the stats panel, as searched client-side
+  amenities: z.array(z.object({
+    name: z.string().max(200).default("Unnamed"),
+    category: z.string().min(1),
+    center: z.tuple([z.number(), z.number()]),
+  })).max(500).default([]),
+  // Travel-time contours fetched client-side; the report draws them
+  isochrone: z.object({
+    profile: z.enum(travelProfiles),
+    contours: z.array(z.object({
+      minutes: z.number().positive(),
+      polygon: polygonSchema,
+    })).max(4),
+  }).optional(),
+});
+
+export type PropertyReportRequest = z.infer<typeof propertyReportRequestSchema>;
+
+export const streetViewQuerySchema = z.object({
+  lng: z.coerce.number().min(-180).max(180),
+  lat: z.coerce.number().min(-90).max(90),
+  heading: z.coerce.number().default(0),
+});
+
+export const satelliteQuerySchema = z.object({
+  lng: z.coerce.number().min(-180).max(180),
+  lat: z.coerce.number().min(-90).max(90),
+  zoom: z.coerce.number().int().min(1).max(21).default(18),
+});
+
+export const buildingImagesRequestSchema = z.object({
+  coordinates: z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]),
+  buildingName: z.string().optional(),
+  address: z.string().optional(),
+});
+
+export const imageCachePurgeQuerySchema = z.object({
+  kind: z.enum(["streetview", "satellite"]).optional(),
+});
+
+const lngLatParam = z
+  .string()
+  .transform((v) => v.split(",").map(Number))
+  .refine((v) => v.length === 2 && Math.abs(v[0]) <= 180 && Math.abs(v[1]) <= 90, "expected lng,lat")
+  .transform((v) => v as [number, number]);
+
+export const geocodeQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  limit: z.coerce.number().int().min(1).max(10).default(5),
+  proximity: lngLatParam.optional(),
+  bbox: bboxParam.optional(),
+  types: z.string().regex(/^[a-z_]+(,[a-z_]+)*$/, "types must be a comma-separated list").optional(),
+  autocomplete: z.enum(["true", "false"]).default("true").transform((v) => v === "true"),
+});
+
+export type GeocodeQuery = z.infer<typeof geocodeQuerySchema>;
+
+export const searchBoxQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  limit: z.coerce.number().int().min(1).max(25).default(10),
+  proximity: lngLatParam.optional(),
+  bbox: bboxParam.optional(),
+});
+
+export type SearchBoxQuery = z.infer<typeof searchBoxQuerySchema>;
+
+export const directionsQuerySchema = z.object({
+  profile: z.enum(travelProfiles).default("driving"),
+  from: lngLatParam,
+  to: lngLatParam,
+});
+
+export type DirectionsQuery = z.infer<typeof directionsQuerySchema>;
+
+export const isochroneQuerySchema = z.object({
+  profile: z.enum(travelProfiles).default("driving"),
+  lng: z.coerce.number().min(-180).max(180),
+  lat: z.coerce.number().min(-90).max(90),
+  // Mapbox allows up to four contours of at most an hour
+  minutes: z
+    .string()
+    .default("10,20,30")
+    .transform((v) => v.split(",").map(Number))
+    .refine((v) => v.length >= 1 && v.length <= 4 && v.every((m) => Number.isInteger(m) && m >= 1 && m <= 60), "minutes must be 1-4 whole minutes up to 60"),
+});
+
+export type IsochroneQuery = z.infer<typeof isochroneQuerySchema>;
+
+// A place from the geocoding or Search Box proxy, the same shape whichever answered
+export type GeoPlace = {
+  id: string;
+  name: string;
+  nameAr?: string;
+  fullName: string;
+  center: [number, number];
+  bbox?: [number, number, number, number];
+  placeType: string;
+  category?: string;
+  website?: string;
+  rating?: number;
+};
+
+export type GeoRoute = {
+  geometry: LineString;
+  distanceMeters: number;
+  durationSeconds: number;
+};
+
+// Isochrone features carry only their contour in minutes
+export type IsochroneCollection = FeatureCollection<Polygon, { contour: number }>;
+
+export const searchResultTypes = ["building", "community", "project", "developer"] as const;
+export type SearchResultType = (typeof searchResultTypes)[number];
+
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(100),
+  // Per type, so a strong building match can't crowd out every community
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+  types: z
+    .string()
+    .transform((v) => v.split(","))
+    .refine((v) => v.every((t) => (searchResultTypes as readonly string[]).includes(t)), "types must be a comma-separated list of building, community, project, developer")
+    .transform((v) => v as SearchResultType[])
+    .optional(),
+});
+
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+
+export type SearchResult = {
+  id: string;
+  type: SearchResultType;
+  name: string;
+  nameAr?: string;
+  subtitle: string;
+  center: [number, number];
+  bbox?: [number, number, number, number];
+  // [start, end) character ranges of `name` that matched the query
+  highlights: [number, number][];
+  // The alias or Arabic name that matched when `name` itself didn't
+  matchedAlias?: string;
+  score: number;
+  property?: PropertyPoint; // buildings only
+};
+
+export type SearchResponse = {
+  query: string;
+  groups: { type: SearchResultType; results: SearchResult[] }[];
+};
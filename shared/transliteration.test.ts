@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { KNOWN_NAMES } from "./arabicNames";
+import { smartTranslate, translateArabicText, transliterateArabic } from "./arabicTranslation";
+import { createTransliterator, foldArabic } from "./transliteration";
+import golden from "./transliteration.golden.json";
+
+describe("transliterateArabic", () => {
+  it.each(Object.entries(golden.transliterate))("%s → %s", (arabic, expected) => {
+    expect(transliterateArabic(arabic)).toBe(expected);
+  });
+
+  it("spells every gazetteer name the way the gazetteer does", () => {
+    const mismatches = Object.entries(KNOWN_NAMES).filter(([arabic, latin]) => transliterateArabic(arabic) !== latin);
+    expect(mismatches).toEqual([]);
+  });
+
+  it("assimilates the article before sun letters only when asked", () => {
+    const assimilated = createTransliterator({ article: "assimilated" });
+    expect(assimilated.transliterate("الشمس")).toBe("Ash Shams");
+    expect(assimilated.transliterate("القمر")).toBe("Al Qamr");
+    expect(transliterateArabic("الشمس")).toBe("Al Shams");
+  });
+});
+
+describe("smartTranslate", () => {
+  it.each(Object.entries(golden.translate))("%s → %s", (arabic, expected) => {
+    expect(smartTranslate(arabic)).toBe(expected);
+  });
+
+  it("leaves text without Arabic alone", () => {
+    expect(smartTranslate("Marina Gate 1")).toBe("Marina Gate 1");
+  });
+});
+
+describe("translateArabicText", () => {
+  it("translates known words and keeps the rest in Arabic order", () => {
+    expect(translateArabicText("مستشفى الزهراء")).toBe("Hospital الزهراء");
+  });
+});
+
+describe("createTransliterator", () => {
+  it("learns registered proper nouns, including multi-word ones", () => {
+    const transliterator = createTransliterator();
+    expect(transliterator.transliterate("ميدان ون")).not.toBe("Meydan One");
+    transliterator.register([["ميدان ون", "Meydan One"]]);
+    expect(transliterator.transliterate("ميدان ون")).toBe("Meydan One");
+  });
+
+  it("matches names regardless of tashkeel and hamza spelling", () => {
+    expect(foldArabic("إِعْمَار")).toBe(foldArabic("اعمار"));
+    expect(createTransliterator().transliterate("اعمار")).toBe("Emaar");
+  });
+});
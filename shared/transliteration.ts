@@ -0,0 +1,279 @@
+import { KNOWN_NAMES, KNOWN_SPELLINGS } from "./arabicNames";
+
+// How the definite article reads before a sun letter: UAE signage keeps "Al" throughout
+// ("Al Satwa", "Al Safa"); "assimilated" follows the pronunciation ("As Satwa")
+export type ArticleStyle = "al" | "assimilated";
+
+export type ProperNouns = Record<string, string> | ReadonlyArray<readonly [string, string]>;
+
+export type TransliterateOptions = {
+  // Generic words to translate rather than transliterate ("مسجد" → "Mosque"), keyed like `KNOWN_NAMES`
+  glossary?: Record<string, string>;
+  // Leave words that are neither a known name nor in the glossary in Arabic
+  keepUnknown?: boolean;
+};
+
+export type Transliterator = {
+  transliterate: (text: string, options?: TransliterateOptions) => string;
+  register: (names: ProperNouns) => void;
+};
+
+const SUN_LETTERS = new Set("تثدذرزسشصضطظلن");
+
+const CONSONANTS: Record<string, string> = {
+  "ب": "b", "ت": "t", "ث": "th", "ج": "j", "ح": "h", "خ": "kh", "د": "d", "ذ": "dh",
+  "ر": "r", "ز": "z", "س": "s", "ش": "sh", "ص": "s", "ض": "d", "ط": "t", "ظ": "dh",
+  "ع": "", "غ": "gh", "ف": "f", "ق": "q", "ك": "k", "ل": "l", "م": "m", "ن": "n",
+  "ه": "h", "ء": "", "ؤ": "", "ئ": "",
+};
+
+const HARAKAT: Record<string, string> = {
+  "َ": "a", // fatha
+  "ُ": "u", // damma
+  "ِ": "i", // kasra
+  "ٰ": "a", // dagger alef
+};
+
+const TANWEEN = new Set(["ً", "ٌ", "ٍ"]);
+const SHADDA = "ّ";
+const SUKUN = "ْ";
+const TATWEEL = "ـ";
+
+// Letters and tashkeel, but not the Arabic-Indic digits and punctuation that sit between them
+const ARABIC_WORD = "[\\u0621-\\u065F\\u066E-\\u0671]+";
+const ARABIC_RUN = new RegExp(`${ARABIC_WORD}(?:\\s+${ARABIC_WORD})*`, "g");
+
+const PUNCTUATION: Record<string, string> = { "،": ",", "؛": ";", "؟": "?", "٪": "%" };
+
+/**
+ * Fold an Arabic string to the form names are looked up by: no tashkeel or tatweel, and one
+ * spelling each for alef with hamza, alef maqsura and taa marbuta
+ */
+export function foldArabic(text: string): string {
+  return text
+    .replace(/[\u064B-\u065F\u0670\u0640]/g, "")
+    .replace(/[أإآٱ]/g, "ا")
+    .replace(/ى/g, "ي")
+    .replace(/ة/g, "ه")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+type Letter = { ch: string; vowel?: string; shadda: boolean; sukun: boolean };
+
+// A consonant (possibly silent, like ع) or a vowel, which is what syllable structure is decided on
+type Unit = { kind: "C" | "V"; text: string };
+
+function parseLetters(word: string): { letters: Letter[]; vowelled: boolean } {
+  const letters: Letter[] = [];
+  let vowelled = false;
+  for (const ch of word) {
+    const last = letters[letters.length - 1];
+    if (ch === TATWEEL) continue;
+    if (ch in HARAKAT || TANWEEN.has(ch) || ch === SHADDA || ch === SUKUN) {
+      if (!last) continue;
+      if (ch === SHADDA) last.shadda = true;
+      else {
+        vowelled = true;
+        if (ch === SUKUN) last.sukun = true;
+        // Case endings (tanween) aren't written in names
+        else if (ch in HARAKAT) last.vowel = HARAKAT[ch];
+      }
+      continue;
+    }
+    letters.push({ ch, shadda: false, sukun: false });
+  }
+  return { letters, vowelled };
+}
+
+const isLongVowel = (letter?: Letter) => !!letter && "اىةآ".includes(letter.ch);
+
+function toUnits(letters: Letter[], construct: boolean): Unit[] {
+  const units: Unit[] = [];
+  const push = (kind: Unit["kind"], text: string) => units.push({ kind, text });
+
+  letters.forEach((letter, i) => {
+    const prev = units[units.length - 1];
+    const next = letters[i + 1];
+    const { ch } = letter;
+    const initial = i === 0;
+
+    // A bare alef opening a word before a consonant reads "i", as in "اسلام" (Islam). Unwritten doubling
+    // still drops out ("اتحاد" → "Ithad"), so names like "الاتحاد" (Al Ittihad) belong in the gazetteer
+    if ((ch === "ا" || ch === "ٱ") && initial && next && !isLongVowel(next)) push("V", letter.vowel ?? "i");
+    else if (ch === "ا" || ch === "ٱ" || ch === "آ" || ch === "ى") push("V", "a");
+    else if (ch === "ة") push("V", construct ? "at" : "a");
+    else if (ch === "أ" || ch === "إ") {
+      // Word-initially the hamza only carries the vowel; inside a word it's a (silent) stop
+      if (initial) push("V", letter.vowel ?? (ch === "إ" ? "i" : "a"));
+      else push("C", "");
+    } else if ((ch === "ئ" || ch === "ؤ") && prev?.kind === "V") {
+      // After a long vowel the seat says which vowel follows: "دائرة" → "daira"
+      push("V", letter.vowel ?? (ch === "ئ" ? "i" : "u"));
+    } else if (ch === "و" || ch === "ي") {
+      const consonant = ch === "و" ? "w" : "y";
+      const vowel = ch === "و" ? "u" : "i";
+      if (initial || prev?.kind === "V" || letter.vowel || letter.sukun || letter.shadda) {
+        push("C", letter.shadda ? consonant + consonant : consonant);
+      } else if (ch === "و" && isLongVowel(next)) {
+        push("C", consonant);
+      } else if (isLongVowel(next)) {
+        // "-iya", as in "Rashidiya"
+        push("V", vowel);
+        push("C", consonant);
+      } else {
+        push("V", vowel);
+      }
+    } else if (ch in CONSONANTS) {
+      const text = CONSONANTS[ch];
+      push("C", letter.shadda ? text + text : text);
+    } else {
+      return;
+    }
+
+    if (letter.vowel && units[units.length - 1].kind === "C") push("V", letter.vowel);
+  });
+
+  return units;
+}
+
+/**
+ * Without tashkeel the short vowels have to be guessed. Arabic syllables are CV or CVC, so a
+ * consonant that opens a syllable (word start, or straight after another consonant) and is
+ * followed by a consonant gets an "a": "مركز" → m(a)r-k(a)z → "markaz".
+ */
+function epenthesise(units: Unit[]): Unit[] {
+  const out: Unit[] = [];
+  units.forEach((unit, i) => {
+    const prev = out[out.length - 1];
+    const next = units[i + 1];
+    out.push(unit);
+    if (unit.kind === "C" && next?.kind === "C" && (!prev || prev.kind === "C")) out.push({ kind: "V", text: "a" });
+  });
+  return out;
+}
+
+const capitalise = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+function spell(letters: Letter[], vowelled: boolean, construct: boolean): string {
+  const units = toUnits(letters, construct);
+  return (vowelled ? units : epenthesise(units))
+    .map((u) => u.text)
+    .join("")
+    .replace(/([aiu])\1+/g, "$1");
+}
+
+/**
+ * Rule-based reading of one word: definite article, sun/moon letter assimilation, shadda,
+ * long vowels, and taa marbuta as "-at" when the word heads a construct ("مدينة زايد")
+ */
+function transliterateWord(word: string, article: ArticleStyle, construct: boolean): string {
+  const { letters, vowelled } = parseLetters(word);
+  const hasArticle = letters.length > 3 && (letters[0].ch === "ا" || letters[0].ch === "ٱ") && letters[1].ch === "ل";
+  if (!hasArticle) return capitalise(spell(letters, vowelled, construct));
+
+  const stem = letters.slice(2);
+  const sun = SUN_LETTERS.has(stem[0].ch);
+  // The assimilated sun letter is what the shadda marks; it isn't written twice after the article
+  if (sun) stem[0] = { ...stem[0], shadda: false };
+  const prefix = sun && article === "assimilated" ? `A${CONSONANTS[stem[0].ch]}` : "Al";
+  // A definite noun never heads a construct, so its taa marbuta stays "-a"
+  return `${prefix} ${capitalise(spell(stem, vowelled, false))}`;
+}
+
+// A rendered word or name, and whether it came from the glossary (a generic noun like "Hospital")
+type Rendered = { text: string; translated: boolean };
+
+/**
+ * Arabic puts a noun before whatever qualifies it and English after, so "مستشفى راشد" is "Rashid
+ * Hospital". Constructs nest right to left: "مركز مدينة دبي" → "Dubai City Center".
+ */
+function reorderConstructs(words: Rendered[]): string[] {
+  const head = words.findIndex((w) => w.translated);
+  if (head === -1 || head === words.length - 1) return words.map((w) => w.text);
+  return [...words.slice(0, head).map((w) => w.text), ...reorderConstructs(words.slice(head + 1)), words[head].text];
+}
+
+/**
+ * Arabic to Latin script in UAE conventions. Known proper nouns (including multi-word ones like
+ * "برج خليفة") come from the gazetteer; glossary words are translated; everything else is spelled
+ * out by rule. Non-Arabic text passes through, with Arabic digits and punctuation converted.
+ */
+export function createTransliterator({
+  names = KNOWN_NAMES,
+  article = "al",
+}: { names?: ProperNouns; article?: ArticleStyle } = {}): Transliterator {
+  const known = new Map<string, string>();
+  let longest = 1;
+
+  const register = (entries: ProperNouns) => {
+    for (const [arabic, latin] of Array.isArray(entries) ? entries : Object.entries(entries)) {
+      const key = foldArabic(arabic);
+      if (!key) continue;
+      known.set(key, latin);
+      longest = Math.max(longest, key.split(" ").length);
+    }
+  };
+  register(names);
+  const spellings = new Map(Object.entries(KNOWN_SPELLINGS).map(([arabic, latin]) => [foldArabic(arabic), latin]));
+
+  const glossaries = new WeakMap<Record<string, string>, Map<string, string>>();
+  const foldedGlossary = (glossary: Record<string, string>) => {
+    let folded = glossaries.get(glossary);
+    if (!folded) {
+      folded = new Map(Object.entries(glossary).map(([arabic, english]) => [foldArabic(arabic), english]));
+      glossaries.set(glossary, folded);
+    }
+    return folded;
+  };
+
+  const transliterateRun = (run: string, { glossary, keepUnknown = false }: TransliterateOptions) => {
+    const words = run.split(/\s+/);
+    const translations = glossary ? foldedGlossary(glossary) : undefined;
+    const out: Rendered[] = [];
+    const push = (text: string, translated = false) => out.push({ text, translated });
+
+    for (let i = 0; i < words.length; ) {
+      // Longest known phrase starting here
+      let matched = 0;
+      for (let n = Math.min(longest, words.length - i); n > 0 && !matched; n--) {
+        const name = known.get(foldArabic(words.slice(i, i + n).join(" ")));
+        if (name) {
+          push(name);
+          matched = n;
+        }
+      }
+      if (matched) {
+        i += matched;
+        continue;
+      }
+
+      const word = words[i];
+      const key = foldArabic(word);
+      const stem = key.length > 3 && key.startsWith("ال") ? key.slice(2) : undefined;
+      const name = stem ? known.get(stem) : undefined;
+      const translation = translations?.get(key) ?? (stem ? translations?.get(stem) : undefined);
+
+      if (name) push(`Al ${name}`);
+      else if (translation) push(translation, true);
+      else if (keepUnknown) push(word);
+      else push(spellings.get(key) ?? transliterateWord(word, article, i < words.length - 1));
+      i++;
+    }
+    // Mixed Arabic and English (keepUnknown) keeps the Arabic order, as English order would garble it
+    return (keepUnknown ? out.map((w) => w.text) : reorderConstructs(out)).join(" ");
+  };
+
+  return {
+    register,
+    transliterate: (text, options = {}) => {
+      if (!text) return text;
+      return text
+        .replace(ARABIC_RUN, (run) => transliterateRun(run, options))
+        .replace(/[٠-٩]/g, (digit) => String(digit.charCodeAt(0) - 0x0660))
+        .replace(/[،؛؟٪]/g, (mark) => PUNCTUATION[mark])
+        .replace(/\s+/g, " ")
+        .trim();
+    },
+  };
+}